@@ -1,11 +1,124 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
+import { View, Text, ActivityIndicator, StyleSheet } from 'react-native';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
 import RootNavigator from './src/navigation/RootNavigator';
+import LockScreen from './src/screens/LockScreen';
+import {
+  loadPasscodeLock,
+  runStorageMigrations,
+  recordLocalModeData,
+  startAutoSync,
+} from './src/api';
+import { useAutoLock, usePasscodeLock } from './src/hooks';
+import { STRINGS } from './src/constants';
+import { DARK_THEME_COLORS } from './src/theme/darkTheme';
+
+interface StartupError {
+  title: string;
+  detail: string;
+}
 
 export default function App() {
+  const [lockLoaded, setLockLoaded] = useState(false);
+  const [storageReady, setStorageReady] = useState(false);
+  const [storageError, setStorageError] = useState<StartupError | null>(null);
+  const { status: lockStatus } = usePasscodeLock();
+  const recordActivity = useAutoLock();
+
+  // Find out whether the journal is encrypted before anything reads it
+  useEffect(() => {
+    loadPasscodeLock()
+      .then(() => setLockLoaded(true))
+      .catch((error) => {
+        console.error('Error loading passcode lock:', error);
+        setStorageError({
+          title: STRINGS.ERROR_PASSCODE_LOCK,
+          detail: error instanceof Error ? error.message : String(error),
+        });
+      });
+  }, []);
+
+  // Upgrade saved data before any screen reads it; encrypted data is only readable once unlocked
+  useEffect(() => {
+    if (!lockLoaded || lockStatus === 'locked' || storageReady) {
+      return;
+    }
+    runStorageMigrations()
+      // Before the first sync adds Firestore's copy to the device store
+      .then(() =>
+        recordLocalModeData().catch((error) => {
+          console.error('Error recording local mode data:', error);
+        })
+      )
+      .then(() => setStorageReady(true))
+      .catch((error) => {
+        console.error('Error migrating stored data:', error);
+        setStorageError({
+          title: STRINGS.ERROR_STORAGE_MIGRATION,
+          detail: error instanceof Error ? error.message : STRINGS.ERROR_STORAGE_MIGRATION,
+        });
+      });
+  }, [lockLoaded, lockStatus, storageReady]);
+
+  // Replays offline changes to Firestore and pulls remote ones (synced backend only)
+  useEffect(() => {
+    if (storageReady) {
+      return startAutoSync();
+    }
+  }, [storageReady]);
+
+  if (!lockLoaded || (lockStatus !== 'locked' && !storageReady)) {
+    return (
+      <View style={styles.startup}>
+        {storageError ? (
+          <>
+            <Text style={styles.errorTitle}>{storageError.title}</Text>
+            <Text style={styles.errorDetail}>{storageError.detail}</Text>
+          </>
+        ) : (
+          <ActivityIndicator size="large" color={DARK_THEME_COLORS.primary} />
+        )}
+      </View>
+    );
+  }
+
+  // Every touch counts as activity for the auto-lock; returning false lets it through
   return (
     <SafeAreaProvider>
-      <RootNavigator />
+      <View
+        style={styles.app}
+        onStartShouldSetResponderCapture={() => {
+          recordActivity();
+          return false;
+        }}
+      >
+        {lockStatus === 'locked' ? <LockScreen /> : <RootNavigator />}
+      </View>
     </SafeAreaProvider>
   );
 }
+
+const styles = StyleSheet.create({
+  app: {
+    flex: 1,
+  },
+  startup: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+    backgroundColor: DARK_THEME_COLORS.background,
+  },
+  errorTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: DARK_THEME_COLORS.text,
+    textAlign: 'center',
+  },
+  errorDetail: {
+    fontSize: 14,
+    color: DARK_THEME_COLORS.textSecondary,
+    textAlign: 'center',
+    marginTop: 8,
+  },
+});
@@ -0,0 +1,7 @@
+// Service tests run on the in-memory backend; random bytes come from Node instead of the native module
+jest.mock('expo-crypto', () => ({
+  getRandomBytes: (count: number) => new Uint8Array(require('crypto').randomBytes(count)),
+}));
+
+// Backend selection is announced on every configureStorage call
+jest.spyOn(console, 'log').mockImplementation(() => undefined);
@@ -0,0 +1,157 @@
+import {
+  exportJournalBackup,
+  isEncryptedBackup,
+  readBackup,
+  previewRestore,
+  restoreBackup,
+  createAccount,
+  createEntry,
+  updateEntry,
+  getAllAccounts,
+  getEntriesByAccount,
+  InvalidBackupPasswordError,
+  JournalBackup,
+  ValidationError,
+} from '..';
+import { day, readAccount, startJournal } from './journal';
+
+// A time after every record the tests write, so a backup copy counts as the newer one
+const LATER = new Date(Date.now() + 60 * 60 * 1000);
+
+/**
+ * Export the journal and read the file back
+ */
+const takeBackup = async (): Promise<JournalBackup> =>
+  readBackup((await exportJournalBackup()).content);
+
+describe('journal backup', () => {
+  let accountId: string;
+
+  beforeEach(async () => {
+    accountId = await startJournal(10000);
+    await createEntry({ accountId, date: day(2024, 3, 1), profitLoss: 100, notes: 'First' });
+    await createEntry({ accountId, date: day(2024, 3, 2), profitLoss: 50 });
+  });
+
+  it('reads back what it exported, with dates as dates', async () => {
+    const backup = await takeBackup();
+
+    expect(backup.accounts).toHaveLength(1);
+    expect(backup.accounts[0]).toMatchObject({ id: accountId, initialBalance: 10000 });
+    expect(backup.entries.map((entry) => entry.profitLoss).sort((a, b) => a - b)).toEqual([
+      50, 100,
+    ]);
+    expect(backup.entries[0].date).toBeInstanceOf(Date);
+    expect(backup.accounts[0].ownerId).toBeUndefined();
+  });
+
+  it('refuses files that are not backups or come from a newer version', async () => {
+    const { content } = await exportJournalBackup();
+    const newer = JSON.stringify({ ...JSON.parse(content), version: 99 });
+
+    await expect(readBackup('not json')).rejects.toThrow('The file is not valid JSON');
+    await expect(readBackup('{"format":"other"}')).rejects.toBeInstanceOf(ValidationError);
+    await expect(readBackup(newer)).rejects.toThrow('newer version of the app');
+  });
+
+  it('plans a merge by comparing each record with the journal copy', async () => {
+    const backup = await takeBackup();
+    const [first, second] = [...backup.entries].sort((a, b) => a.date.getTime() - b.date.getTime());
+    // Edited in the journal after the backup: the journal copy is kept
+    await updateEntry(first.id, { notes: 'Edited later' });
+    // Recorded in the journal after the backup, on the day a new backup entry also uses
+    await createEntry({ accountId, date: day(2024, 3, 3), profitLoss: 25 });
+
+    const merged: JournalBackup = {
+      ...backup,
+      entries: [
+        first,
+        { ...second, profitLoss: 80, updatedAt: LATER },
+        { ...second, id: 'backup-only', date: day(2024, 3, 3), profitLoss: 999 },
+        { ...second, id: 'new-day', date: day(2024, 3, 4), profitLoss: -30 },
+      ],
+    };
+    const preview = await previewRestore(merged, 'merge');
+
+    expect(preview.accounts).toMatchObject({ added: 0, kept: 1 });
+    expect(preview.entries).toMatchObject({ added: 1, overwritten: 1, kept: 1, skipped: 1 });
+    expect(preview.settingsReplaced).toBe(false);
+
+    await restoreBackup(merged, 'merge');
+    const entries = await getEntriesByAccount(accountId);
+    expect(entries).toHaveLength(4);
+    expect(entries.find((entry) => entry.id === first.id)?.notes).toBe('Edited later');
+    expect(entries.find((entry) => entry.id === 'backup-only')).toBeUndefined();
+    // 10000 + 100 + 80 + 25 - 30, rebuilt rather than taken from the backup
+    expect((await readAccount(accountId)).currentBalance).toBe(10175);
+  });
+
+  it('gives a new id to a backup record whose id belongs to another account here', async () => {
+    const backup = await takeBackup();
+    const otherId = await createAccount({
+      name: 'Other',
+      broker: 'Broker',
+      initialBalance: 500,
+      currency: 'USD',
+    });
+    const taken = await createEntry({ accountId: otherId, date: day(2024, 3, 5), profitLoss: 5 });
+
+    const merged: JournalBackup = {
+      ...backup,
+      entries: [{ ...backup.entries[0], id: taken, date: day(2024, 3, 6), profitLoss: 60 }],
+    };
+    expect((await previewRestore(merged, 'merge')).reassignedIds).toBe(1);
+
+    await restoreBackup(merged, 'merge');
+    expect(await getEntriesByAccount(otherId)).toEqual([
+      expect.objectContaining({ id: taken, profitLoss: 5 }),
+    ]);
+    expect(await getEntriesByAccount(accountId)).toHaveLength(3);
+  });
+
+  it('replaces the whole journal with the backup', async () => {
+    const backup = await takeBackup();
+    await createAccount({ name: 'Later', broker: 'Broker', initialBalance: 100, currency: 'USD' });
+    await createEntry({ accountId, date: day(2024, 3, 3), profitLoss: 25 });
+
+    const preview = await previewRestore(backup, 'replace');
+    expect(preview.accounts).toMatchObject({ overwritten: 1, removed: 1, added: 0 });
+    expect(preview.entries).toMatchObject({ overwritten: 2, removed: 1, added: 0 });
+
+    await restoreBackup(backup, 'replace');
+    expect(await getAllAccounts()).toHaveLength(1);
+    expect(await getEntriesByAccount(accountId)).toHaveLength(2);
+    expect((await readAccount(accountId)).currentBalance).toBe(10150);
+  });
+});
+
+describe('password-protected backup', () => {
+  // Each key derivation runs the full PBKDF2 work in JavaScript
+  jest.setTimeout(60000);
+
+  beforeEach(async () => {
+    await startJournal(10000);
+  });
+
+  it('opens only with its password', async () => {
+    const { content, fileName } = await exportJournalBackup('correct horse');
+
+    expect(fileName).toMatch(/-encrypted\.json$/);
+    expect(isEncryptedBackup(content)).toBe(true);
+    expect(content).not.toContain('Main');
+    await expect(readBackup(content)).rejects.toThrow('enter its password');
+    await expect(readBackup(content, 'wrong horse')).rejects.toBeInstanceOf(
+      InvalidBackupPasswordError
+    );
+    expect((await readBackup(content, 'correct horse')).accounts[0].name).toBe('Main');
+  });
+
+  it('refuses a short password', async () => {
+    await expect(exportJournalBackup('short')).rejects.toBeInstanceOf(ValidationError);
+  });
+
+  it('is not mistaken for a plain backup', async () => {
+    expect(isEncryptedBackup((await exportJournalBackup()).content)).toBe(false);
+    expect(isEncryptedBackup('not json')).toBe(false);
+  });
+});
@@ -0,0 +1,178 @@
+import {
+  parseImportDate,
+  parseImportAmount,
+  readCsvImport,
+  guessCsvImportOptions,
+  previewCsvImport,
+  importCsvEntries,
+  createEntry,
+  createTrade,
+  getEntriesByAccount,
+  ValidationError,
+} from '..';
+import { decodeTextFile } from '../../utils/spreadsheet';
+import { day, readAccount, readFixture, startJournal } from './journal';
+
+describe('parseImportDate', () => {
+  it('reads ISO dates whatever the format', () => {
+    expect(parseImportDate('2024-03-05', 'mdy')).toEqual(new Date(2024, 2, 5));
+    expect(parseImportDate('2024-03-05T18:30:00Z', 'dmy')).toEqual(new Date(2024, 2, 5));
+  });
+
+  it('reads other dates day-first or month-first', () => {
+    expect(parseImportDate('05/03/2024', 'dmy')).toEqual(new Date(2024, 2, 5));
+    expect(parseImportDate('03/05/2024', 'mdy')).toEqual(new Date(2024, 2, 5));
+    expect(parseImportDate('5.3.24', 'dmy')).toEqual(new Date(2024, 2, 5));
+  });
+
+  it('rejects days that do not exist and text that is not a date', () => {
+    expect(parseImportDate('31/02/2024', 'dmy')).toBeNull();
+    expect(parseImportDate('13/13/2024', 'mdy')).toBeNull();
+    expect(parseImportDate('yesterday', 'dmy')).toBeNull();
+  });
+});
+
+describe('parseImportAmount', () => {
+  it('reads either decimal separator with thousands separators and symbols', () => {
+    expect(parseImportAmount('$1,250.50', '.')).toBe(1250.5);
+    expect(parseImportAmount('1.250,50 €', ',')).toBe(1250.5);
+    expect(parseImportAmount('-75', '.')).toBe(-75);
+  });
+
+  it('reads amounts in parentheses as negative', () => {
+    expect(parseImportAmount('(300.00)', '.')).toBe(-300);
+  });
+
+  it('rejects cells without a number', () => {
+    expect(parseImportAmount('', '.')).toBeNull();
+    expect(parseImportAmount('n/a', '.')).toBeNull();
+  });
+});
+
+describe('CSV import', () => {
+  let accountId: string;
+
+  beforeEach(async () => {
+    accountId = await startJournal(10000);
+  });
+
+  it('guesses the mapping and formats of a semicolon-separated file', () => {
+    const source = readCsvImport('journal.csv', decodeTextFile(readFixture('journal.csv')));
+
+    expect(source.header).toEqual(['Fecha', 'Resultado', 'Tipo', 'Notas']);
+    expect(source.rows).toHaveLength(6);
+    expect(guessCsvImportOptions(source)).toEqual({
+      mapping: { date: 0, profitLoss: 1, type: 2, notes: 3 },
+      dateFormat: 'dmy',
+      decimalSeparator: ',',
+    });
+  });
+
+  it('rejects a file with no data rows', () => {
+    expect(() => readCsvImport('empty.csv', 'Date,P/L\n')).toThrow(ValidationError);
+  });
+
+  it('previews valid rows in date order and invalid rows with their reason', async () => {
+    const source = readCsvImport('journal.csv', decodeTextFile(readFixture('journal.csv')));
+    const preview = await previewCsvImport(accountId, source, guessCsvImportOptions(source));
+
+    expect(preview).toMatchObject({ readyCount: 3, duplicateCount: 0, invalidCount: 3 });
+    expect(preview.rows.slice(0, 3)).toEqual([
+      expect.objectContaining({ line: 2, profitLoss: 1250.5, notes: 'Buen día' }),
+      expect.objectContaining({ line: 3, profitLoss: -300, notes: 'Stop; revisar' }),
+      expect.objectContaining({ line: 4, profitLoss: -500, type: 'withdrawal' }),
+    ]);
+    expect(preview.rows.slice(3).map((row) => row.error)).toEqual([
+      'Unreadable amount "abc"',
+      'Unreadable date "31/02/2024"',
+      'Unknown type "Bonus"',
+    ]);
+  });
+
+  it('imports the ready rows and rebuilds the balances', async () => {
+    const source = readCsvImport('journal.csv', decodeTextFile(readFixture('journal.csv')));
+    const preview = await previewCsvImport(accountId, source, guessCsvImportOptions(source));
+
+    expect(await importCsvEntries(preview, 'skip')).toEqual({ created: 3, merged: 0, skipped: 3 });
+    const account = await readAccount(accountId);
+    expect(account.currentBalance).toBe(10450.5);
+    expect(account.netCashFlow).toBe(-500);
+    expect(await getEntriesByAccount(accountId)).toHaveLength(3);
+  });
+
+  it('marks days already in the journal or earlier in the file as duplicates', async () => {
+    await createEntry({ accountId, date: day(2024, 3, 1), profitLoss: 40 });
+    const source = readCsvImport(
+      'pl.csv',
+      'Date,P/L\n2024-03-01,100\n2024-03-02,20\n2024-03-02,30\n'
+    );
+    const preview = await previewCsvImport(accountId, source, guessCsvImportOptions(source));
+
+    expect(preview.rows.map((row) => [row.status, row.duplicateOf])).toEqual([
+      ['duplicate', 'entry'],
+      ['ready', undefined],
+      ['duplicate', 'row'],
+    ]);
+    expect(preview.mergeableCount).toBe(2);
+
+    expect(await importCsvEntries(preview, 'merge')).toEqual({ created: 1, merged: 2, skipped: 0 });
+    const entries = await getEntriesByAccount(accountId);
+    expect(entries.map((entry) => entry.profitLoss).sort((a, b) => a - b)).toEqual([50, 140]);
+  });
+
+  it('derives each P/L from a balance column', async () => {
+    await createEntry({ accountId, date: day(2024, 3, 2), profitLoss: 100 });
+    const source = readCsvImport(
+      'balances.csv',
+      'Date,Balance\n2024-03-01,10200\n2024-03-03,10250\n'
+    );
+    const preview = await previewCsvImport(accountId, source, guessCsvImportOptions(source));
+
+    // The stored entry between the two rows moved the balance by 100 already
+    expect(preview.rows.map((row) => row.profitLoss)).toEqual([200, -50]);
+  });
+
+  it('never adds to a day that has trades or that a balance column already counts', async () => {
+    const traded = await createEntry({ accountId, date: day(2024, 3, 1), profitLoss: 0 });
+    await createTrade({
+      accountId,
+      entryId: traded,
+      symbol: 'EURUSD',
+      direction: 'buy',
+      lotSize: 1,
+      entryPrice: 1.1,
+      exitPrice: 1.2,
+      openTime: day(2024, 3, 1),
+      closeTime: day(2024, 3, 1),
+      profitLoss: 100,
+    });
+    await createEntry({ accountId, date: day(2024, 3, 2), profitLoss: 50 });
+
+    const byProfit = readCsvImport('pl.csv', 'Date,P/L\n2024-03-01,30\n2024-03-02,20\n');
+    const profitPreview = await previewCsvImport(
+      accountId,
+      byProfit,
+      guessCsvImportOptions(byProfit)
+    );
+    expect(profitPreview.rows.map((row) => row.unmergeable)).toEqual([
+      'Day has trades',
+      undefined,
+    ]);
+
+    const byBalance = readCsvImport('balances.csv', 'Date,Balance\n2024-03-02,10150\n');
+    const balancePreview = await previewCsvImport(
+      accountId,
+      byBalance,
+      guessCsvImportOptions(byBalance)
+    );
+    expect(balancePreview.rows[0].unmergeable).toBe('Balance already counts that entry');
+    expect(balancePreview.mergeableCount).toBe(0);
+
+    expect(await importCsvEntries(profitPreview, 'merge')).toEqual({
+      created: 0,
+      merged: 1,
+      skipped: 1,
+    });
+    expect((await readAccount(accountId)).currentBalance).toBe(10170);
+  });
+});
@@ -0,0 +1,194 @@
+import {
+  createEntry,
+  updateEntry,
+  deleteEntry,
+  restoreEntry,
+  getEntriesByAccount,
+  createTrade,
+  deleteTrade,
+  DuplicateEntryError,
+  ValidationError,
+} from '..';
+import { CreateTradeInput } from '../../models';
+import { day, readAccount, startJournal } from './journal';
+
+/**
+ * Balance of every entry of the account, oldest first
+ */
+const balances = async (accountId: string): Promise<number[]> =>
+  (await getEntriesByAccount(accountId))
+    .sort((a, b) => a.date.getTime() - b.date.getTime())
+    .map((entry) => entry.balance);
+
+/**
+ * A closed trade on a day, with the P/L given
+ */
+const trade = (
+  accountId: string,
+  entryId: string,
+  date: Date,
+  profitLoss: number
+): CreateTradeInput => ({
+  accountId,
+  entryId,
+  symbol: 'EURUSD',
+  direction: 'buy',
+  lotSize: 1,
+  entryPrice: 1.1,
+  exitPrice: 1.2,
+  openTime: date,
+  closeTime: date,
+  profitLoss,
+});
+
+describe('entry ledger', () => {
+  let accountId: string;
+
+  beforeEach(async () => {
+    accountId = await startJournal(10000);
+  });
+
+  it('derives running balances and the account balance from the P/L', async () => {
+    await createEntry({ accountId, date: day(2024, 3, 1), profitLoss: 100 });
+    await createEntry({ accountId, date: day(2024, 3, 2), profitLoss: -40 });
+
+    expect(await balances(accountId)).toEqual([10100, 10060]);
+    expect((await readAccount(accountId)).currentBalance).toBe(10060);
+  });
+
+  it('re-derives later balances when an earlier day is added or changed', async () => {
+    await createEntry({ accountId, date: day(2024, 3, 2), profitLoss: 50 });
+    const first = await createEntry({ accountId, date: day(2024, 3, 1), profitLoss: 200 });
+    expect(await balances(accountId)).toEqual([10200, 10250]);
+
+    await updateEntry(first, { profitLoss: -100 });
+    expect(await balances(accountId)).toEqual([9900, 9950]);
+    expect((await readAccount(accountId)).currentBalance).toBe(9950);
+  });
+
+  it('leaves trashed entries out of the balance until they are restored', async () => {
+    await createEntry({ accountId, date: day(2024, 3, 1), profitLoss: 100 });
+    const second = await createEntry({ accountId, date: day(2024, 3, 2), profitLoss: 300 });
+
+    await deleteEntry(second);
+    expect((await readAccount(accountId)).currentBalance).toBe(10100);
+
+    await restoreEntry(second);
+    expect((await readAccount(accountId)).currentBalance).toBe(10400);
+  });
+
+  it('tracks cash flows in the balance and the net cash flow', async () => {
+    await createEntry({ accountId, date: day(2024, 3, 1), profitLoss: 100 });
+    await createEntry({ accountId, date: day(2024, 3, 1), profitLoss: -1000, type: 'withdrawal' });
+
+    const account = await readAccount(accountId);
+    expect(account.currentBalance).toBe(9100);
+    expect(account.netCashFlow).toBe(-1000);
+  });
+});
+
+describe('one trading entry per day', () => {
+  let accountId: string;
+
+  beforeEach(async () => {
+    accountId = await startJournal();
+  });
+
+  it('rejects a second entry for the same day with the existing one', async () => {
+    const existing = await createEntry({ accountId, date: day(2024, 3, 1), profitLoss: 100 });
+
+    const attempt = createEntry({ accountId, date: day(2024, 3, 1), profitLoss: 50 });
+    await expect(attempt).rejects.toBeInstanceOf(DuplicateEntryError);
+    await expect(attempt).rejects.toMatchObject({ existingEntry: { id: existing } });
+  });
+
+  it('merges into the existing entry when asked to', async () => {
+    const existing = await createEntry({
+      accountId,
+      date: day(2024, 3, 1),
+      profitLoss: 100,
+      notes: 'Morning',
+    });
+
+    const merged = await createEntry(
+      { accountId, date: day(2024, 3, 1), profitLoss: 50, notes: 'Afternoon' },
+      { onDuplicate: 'merge' }
+    );
+
+    const entries = await getEntriesByAccount(accountId);
+    expect(merged).toBe(existing);
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({ profitLoss: 150, notes: 'Morning\nAfternoon' });
+  });
+
+  it('rejects moving an entry onto a day that already has one', async () => {
+    await createEntry({ accountId, date: day(2024, 3, 1), profitLoss: 100 });
+    const second = await createEntry({ accountId, date: day(2024, 3, 2), profitLoss: 50 });
+
+    await expect(updateEntry(second, { date: day(2024, 3, 1) })).rejects.toBeInstanceOf(
+      DuplicateEntryError
+    );
+  });
+
+  it('lets a trashed day be recorded again, then refuses to restore the old entry', async () => {
+    const trashed = await createEntry({ accountId, date: day(2024, 3, 1), profitLoss: 100 });
+    await deleteEntry(trashed);
+    await createEntry({ accountId, date: day(2024, 3, 1), profitLoss: 70 });
+
+    await expect(restoreEntry(trashed)).rejects.toBeInstanceOf(DuplicateEntryError);
+  });
+
+  it('rejects entries dated in the future', async () => {
+    const tomorrow = new Date();
+    tomorrow.setDate(tomorrow.getDate() + 1);
+
+    await expect(createEntry({ accountId, date: tomorrow, profitLoss: 10 })).rejects.toBeInstanceOf(
+      ValidationError
+    );
+  });
+});
+
+describe('days with trades', () => {
+  let accountId: string;
+  let entryId: string;
+
+  beforeEach(async () => {
+    accountId = await startJournal(10000);
+    entryId = await createEntry({ accountId, date: day(2024, 3, 1), profitLoss: 0 });
+  });
+
+  it('take their P/L from the sum of their trades', async () => {
+    await createTrade(trade(accountId, entryId, day(2024, 3, 1), 120));
+    const loser = await createTrade(trade(accountId, entryId, day(2024, 3, 1), -20));
+    expect((await readAccount(accountId)).currentBalance).toBe(10100);
+
+    await deleteTrade(loser);
+    expect((await getEntriesByAccount(accountId))[0].profitLoss).toBe(120);
+    expect((await readAccount(accountId)).currentBalance).toBe(10120);
+  });
+
+  it('refuse a P/L edit but accept other changes', async () => {
+    await createTrade(trade(accountId, entryId, day(2024, 3, 1), 120));
+
+    await expect(updateEntry(entryId, { profitLoss: 500 })).rejects.toBeInstanceOf(
+      ValidationError
+    );
+    await updateEntry(entryId, { profitLoss: 120, notes: 'Reviewed' });
+    expect((await getEntriesByAccount(accountId))[0]).toMatchObject({
+      profitLoss: 120,
+      notes: 'Reviewed',
+    });
+  });
+
+  it('refuse a merged P/L', async () => {
+    await createTrade(trade(accountId, entryId, day(2024, 3, 1), 120));
+
+    await expect(
+      createEntry(
+        { accountId, date: day(2024, 3, 1), profitLoss: 30 },
+        { onDuplicate: 'merge' }
+      )
+    ).rejects.toBeInstanceOf(ValidationError);
+    expect((await readAccount(accountId)).currentBalance).toBe(10120);
+  });
+});
@@ -0,0 +1,41 @@
+/**
+ * Shared setup for service tests: a fresh in-memory journal with one account
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { configureStorage, createAccount, getAccountById } from '..';
+import { TradingAccount } from '../../models';
+
+/**
+ * Local calendar day at noon, so trading-day keys never shift with the time zone
+ */
+export const day = (year: number, month: number, date: number): Date =>
+  new Date(year, month - 1, date, 12);
+
+/**
+ * Start an empty in-memory journal and create an account in it. Returns the account id.
+ */
+export const startJournal = async (initialBalance = 10000): Promise<string> => {
+  configureStorage('memory');
+  await AsyncStorage.clear();
+  return createAccount({ name: 'Main', broker: 'Broker', initialBalance, currency: 'USD' });
+};
+
+/**
+ * Read an account that must exist
+ */
+export const readAccount = async (id: string): Promise<TradingAccount> => {
+  const account = await getAccountById(id);
+  if (!account) {
+    throw new Error(`Account ${id} is missing`);
+  }
+  return account;
+};
+
+/**
+ * Bytes of a file in the fixtures folder
+ */
+export const readFixture = (name: string): Uint8Array =>
+  new Uint8Array(readFileSync(join(__dirname, 'fixtures', name)));
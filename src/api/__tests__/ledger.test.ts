@@ -0,0 +1,65 @@
+import { DailyEntry } from '../../models';
+import { rebuildLedger, sortChronologically } from '../ledger';
+
+/**
+ * Build a stored entry with the fields the ledger reads
+ */
+const entry = (id: string, date: string, profitLoss: number, extra: Partial<DailyEntry> = {}) =>
+  ({
+    id,
+    accountId: 'account',
+    date: new Date(date),
+    profitLoss,
+    balance: 0,
+    createdAt: new Date(date),
+    updatedAt: new Date(date),
+    ...extra,
+  }) as DailyEntry;
+
+describe('rebuildLedger', () => {
+  it('adds P/L to the initial balance in date order', () => {
+    const ledger = rebuildLedger(1000, [
+      entry('c', '2024-03-03T12:00:00', 30),
+      entry('a', '2024-03-01T12:00:00', 100),
+      entry('b', '2024-03-02T12:00:00', -50),
+    ]);
+
+    expect(ledger.entries.map((item) => [item.id, item.balance])).toEqual([
+      ['a', 1100],
+      ['b', 1050],
+      ['c', 1080],
+    ]);
+    expect(ledger.currentBalance).toBe(1080);
+  });
+
+  it('counts cash flows in the balance and in the net cash flow', () => {
+    const ledger = rebuildLedger(1000, [
+      entry('day', '2024-03-01T12:00:00', 200),
+      entry('out', '2024-03-02T12:00:00', -500, { type: 'withdrawal' }),
+      entry('in', '2024-03-03T12:00:00', 250, { type: 'deposit' }),
+    ]);
+
+    expect(ledger.currentBalance).toBe(950);
+    expect(ledger.netCashFlow).toBe(-250);
+  });
+
+  it('returns the initial balance for an empty journal', () => {
+    expect(rebuildLedger(500, [])).toEqual({ entries: [], currentBalance: 500, netCashFlow: 0 });
+  });
+});
+
+describe('sortChronologically', () => {
+  it('orders entries of the same day by creation time', () => {
+    const first = entry('first', '2024-03-01T12:00:00', 0, {
+      createdAt: new Date('2024-03-01T08:00:00'),
+    });
+    const second = entry('second', '2024-03-01T12:00:00', 0, {
+      createdAt: new Date('2024-03-01T09:00:00'),
+    });
+
+    expect(sortChronologically([second, first]).map((item) => item.id)).toEqual([
+      'first',
+      'second',
+    ]);
+  });
+});
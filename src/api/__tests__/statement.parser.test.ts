@@ -0,0 +1,150 @@
+import { parseStatement, ValidationError } from '..';
+import { readFixture } from './journal';
+
+/**
+ * Encode markup as a saved statement file
+ */
+const toBytes = (html: string): Uint8Array => new TextEncoder().encode(html);
+
+describe('parseStatement', () => {
+  describe('MT4 detailed statement', () => {
+    const statement = parseStatement('Statement.htm', readFixture('mt4-statement.htm'));
+
+    it('reads the account details and closing balance', () => {
+      expect(statement).toMatchObject({
+        platform: 'MT4',
+        fileName: 'Statement.htm',
+        accountNumber: '1234567',
+        currency: 'USD',
+        closingBalance: 9587.8,
+        unreadableRows: 0,
+      });
+    });
+
+    it('reads closed buy and sell trades and skips cancelled orders', () => {
+      expect(statement.trades).toEqual([
+        {
+          ticket: '50002',
+          symbol: 'eurusd',
+          direction: 'buy',
+          lotSize: 1,
+          openTime: new Date(2024, 2, 5, 10, 15, 0),
+          openPrice: 1.085,
+          closeTime: new Date(2024, 2, 5, 14, 45, 30),
+          closePrice: 1.088,
+          stopLoss: 1.08,
+          takeProfit: undefined,
+          commission: -7,
+          swap: 0,
+          profit: 300,
+        },
+        {
+          ticket: '50003',
+          symbol: 'gbpusd',
+          direction: 'sell',
+          lotSize: 0.5,
+          openTime: new Date(2024, 2, 6, 8, 30, 0),
+          openPrice: 1.27,
+          closeTime: new Date(2024, 2, 7, 11, 0, 0),
+          closePrice: 1.274,
+          stopLoss: undefined,
+          takeProfit: 1.26,
+          // Taxes count as commission
+          commission: -4,
+          swap: -1.2,
+          profit: -200,
+        },
+      ]);
+    });
+
+    it('reads balance rows as deposits and withdrawals', () => {
+      expect(statement.balanceOperations).toEqual([
+        {
+          ticket: '50001',
+          time: new Date(2024, 2, 4, 9, 0, 0),
+          type: 'deposit',
+          amount: 10000,
+          comment: 'Deposit',
+        },
+        {
+          ticket: '50005',
+          time: new Date(2024, 2, 8, 16, 0, 0),
+          type: 'withdrawal',
+          amount: -500,
+          comment: 'Withdrawal',
+        },
+      ]);
+    });
+  });
+
+  describe('MT5 history report', () => {
+    const statement = parseStatement('ReportHistory.html', readFixture('mt5-report.html'));
+
+    it('reads the account details and closing balance', () => {
+      expect(statement).toMatchObject({
+        platform: 'MT5',
+        accountNumber: '7654321',
+        currency: 'EUR',
+        closingBalance: 5082.65,
+      });
+    });
+
+    it('reads closed positions, including partly closed volume', () => {
+      expect(
+        statement.trades.map((trade) => [trade.ticket, trade.direction, trade.lotSize])
+      ).toEqual([
+        ['800001', 'buy', 0.1],
+        ['800002', 'sell', 0.5],
+      ]);
+      expect(statement.trades[0]).toMatchObject({
+        symbol: 'XAUUSD',
+        openPrice: 2110.5,
+        closePrice: 2125.5,
+        stopLoss: 2100,
+        takeProfit: 2130,
+        commission: -0.7,
+        profit: 150,
+      });
+    });
+
+    it('counts positions whose times cannot be read', () => {
+      expect(statement.unreadableRows).toBe(1);
+    });
+
+    it('reads balance deals and charges but not credit', () => {
+      expect(statement.balanceOperations).toEqual([
+        {
+          ticket: '900001',
+          time: new Date(2024, 2, 4, 8, 0, 0),
+          type: 'deposit',
+          amount: 5000,
+          comment: 'Initial deposit',
+        },
+        {
+          ticket: '900004',
+          time: new Date(2024, 2, 8, 0, 0, 0),
+          type: 'adjustment',
+          amount: -12,
+          comment: 'charge',
+        },
+      ]);
+    });
+  });
+
+  it('rejects files that are not statements', () => {
+    expect(() =>
+      parseStatement('table.html', toBytes('<table><tr><td>Hello</td></tr></table>'))
+    ).toThrow(ValidationError);
+  });
+
+  it('rejects statements without transactions', () => {
+    const empty =
+      '<table><tr><td colspan=13>Closed Transactions:</td></tr>' +
+      '<tr><td>Ticket</td><td>Open Time</td><td>Type</td></tr>' +
+      '<tr><td colspan=13>No transactions</td></tr></table>';
+
+    expect(() => parseStatement('Statement.htm', toBytes(empty))).toThrow(
+      'The statement has no closed trades or balance operations'
+    );
+  });
+});
@@ -0,0 +1,97 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  createKeySalt,
+  deriveStorageKey,
+  encryptValue,
+  decryptValue,
+  isEncryptedValue,
+  setStorageEncryption,
+  readStoredValue,
+  writeStoredValue,
+} from '../storage.crypto';
+import { JournalLockedError, StorageReadError } from '../errors';
+
+// Few rounds keep the tests fast; the derivation itself is the same
+const TEST_ITERATIONS = 1000;
+
+describe('storage encryption', () => {
+  let key: Uint8Array;
+
+  beforeAll(async () => {
+    key = await deriveStorageKey('123456', createKeySalt(), TEST_ITERATIONS);
+  });
+
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+  });
+
+  afterEach(() => {
+    setStorageEncryption(false, null);
+  });
+
+  it('derives the same key from the same passcode and salt only', async () => {
+    const salt = createKeySalt();
+    const first = await deriveStorageKey('123456', salt, TEST_ITERATIONS);
+
+    expect(await deriveStorageKey('123456', salt, TEST_ITERATIONS)).toEqual(first);
+    expect(await deriveStorageKey('654321', salt, TEST_ITERATIONS)).not.toEqual(first);
+    expect(await deriveStorageKey('123456', createKeySalt(), TEST_ITERATIONS)).not.toEqual(first);
+  });
+
+  it('round-trips a value and seals it with a fresh nonce each time', () => {
+    const value = JSON.stringify({ notes: 'Día con ñ y emoji 📈' });
+    const sealed = encryptValue('@journal:entries', value, key);
+
+    expect(isEncryptedValue(sealed)).toBe(true);
+    expect(sealed).not.toContain('notes');
+    expect(decryptValue('@journal:entries', sealed, key)).toBe(value);
+    expect(encryptValue('@journal:entries', value, key)).not.toBe(sealed);
+  });
+
+  it('refuses a wrong key, another storage key or an altered value', async () => {
+    const sealed = encryptValue('@journal:entries', 'secret', key);
+    const otherKey = await deriveStorageKey('000000', createKeySalt(), TEST_ITERATIONS);
+    const altered = sealed.slice(0, -4) + (sealed.endsWith('AAAA') ? 'BBBB' : 'AAAA');
+
+    expect(() => decryptValue('@journal:entries', sealed, otherKey)).toThrow();
+    expect(() => decryptValue('@journal:accounts', sealed, key)).toThrow();
+    expect(() => decryptValue('@journal:entries', altered, key)).toThrow();
+  });
+
+  it('stores values encrypted while a key is loaded', async () => {
+    setStorageEncryption(true, key);
+    await writeStoredValue('@journal:accounts', '[1,2,3]');
+
+    expect(isEncryptedValue((await AsyncStorage.getItem('@journal:accounts')) ?? '')).toBe(true);
+    expect(await readStoredValue('@journal:accounts')).toBe('[1,2,3]');
+  });
+
+  it('reads plain values written before the lock was set', async () => {
+    await writeStoredValue('@journal:accounts', '[]');
+    setStorageEncryption(true, key);
+
+    expect(await readStoredValue('@journal:accounts')).toBe('[]');
+  });
+
+  it('refuses to read or write while locked', async () => {
+    setStorageEncryption(true, key);
+    await writeStoredValue('@journal:accounts', '[]');
+    setStorageEncryption(true, null);
+
+    await expect(readStoredValue('@journal:accounts')).rejects.toBeInstanceOf(JournalLockedError);
+    await expect(writeStoredValue('@journal:accounts', '[]')).rejects.toBeInstanceOf(
+      JournalLockedError
+    );
+  });
+
+  it('reports a value sealed under another key as unreadable', async () => {
+    const otherKey = await deriveStorageKey('000000', createKeySalt(), TEST_ITERATIONS);
+    await AsyncStorage.setItem(
+      '@journal:accounts',
+      encryptValue('@journal:accounts', '[]', otherKey)
+    );
+    setStorageEncryption(true, key);
+
+    await expect(readStoredValue('@journal:accounts')).rejects.toBeInstanceOf(StorageReadError);
+  });
+});
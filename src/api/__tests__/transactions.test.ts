@@ -0,0 +1,150 @@
+import { TradingAccount, DailyEntry } from '../../models';
+import { createRollbackCommit } from '../transactions';
+import { createMemoryAccountRepository } from '../accounts.memory';
+import { createMemoryEntryRepository, createMemoryTradeRepository } from '../entries.memory';
+import type { RecordStores } from '../repository';
+
+const CREATED = new Date('2024-03-01T12:00:00');
+
+/**
+ * Stores holding one account with two entries
+ */
+const seedStores = async (): Promise<RecordStores> => {
+  const stores: RecordStores = {
+    accounts: createMemoryAccountRepository(),
+    entries: createMemoryEntryRepository(),
+    trades: createMemoryTradeRepository(),
+  };
+  await stores.accounts.put({
+    id: 'account',
+    name: 'Main',
+    broker: 'Broker',
+    initialBalance: 1000,
+    currentBalance: 1150,
+    currency: 'USD',
+    createdAt: CREATED,
+    updatedAt: CREATED,
+  } as TradingAccount);
+  for (const [id, profitLoss, balance] of [
+    ['first', 100, 1100],
+    ['second', 50, 1150],
+  ] as const) {
+    await stores.entries.put({
+      id,
+      accountId: 'account',
+      date: CREATED,
+      profitLoss,
+      balance,
+      createdAt: CREATED,
+      updatedAt: CREATED,
+    } as DailyEntry);
+  }
+  return stores;
+};
+
+describe('createRollbackCommit', () => {
+  let stores: RecordStores;
+
+  beforeEach(async () => {
+    stores = await seedStores();
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('applies every operation in order', async () => {
+    const { commit } = createRollbackCommit(stores);
+
+    await commit([
+      { type: 'update', collection: 'entries', id: 'first', changes: { profitLoss: 200 } },
+      { type: 'setBalances', accountId: 'account', balances: { first: 1200, second: 1250 } },
+      { type: 'update', collection: 'accounts', id: 'account', changes: { currentBalance: 1250 } },
+    ]);
+
+    expect(await stores.entries.getById('first')).toMatchObject({ profitLoss: 200, balance: 1200 });
+    expect(await stores.entries.getById('second')).toMatchObject({ balance: 1250 });
+    expect(await stores.accounts.getById('account')).toMatchObject({ currentBalance: 1250 });
+  });
+
+  it('reverts the applied operations when a later one fails', async () => {
+    const { commit } = createRollbackCommit(stores);
+    const before = await stores.entries.getByAccount('account');
+
+    await expect(
+      commit([
+        { type: 'update', collection: 'entries', id: 'first', changes: { profitLoss: 200 } },
+        { type: 'setBalances', accountId: 'account', balances: { first: 1200, second: 1250 } },
+        { type: 'delete', collection: 'entries', id: 'second' },
+        { type: 'update', collection: 'accounts', id: 'missing', changes: { currentBalance: 0 } },
+      ])
+    ).rejects.toThrow('accounts/missing not found');
+
+    expect(await stores.entries.getByAccount('account')).toEqual(
+      expect.arrayContaining(before.map((entry) => expect.objectContaining(entry)))
+    );
+    expect(await stores.entries.getByAccount('account')).toHaveLength(2);
+    expect(await stores.accounts.getById('account')).toMatchObject({ currentBalance: 1150 });
+  });
+
+  it('puts back the records a deleteWhere removed', async () => {
+    const { commit } = createRollbackCommit(stores);
+
+    await expect(
+      commit([
+        { type: 'deleteWhere', collection: 'entries', field: 'accountId', value: 'account' },
+        { type: 'update', collection: 'entries', id: 'first', changes: { notes: 'Gone' } },
+      ])
+    ).rejects.toThrow('entries/first not found');
+
+    expect(await stores.entries.getByAccount('account')).toHaveLength(2);
+  });
+
+  it('plans a ledger change from the data left by the commits before it', async () => {
+    const { commit, commitLedger } = createRollbackCommit(stores);
+    const planned: number[] = [];
+
+    const first = commit([{ type: 'delete', collection: 'entries', id: 'second' }]);
+    const second = commitLedger('account', async (account, entries) => {
+      planned.push(entries.length);
+      const balance = entries.reduce(
+        (sum, entry) => sum + entry.profitLoss,
+        account.initialBalance
+      );
+      return [
+        {
+          type: 'update',
+          collection: 'accounts',
+          id: account.id,
+          changes: { currentBalance: balance },
+        },
+      ];
+    });
+    await Promise.all([first, second]);
+
+    expect(planned).toEqual([1]);
+    expect(await stores.accounts.getById('account')).toMatchObject({ currentBalance: 1100 });
+  });
+
+  it('rejects a ledger change for a missing account without planning it', async () => {
+    const { commitLedger } = createRollbackCommit(stores);
+    const plan = jest.fn(async () => []);
+
+    await expect(commitLedger('missing', plan)).rejects.toThrow('not found');
+    expect(plan).not.toHaveBeenCalled();
+  });
+
+  it('keeps running commits after one fails', async () => {
+    const { commit } = createRollbackCommit(stores);
+
+    const failing = commit([{ type: 'update', collection: 'trades', id: 'missing', changes: {} }]);
+    const next = commit([
+      { type: 'update', collection: 'entries', id: 'first', changes: { notes: 'Ok' } },
+    ]);
+
+    await expect(failing).rejects.toThrow();
+    await next;
+    expect(await stores.entries.getById('first')).toMatchObject({ notes: 'Ok' });
+  });
+});
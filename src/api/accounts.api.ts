@@ -6,109 +6,161 @@ import {
   doc,
   getDocs,
   getDoc,
+  setDoc,
+  onSnapshot,
   query,
-  where,
-  orderBy,
   Timestamp,
+  deleteField,
+  serverTimestamp,
+  DocumentSnapshot,
 } from 'firebase/firestore';
 import { db } from '../config';
 import { COLLECTIONS } from '../constants';
-import {
-  TradingAccount,
-  CreateTradingAccountInput,
-  UpdateTradingAccountInput,
-} from '../models';
+import { TradingAccount } from '../models';
+import type {
+  AccountRepository,
+  NewTradingAccount,
+  TradingAccountChanges,
+  Unsubscribe,
+} from './repository';
+import { ownedByCurrentUser, requireUserId } from './auth.api';
 
 /**
- * Create a new trading account
+ * Convert changed fields to Firestore values: dates become Timestamps and
+ * an explicit undefined deletes the field
  */
-export const createAccount = async (
-  account: CreateTradingAccountInput
-): Promise<string> => {
-  const docRef = await addDoc(collection(db, COLLECTIONS.ACCOUNTS), {
-    ...account,
-    currentBalance: account.initialBalance,
-    createdAt: Timestamp.now(),
-    updatedAt: Timestamp.now(),
+export const toFirestoreChanges = (changes: object): Record<string, unknown> => {
+  const data: Record<string, unknown> = {};
+  Object.entries(changes).forEach(([key, value]) => {
+    if (value === undefined) {
+      data[key] = deleteField();
+    } else if (value instanceof Date) {
+      data[key] = Timestamp.fromDate(value);
+    } else {
+      data[key] = value;
+    }
   });
-  return docRef.id;
+  return data;
 };
 
 /**
- * Update an existing trading account
+ * Convert a whole record to Firestore data: the id lives in the document path,
+ * dates become Timestamps, undefined fields are left out and the signed-in user owns it
  */
-export const updateAccount = async (
-  id: string,
-  updates: UpdateTradingAccountInput
-): Promise<void> => {
-  const accountRef = doc(db, COLLECTIONS.ACCOUNTS, id);
-  await updateDoc(accountRef, {
-    ...updates,
-    updatedAt: Timestamp.now(),
+export const toFirestoreRecord = (record: { id: string }): Record<string, unknown> => {
+  const { id: _id, ...fields } = record;
+  const data: Record<string, unknown> = {};
+  Object.entries(fields).forEach(([key, value]) => {
+    if (value instanceof Date) {
+      data[key] = Timestamp.fromDate(value);
+    } else if (value !== undefined) {
+      data[key] = value;
+    }
   });
+  data.ownerId = requireUserId();
+  return data;
 };
 
 /**
- * Delete a trading account and all associated entries
+ * Map a Firestore account document to a TradingAccount
  */
-export const deleteAccount = async (id: string): Promise<void> => {
-  // Delete account
-  await deleteDoc(doc(db, COLLECTIONS.ACCOUNTS, id));
-
-  // Delete all entries associated with this account
-  const entriesQuery = query(
-    collection(db, COLLECTIONS.ENTRIES),
-    where('accountId', '==', id)
-  );
-  const entriesSnapshot = await getDocs(entriesQuery);
-  const deletePromises = entriesSnapshot.docs.map((doc) => deleteDoc(doc.ref));
-  await Promise.all(deletePromises);
+export const mapAccountDoc = (accountDoc: DocumentSnapshot): TradingAccount => {
+  const data = accountDoc.data() ?? {};
+  return {
+    id: accountDoc.id,
+    ownerId: data.ownerId,
+    name: data.name,
+    broker: data.broker || '',
+    initialBalance: data.initialBalance,
+    currentBalance: data.currentBalance,
+    netCashFlow: data.netCashFlow ?? 0,
+    currency: data.currency,
+    challenge: data.challenge,
+    archived: data.archived ?? false,
+    archivedAt: data.archivedAt?.toDate(),
+    deletedAt: data.deletedAt?.toDate(),
+    createdAt: data.createdAt?.toDate() || new Date(),
+    updatedAt: data.updatedAt?.toDate() || new Date(),
+  };
 };
 
 /**
- * Get all trading accounts
+ * Firestore implementation of the account repository
  */
-export const getAllAccounts = async (): Promise<TradingAccount[]> => {
-  const querySnapshot = await getDocs(collection(db, COLLECTIONS.ACCOUNTS));
-  return querySnapshot.docs.map((doc) => {
-    const data = doc.data();
-    return {
-      id: doc.id,
-      name: data.name,
-      broker: data.broker || '',
-      initialBalance: data.initialBalance,
-      currentBalance: data.currentBalance,
-      currency: data.currency,
-      createdAt: data.createdAt?.toDate() || new Date(),
-      updatedAt: data.updatedAt?.toDate() || new Date(),
-    };
-  });
-};
+export const firestoreAccountRepository: AccountRepository = {
+  /**
+   * Get all trading accounts
+   */
+  async getAll(): Promise<TradingAccount[]> {
+    const querySnapshot = await getDocs(
+      query(collection(db, COLLECTIONS.ACCOUNTS), ownedByCurrentUser())
+    );
+    return querySnapshot.docs.map(mapAccountDoc);
+  },
 
-/**
- * Get a single trading account by ID
- */
-export const getAccountById = async (
-  id: string
-): Promise<TradingAccount | null> => {
-  try {
+  /**
+   * Follow all trading accounts through a snapshot listener
+   */
+  subscribe(
+    onChange: (accounts: TradingAccount[]) => void,
+    onError: (error: Error) => void
+  ): Unsubscribe {
+    return onSnapshot(
+      query(collection(db, COLLECTIONS.ACCOUNTS), ownedByCurrentUser()),
+      (querySnapshot) => onChange(querySnapshot.docs.map(mapAccountDoc)),
+      onError
+    );
+  },
+
+  /**
+   * Get a single trading account by ID
+   */
+  async getById(id: string): Promise<TradingAccount | null> {
     const accountDoc = await getDoc(doc(db, COLLECTIONS.ACCOUNTS, id));
-    if (!accountDoc.exists()) {
-      return null;
-    }
-    const data = accountDoc.data();
-    return {
-      id: accountDoc.id,
-      name: data.name,
-      broker: data.broker || '',
-      initialBalance: data.initialBalance,
-      currentBalance: data.currentBalance,
-      currency: data.currency,
-      createdAt: data.createdAt?.toDate() || new Date(),
-      updatedAt: data.updatedAt?.toDate() || new Date(),
-    };
-  } catch (error) {
-    console.error('Error fetching account by ID:', error);
-    return null;
-  }
+    return accountDoc.exists() ? mapAccountDoc(accountDoc) : null;
+  },
+
+  /**
+   * Create a new trading account
+   */
+  async create(account: NewTradingAccount): Promise<string> {
+    const docRef = await addDoc(collection(db, COLLECTIONS.ACCOUNTS), {
+      ...account,
+      ownerId: requireUserId(),
+      ...(account.archivedAt ? { archivedAt: Timestamp.fromDate(account.archivedAt) } : {}),
+      ...(account.deletedAt ? { deletedAt: Timestamp.fromDate(account.deletedAt) } : {}),
+      createdAt: Timestamp.now(),
+      updatedAt: Timestamp.now(),
+      syncedAt: serverTimestamp(),
+    });
+    return docRef.id;
+  },
+
+  /**
+   * Update an existing trading account
+   */
+  async update(id: string, changes: TradingAccountChanges): Promise<void> {
+    await updateDoc(doc(db, COLLECTIONS.ACCOUNTS, id), {
+      ...toFirestoreChanges(changes),
+      updatedAt: Timestamp.now(),
+      syncedAt: serverTimestamp(),
+    });
+  },
+
+  /**
+   * Write a whole trading account, keeping its id and timestamps
+   */
+  async put(account: TradingAccount): Promise<void> {
+    await setDoc(doc(db, COLLECTIONS.ACCOUNTS, account.id), {
+      ...toFirestoreRecord(account),
+      syncedAt: serverTimestamp(),
+    });
+  },
+
+  /**
+   * Delete a trading account document
+   */
+  async delete(id: string): Promise<void> {
+    await deleteDoc(doc(db, COLLECTIONS.ACCOUNTS, id));
+  },
 };
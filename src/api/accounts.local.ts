@@ -3,115 +3,127 @@
  * Uses AsyncStorage for React Native or localStorage for web
  */
 
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import {
-  TradingAccount,
-  CreateTradingAccountInput,
-  UpdateTradingAccountInput,
-} from '../models';
+import { TradingAccount } from '../models';
+import { COLLECTIONS } from '../constants';
+import type {
+  AccountRepository,
+  NewTradingAccount,
+  TradingAccountChanges,
+  Unsubscribe,
+} from './repository';
+import { generateLocalId, applyChanges, readStoredList, writeStoredList } from './storage.helpers';
+import { notifyLocalChange, subscribeToLocalReads } from './changes';
 
 const ACCOUNTS_KEY = '@BitacoraFx:accounts';
 
 /**
  * Get all accounts from local storage
  */
-const getStoredAccounts = async (): Promise<TradingAccount[]> => {
-  try {
-    const data = await AsyncStorage.getItem(ACCOUNTS_KEY);
-    return data ? JSON.parse(data, (key, value) => {
-      if (key === 'createdAt' || key === 'updatedAt') {
-        return new Date(value);
-      }
-      return value;
-    }) : [];
-  } catch (error) {
-    console.error('Error reading accounts from storage:', error);
-    return [];
-  }
-};
+const getStoredAccounts = (): Promise<TradingAccount[]> =>
+  readStoredList<TradingAccount>(ACCOUNTS_KEY, [
+    'createdAt',
+    'updatedAt',
+    'archivedAt',
+    'deletedAt',
+  ]);
 
 /**
  * Save accounts to local storage
  */
 const saveAccounts = async (accounts: TradingAccount[]): Promise<void> => {
   try {
-    await AsyncStorage.setItem(ACCOUNTS_KEY, JSON.stringify(accounts));
+    await writeStoredList(ACCOUNTS_KEY, accounts);
   } catch (error) {
     console.error('Error saving accounts to storage:', error);
     throw error;
   }
+  notifyLocalChange(COLLECTIONS.ACCOUNTS);
 };
 
 /**
- * Create a new trading account (local)
+ * AsyncStorage implementation of the account repository
  */
-export const createAccountLocal = async (
-  account: CreateTradingAccountInput
-): Promise<string> => {
-  const accounts = await getStoredAccounts();
-  const now = new Date();
-  const newAccount: TradingAccount = {
-    id: `local_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`,
-    ...account,
-    currentBalance: account.initialBalance,
-    createdAt: now,
-    updatedAt: now,
-  };
-  accounts.push(newAccount);
-  await saveAccounts(accounts);
-  return newAccount.id;
-};
+export const localAccountRepository: AccountRepository = {
+  /**
+   * Get all trading accounts (local)
+   */
+  async getAll(): Promise<TradingAccount[]> {
+    return getStoredAccounts();
+  },
 
-/**
- * Update an existing trading account (local)
- */
-export const updateAccountLocal = async (
-  id: string,
-  updates: UpdateTradingAccountInput
-): Promise<void> => {
-  const accounts = await getStoredAccounts();
-  const index = accounts.findIndex((acc) => acc.id === id);
-  if (index === -1) {
-    throw new Error(`Account with id ${id} not found`);
-  }
-  accounts[index] = {
-    ...accounts[index],
-    ...updates,
-    updatedAt: new Date(),
-  };
-  await saveAccounts(accounts);
-};
+  /**
+   * Follow all trading accounts (local)
+   */
+  subscribe(
+    onChange: (accounts: TradingAccount[]) => void,
+    onError: (error: Error) => void
+  ): Unsubscribe {
+    return subscribeToLocalReads(
+      COLLECTIONS.ACCOUNTS,
+      undefined,
+      getStoredAccounts,
+      onChange,
+      onError
+    );
+  },
 
-/**
- * Delete a trading account (local)
- */
-export const deleteAccountLocal = async (id: string): Promise<void> => {
-  const accounts = await getStoredAccounts();
-  const filtered = accounts.filter((acc) => acc.id !== id);
-  await saveAccounts(filtered);
-  
-  // Also delete associated entries
-  try {
-    const entriesKey = `@BitacoraFx:entries_${id}`;
-    await AsyncStorage.removeItem(entriesKey);
-  } catch (error) {
-    console.error('Error deleting entries:', error);
-  }
-};
+  /**
+   * Get a single trading account by ID (local)
+   */
+  async getById(id: string): Promise<TradingAccount | null> {
+    const accounts = await getStoredAccounts();
+    return accounts.find((acc) => acc.id === id) || null;
+  },
 
-/**
- * Get all trading accounts (local)
- */
-export const getAllAccountsLocal = async (): Promise<TradingAccount[]> => {
-  return getStoredAccounts();
-};
+  /**
+   * Create a new trading account (local)
+   */
+  async create(account: NewTradingAccount): Promise<string> {
+    const accounts = await getStoredAccounts();
+    const now = new Date();
+    const newAccount: TradingAccount = {
+      id: generateLocalId(),
+      ...account,
+      createdAt: now,
+      updatedAt: now,
+    };
+    accounts.push(newAccount);
+    await saveAccounts(accounts);
+    return newAccount.id;
+  },
 
-/**
- * Get a single trading account by ID (local)
- */
-export const getAccountByIdLocal = async (
-  id: string
-): Promise<TradingAccount | null> => {
-  const accounts = await getStoredAccounts();
-  return accounts.find((acc) => acc.id === id) || null;
+  /**
+   * Update an existing trading account (local)
+   */
+  async update(id: string, changes: TradingAccountChanges): Promise<void> {
+    const accounts = await getStoredAccounts();
+    const index = accounts.findIndex((acc) => acc.id === id);
+    if (index === -1) {
+      throw new Error(`Account with id ${id} not found`);
+    }
+    accounts[index] = applyChanges(accounts[index], changes);
+    await saveAccounts(accounts);
+  },
+
+  /**
+   * Insert or replace a trading account as-is (local)
+   */
+  async put(account: TradingAccount): Promise<void> {
+    const accounts = await getStoredAccounts();
+    const index = accounts.findIndex((acc) => acc.id === account.id);
+    if (index === -1) {
+      accounts.push(account);
+    } else {
+      accounts[index] = account;
+    }
+    await saveAccounts(accounts);
+  },
+
+  /**
+   * Delete a trading account (local)
+   */
+  async delete(id: string): Promise<void> {
+    const accounts = await getStoredAccounts();
+    await saveAccounts(accounts.filter((acc) => acc.id !== id));
+  },
 };
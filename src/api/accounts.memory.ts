@@ -0,0 +1,69 @@
+/**
+ * In-memory implementation for accounts.
+ * Nothing is persisted, which makes it suitable for automated tests.
+ */
+
+import { TradingAccount } from '../models';
+import { COLLECTIONS } from '../constants';
+import type {
+  AccountRepository,
+  NewTradingAccount,
+  TradingAccountChanges,
+} from './repository';
+import { generateLocalId, applyChanges } from './storage.helpers';
+import { notifyLocalChange, subscribeToLocalReads } from './changes';
+
+/**
+ * Create an empty in-memory account repository
+ */
+export const createMemoryAccountRepository = (): AccountRepository => {
+  const accounts = new Map<string, TradingAccount>();
+
+  /**
+   * Copy every stored account
+   */
+  const getAll = async () => Array.from(accounts.values(), (account) => ({ ...account }));
+
+  return {
+    getAll,
+
+    subscribe(
+      onChange: (accounts: TradingAccount[]) => void,
+      onError: (error: Error) => void
+    ) {
+      return subscribeToLocalReads(COLLECTIONS.ACCOUNTS, undefined, getAll, onChange, onError);
+    },
+
+    async getById(id: string) {
+      const account = accounts.get(id);
+      return account ? { ...account } : null;
+    },
+
+    async create(account: NewTradingAccount) {
+      const now = new Date();
+      const id = generateLocalId();
+      accounts.set(id, { id, ...account, createdAt: now, updatedAt: now });
+      notifyLocalChange(COLLECTIONS.ACCOUNTS);
+      return id;
+    },
+
+    async update(id: string, changes: TradingAccountChanges) {
+      const account = accounts.get(id);
+      if (!account) {
+        throw new Error(`Account with id ${id} not found`);
+      }
+      accounts.set(id, applyChanges(account, changes));
+      notifyLocalChange(COLLECTIONS.ACCOUNTS);
+    },
+
+    async put(account: TradingAccount) {
+      accounts.set(account.id, { ...account });
+      notifyLocalChange(COLLECTIONS.ACCOUNTS);
+    },
+
+    async delete(id: string) {
+      accounts.delete(id);
+      notifyLocalChange(COLLECTIONS.ACCOUNTS);
+    },
+  };
+};
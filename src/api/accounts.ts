@@ -1,43 +1,17 @@
 /**
- * API layer with automatic fallback to local storage
- * Uses Firebase when configured, otherwise uses AsyncStorage for development
+ * Account service on top of the active storage repository
+ * (Firestore when configured, AsyncStorage for development, in-memory for tests)
  */
 
-import { db } from '../config/firebase.config';
 import {
   TradingAccount,
   CreateTradingAccountInput,
   UpdateTradingAccountInput,
 } from '../models';
-
-// Import Firebase implementations
-import * as FirebaseAccounts from './accounts.api';
-
-// Import local implementations
-import * as LocalAccounts from './accounts.local';
-
-/**
- * Check if Firebase is properly configured
- */
-const isFirebaseConfigured = (): boolean => {
-  try {
-    // Check if we're using demo/placeholder values
-    const isDemoConfig = db.app.options.projectId === 'demo-project' || 
-                        db.app.options.apiKey === 'demo-api-key';
-    return !isDemoConfig;
-  } catch (error) {
-    return false;
-  }
-};
-
-// Determine which implementation to use
-const useLocal = !isFirebaseConfigured();
-
-if (useLocal) {
-  console.log('🔧 Development Mode: Using local storage (AsyncStorage)');
-} else {
-  console.log('☁️  Production Mode: Using Firebase Firestore');
-}
+import { COLLECTIONS } from '../constants';
+import { getRepositories, Unsubscribe } from './repository';
+import { planBalanceWrites } from './entries';
+import { applyChanges } from './storage.helpers';
 
 /**
  * Create a new trading account
@@ -45,43 +19,120 @@ if (useLocal) {
 export const createAccount = async (
   account: CreateTradingAccountInput
 ): Promise<string> => {
-  if (useLocal) {
-    return LocalAccounts.createAccountLocal(account);
-  }
-  return FirebaseAccounts.createAccount(account);
+  return getRepositories().accounts.create({
+    ...account,
+    currentBalance: account.initialBalance,
+    netCashFlow: 0,
+  });
 };
 
 /**
- * Update an existing trading account
+ * Update an existing trading account, re-deriving balances in the same commit
+ * when the initial balance changes
  */
 export const updateAccount = async (
   id: string,
   updates: UpdateTradingAccountInput
 ): Promise<void> => {
-  if (useLocal) {
-    return LocalAccounts.updateAccountLocal(id, updates);
+  const { commit, commitLedger } = getRepositories();
+  const update = {
+    type: 'update' as const,
+    collection: COLLECTIONS.ACCOUNTS,
+    id,
+    changes: updates,
+  };
+
+  if (updates.initialBalance === undefined) {
+    return commit([update]);
   }
-  return FirebaseAccounts.updateAccount(id, updates);
+
+  await commitLedger(id, async (account, entries) => [
+    update,
+    ...planBalanceWrites(applyChanges(account, updates), entries),
+  ]);
+};
+
+/**
+ * Archive a trading account, keeping its entries for history and statistics
+ */
+export const archiveAccount = async (id: string): Promise<void> => {
+  return updateAccount(id, { archived: true, archivedAt: new Date() });
 };
 
 /**
- * Delete a trading account
+ * Restore an archived trading account to the active list
+ */
+export const unarchiveAccount = async (id: string): Promise<void> => {
+  return updateAccount(id, { archived: false, archivedAt: undefined });
+};
+
+/**
+ * Move a trading account to the trash, keeping its entries for a later restore
  */
 export const deleteAccount = async (id: string): Promise<void> => {
-  if (useLocal) {
-    return LocalAccounts.deleteAccountLocal(id);
-  }
-  return FirebaseAccounts.deleteAccount(id);
+  return getRepositories().accounts.update(id, { deletedAt: new Date() });
+};
+
+/**
+ * Restore a trashed trading account
+ */
+export const restoreAccount = async (id: string): Promise<void> => {
+  return getRepositories().accounts.update(id, { deletedAt: undefined });
+};
+
+/**
+ * Permanently delete a trading account and all of its entries.
+ * The account goes last, so a cascade cut short can simply be purged again.
+ */
+export const purgeAccount = async (id: string): Promise<void> => {
+  return getRepositories().commit([
+    { type: 'deleteWhere', collection: COLLECTIONS.TRADES, field: 'accountId', value: id },
+    { type: 'deleteWhere', collection: COLLECTIONS.ENTRIES, field: 'accountId', value: id },
+    { type: 'delete', collection: COLLECTIONS.ACCOUNTS, id },
+  ]);
 };
 
 /**
  * Get all trading accounts
  */
 export const getAllAccounts = async (): Promise<TradingAccount[]> => {
-  if (useLocal) {
-    return LocalAccounts.getAllAccountsLocal();
-  }
-  return FirebaseAccounts.getAllAccounts();
+  const accounts = await getRepositories().accounts.getAll();
+  return accounts.filter((account) => !account.deletedAt);
+};
+
+/**
+ * Follow the trading accounts outside the trash, including changes made on other devices.
+ * Returns an unsubscribe function.
+ */
+export const subscribeToAccounts = (
+  onChange: (accounts: TradingAccount[]) => void,
+  onError: (error: Error) => void
+): Unsubscribe =>
+  getRepositories().accounts.subscribe(
+    (accounts) => onChange(accounts.filter((account) => !account.deletedAt)),
+    onError
+  );
+
+/**
+ * Follow one trading account, including changes made on other devices.
+ * Delivers null once the account is gone or in the trash. Returns an unsubscribe function.
+ */
+export const subscribeToAccount = (
+  id: string,
+  onChange: (account: TradingAccount | null) => void,
+  onError: (error: Error) => void
+): Unsubscribe =>
+  subscribeToAccounts(
+    (accounts) => onChange(accounts.find((account) => account.id === id) ?? null),
+    onError
+  );
+
+/**
+ * Get the trashed trading accounts
+ */
+export const getDeletedAccounts = async (): Promise<TradingAccount[]> => {
+  const accounts = await getRepositories().accounts.getAll();
+  return accounts.filter((account) => account.deletedAt);
 };
 
 /**
@@ -90,8 +141,5 @@ export const getAllAccounts = async (): Promise<TradingAccount[]> => {
 export const getAccountById = async (
   id: string
 ): Promise<TradingAccount | null> => {
-  if (useLocal) {
-    return LocalAccounts.getAccountByIdLocal(id);
-  }
-  return FirebaseAccounts.getAccountById(id);
+  return getRepositories().accounts.getById(id);
 };
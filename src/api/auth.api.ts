@@ -0,0 +1,109 @@
+/**
+ * Firebase Auth access for the api layer.
+ * Firestore documents belong to the user in their ownerId field: writes stamp it
+ * and every query filters on it, which the security rules in firestore.rules require.
+ */
+
+import {
+  createUserWithEmailAndPassword,
+  signInWithEmailAndPassword,
+  signOut as firebaseSignOut,
+  onAuthStateChanged,
+  User,
+} from 'firebase/auth';
+import { where, QueryConstraint } from 'firebase/firestore';
+import { auth } from '../config';
+import type { Unsubscribe } from './repository';
+import { AuthError, AuthRequiredError } from './errors';
+
+export interface AuthUser {
+  uid: string;
+  email: string | null;
+}
+
+// Messages for the Firebase Auth error codes a user can cause
+const AUTH_ERROR_MESSAGES: Record<string, string> = {
+  'auth/invalid-email': 'Enter a valid email address',
+  'auth/invalid-credential': 'Incorrect email or password',
+  'auth/wrong-password': 'Incorrect email or password',
+  'auth/user-not-found': 'Incorrect email or password',
+  'auth/user-disabled': 'This account has been disabled',
+  'auth/email-already-in-use': 'An account already exists for this email',
+  'auth/weak-password': 'Use a password of at least 6 characters',
+  'auth/too-many-requests': 'Too many attempts. Try again in a few minutes',
+  'auth/network-request-failed': 'No connection. Check your network and try again',
+};
+
+/**
+ * Keep the fields of a Firebase user the app relies on
+ */
+const toAuthUser = (user: User): AuthUser => ({ uid: user.uid, email: user.email });
+
+/**
+ * Turn a Firebase Auth failure into an AuthError with a readable message
+ */
+const toAuthError = (error: unknown): Error => {
+  const code = (error as { code?: unknown })?.code;
+  if (typeof code === 'string') {
+    return new AuthError(code, AUTH_ERROR_MESSAGES[code] ?? 'Authentication failed');
+  }
+  return error instanceof Error ? error : new Error(String(error));
+};
+
+/**
+ * Get the signed-in user, if any
+ */
+export const getCurrentUser = (): AuthUser | null =>
+  auth.currentUser ? toAuthUser(auth.currentUser) : null;
+
+/**
+ * Get the uid of the signed-in user or fail with AuthRequiredError
+ */
+export const requireUserId = (): string => {
+  if (!auth.currentUser) {
+    throw new AuthRequiredError();
+  }
+  return auth.currentUser.uid;
+};
+
+/**
+ * Query constraint limiting results to the signed-in user's documents
+ */
+export const ownedByCurrentUser = (): QueryConstraint =>
+  where('ownerId', '==', requireUserId());
+
+/**
+ * Sign in with email and password
+ */
+export const signInWithEmail = async (email: string, password: string): Promise<AuthUser> => {
+  try {
+    const credential = await signInWithEmailAndPassword(auth, email.trim(), password);
+    return toAuthUser(credential.user);
+  } catch (error) {
+    throw toAuthError(error);
+  }
+};
+
+/**
+ * Create a user with email and password and sign them in
+ */
+export const signUpWithEmail = async (email: string, password: string): Promise<AuthUser> => {
+  try {
+    const credential = await createUserWithEmailAndPassword(auth, email.trim(), password);
+    return toAuthUser(credential.user);
+  } catch (error) {
+    throw toAuthError(error);
+  }
+};
+
+/**
+ * End the Firebase Auth session
+ */
+export const endAuthSession = (): Promise<void> => firebaseSignOut(auth);
+
+/**
+ * Follow sign-in and sign-out. The listener is called once with the current user
+ * after the persisted session has been restored. Returns an unsubscribe function.
+ */
+export const onAuthUserChanged = (listener: (user: AuthUser | null) => void): Unsubscribe =>
+  onAuthStateChanged(auth, (user) => listener(user ? toAuthUser(user) : null));
@@ -0,0 +1,64 @@
+/**
+ * Sign-in service. Storage backed by Firestore (firestore and synced) needs a
+ * signed-in user; device-only storage works without one.
+ */
+
+import { getStorageBackend, Unsubscribe } from './repository';
+import { clearSyncedData } from './sync';
+import { getSyncQueue } from './sync.queue';
+import {
+  AuthUser,
+  getCurrentUser,
+  signInWithEmail,
+  signUpWithEmail,
+  endAuthSession,
+  onAuthUserChanged,
+} from './auth.api';
+
+export type { AuthUser };
+export { getCurrentUser };
+
+/**
+ * Check whether the active storage backend needs a signed-in user
+ */
+export const isSignInRequired = (): boolean => {
+  const backend = getStorageBackend();
+  return backend === 'firestore' || backend === 'synced';
+};
+
+/**
+ * Sign in with email and password. Throws AuthError with a message fit to show.
+ */
+export const signIn = (email: string, password: string): Promise<AuthUser> =>
+  signInWithEmail(email, password);
+
+/**
+ * Create a user with email and password and sign them in.
+ * Throws AuthError with a message fit to show.
+ */
+export const signUp = (email: string, password: string): Promise<AuthUser> =>
+  signUpWithEmail(email, password);
+
+/**
+ * Count the changes made on this device that have not reached Firestore yet.
+ * Signing out discards them. Throws StorageReadError when the queue cannot be read.
+ */
+export const getUnsyncedChangeCount = async (): Promise<number> =>
+  getStorageBackend() === 'synced' ? (await getSyncQueue()).length : 0;
+
+/**
+ * Sign out. With the synced backend the device copy of the journal is removed first,
+ * so the next user never sees it.
+ */
+export const signOut = async (): Promise<void> => {
+  if (getStorageBackend() === 'synced') {
+    await clearSyncedData();
+  }
+  await endAuthSession();
+};
+
+/**
+ * Follow sign-in and sign-out. Returns an unsubscribe function.
+ */
+export const subscribeToAuthUser = (listener: (user: AuthUser | null) => void): Unsubscribe =>
+  onAuthUserChanged(listener);
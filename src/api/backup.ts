@@ -0,0 +1,589 @@
+/**
+ * Full JSON backup and restore of the journal: accounts, entries and trades, including
+ * those in the trash, plus the device settings and FX rates.
+ * The file is versioned so later formats can still read older backups. Restoring either
+ * replaces the whole journal or merges the backup into it; both are planned first so the
+ * user sees what will change, then written in one commit with balances recalculated.
+ * A backup can be sealed with a password: the plain file is encrypted with AES-256-GCM
+ * under a PBKDF2 key and wrapped in a small envelope that records the salt and cost,
+ * so it opens on any platform with the same password.
+ */
+
+import { TradingAccount, DailyEntry, Trade, AppSettings, FxRate } from '../models';
+import { getTradingDayKey, isCashFlowEntry } from '../utils/helpers';
+import type { ShareableFile } from '../utils/files';
+import { COLLECTIONS, DEFAULTS } from '../constants';
+import { getRepositories, WriteOperation } from './repository';
+import { planBalanceWrites } from './entries';
+import { findSameDayEntry } from './validation';
+import {
+  getSettings,
+  updateSettings,
+  getFxRates,
+  replaceFxRates,
+  sanitizeSettings,
+} from './settings';
+import { InvalidBackupPasswordError, ValidationError } from './errors';
+import {
+  KEY_DERIVATION_ITERATIONS,
+  createKeySalt,
+  deriveStorageKey,
+  decryptValue,
+  encryptValue,
+} from './storage.crypto';
+
+const BACKUP_FORMAT = 'bitacorafx-backup';
+const ENCRYPTED_BACKUP_FORMAT = 'bitacorafx-backup-encrypted';
+const BACKUP_KDF = 'PBKDF2-SHA256';
+const BACKUP_CIPHER = 'AES-256-GCM';
+// The cost is read from the file, so a crafted one could otherwise stall the restore
+const MAX_KEY_DERIVATION_ITERATIONS = KEY_DERIVATION_ITERATIONS * 10;
+
+// Bump when the file layout changes, and teach readBackup to upgrade the older layout
+export const BACKUP_VERSION = 1;
+
+export interface JournalBackup {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: Date;
+  accounts: TradingAccount[];
+  entries: DailyEntry[];
+  trades: Trade[];
+  settings: AppSettings;
+  fxRates: FxRate[];
+}
+
+// Envelope of a password-protected backup; data is the sealed plain backup file
+interface EncryptedBackupFile {
+  format: typeof ENCRYPTED_BACKUP_FORMAT;
+  version: number;
+  kdf: { name: typeof BACKUP_KDF; salt: string; iterations: number };
+  cipher: typeof BACKUP_CIPHER;
+  data: string;
+}
+
+// 'replace' wipes the journal first; 'merge' adds the backup to it
+export type RestoreMode = 'replace' | 'merge';
+
+export interface RestoreCounts {
+  added: number;
+  // Present in both; the backup copy is newer and overwrites the journal
+  overwritten: number;
+  // Present in both; the journal copy is the same age or newer and is kept
+  kept: number;
+  // In the journal but not in the backup; only 'replace' removes them
+  removed: number;
+  // Entries for a trading day that already has another entry, and their trades
+  skipped: number;
+}
+
+export interface RestorePreview {
+  mode: RestoreMode;
+  exportedAt: Date;
+  accounts: RestoreCounts;
+  entries: RestoreCounts;
+  trades: RestoreCounts;
+  // Backup records given a new id because theirs belongs to an unrelated record here
+  reassignedIds: number;
+  // 'replace' restores the backup's settings and FX rates; 'merge' only adds missing FX rates
+  settingsReplaced: boolean;
+  fxRatesAdded: number;
+}
+
+interface JournalSnapshot {
+  accounts: TradingAccount[];
+  entries: DailyEntry[];
+  trades: Trade[];
+}
+
+interface RestorePlan {
+  preview: RestorePreview;
+  operations: WriteOperation[];
+}
+
+const DATE_FIELDS = {
+  accounts: ['archivedAt', 'deletedAt', 'createdAt', 'updatedAt'],
+  entries: ['date', 'deletedAt', 'createdAt', 'updatedAt'],
+  trades: ['openTime', 'closeTime', 'createdAt', 'updatedAt'],
+  fxRates: ['effectiveDate', 'createdAt', 'updatedAt'],
+} as const;
+
+/**
+ * Drop the Firestore owner, which belongs to whoever restores the backup
+ */
+const withoutOwner = <T extends { ownerId?: string }>(record: T): T => {
+  const { ownerId: _ownerId, ...rest } = record;
+  return rest as T;
+};
+
+/**
+ * Read every account, entry and trade in the journal, trash included
+ */
+const readJournal = async (): Promise<JournalSnapshot> => {
+  const { accounts, entries, trades } = getRepositories();
+  const allAccounts = await accounts.getAll();
+  const allTrades: Trade[] = [];
+  for (const account of allAccounts) {
+    allTrades.push(...(await trades.getByAccount(account.id)));
+  }
+  return { accounts: allAccounts, entries: await entries.getAll(), trades: allTrades };
+};
+
+/**
+ * Seal a backup file with a password
+ */
+const encryptBackup = async (content: string, password: string): Promise<string> => {
+  const salt = createKeySalt();
+  const key = await deriveStorageKey(password, salt, KEY_DERIVATION_ITERATIONS);
+  const file: EncryptedBackupFile = {
+    format: ENCRYPTED_BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    kdf: { name: BACKUP_KDF, salt, iterations: KEY_DERIVATION_ITERATIONS },
+    cipher: BACKUP_CIPHER,
+    data: encryptValue(ENCRYPTED_BACKUP_FORMAT, content, key),
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+/**
+ * Build a backup file of the whole journal with the device settings and FX rates.
+ * With a password the file is encrypted and can only be restored with that password.
+ */
+export const exportJournalBackup = async (password?: string): Promise<ShareableFile> => {
+  if (password !== undefined && password.length < DEFAULTS.BACKUP_PASSWORD_MIN_LENGTH) {
+    throw new ValidationError(
+      `Backup password must be at least ${DEFAULTS.BACKUP_PASSWORD_MIN_LENGTH} characters`
+    );
+  }
+  const journal = await readJournal();
+  const exportedAt = new Date();
+  const backup: JournalBackup = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt,
+    accounts: journal.accounts.map(withoutOwner),
+    entries: journal.entries.map(withoutOwner),
+    trades: journal.trades.map(withoutOwner),
+    settings: await getSettings(),
+    fxRates: await getFxRates(),
+  };
+  const content = JSON.stringify(backup, null, 2);
+  const suffix = password !== undefined ? '-encrypted' : '';
+  return {
+    fileName: `bitacorafx-backup-${getTradingDayKey(exportedAt)}${suffix}.json`,
+    content: password !== undefined ? await encryptBackup(content, password) : content,
+    mimeType: 'application/json',
+    uti: 'public.json',
+  };
+};
+
+/**
+ * Check that a backup list holds objects with string ids and turn its date fields into Dates.
+ * Throws ValidationError naming the first record that is not usable.
+ */
+const readRecords = <T extends { id: string }>(
+  value: unknown,
+  name: keyof typeof DATE_FIELDS,
+  isValid: (record: Record<string, unknown>) => boolean
+): T[] => {
+  if (!Array.isArray(value)) {
+    throw new ValidationError(`The backup has no ${name} list`);
+  }
+  return value.map((item, index) => {
+    if (typeof item !== 'object' || item === null || typeof item.id !== 'string') {
+      throw new ValidationError(`Record ${index + 1} of the ${name} in the backup has no id`);
+    }
+    const record: Record<string, unknown> = { ...item };
+    DATE_FIELDS[name].forEach((field) => {
+      if (record[field] === undefined || record[field] === null) {
+        delete record[field];
+        return;
+      }
+      const date = new Date(record[field] as string);
+      if (isNaN(date.getTime())) {
+        throw new ValidationError(`The ${name} record ${record.id} has an invalid ${field}`);
+      }
+      record[field] = date;
+    });
+    if (!isValid(record)) {
+      throw new ValidationError(`The ${name} record ${record.id} is incomplete`);
+    }
+    return record as unknown as T;
+  });
+};
+
+/**
+ * Parse a backup file as a JSON object
+ */
+const parseBackupJson = (text: string): Record<string, unknown> => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new ValidationError('The file is not valid JSON');
+  }
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new ValidationError('The file is not a BitacoraFx backup');
+  }
+  return data as Record<string, unknown>;
+};
+
+/**
+ * Refuse backups written by a newer version of the app
+ */
+const checkBackupVersion = (version: unknown): void => {
+  if (typeof version !== 'number' || version > BACKUP_VERSION) {
+    throw new ValidationError(
+      'The backup was made by a newer version of the app; update the app first'
+    );
+  }
+};
+
+/**
+ * Whether a file is a password-protected backup, so the password can be asked for first
+ */
+export const isEncryptedBackup = (text: string): boolean => {
+  try {
+    return parseBackupJson(text).format === ENCRYPTED_BACKUP_FORMAT;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Open a password-protected backup and return the plain backup file inside.
+ * Throws InvalidBackupPasswordError when the password is wrong or the file was altered.
+ */
+const decryptBackup = async (
+  data: Record<string, unknown>,
+  password: string | undefined
+): Promise<string> => {
+  checkBackupVersion(data.version);
+  const kdf = data.kdf as Partial<EncryptedBackupFile['kdf']> | undefined;
+  if (
+    data.cipher !== BACKUP_CIPHER ||
+    kdf?.name !== BACKUP_KDF ||
+    typeof kdf.salt !== 'string' ||
+    !/^([0-9a-f]{2})+$/i.test(kdf.salt) ||
+    typeof kdf.iterations !== 'number' ||
+    !Number.isInteger(kdf.iterations) ||
+    kdf.iterations < 1 ||
+    typeof data.data !== 'string'
+  ) {
+    throw new ValidationError('The encrypted backup is damaged or uses an unknown cipher');
+  }
+  if (kdf.iterations > MAX_KEY_DERIVATION_ITERATIONS) {
+    throw new ValidationError(
+      'The encrypted backup asks for more key derivation work than the app allows'
+    );
+  }
+  if (!password) {
+    throw new ValidationError('The backup is encrypted; enter its password');
+  }
+  const key = await deriveStorageKey(password, kdf.salt, kdf.iterations);
+  try {
+    return decryptValue(ENCRYPTED_BACKUP_FORMAT, data.data, key);
+  } catch {
+    throw new InvalidBackupPasswordError();
+  }
+};
+
+/**
+ * Parse and validate a backup file, decrypting it first when it is password-protected.
+ * Throws ValidationError when the file is not a backup, comes from a newer version
+ * of the app, or holds records that are incomplete or point at missing parents.
+ */
+export const readBackup = async (text: string, password?: string): Promise<JournalBackup> => {
+  let data = parseBackupJson(text);
+  if (data.format === ENCRYPTED_BACKUP_FORMAT) {
+    data = parseBackupJson(await decryptBackup(data, password));
+  }
+  if (data.format !== BACKUP_FORMAT) {
+    throw new ValidationError('The file is not a BitacoraFx backup');
+  }
+  checkBackupVersion(data.version);
+
+  const isNumber = (value: unknown) => typeof value === 'number' && isFinite(value);
+  const accounts = readRecords<TradingAccount>(
+    data.accounts,
+    'accounts',
+    (record) =>
+      typeof record.name === 'string' &&
+      typeof record.currency === 'string' &&
+      isNumber(record.initialBalance) &&
+      record.createdAt instanceof Date &&
+      record.updatedAt instanceof Date
+  );
+  const entries = readRecords<DailyEntry>(
+    data.entries,
+    'entries',
+    (record) =>
+      typeof record.accountId === 'string' &&
+      record.date instanceof Date &&
+      isNumber(record.profitLoss) &&
+      record.createdAt instanceof Date &&
+      record.updatedAt instanceof Date
+  );
+  const trades = readRecords<Trade>(
+    data.trades,
+    'trades',
+    (record) =>
+      typeof record.entryId === 'string' &&
+      typeof record.accountId === 'string' &&
+      isNumber(record.profitLoss) &&
+      record.openTime instanceof Date &&
+      record.closeTime instanceof Date &&
+      record.updatedAt instanceof Date
+  );
+  const fxRates = readRecords<FxRate>(
+    data.fxRates ?? [],
+    'fxRates',
+    (record) =>
+      typeof record.from === 'string' &&
+      typeof record.to === 'string' &&
+      isNumber(record.rate) &&
+      record.effectiveDate instanceof Date
+  );
+
+  const accountIds = new Set(accounts.map((account) => account.id));
+  const orphanEntry = entries.find((entry) => !accountIds.has(entry.accountId));
+  if (orphanEntry) {
+    throw new ValidationError(
+      `Entry ${orphanEntry.id} belongs to an account missing from the backup`
+    );
+  }
+  const entryIds = new Set(entries.map((entry) => entry.id));
+  const orphanTrade = trades.find((trade) => !entryIds.has(trade.entryId));
+  if (orphanTrade) {
+    throw new ValidationError(
+      `Trade ${orphanTrade.id} belongs to an entry missing from the backup`
+    );
+  }
+
+  const exportedAt = new Date(data.exportedAt as string);
+  return {
+    format: BACKUP_FORMAT,
+    version: data.version as number,
+    exportedAt: isNaN(exportedAt.getTime()) ? new Date(0) : exportedAt,
+    accounts,
+    entries,
+    trades,
+    // Invalid settings fall back to defaults rather than break formatting once restored
+    settings: sanitizeSettings(data.settings),
+    fxRates,
+  };
+};
+
+/**
+ * Empty counts for one kind of record
+ */
+const emptyCounts = (): RestoreCounts => ({
+  added: 0,
+  overwritten: 0,
+  kept: 0,
+  removed: 0,
+  skipped: 0,
+});
+
+/**
+ * Work out every write of a restore and what it will change
+ */
+const planRestore = (
+  backup: JournalBackup,
+  mode: RestoreMode,
+  journal: JournalSnapshot,
+  fxRates: FxRate[]
+): RestorePlan => {
+  const { newId } = getRepositories();
+  const preview: RestorePreview = {
+    mode,
+    exportedAt: backup.exportedAt,
+    accounts: emptyCounts(),
+    entries: emptyCounts(),
+    trades: emptyCounts(),
+    reassignedIds: 0,
+    settingsReplaced: mode === 'replace',
+    fxRatesAdded: 0,
+  };
+  // Children go first, so a commit split over several batches never strands a parent
+  const deletes: WriteOperation[] = [];
+  const tradePuts: WriteOperation[] = [];
+  const entryPuts: WriteOperation[] = [];
+  const accountPuts: WriteOperation[] = [];
+
+  let accountsAfter: TradingAccount[];
+  let entriesAfter: DailyEntry[];
+
+  if (mode === 'replace') {
+    journal.accounts.forEach((account) => {
+      deletes.push(
+        {
+          type: 'deleteWhere',
+          collection: COLLECTIONS.TRADES,
+          field: 'accountId',
+          value: account.id,
+        },
+        {
+          type: 'deleteWhere',
+          collection: COLLECTIONS.ENTRIES,
+          field: 'accountId',
+          value: account.id,
+        },
+        { type: 'delete', collection: COLLECTIONS.ACCOUNTS, id: account.id }
+      );
+    });
+    const backupIds = {
+      accounts: new Set(backup.accounts.map((record) => record.id)),
+      entries: new Set(backup.entries.map((record) => record.id)),
+      trades: new Set(backup.trades.map((record) => record.id)),
+    };
+    (['accounts', 'entries', 'trades'] as const).forEach((name) => {
+      const current = journal[name];
+      const counts = preview[name];
+      counts.removed = current.filter((record) => !backupIds[name].has(record.id)).length;
+      counts.overwritten = current.length - counts.removed;
+      counts.added = backup[name].length - counts.overwritten;
+    });
+    backup.trades.forEach((record) =>
+      tradePuts.push({ type: 'put', collection: COLLECTIONS.TRADES, record })
+    );
+    backup.entries.forEach((record) =>
+      entryPuts.push({ type: 'put', collection: COLLECTIONS.ENTRIES, record })
+    );
+    backup.accounts.forEach((record) =>
+      accountPuts.push({ type: 'put', collection: COLLECTIONS.ACCOUNTS, record })
+    );
+    accountsAfter = backup.accounts;
+    entriesAfter = backup.entries;
+  } else {
+    const accountsById = new Map(journal.accounts.map((account) => [account.id, account]));
+    backup.accounts.forEach((record) => {
+      const existing = accountsById.get(record.id);
+      if (!existing) {
+        preview.accounts.added++;
+      } else if (record.updatedAt > existing.updatedAt) {
+        preview.accounts.overwritten++;
+      } else {
+        preview.accounts.kept++;
+        return;
+      }
+      accountsById.set(record.id, record);
+      accountPuts.push({ type: 'put', collection: COLLECTIONS.ACCOUNTS, record });
+    });
+
+    const entriesById = new Map(journal.entries.map((entry) => [entry.id, entry]));
+    // Backup entry ids mapped to the entry their trades end up under; null when skipped
+    const entryTargets = new Map<string, string | null>();
+    const entriesOf = (accountId: string) =>
+      [...entriesById.values()].filter((entry) => entry.accountId === accountId);
+
+    backup.entries.forEach((incoming) => {
+      let record = incoming;
+      const existing = entriesById.get(record.id);
+      if (existing && existing.accountId !== record.accountId) {
+        record = { ...record, id: newId(COLLECTIONS.ENTRIES) };
+        preview.reassignedIds++;
+      } else if (existing) {
+        entryTargets.set(incoming.id, existing.id);
+        if (record.updatedAt > existing.updatedAt) {
+          preview.entries.overwritten++;
+          entriesById.set(record.id, record);
+          entryPuts.push({ type: 'put', collection: COLLECTIONS.ENTRIES, record });
+        } else {
+          preview.entries.kept++;
+        }
+        return;
+      }
+
+      // Keeps the one-entry-per-trading-day rule
+      if (
+        !record.deletedAt &&
+        !isCashFlowEntry(record) &&
+        findSameDayEntry(entriesOf(record.accountId), record.date)
+      ) {
+        preview.entries.skipped++;
+        entryTargets.set(incoming.id, null);
+        return;
+      }
+      preview.entries.added++;
+      entryTargets.set(incoming.id, record.id);
+      entriesById.set(record.id, record);
+      entryPuts.push({ type: 'put', collection: COLLECTIONS.ENTRIES, record });
+    });
+
+    const tradesById = new Map(journal.trades.map((trade) => [trade.id, trade]));
+    backup.trades.forEach((incoming) => {
+      const entryId = entryTargets.get(incoming.entryId);
+      if (!entryId) {
+        preview.trades.skipped++;
+        return;
+      }
+      let record = { ...incoming, entryId };
+      const existing = tradesById.get(record.id);
+      if (existing && existing.entryId !== entryId) {
+        record = { ...record, id: newId(COLLECTIONS.TRADES) };
+        preview.reassignedIds++;
+      } else if (existing) {
+        if (record.updatedAt > existing.updatedAt) {
+          preview.trades.overwritten++;
+          tradePuts.push({ type: 'put', collection: COLLECTIONS.TRADES, record });
+        } else {
+          preview.trades.kept++;
+        }
+        return;
+      }
+      preview.trades.added++;
+      tradePuts.push({ type: 'put', collection: COLLECTIONS.TRADES, record });
+    });
+
+    const rateIds = new Set(fxRates.map((rate) => rate.id));
+    preview.fxRatesAdded = backup.fxRates.filter((rate) => !rateIds.has(rate.id)).length;
+    accountsAfter = [...accountsById.values()];
+    entriesAfter = [...entriesById.values()];
+  }
+
+  // Stored balances are never trusted; every restored account is rebuilt from its entries
+  const balanceWrites = accountsAfter.flatMap((account) =>
+    planBalanceWrites(
+      account,
+      entriesAfter.filter((entry) => entry.accountId === account.id)
+    )
+  );
+  return {
+    preview,
+    operations: [...deletes, ...tradePuts, ...entryPuts, ...accountPuts, ...balanceWrites],
+  };
+};
+
+/**
+ * Show what restoring a backup in the given mode would add, overwrite and remove
+ */
+export const previewRestore = async (
+  backup: JournalBackup,
+  mode: RestoreMode
+): Promise<RestorePreview> => {
+  return planRestore(backup, mode, await readJournal(), await getFxRates()).preview;
+};
+
+/**
+ * Restore a backup. The journal is read again so the writes match its current state.
+ */
+export const restoreBackup = async (
+  backup: JournalBackup,
+  mode: RestoreMode
+): Promise<RestorePreview> => {
+  const fxRates = await getFxRates();
+  const { preview, operations } = planRestore(backup, mode, await readJournal(), fxRates);
+  if (operations.length > 0) {
+    await getRepositories().commit(operations);
+  }
+
+  if (mode === 'replace') {
+    await updateSettings(backup.settings);
+    await replaceFxRates(backup.fxRates);
+  } else {
+    const rateIds = new Set(fxRates.map((rate) => rate.id));
+    await replaceFxRates([...fxRates, ...backup.fxRates.filter((rate) => !rateIds.has(rate.id))]);
+  }
+  return preview;
+};
@@ -0,0 +1,77 @@
+/**
+ * Change notifications for the device-side stores (AsyncStorage and in-memory),
+ * the local counterpart of Firestore snapshot listeners.
+ * Stores announce each write; subscriptions re-read and deliver the fresh result.
+ */
+
+import { COLLECTIONS } from '../constants';
+import type { Unsubscribe } from './repository';
+
+type WatchedCollection = typeof COLLECTIONS.ACCOUNTS | typeof COLLECTIONS.ENTRIES;
+
+// Receives the account whose data changed, or undefined when any account may be affected
+type ChangeListener = (accountId?: string) => void;
+
+const listeners: Record<WatchedCollection, Set<ChangeListener>> = {
+  [COLLECTIONS.ACCOUNTS]: new Set(),
+  [COLLECTIONS.ENTRIES]: new Set(),
+};
+
+/**
+ * Announce a write to a device-side collection
+ */
+export const notifyLocalChange = (collection: WatchedCollection, accountId?: string): void => {
+  listeners[collection].forEach((listener) => listener(accountId));
+};
+
+/**
+ * Deliver the result of a read now and again after every local change it may cover.
+ * A change arriving while a read is running triggers one more read,
+ * so the last value delivered is never older than the last write.
+ */
+export const subscribeToLocalReads = <T>(
+  collection: WatchedCollection,
+  accountId: string | undefined,
+  read: () => Promise<T>,
+  onChange: (value: T) => void,
+  onError: (error: Error) => void
+): Unsubscribe => {
+  let active = true;
+  let reading = false;
+  let stale = false;
+
+  const refresh = async () => {
+    if (reading) {
+      stale = true;
+      return;
+    }
+    reading = true;
+    do {
+      stale = false;
+      try {
+        const value = await read();
+        if (active && !stale) {
+          onChange(value);
+        }
+      } catch (error) {
+        if (active) {
+          onError(error instanceof Error ? error : new Error(String(error)));
+        }
+      }
+    } while (active && stale);
+    reading = false;
+  };
+
+  const listener: ChangeListener = (changedAccountId) => {
+    if (!accountId || !changedAccountId || changedAccountId === accountId) {
+      refresh();
+    }
+  };
+  listeners[collection].add(listener);
+  refresh();
+
+  return () => {
+    active = false;
+    listeners[collection].delete(listener);
+  };
+};
@@ -0,0 +1,92 @@
+/**
+ * CSV export of journal entries for spreadsheets and accounting.
+ * Dates are ISO 8601 trading days (YYYY-MM-DD); amounts are plain numbers with two decimals
+ * in the account's currency. Trashed accounts and entries are left out.
+ */
+
+import { TradingAccount, DailyEntry, CsvExportColumn, CashFlowType } from '../models';
+import { CASH_FLOW_LABELS, CSV_COLUMN_LABELS, CSV_EXPORT_COLUMNS } from '../constants';
+import { getTradingDayKey, isCashFlowEntry } from '../utils/helpers';
+import { toCsv, toCsvText } from '../utils/csv';
+import { toFileNamePart } from '../utils/files';
+import type { ShareableFile } from '../utils/files';
+import { getAllAccounts, getAccountById } from './accounts';
+import { getEntriesByAccount } from './entries';
+import { sortChronologically } from './ledger';
+import { ValidationError } from './errors';
+
+export interface CsvExportOptions {
+  // Export a single account; every account outside the trash when omitted
+  accountId?: string;
+  columns: CsvExportColumn[];
+}
+
+/**
+ * Format one cell of an entry row
+ */
+const formatCell = (
+  column: CsvExportColumn,
+  entry: DailyEntry,
+  account: TradingAccount
+): string => {
+  switch (column) {
+    case 'date':
+      return getTradingDayKey(entry.date);
+    case 'account':
+      return toCsvText(account.name);
+    case 'type':
+      return isCashFlowEntry(entry) ? CASH_FLOW_LABELS[entry.type as CashFlowType] : 'Trading';
+    case 'profitLoss':
+      return entry.profitLoss.toFixed(2);
+    case 'balance':
+      return entry.balance.toFixed(2);
+    case 'notes':
+      return toCsvText(entry.notes ?? '');
+    case 'currency':
+      return account.currency;
+  }
+};
+
+/**
+ * Build a CSV file of entries, oldest first, accounts in name order
+ */
+export const exportEntriesCsv = async ({
+  accountId,
+  columns,
+}: CsvExportOptions): Promise<ShareableFile> => {
+  // Columns always come out in the standard order, whatever order they were picked in
+  const selected = CSV_EXPORT_COLUMNS.filter((column) => columns.includes(column));
+  if (selected.length === 0) {
+    throw new ValidationError('Pick at least one column to export');
+  }
+
+  let accounts: TradingAccount[];
+  if (accountId) {
+    const account = await getAccountById(accountId);
+    if (!account || account.deletedAt) {
+      throw new Error(`Account with id ${accountId} not found`);
+    }
+    accounts = [account];
+  } else {
+    accounts = (await getAllAccounts()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  const rows: string[][] = [];
+  for (const account of accounts) {
+    const entries = await getEntriesByAccount(account.id);
+    sortChronologically(entries).forEach((entry) => {
+      rows.push(selected.map((column) => formatCell(column, entry, account)));
+    });
+  }
+
+  const scope = accountId ? toFileNamePart(accounts[0].name) : 'all-accounts';
+  return {
+    fileName: `bitacorafx-${scope}-${getTradingDayKey(new Date())}.csv`,
+    content: toCsv(
+      selected.map((column) => CSV_COLUMN_LABELS[column]),
+      rows
+    ),
+    mimeType: 'text/csv',
+    uti: 'public.comma-separated-values-text',
+  };
+};
@@ -0,0 +1,434 @@
+/**
+ * CSV import of journal entries kept in spreadsheets.
+ * Columns are mapped to entry fields, dates and decimals are read in the format the file
+ * uses, and rows landing on a day that already has a trading entry are flagged before
+ * anything is written. Rows typed as deposits, withdrawals or other cash flows become
+ * cash-flow entries, which may share their day. Rows go in through createEntry, so the
+ * usual entry rules apply.
+ */
+
+import { CashFlowType, CreateDailyEntryInput } from '../models';
+import { CASH_FLOW_LABELS } from '../constants';
+import { getTradingDayKey } from '../utils/helpers';
+import { parseCsv, fromCsvText } from '../utils/csv';
+import { getAccountById } from './accounts';
+import {
+  getEntriesByAccount,
+  getTradesByAccount,
+  createEntry,
+  recalculateBalances,
+} from './entries';
+import { rebuildLedger } from './ledger';
+import { findSameDayEntry } from './validation';
+import { ValidationError } from './errors';
+
+export type CsvImportField = 'date' | 'profitLoss' | 'balance' | 'type' | 'notes';
+
+// Column index of each mapped field; unmapped fields are left out
+export type CsvColumnMapping = Partial<Record<CsvImportField, number>>;
+
+// Order of day, month and year in dates that are not ISO 8601
+export type CsvDateFormat = 'dmy' | 'mdy';
+
+export type CsvDecimalSeparator = '.' | ',';
+
+// What to do with rows that land on a day that already has a trading entry
+export type CsvDuplicatePolicy = 'skip' | 'merge';
+
+export interface CsvImportSource {
+  fileName: string;
+  header: string[];
+  rows: string[][];
+}
+
+export interface CsvImportOptions {
+  mapping: CsvColumnMapping;
+  dateFormat: CsvDateFormat;
+  decimalSeparator: CsvDecimalSeparator;
+}
+
+export type CsvImportRowStatus = 'ready' | 'duplicate' | 'invalid';
+
+export interface CsvImportRow {
+  // Line in the file, counting the header as line 1
+  line: number;
+  status: CsvImportRowStatus;
+  date?: Date;
+  profitLoss?: number;
+  // Cash-flow type of the row; trading days have none
+  type?: CashFlowType;
+  notes?: string;
+  // Why an invalid row cannot be imported
+  error?: string;
+  // For duplicates: whether the day is taken by a stored entry or by an earlier row
+  duplicateOf?: 'entry' | 'row';
+  // For duplicates: why the row cannot be added to the day, which is then always skipped
+  unmergeable?: string;
+}
+
+export interface CsvImportPreview {
+  accountId: string;
+  // Valid rows in date order, followed by the invalid ones in file order
+  rows: CsvImportRow[];
+  readyCount: number;
+  duplicateCount: number;
+  // Duplicates that can be added to their day
+  mergeableCount: number;
+  invalidCount: number;
+}
+
+// A readable row before duplicates are looked for; amount is the P/L or the balance
+interface ParsedRow {
+  line: number;
+  date: Date;
+  amount: number;
+  type?: CashFlowType;
+  notes?: string;
+}
+
+export interface CsvImportResult {
+  created: number;
+  merged: number;
+  skipped: number;
+}
+
+// Header names recognised per field, compared without case, accents or punctuation
+const FIELD_HEADERS: Record<CsvImportField, string[]> = {
+  date: ['date', 'day', 'tradingday', 'fecha', 'dia'],
+  profitLoss: [
+    'pl',
+    'pnl',
+    'profitloss',
+    'profit',
+    'netprofit',
+    'result',
+    'ganancia',
+    'gananciaperdida',
+    'resultado',
+    'beneficio',
+  ],
+  balance: ['balance', 'endingbalance', 'saldo', 'saldofinal'],
+  type: ['type', 'entrytype', 'kind', 'tipo'],
+  notes: ['notes', 'note', 'comment', 'comments', 'notas', 'nota', 'comentario', 'comentarios'],
+};
+
+/**
+ * Lower-case a header and strip accents and punctuation
+ */
+const normalizeHeader = (header: string): string =>
+  header
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, '');
+
+/**
+ * Read a type cell by the label the CSV export writes or the type's own name.
+ * Blank cells and "Trading" are trading days, returned as undefined; unknown types are null.
+ */
+const parseImportType = (value: string): CashFlowType | undefined | null => {
+  const normalized = normalizeHeader(value);
+  if (!normalized || normalized === 'trading') {
+    return undefined;
+  }
+  const types = Object.keys(CASH_FLOW_LABELS) as CashFlowType[];
+  const match = types.find(
+    (type) => type === normalized || normalizeHeader(CASH_FLOW_LABELS[type]) === normalized
+  );
+  return match ?? null;
+};
+
+/**
+ * Split a date cell into its numeric parts, ignoring any time of day after it
+ */
+const splitDate = (value: string): string[] | null => {
+  const parts = value.trim().split(/[\sT]/)[0].split(/[-/.]/);
+  return parts.length === 3 && parts.every((part) => /^\d+$/.test(part)) ? parts : null;
+};
+
+/**
+ * Read a date cell as a local calendar day. ISO 8601 (year first) is always accepted;
+ * other dates are read day-first or month-first as the format says.
+ */
+export const parseImportDate = (value: string, format: CsvDateFormat): Date | null => {
+  const parts = splitDate(value);
+  if (!parts) {
+    return null;
+  }
+
+  let [year, month, day] = [0, 0, 0];
+  if (parts[0].length === 4) {
+    [year, month, day] = parts.map(Number);
+  } else if (format === 'dmy') {
+    [day, month, year] = parts.map(Number);
+  } else {
+    [month, day, year] = parts.map(Number);
+  }
+  if (year < 100) {
+    year += 2000;
+  }
+
+  const date = new Date(year, month - 1, day);
+  // Rejects days that roll over into the next month, like 31/02
+  return date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day
+    ? date
+    : null;
+};
+
+/**
+ * Read an amount cell. Thousands separators, currency symbols and spaces are ignored,
+ * and amounts in parentheses are negative.
+ */
+export const parseImportAmount = (
+  value: string,
+  decimalSeparator: CsvDecimalSeparator
+): number | null => {
+  const trimmed = value.trim();
+  const negative = /^\(.*\)$/.test(trimmed);
+  let cleaned = trimmed.replace(/[^\d.,+-]/g, '');
+  cleaned =
+    decimalSeparator === ','
+      ? cleaned.replace(/\./g, '').replace(',', '.')
+      : cleaned.replace(/,/g, '');
+  if (!/^[+-]?\d+(\.\d+)?$/.test(cleaned)) {
+    return null;
+  }
+  const amount = Number(cleaned);
+  return negative ? -Math.abs(amount) : amount;
+};
+
+/**
+ * Guess the decimal separator from amount cells: a separator is a decimal point when
+ * it comes last, or is the only one and is not followed by exactly three digits
+ */
+const guessDecimalSeparator = (values: string[]): CsvDecimalSeparator => {
+  let commaVotes = 0;
+  let dotVotes = 0;
+  values.forEach((value) => {
+    const lastComma = value.lastIndexOf(',');
+    const lastDot = value.lastIndexOf('.');
+    if (lastComma >= 0 && lastDot >= 0) {
+      if (lastComma > lastDot) {
+        commaVotes++;
+      } else {
+        dotVotes++;
+      }
+    } else if (lastComma >= 0 && !/,\d{3}$/.test(value.trim())) {
+      commaVotes++;
+    } else if (lastDot >= 0 && !/\.\d{3}$/.test(value.trim())) {
+      dotVotes++;
+    }
+  });
+  return commaVotes > dotVotes ? ',' : '.';
+};
+
+/**
+ * Guess whether dates put the day or the month first; day first unless a date
+ * could only be month first
+ */
+const guessDateFormat = (values: string[]): CsvDateFormat => {
+  const dates = values
+    .map(splitDate)
+    .filter((parts): parts is string[] => parts !== null && parts[0].length !== 4);
+  const monthFirst = dates.some((parts) => Number(parts[1]) > 12);
+  const dayFirst = dates.some((parts) => Number(parts[0]) > 12);
+  return monthFirst && !dayFirst ? 'mdy' : 'dmy';
+};
+
+/**
+ * Parse a CSV file into its header and data rows.
+ * Throws ValidationError when the file has no data rows.
+ */
+export const readCsvImport = (fileName: string, text: string): CsvImportSource => {
+  const [header, ...rows] = parseCsv(text);
+  if (!header || rows.length === 0) {
+    throw new ValidationError('The file has no rows to import');
+  }
+  return { fileName, header: header.map((column) => column.trim()), rows };
+};
+
+/**
+ * Suggest a column mapping, date format and decimal separator from the header and cells
+ */
+export const guessCsvImportOptions = (source: CsvImportSource): CsvImportOptions => {
+  const mapping: CsvColumnMapping = {};
+  const headers = source.header.map(normalizeHeader);
+  (Object.keys(FIELD_HEADERS) as CsvImportField[]).forEach((field) => {
+    const index = headers.findIndex((header) => FIELD_HEADERS[field].includes(header));
+    if (index >= 0) {
+      mapping[field] = index;
+    }
+  });
+
+  const cells = (index?: number) =>
+    index === undefined ? [] : source.rows.map((row) => row[index] ?? '');
+  return {
+    mapping,
+    dateFormat: guessDateFormat(cells(mapping.date)),
+    decimalSeparator: guessDecimalSeparator([
+      ...cells(mapping.profitLoss),
+      ...cells(mapping.balance),
+    ]),
+  };
+};
+
+/**
+ * Read every row with the chosen options and check it against the account's entries.
+ * When no P/L column is mapped, each day's P/L is the change in the balance column from
+ * the balance the day opened with: the previous imported balance plus the existing entries
+ * dated after it, or the account's ledger before the day when no earlier row was imported.
+ * Such rows cannot be added to a day that already has an entry, which the balance counts.
+ * Throws ValidationError when the date column or both amount columns are unmapped.
+ */
+export const previewCsvImport = async (
+  accountId: string,
+  source: CsvImportSource,
+  { mapping, dateFormat, decimalSeparator }: CsvImportOptions
+): Promise<CsvImportPreview> => {
+  if (mapping.date === undefined) {
+    throw new ValidationError('Pick the column that holds the date');
+  }
+  if (mapping.profitLoss === undefined && mapping.balance === undefined) {
+    throw new ValidationError('Pick the column that holds the P/L or the balance');
+  }
+  const account = await getAccountById(accountId);
+  if (!account || account.deletedAt) {
+    throw new Error(`Account with id ${accountId} not found`);
+  }
+
+  const today = getTradingDayKey(new Date());
+  const parsed: ParsedRow[] = [];
+  const invalid: CsvImportRow[] = [];
+  source.rows.forEach((cells, index) => {
+    const line = index + 2;
+    const cell = (column?: number) => (column === undefined ? '' : (cells[column] ?? '').trim());
+
+    const date = parseImportDate(cell(mapping.date), dateFormat);
+    if (!date) {
+      invalid.push({ line, status: 'invalid', error: `Unreadable date "${cell(mapping.date)}"` });
+      return;
+    }
+    if (getTradingDayKey(date) > today) {
+      invalid.push({ line, status: 'invalid', error: 'Date is in the future' });
+      return;
+    }
+    const type = parseImportType(cell(mapping.type));
+    if (type === null) {
+      invalid.push({ line, status: 'invalid', error: `Unknown type "${cell(mapping.type)}"` });
+      return;
+    }
+    const amountColumn = mapping.profitLoss ?? mapping.balance;
+    const amount = parseImportAmount(cell(amountColumn), decimalSeparator);
+    if (amount === null) {
+      invalid.push({ line, status: 'invalid', error: `Unreadable amount "${cell(amountColumn)}"` });
+      return;
+    }
+    parsed.push({ line, date, amount, type, notes: fromCsvText(cell(mapping.notes)) || undefined });
+  });
+
+  parsed.sort((a, b) => a.date.getTime() - b.date.getTime() || a.line - b.line);
+  const existing = await getEntriesByAccount(accountId);
+  const tradedEntryIds = new Set(
+    (await getTradesByAccount(accountId)).map((trade) => trade.entryId)
+  );
+
+  // Balance column of the last row read, and its day
+  let previous: { day: string; balance: number } | null = null;
+  const openingBalance = (day: string): number => {
+    if (!previous) {
+      return rebuildLedger(
+        account.initialBalance,
+        existing.filter((entry) => getTradingDayKey(entry.date) < day)
+      ).currentBalance;
+    }
+    const after = previous.day;
+    // Existing entries between the two rows move the balance too; they are not in the file
+    return existing
+      .filter((entry) => {
+        const key = getTradingDayKey(entry.date);
+        return key > after && key < day;
+      })
+      .reduce((balance, entry) => balance + entry.profitLoss, previous.balance);
+  };
+
+  const importedDays = new Set<string>();
+  const rows: CsvImportRow[] = parsed.map(({ line, date, amount, type, notes }) => {
+    const day = getTradingDayKey(date);
+    let profitLoss = amount;
+    if (mapping.profitLoss === undefined) {
+      // Rounded to cents so float noise from the subtraction does not end up in the journal
+      profitLoss = Math.round((amount - openingBalance(day)) * 100) / 100;
+      previous = { day, balance: amount };
+    }
+    const row: CsvImportRow = { line, status: 'ready', date, profitLoss, type, notes };
+    // Cash flows may share their day with a trading entry and with each other
+    if (type) {
+      return row;
+    }
+
+    const sameDay = findSameDayEntry(existing, date);
+    if (sameDay) {
+      let unmergeable: string | undefined;
+      if (tradedEntryIds.has(sameDay.id)) {
+        // The P/L of a day with trades is the total of its trades
+        unmergeable = 'Day has trades';
+      } else if (mapping.profitLoss === undefined) {
+        // The day's balance change already includes the stored entry's P/L
+        unmergeable = 'Balance already counts that entry';
+      }
+      return { ...row, status: 'duplicate', duplicateOf: 'entry', unmergeable };
+    }
+    if (importedDays.has(day)) {
+      return { ...row, status: 'duplicate', duplicateOf: 'row' };
+    }
+    importedDays.add(day);
+    return row;
+  });
+
+  return {
+    accountId,
+    rows: [...rows, ...invalid],
+    readyCount: rows.filter((row) => row.status === 'ready').length,
+    duplicateCount: rows.filter((row) => row.status === 'duplicate').length,
+    mergeableCount: rows.filter((row) => row.status === 'duplicate' && !row.unmergeable).length,
+    invalidCount: invalid.length,
+  };
+};
+
+/**
+ * Create an entry for every ready row of a preview, oldest first, then recalculate
+ * the account's balances. Duplicates are skipped, or merged into the entry already
+ * on that day. Invalid rows and unmergeable duplicates are always skipped.
+ */
+export const importCsvEntries = async (
+  preview: CsvImportPreview,
+  onDuplicate: CsvDuplicatePolicy
+): Promise<CsvImportResult> => {
+  const result: CsvImportResult = { created: 0, merged: 0, skipped: preview.invalidCount };
+
+  for (const row of preview.rows) {
+    if (row.status === 'invalid' || !row.date || row.profitLoss === undefined) {
+      continue;
+    }
+    if (row.status === 'duplicate' && (onDuplicate === 'skip' || row.unmergeable)) {
+      result.skipped++;
+      continue;
+    }
+    const entry: CreateDailyEntryInput = {
+      accountId: preview.accountId,
+      ...(row.type ? { type: row.type } : {}),
+      date: row.date,
+      profitLoss: row.profitLoss,
+      notes: row.notes,
+    };
+    await createEntry(entry, { onDuplicate: 'merge' });
+    if (row.status === 'duplicate') {
+      result.merged++;
+    } else {
+      result.created++;
+    }
+  }
+
+  await recalculateBalances(preview.accountId);
+  return result;
+};
@@ -0,0 +1,303 @@
+/**
+ * Integrity check of the stored journal and the repairs for what it finds.
+ * Balances are stored redundantly and cascades can be cut short (or never run, for data
+ * written by older versions), so the stored data can drift from what the services guarantee.
+ * Works with whichever backend is active.
+ */
+
+import { TradingAccount, DailyEntry } from '../models';
+import { COLLECTIONS } from '../constants';
+import { getTradingDayKey, isCashFlowEntry } from '../utils/helpers';
+import { getRepositories, WriteOperation } from './repository';
+import { planBalanceWrites, recalculateBalances } from './entries';
+import { rebuildLedger } from './ledger';
+import { mergeEntryUpdates, validateEntryDate } from './validation';
+
+export type IntegrityIssue =
+  // Entries stored for an account that no longer exists
+  | { type: 'orphanEntries'; key: string; accountId: string; entryCount: number }
+  // Entry balances or account totals that differ from initialBalance plus chronological P/L
+  | {
+      type: 'balanceMismatch';
+      key: string;
+      accountId: string;
+      accountName: string;
+      currency: string;
+      entryCount: number;
+      storedBalance: number;
+      expectedBalance: number;
+    }
+  // More than one trading entry on the same trading day
+  | {
+      type: 'duplicateEntries';
+      key: string;
+      accountId: string;
+      accountName: string;
+      date: Date;
+      entryIds: string[];
+    }
+  // An entry whose date cannot be read or lies in the future
+  | {
+      type: 'invalidDate';
+      key: string;
+      accountId: string;
+      accountName: string;
+      entryId: string;
+      date: Date;
+    };
+
+export type IntegrityIssueType = IntegrityIssue['type'];
+
+export interface IntegrityReport {
+  checkedAt: Date;
+  accountCount: number;
+  entryCount: number;
+  issues: IntegrityIssue[];
+}
+
+// Repairs that change dates or merge entries run before balances are rebuilt
+const REPAIR_ORDER: IntegrityIssueType[] = [
+  'orphanEntries',
+  'invalidDate',
+  'duplicateEntries',
+  'balanceMismatch',
+];
+
+/**
+ * Whether an entry date is readable and not in the future
+ */
+const isValidEntryDate = (date: Date): boolean => {
+  try {
+    validateEntryDate(date);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Find trading days of an account recorded more than once, ignoring cash flows and trashed entries
+ */
+const findDuplicateDays = (entries: DailyEntry[]): DailyEntry[][] => {
+  const byDay = new Map<string, DailyEntry[]>();
+  entries
+    .filter(
+      (entry) => !entry.deletedAt && !isCashFlowEntry(entry) && isValidEntryDate(entry.date)
+    )
+    .forEach((entry) => {
+      const day = getTradingDayKey(entry.date);
+      byDay.set(day, [...(byDay.get(day) ?? []), entry]);
+    });
+  return Array.from(byDay.values()).filter((dayEntries) => dayEntries.length > 1);
+};
+
+/**
+ * Check one account's entries for invalid dates, duplicate days and balance drift
+ */
+const checkAccount = (account: TradingAccount, entries: DailyEntry[]): IntegrityIssue[] => {
+  const issues: IntegrityIssue[] = [];
+  const accountName = account.name;
+
+  entries
+    .filter((entry) => !isValidEntryDate(entry.date))
+    .forEach((entry) => {
+      issues.push({
+        type: 'invalidDate',
+        key: `invalidDate:${entry.id}`,
+        accountId: account.id,
+        accountName,
+        entryId: entry.id,
+        date: entry.date,
+      });
+    });
+
+  findDuplicateDays(entries).forEach((dayEntries) => {
+    issues.push({
+      type: 'duplicateEntries',
+      key: `duplicateEntries:${account.id}:${getTradingDayKey(dayEntries[0].date)}`,
+      accountId: account.id,
+      accountName,
+      date: dayEntries[0].date,
+      entryIds: dayEntries.map((entry) => entry.id),
+    });
+  });
+
+  const balanceWrites = planBalanceWrites(account, entries);
+  if (balanceWrites.length > 0) {
+    const entryBalances = balanceWrites.find((operation) => operation.type === 'setBalances');
+    issues.push({
+      type: 'balanceMismatch',
+      key: `balanceMismatch:${account.id}`,
+      accountId: account.id,
+      accountName,
+      currency: account.currency,
+      entryCount:
+        entryBalances?.type === 'setBalances' ? Object.keys(entryBalances.balances).length : 0,
+      storedBalance: account.currentBalance,
+      expectedBalance: rebuildLedger(
+        account.initialBalance,
+        entries.filter((entry) => !entry.deletedAt)
+      ).currentBalance,
+    });
+  }
+
+  return issues;
+};
+
+/**
+ * Check every account and entry, including those in the trash
+ */
+export const checkDataIntegrity = async (): Promise<IntegrityReport> => {
+  const { accounts, entries } = getRepositories();
+  const [allAccounts, allEntries] = await Promise.all([accounts.getAll(), entries.getAll()]);
+
+  const entriesByAccount = new Map<string, DailyEntry[]>();
+  allEntries.forEach((entry) => {
+    const accountEntries = entriesByAccount.get(entry.accountId) ?? [];
+    entriesByAccount.set(entry.accountId, [...accountEntries, entry]);
+  });
+
+  const issues: IntegrityIssue[] = [];
+  const accountIds = new Set(allAccounts.map((account) => account.id));
+  entriesByAccount.forEach((accountEntries, accountId) => {
+    if (!accountIds.has(accountId)) {
+      issues.push({
+        type: 'orphanEntries',
+        key: `orphanEntries:${accountId}`,
+        accountId,
+        entryCount: accountEntries.length,
+      });
+    }
+  });
+  allAccounts.forEach((account) => {
+    issues.push(...checkAccount(account, entriesByAccount.get(account.id) ?? []));
+  });
+
+  return {
+    checkedAt: new Date(),
+    accountCount: allAccounts.length,
+    entryCount: allEntries.length,
+    issues,
+  };
+};
+
+/**
+ * Delete the entries and trades left behind by an account that no longer exists
+ */
+const repairOrphanEntries = (accountId: string): Promise<void> =>
+  getRepositories().commit([
+    { type: 'deleteWhere', collection: COLLECTIONS.TRADES, field: 'accountId', value: accountId },
+    { type: 'deleteWhere', collection: COLLECTIONS.ENTRIES, field: 'accountId', value: accountId },
+  ]);
+
+/**
+ * Move an entry to the day it was recorded, or to today when that is unusable too
+ */
+const repairInvalidDate = async (account: TradingAccount, entryId: string): Promise<void> => {
+  const { entries, commit } = getRepositories();
+  const accountEntries = await entries.getByAccount(account.id);
+  const entry = accountEntries.find((candidate) => candidate.id === entryId);
+  if (!entry || isValidEntryDate(entry.date)) {
+    return;
+  }
+
+  const date = isValidEntryDate(entry.createdAt) ? entry.createdAt : new Date();
+  const after = accountEntries.map((candidate) =>
+    candidate.id === entryId ? { ...candidate, date } : candidate
+  );
+  await commit([
+    { type: 'update', collection: COLLECTIONS.ENTRIES, id: entryId, changes: { date } },
+    ...planBalanceWrites(account, after),
+  ]);
+};
+
+/**
+ * Merge the entries recorded for one trading day into the earliest of them,
+ * moving their trades along
+ */
+const repairDuplicateEntries = async (
+  account: TradingAccount,
+  entryIds: string[]
+): Promise<void> => {
+  const { entries, trades, commit } = getRepositories();
+  const accountEntries = await entries.getByAccount(account.id);
+  const duplicates = accountEntries
+    .filter((entry) => entryIds.includes(entry.id) && !entry.deletedAt)
+    .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  if (duplicates.length < 2) {
+    return;
+  }
+
+  const [kept, ...merged] = duplicates;
+  let combined = kept;
+  merged.forEach((entry) => {
+    combined = { ...combined, ...mergeEntryUpdates(combined, entry) };
+  });
+  const changes = { profitLoss: combined.profitLoss, notes: combined.notes };
+  const mergedIds = new Set(merged.map((entry) => entry.id));
+
+  const operations: WriteOperation[] = [];
+  for (const entry of merged) {
+    const entryTrades = await trades.getByEntry(entry.id);
+    entryTrades.forEach((trade) => {
+      operations.push({
+        type: 'put',
+        collection: COLLECTIONS.TRADES,
+        record: { ...trade, entryId: kept.id, updatedAt: new Date() },
+      });
+    });
+    operations.push({ type: 'delete', collection: COLLECTIONS.ENTRIES, id: entry.id });
+  }
+
+  const after = accountEntries
+    .filter((entry) => !mergedIds.has(entry.id))
+    .map((entry) => (entry.id === kept.id ? { ...entry, ...changes } : entry));
+  await commit([
+    { type: 'update', collection: COLLECTIONS.ENTRIES, id: kept.id, changes },
+    ...operations,
+    ...planBalanceWrites(account, after),
+  ]);
+};
+
+/**
+ * Fix one reported issue. The data is read again first, so an issue already fixed
+ * by another repair is left alone.
+ */
+export const repairIntegrityIssue = async (issue: IntegrityIssue): Promise<void> => {
+  if (issue.type === 'orphanEntries') {
+    const account = await getRepositories().accounts.getById(issue.accountId);
+    if (!account) {
+      await repairOrphanEntries(issue.accountId);
+    }
+    return;
+  }
+
+  const account = await getRepositories().accounts.getById(issue.accountId);
+  if (!account) {
+    return;
+  }
+  switch (issue.type) {
+    case 'invalidDate':
+      return repairInvalidDate(account, issue.entryId);
+    case 'duplicateEntries':
+      return repairDuplicateEntries(account, issue.entryIds);
+    case 'balanceMismatch':
+      return recalculateBalances(account.id);
+  }
+};
+
+/**
+ * Fix every issue of a report, then check again.
+ * Returns the new report, which lists anything the repairs could not settle.
+ */
+export const repairAllIntegrityIssues = async (
+  report: IntegrityReport
+): Promise<IntegrityReport> => {
+  const ordered = [...report.issues].sort(
+    (a, b) => REPAIR_ORDER.indexOf(a.type) - REPAIR_ORDER.indexOf(b.type)
+  );
+  for (const issue of ordered) {
+    await repairIntegrityIssue(issue);
+  }
+  return checkDataIntegrity();
+};
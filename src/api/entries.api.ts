@@ -4,103 +4,358 @@ import {
   updateDoc,
   deleteDoc,
   doc,
+  getDoc,
   getDocs,
+  setDoc,
+  onSnapshot,
   query,
   where,
   orderBy,
+  startAfter,
+  limit,
+  documentId,
+  writeBatch,
   Timestamp,
+  serverTimestamp,
+  DocumentSnapshot,
+  QueryConstraint,
 } from 'firebase/firestore';
 import { db } from '../config';
 import { COLLECTIONS } from '../constants';
-import {
-  DailyEntry,
-  CreateDailyEntryInput,
-  UpdateDailyEntryInput,
-} from '../models';
-import { updateAccount } from './accounts.api';
+import { DailyEntry, Trade } from '../models';
+import type {
+  EntryRepository,
+  TradeRepository,
+  NewDailyEntry,
+  DailyEntryChanges,
+  NewTrade,
+  TradeChanges,
+  EntryDateRange,
+  EntryPageQuery,
+  EntryPage,
+  Unsubscribe,
+} from './repository';
+import { toFirestoreChanges, toFirestoreRecord } from './accounts.api';
+import { ownedByCurrentUser, requireUserId } from './auth.api';
 
 /**
- * Create a new daily entry and update account balance
+ * Map a Firestore entry document to a DailyEntry
  */
-export const createEntry = async (
-  entry: CreateDailyEntryInput
-): Promise<string> => {
-  const docRef = await addDoc(collection(db, COLLECTIONS.ENTRIES), {
-    ...entry,
-    date: Timestamp.fromDate(entry.date),
-    createdAt: Timestamp.now(),
-    updatedAt: Timestamp.now(),
-  });
-
-  // Update account balance
-  await updateAccount(entry.accountId, {
-    currentBalance: entry.balance,
-  });
-
-  return docRef.id;
+export const mapEntryDoc = (entryDoc: DocumentSnapshot): DailyEntry => {
+  const data = entryDoc.data() ?? {};
+  return {
+    id: entryDoc.id,
+    accountId: data.accountId,
+    ownerId: data.ownerId,
+    type: data.type,
+    date: data.date?.toDate() || new Date(),
+    profitLoss: data.profitLoss,
+    balance: data.balance,
+    notes: data.notes,
+    deletedAt: data.deletedAt?.toDate(),
+    createdAt: data.createdAt?.toDate() || new Date(),
+    updatedAt: data.updatedAt?.toDate() || new Date(),
+  };
 };
 
 /**
- * Update an existing daily entry
+ * Map a Firestore trade document to a Trade
  */
-export const updateEntry = async (
-  id: string,
-  updates: UpdateDailyEntryInput
-): Promise<void> => {
-  const entryRef = doc(db, COLLECTIONS.ENTRIES, id);
-  const updateData: Record<string, any> = {
-    ...updates,
-    updatedAt: Timestamp.now(),
+export const mapTradeDoc = (tradeDoc: DocumentSnapshot): Trade => {
+  const data = tradeDoc.data() ?? {};
+  return {
+    id: tradeDoc.id,
+    entryId: data.entryId,
+    accountId: data.accountId,
+    ownerId: data.ownerId,
+    symbol: data.symbol,
+    direction: data.direction,
+    lotSize: data.lotSize,
+    entryPrice: data.entryPrice,
+    exitPrice: data.exitPrice,
+    stopLoss: data.stopLoss,
+    takeProfit: data.takeProfit,
+    openTime: data.openTime?.toDate() || new Date(),
+    closeTime: data.closeTime?.toDate() || new Date(),
+    profitLoss: data.profitLoss,
+    createdAt: data.createdAt?.toDate() || new Date(),
+    updatedAt: data.updatedAt?.toDate() || new Date(),
   };
-
-  if (updates.date) {
-    updateData.date = Timestamp.fromDate(updates.date);
-  }
-
-  await updateDoc(entryRef, updateData);
-
-  // If balance is updated, update account balance
-  if (updates.balance !== undefined && updates.accountId) {
-    await updateAccount(updates.accountId, {
-      currentBalance: updates.balance,
-    });
-  }
 };
 
 /**
- * Delete a daily entry
- * Note: This function does not automatically update the account balance.
- * The caller is responsible for recalculating and updating the account balance
- * based on the remaining entries after deletion.
+ * Delete every document in a collection matching a field value
  */
-export const deleteEntry = async (id: string): Promise<void> => {
-  await deleteDoc(doc(db, COLLECTIONS.ENTRIES, id));
+export const deleteWhere = async (
+  collectionName: string,
+  field: string,
+  value: string
+): Promise<void> => {
+  const snapshot = await getDocs(
+    query(collection(db, collectionName), ownedByCurrentUser(), where(field, '==', value))
+  );
+  await Promise.all(snapshot.docs.map((doc) => deleteDoc(doc.ref)));
 };
 
 /**
- * Get all entries for a specific account
+ * Query constraints keeping entries dated within a range
  */
-export const getEntriesByAccount = async (
-  accountId: string
-): Promise<DailyEntry[]> => {
-  const q = query(
-    collection(db, COLLECTIONS.ENTRIES),
-    where('accountId', '==', accountId),
-    orderBy('date', 'desc')
-  );
+const dateRangeConstraints = ({ from, to }: EntryDateRange = {}): QueryConstraint[] => [
+  ...(from ? [where('date', '>=', Timestamp.fromDate(from))] : []),
+  ...(to ? [where('date', '<=', Timestamp.fromDate(to))] : []),
+];
 
-  const querySnapshot = await getDocs(q);
-  return querySnapshot.docs.map((doc) => {
-    const data = doc.data();
+/**
+ * Firestore implementation of the entry repository
+ */
+export const firestoreEntryRepository: EntryRepository = {
+  /**
+   * Get a single entry by ID
+   */
+  async getById(id: string): Promise<DailyEntry | null> {
+    const entryDoc = await getDoc(doc(db, COLLECTIONS.ENTRIES, id));
+    return entryDoc.exists() ? mapEntryDoc(entryDoc) : null;
+  },
+
+  /**
+   * Get every entry of the signed-in user
+   */
+  async getAll(): Promise<DailyEntry[]> {
+    const querySnapshot = await getDocs(
+      query(collection(db, COLLECTIONS.ENTRIES), ownedByCurrentUser())
+    );
+    return querySnapshot.docs.map(mapEntryDoc);
+  },
+
+  /**
+   * Get all entries for a specific account
+   */
+  async getByAccount(accountId: string, range?: EntryDateRange): Promise<DailyEntry[]> {
+    const q = query(
+      collection(db, COLLECTIONS.ENTRIES),
+      ownedByCurrentUser(),
+      where('accountId', '==', accountId),
+      ...dateRangeConstraints(range),
+      orderBy('date', 'desc')
+    );
+
+    const querySnapshot = await getDocs(q);
+    return querySnapshot.docs.map(mapEntryDoc);
+  },
+
+  /**
+   * Get one page of entries for an account.
+   * One extra document is read to tell whether another page follows.
+   */
+  async getPage(accountId: string, pageQuery: EntryPageQuery): Promise<EntryPage> {
+    const { limit: pageSize, cursor } = pageQuery;
+    const q = query(
+      collection(db, COLLECTIONS.ENTRIES),
+      ownedByCurrentUser(),
+      where('accountId', '==', accountId),
+      ...dateRangeConstraints(pageQuery),
+      orderBy('date', 'desc'),
+      orderBy(documentId(), 'desc'),
+      ...(cursor ? [startAfter(Timestamp.fromDate(cursor.date), cursor.id)] : []),
+      limit(pageSize + 1)
+    );
+
+    const querySnapshot = await getDocs(q);
+    const entries = querySnapshot.docs.slice(0, pageSize).map(mapEntryDoc);
+    const last = entries[entries.length - 1];
     return {
-      id: doc.id,
-      accountId: data.accountId,
-      date: data.date?.toDate() || new Date(),
-      profitLoss: data.profitLoss,
-      balance: data.balance,
-      notes: data.notes,
-      createdAt: data.createdAt?.toDate() || new Date(),
-      updatedAt: data.updatedAt?.toDate() || new Date(),
+      entries,
+      nextCursor:
+        querySnapshot.docs.length > pageSize && last ? { date: last.date, id: last.id } : null,
     };
-  });
+  },
+
+  /**
+   * Follow the entries of an account through a snapshot listener
+   */
+  subscribeByAccount(
+    accountId: string,
+    onChange: (entries: DailyEntry[]) => void,
+    onError: (error: Error) => void,
+    limitCount?: number
+  ): Unsubscribe {
+    const q = query(
+      collection(db, COLLECTIONS.ENTRIES),
+      ownedByCurrentUser(),
+      where('accountId', '==', accountId),
+      orderBy('date', 'desc'),
+      ...(limitCount ? [limit(limitCount)] : [])
+    );
+    return onSnapshot(q, (querySnapshot) => onChange(querySnapshot.docs.map(mapEntryDoc)), onError);
+  },
+
+  /**
+   * Create a new daily entry
+   */
+  async create(entry: NewDailyEntry): Promise<string> {
+    const docRef = await addDoc(collection(db, COLLECTIONS.ENTRIES), {
+      ...entry,
+      ownerId: requireUserId(),
+      date: Timestamp.fromDate(entry.date),
+      ...(entry.deletedAt ? { deletedAt: Timestamp.fromDate(entry.deletedAt) } : {}),
+      createdAt: Timestamp.now(),
+      updatedAt: Timestamp.now(),
+      syncedAt: serverTimestamp(),
+    });
+    return docRef.id;
+  },
+
+  /**
+   * Update an existing daily entry
+   */
+  async update(id: string, changes: DailyEntryChanges): Promise<void> {
+    await updateDoc(doc(db, COLLECTIONS.ENTRIES, id), {
+      ...toFirestoreChanges(changes),
+      updatedAt: Timestamp.now(),
+      syncedAt: serverTimestamp(),
+    });
+  },
+
+  /**
+   * Write a whole daily entry, keeping its id and timestamps
+   */
+  async put(entry: DailyEntry): Promise<void> {
+    await setDoc(doc(db, COLLECTIONS.ENTRIES, entry.id), {
+      ...toFirestoreRecord(entry),
+      syncedAt: serverTimestamp(),
+    });
+  },
+
+  /**
+   * Write derived running balances in a single batch
+   */
+  async setBalances(_accountId: string, balances: Record<string, number>): Promise<void> {
+    const ids = Object.keys(balances);
+    if (ids.length === 0) {
+      return;
+    }
+    const batch = writeBatch(db);
+    ids.forEach((id) => {
+      batch.update(doc(db, COLLECTIONS.ENTRIES, id), {
+        balance: balances[id],
+        syncedAt: serverTimestamp(),
+      });
+    });
+    await batch.commit();
+  },
+
+  /**
+   * Delete a daily entry document
+   */
+  async delete(id: string): Promise<void> {
+    await deleteDoc(doc(db, COLLECTIONS.ENTRIES, id));
+  },
+
+  /**
+   * Delete every entry of an account
+   */
+  async deleteByAccount(accountId: string): Promise<void> {
+    await deleteWhere(COLLECTIONS.ENTRIES, 'accountId', accountId);
+  },
+};
+
+/**
+ * Firestore implementation of the trade repository
+ */
+export const firestoreTradeRepository: TradeRepository = {
+  /**
+   * Get a single trade by ID
+   */
+  async getById(id: string): Promise<Trade | null> {
+    const tradeDoc = await getDoc(doc(db, COLLECTIONS.TRADES, id));
+    return tradeDoc.exists() ? mapTradeDoc(tradeDoc) : null;
+  },
+
+  /**
+   * Get all trades recorded for a specific entry
+   */
+  async getByEntry(entryId: string): Promise<Trade[]> {
+    const q = query(
+      collection(db, COLLECTIONS.TRADES),
+      ownedByCurrentUser(),
+      where('entryId', '==', entryId),
+      orderBy('openTime', 'asc')
+    );
+
+    const querySnapshot = await getDocs(q);
+    return querySnapshot.docs.map(mapTradeDoc);
+  },
+
+  /**
+   * Get all trades of a specific account
+   */
+  async getByAccount(accountId: string): Promise<Trade[]> {
+    const q = query(
+      collection(db, COLLECTIONS.TRADES),
+      ownedByCurrentUser(),
+      where('accountId', '==', accountId),
+      orderBy('openTime', 'asc')
+    );
+
+    const querySnapshot = await getDocs(q);
+    return querySnapshot.docs.map(mapTradeDoc);
+  },
+
+  /**
+   * Create a new trade
+   */
+  async create(trade: NewTrade): Promise<string> {
+    const docRef = await addDoc(collection(db, COLLECTIONS.TRADES), {
+      ...trade,
+      ownerId: requireUserId(),
+      openTime: Timestamp.fromDate(trade.openTime),
+      closeTime: Timestamp.fromDate(trade.closeTime),
+      createdAt: Timestamp.now(),
+      updatedAt: Timestamp.now(),
+      syncedAt: serverTimestamp(),
+    });
+    return docRef.id;
+  },
+
+  /**
+   * Update an existing trade
+   */
+  async update(id: string, changes: TradeChanges): Promise<void> {
+    await updateDoc(doc(db, COLLECTIONS.TRADES, id), {
+      ...toFirestoreChanges(changes),
+      updatedAt: Timestamp.now(),
+      syncedAt: serverTimestamp(),
+    });
+  },
+
+  /**
+   * Write a whole trade, keeping its id and timestamps
+   */
+  async put(trade: Trade): Promise<void> {
+    await setDoc(doc(db, COLLECTIONS.TRADES, trade.id), {
+      ...toFirestoreRecord(trade),
+      syncedAt: serverTimestamp(),
+    });
+  },
+
+  /**
+   * Delete a trade document
+   */
+  async delete(id: string): Promise<void> {
+    await deleteDoc(doc(db, COLLECTIONS.TRADES, id));
+  },
+
+  /**
+   * Delete every trade recorded for an entry
+   */
+  async deleteByEntry(entryId: string): Promise<void> {
+    await deleteWhere(COLLECTIONS.TRADES, 'entryId', entryId);
+  },
+
+  /**
+   * Delete every trade of an account
+   */
+  async deleteByAccount(accountId: string): Promise<void> {
+    await deleteWhere(COLLECTIONS.TRADES, 'accountId', accountId);
+  },
 };
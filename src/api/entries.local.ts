@@ -4,117 +4,372 @@
  */
 
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { DailyEntry, Trade } from '../models';
+import { COLLECTIONS } from '../constants';
+import type {
+  EntryRepository,
+  TradeRepository,
+  NewDailyEntry,
+  DailyEntryChanges,
+  NewTrade,
+  TradeChanges,
+  EntryDateRange,
+  EntryPageQuery,
+  EntryPage,
+  Unsubscribe,
+} from './repository';
 import {
-  DailyEntry,
-  CreateDailyEntryInput,
-  UpdateDailyEntryInput,
-} from '../models';
-import { updateAccountLocal } from './accounts.local';
+  generateLocalId,
+  applyChanges,
+  readStoredList,
+  writeStoredList,
+  filterByDateRange,
+  paginateEntries,
+} from './storage.helpers';
+import { notifyLocalChange, subscribeToLocalReads } from './changes';
+
+const ENTRIES_KEY_PREFIX = '@BitacoraFx:entries_';
+const TRADES_KEY_PREFIX = '@BitacoraFx:trades_';
 
 /**
  * Get entries key for an account
  */
-const getEntriesKey = (accountId: string) => `@BitacoraFx:entries_${accountId}`;
+const getEntriesKey = (accountId: string) => `${ENTRIES_KEY_PREFIX}${accountId}`;
 
 /**
- * Get all entries for an account from local storage
+ * Get trades key for an account
  */
-const getStoredEntries = async (accountId: string): Promise<DailyEntry[]> => {
-  try {
-    const data = await AsyncStorage.getItem(getEntriesKey(accountId));
-    return data ? JSON.parse(data, (key, value) => {
-      if (key === 'date' || key === 'createdAt' || key === 'updatedAt') {
-        return new Date(value);
-      }
-      return value;
-    }) : [];
-  } catch (error) {
-    console.error('Error reading entries from storage:', error);
-    return [];
-  }
+const getTradesKey = (accountId: string) => `${TRADES_KEY_PREFIX}${accountId}`;
+
+/**
+ * Get the ids of every account with data stored under a key prefix
+ */
+const getStoredAccountIds = async (prefix: string): Promise<string[]> => {
+  const keys = await AsyncStorage.getAllKeys();
+  return keys
+    .filter((key) => key.startsWith(prefix))
+    .map((key) => key.substring(prefix.length));
 };
 
+/**
+ * Get all entries for an account from local storage
+ */
+const getStoredEntries = (accountId: string): Promise<DailyEntry[]> =>
+  readStoredList<DailyEntry>(getEntriesKey(accountId), [
+    'date',
+    'createdAt',
+    'updatedAt',
+    'deletedAt',
+  ]);
+
 /**
  * Save entries to local storage
  */
 const saveEntries = async (accountId: string, entries: DailyEntry[]): Promise<void> => {
   try {
-    await AsyncStorage.setItem(getEntriesKey(accountId), JSON.stringify(entries));
+    await writeStoredList(getEntriesKey(accountId), entries);
   } catch (error) {
     console.error('Error saving entries to storage:', error);
     throw error;
   }
+  notifyLocalChange(COLLECTIONS.ENTRIES, accountId);
 };
 
 /**
- * Create a new daily entry (local)
+ * Find the account an entry is stored under
  */
-export const createEntryLocal = async (
-  entry: CreateDailyEntryInput
-): Promise<string> => {
-  const entries = await getStoredEntries(entry.accountId);
-  const now = new Date();
-  const newEntry: DailyEntry = {
-    id: `local_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`,
-    ...entry,
-    createdAt: now,
-    updatedAt: now,
-  };
-  entries.unshift(newEntry); // Add to beginning for chronological order
-  await saveEntries(entry.accountId, entries);
-  
-  // Update account balance
-  await updateAccountLocal(entry.accountId, {
-    currentBalance: entry.balance,
-  });
-  
-  return newEntry.id;
+const findEntryAccountId = async (id: string): Promise<string | null> => {
+  const accountIds = await getStoredAccountIds(ENTRIES_KEY_PREFIX);
+  for (const accountId of accountIds) {
+    const entries = await getStoredEntries(accountId);
+    if (entries.some((entry) => entry.id === id)) {
+      return accountId;
+    }
+  }
+  return null;
 };
 
 /**
- * Update an existing daily entry (local)
+ * Get all trades for an account from local storage
+ */
+const getStoredTrades = (accountId: string): Promise<Trade[]> =>
+  readStoredList<Trade>(getTradesKey(accountId), [
+    'openTime',
+    'closeTime',
+    'createdAt',
+    'updatedAt',
+  ]);
+
+/**
+ * Save trades to local storage
  */
-export const updateEntryLocal = async (
-  id: string,
-  accountId: string,
-  updates: UpdateDailyEntryInput
-): Promise<void> => {
-  const entries = await getStoredEntries(accountId);
-  const index = entries.findIndex((entry) => entry.id === id);
-  if (index === -1) {
-    throw new Error(`Entry with id ${id} not found`);
+const saveTrades = async (accountId: string, trades: Trade[]): Promise<void> => {
+  try {
+    await writeStoredList(getTradesKey(accountId), trades);
+  } catch (error) {
+    console.error('Error saving trades to storage:', error);
+    throw error;
   }
-  entries[index] = {
-    ...entries[index],
-    ...updates,
-    updatedAt: new Date(),
-  };
-  await saveEntries(accountId, entries);
-  
-  // If balance is updated, update account balance
-  if (updates.balance !== undefined) {
-    await updateAccountLocal(accountId, {
-      currentBalance: updates.balance,
-    });
+};
+
+/**
+ * Find the trades list a trade is stored in
+ */
+const findStoredTrade = async (
+  id: string
+): Promise<{ accountId: string; trades: Trade[]; index: number } | null> => {
+  const accountIds = await getStoredAccountIds(TRADES_KEY_PREFIX);
+  for (const accountId of accountIds) {
+    const trades = await getStoredTrades(accountId);
+    const index = trades.findIndex((trade) => trade.id === id);
+    if (index !== -1) {
+      return { accountId, trades, index };
+    }
   }
+  return null;
 };
 
 /**
- * Delete a daily entry (local)
+ * Sort entries by date, newest first
+ */
+const sortNewestFirst = (entries: DailyEntry[]): DailyEntry[] =>
+  entries.sort((a, b) => b.date.getTime() - a.date.getTime());
+
+/**
+ * AsyncStorage implementation of the entry repository
  */
-export const deleteEntryLocal = async (id: string, accountId: string): Promise<void> => {
-  const entries = await getStoredEntries(accountId);
-  const filtered = entries.filter((entry) => entry.id !== id);
-  await saveEntries(accountId, filtered);
+export const localEntryRepository: EntryRepository = {
+  /**
+   * Get a single entry by ID (local)
+   */
+  async getById(id: string): Promise<DailyEntry | null> {
+    const accountId = await findEntryAccountId(id);
+    if (!accountId) {
+      return null;
+    }
+    const entries = await getStoredEntries(accountId);
+    return entries.find((entry) => entry.id === id) || null;
+  },
+
+  /**
+   * Get every stored entry, whichever account it is stored under (local)
+   */
+  async getAll(): Promise<DailyEntry[]> {
+    const accountIds = await getStoredAccountIds(ENTRIES_KEY_PREFIX);
+    const entryLists = await Promise.all(accountIds.map(getStoredEntries));
+    return entryLists.flat();
+  },
+
+  /**
+   * Get all entries for an account (local)
+   */
+  async getByAccount(accountId: string, range?: EntryDateRange): Promise<DailyEntry[]> {
+    return sortNewestFirst(filterByDateRange(await getStoredEntries(accountId), range));
+  },
+
+  /**
+   * Get one page of entries for an account (local).
+   * The account's entries live under a single key, so the page is cut after reading it.
+   */
+  async getPage(accountId: string, query: EntryPageQuery): Promise<EntryPage> {
+    return paginateEntries(await getStoredEntries(accountId), query);
+  },
+
+  /**
+   * Follow the entries of an account (local)
+   */
+  subscribeByAccount(
+    accountId: string,
+    onChange: (entries: DailyEntry[]) => void,
+    onError: (error: Error) => void,
+    limitCount?: number
+  ): Unsubscribe {
+    return subscribeToLocalReads(
+      COLLECTIONS.ENTRIES,
+      accountId,
+      async () => sortNewestFirst(await getStoredEntries(accountId)).slice(0, limitCount),
+      onChange,
+      onError
+    );
+  },
+
+  /**
+   * Create a new daily entry (local)
+   */
+  async create(entry: NewDailyEntry): Promise<string> {
+    const entries = await getStoredEntries(entry.accountId);
+    const now = new Date();
+    const newEntry: DailyEntry = {
+      id: generateLocalId(),
+      ...entry,
+      createdAt: now,
+      updatedAt: now,
+    };
+    await saveEntries(entry.accountId, sortNewestFirst([...entries, newEntry]));
+    return newEntry.id;
+  },
+
+  /**
+   * Update an existing daily entry (local)
+   */
+  async update(id: string, changes: DailyEntryChanges): Promise<void> {
+    const accountId = await findEntryAccountId(id);
+    if (!accountId) {
+      throw new Error(`Entry with id ${id} not found`);
+    }
+    const entries = await getStoredEntries(accountId);
+    const index = entries.findIndex((entry) => entry.id === id);
+    entries[index] = applyChanges(entries[index], changes);
+    await saveEntries(accountId, sortNewestFirst(entries));
+  },
+
+  /**
+   * Insert or replace a daily entry as-is (local)
+   */
+  async put(entry: DailyEntry): Promise<void> {
+    const entries = await getStoredEntries(entry.accountId);
+    await saveEntries(
+      entry.accountId,
+      sortNewestFirst([...entries.filter((e) => e.id !== entry.id), entry])
+    );
+  },
+
+  /**
+   * Write derived running balances (local)
+   */
+  async setBalances(accountId: string, balances: Record<string, number>): Promise<void> {
+    if (Object.keys(balances).length === 0) {
+      return;
+    }
+    const entries = await getStoredEntries(accountId);
+    await saveEntries(
+      accountId,
+      entries.map((entry) =>
+        entry.id in balances ? { ...entry, balance: balances[entry.id] } : entry
+      )
+    );
+  },
+
+  /**
+   * Delete a daily entry (local)
+   */
+  async delete(id: string): Promise<void> {
+    const accountId = await findEntryAccountId(id);
+    if (!accountId) {
+      return;
+    }
+    const entries = await getStoredEntries(accountId);
+    await saveEntries(accountId, entries.filter((entry) => entry.id !== id));
+  },
+
+  /**
+   * Delete every entry of an account (local)
+   */
+  async deleteByAccount(accountId: string): Promise<void> {
+    await AsyncStorage.removeItem(getEntriesKey(accountId));
+    notifyLocalChange(COLLECTIONS.ENTRIES, accountId);
+  },
 };
 
 /**
- * Get all entries for an account (local)
+ * AsyncStorage implementation of the trade repository
  */
-export const getEntriesByAccountLocal = async (
-  accountId: string
-): Promise<DailyEntry[]> => {
-  const entries = await getStoredEntries(accountId);
-  // Sort by date descending
-  return entries.sort((a, b) => b.date.getTime() - a.date.getTime());
+export const localTradeRepository: TradeRepository = {
+  /**
+   * Get a single trade by ID (local)
+   */
+  async getById(id: string): Promise<Trade | null> {
+    const found = await findStoredTrade(id);
+    return found ? found.trades[found.index] : null;
+  },
+
+  /**
+   * Get all trades recorded for a specific entry (local)
+   */
+  async getByEntry(entryId: string): Promise<Trade[]> {
+    const accountIds = await getStoredAccountIds(TRADES_KEY_PREFIX);
+    const tradeLists = await Promise.all(accountIds.map(getStoredTrades));
+    return tradeLists
+      .flat()
+      .filter((trade) => trade.entryId === entryId)
+      .sort((a, b) => a.openTime.getTime() - b.openTime.getTime());
+  },
+
+  /**
+   * Get all trades of a specific account (local)
+   */
+  async getByAccount(accountId: string): Promise<Trade[]> {
+    const trades = await getStoredTrades(accountId);
+    return trades.sort((a, b) => a.openTime.getTime() - b.openTime.getTime());
+  },
+
+  /**
+   * Create a new trade (local)
+   */
+  async create(trade: NewTrade): Promise<string> {
+    const trades = await getStoredTrades(trade.accountId);
+    const now = new Date();
+    const newTrade: Trade = {
+      id: generateLocalId(),
+      ...trade,
+      createdAt: now,
+      updatedAt: now,
+    };
+    trades.push(newTrade);
+    await saveTrades(trade.accountId, trades);
+    return newTrade.id;
+  },
+
+  /**
+   * Update an existing trade (local)
+   */
+  async update(id: string, changes: TradeChanges): Promise<void> {
+    const found = await findStoredTrade(id);
+    if (!found) {
+      throw new Error(`Trade with id ${id} not found`);
+    }
+    const { accountId, trades, index } = found;
+    trades[index] = applyChanges(trades[index], changes);
+    await saveTrades(accountId, trades);
+  },
+
+  /**
+   * Insert or replace a trade as-is (local)
+   */
+  async put(trade: Trade): Promise<void> {
+    const trades = await getStoredTrades(trade.accountId);
+    await saveTrades(trade.accountId, [...trades.filter((t) => t.id !== trade.id), trade]);
+  },
+
+  /**
+   * Delete a trade (local)
+   */
+  async delete(id: string): Promise<void> {
+    const found = await findStoredTrade(id);
+    if (!found) {
+      return;
+    }
+    await saveTrades(found.accountId, found.trades.filter((trade) => trade.id !== id));
+  },
+
+  /**
+   * Delete every trade recorded for an entry (local)
+   */
+  async deleteByEntry(entryId: string): Promise<void> {
+    const accountIds = await getStoredAccountIds(TRADES_KEY_PREFIX);
+    for (const accountId of accountIds) {
+      const trades = await getStoredTrades(accountId);
+      const remaining = trades.filter((trade) => trade.entryId !== entryId);
+      if (remaining.length !== trades.length) {
+        await saveTrades(accountId, remaining);
+      }
+    }
+  },
+
+  /**
+   * Delete every trade of an account (local)
+   */
+  async deleteByAccount(accountId: string): Promise<void> {
+    await AsyncStorage.removeItem(getTradesKey(accountId));
+  },
 };
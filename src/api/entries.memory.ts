@@ -0,0 +1,195 @@
+/**
+ * In-memory implementation for entries and trades.
+ * Nothing is persisted, which makes it suitable for automated tests.
+ */
+
+import { DailyEntry, Trade } from '../models';
+import { COLLECTIONS } from '../constants';
+import type {
+  EntryRepository,
+  TradeRepository,
+  NewDailyEntry,
+  DailyEntryChanges,
+  NewTrade,
+  TradeChanges,
+  EntryDateRange,
+  EntryPageQuery,
+} from './repository';
+import {
+  generateLocalId,
+  applyChanges,
+  filterByDateRange,
+  paginateEntries,
+} from './storage.helpers';
+import { notifyLocalChange, subscribeToLocalReads } from './changes';
+
+/**
+ * Create an empty in-memory entry repository
+ */
+export const createMemoryEntryRepository = (): EntryRepository => {
+  const entries = new Map<string, DailyEntry>();
+
+  /**
+   * Copy the entries of an account
+   */
+  const getAccountEntries = (accountId: string): DailyEntry[] =>
+    Array.from(entries.values())
+      .filter((entry) => entry.accountId === accountId)
+      .map((entry) => ({ ...entry }));
+
+  /**
+   * Copy the entries of an account in a range, newest first
+   */
+  const getByAccount = async (accountId: string, range?: EntryDateRange) =>
+    filterByDateRange(getAccountEntries(accountId), range).sort(
+      (a, b) => b.date.getTime() - a.date.getTime()
+    );
+
+  return {
+    async getById(id: string) {
+      const entry = entries.get(id);
+      return entry ? { ...entry } : null;
+    },
+
+    async getAll() {
+      return Array.from(entries.values()).map((entry) => ({ ...entry }));
+    },
+
+    getByAccount,
+
+    async getPage(accountId: string, query: EntryPageQuery) {
+      return paginateEntries(getAccountEntries(accountId), query);
+    },
+
+    subscribeByAccount(
+      accountId: string,
+      onChange: (entries: DailyEntry[]) => void,
+      onError: (error: Error) => void,
+      limitCount?: number
+    ) {
+      return subscribeToLocalReads(
+        COLLECTIONS.ENTRIES,
+        accountId,
+        async () => (await getByAccount(accountId)).slice(0, limitCount),
+        onChange,
+        onError
+      );
+    },
+
+    async create(entry: NewDailyEntry) {
+      const now = new Date();
+      const id = generateLocalId();
+      entries.set(id, { id, ...entry, createdAt: now, updatedAt: now });
+      notifyLocalChange(COLLECTIONS.ENTRIES, entry.accountId);
+      return id;
+    },
+
+    async update(id: string, changes: DailyEntryChanges) {
+      const entry = entries.get(id);
+      if (!entry) {
+        throw new Error(`Entry with id ${id} not found`);
+      }
+      entries.set(id, applyChanges(entry, changes));
+      notifyLocalChange(COLLECTIONS.ENTRIES, entry.accountId);
+    },
+
+    async put(entry: DailyEntry) {
+      entries.set(entry.id, { ...entry });
+      notifyLocalChange(COLLECTIONS.ENTRIES, entry.accountId);
+    },
+
+    async setBalances(accountId: string, balances: Record<string, number>) {
+      Object.entries(balances).forEach(([id, balance]) => {
+        const entry = entries.get(id);
+        if (entry) {
+          entries.set(id, { ...entry, balance });
+        }
+      });
+      notifyLocalChange(COLLECTIONS.ENTRIES, accountId);
+    },
+
+    async delete(id: string) {
+      const entry = entries.get(id);
+      entries.delete(id);
+      if (entry) {
+        notifyLocalChange(COLLECTIONS.ENTRIES, entry.accountId);
+      }
+    },
+
+    async deleteByAccount(accountId: string) {
+      entries.forEach((entry, id) => {
+        if (entry.accountId === accountId) {
+          entries.delete(id);
+        }
+      });
+      notifyLocalChange(COLLECTIONS.ENTRIES, accountId);
+    },
+  };
+};
+
+/**
+ * Create an empty in-memory trade repository
+ */
+export const createMemoryTradeRepository = (): TradeRepository => {
+  const trades = new Map<string, Trade>();
+
+  const deleteMatching = (predicate: (trade: Trade) => boolean) => {
+    trades.forEach((trade, id) => {
+      if (predicate(trade)) {
+        trades.delete(id);
+      }
+    });
+  };
+
+  return {
+    async getById(id: string) {
+      const trade = trades.get(id);
+      return trade ? { ...trade } : null;
+    },
+
+    async getByEntry(entryId: string) {
+      return Array.from(trades.values())
+        .filter((trade) => trade.entryId === entryId)
+        .map((trade) => ({ ...trade }))
+        .sort((a, b) => a.openTime.getTime() - b.openTime.getTime());
+    },
+
+    async getByAccount(accountId: string) {
+      return Array.from(trades.values())
+        .filter((trade) => trade.accountId === accountId)
+        .map((trade) => ({ ...trade }))
+        .sort((a, b) => a.openTime.getTime() - b.openTime.getTime());
+    },
+
+    async create(trade: NewTrade) {
+      const now = new Date();
+      const id = generateLocalId();
+      trades.set(id, { id, ...trade, createdAt: now, updatedAt: now });
+      return id;
+    },
+
+    async update(id: string, changes: TradeChanges) {
+      const trade = trades.get(id);
+      if (!trade) {
+        throw new Error(`Trade with id ${id} not found`);
+      }
+      trades.set(id, applyChanges(trade, changes));
+    },
+
+    async put(trade: Trade) {
+      trades.set(trade.id, { ...trade });
+    },
+
+    async delete(id: string) {
+      trades.delete(id);
+    },
+
+    async deleteByEntry(entryId: string) {
+      deleteMatching((trade) => trade.entryId === entryId);
+    },
+
+    async deleteByAccount(accountId: string) {
+      deleteMatching((trade) => trade.accountId === accountId);
+    },
+  };
+};
@@ -1,86 +1,431 @@
 /**
- * API layer with automatic fallback to local storage
- * Uses Firebase when configured, otherwise uses AsyncStorage for development
+ * Entry and trade service on top of the active storage repository.
+ * Validation, the one-entry-per-day rule and balance derivation live here,
+ * so every backend behaves the same. Each change is committed together with
+ * the balance updates it causes.
  */
 
-import { db } from '../config/firebase.config';
 import {
+  TradingAccount,
   DailyEntry,
   CreateDailyEntryInput,
   UpdateDailyEntryInput,
+  Trade,
+  CreateTradeInput,
+  UpdateTradeInput,
 } from '../models';
+import { calculateTradesProfitLoss } from '../utils/helpers';
+import { COLLECTIONS, DEFAULTS } from '../constants';
+import {
+  getRepositories,
+  WriteOperation,
+  EntryDateRange,
+  EntryCursor,
+  EntryPageQuery,
+  EntryPage,
+  Unsubscribe,
+} from './repository';
+import { applyChanges } from './storage.helpers';
+import { rebuildLedger } from './ledger';
+import { DuplicateEntryError, ValidationError } from './errors';
+import {
+  CreateEntryOptions,
+  validateEntryDate,
+  findSameDayEntry,
+  isTradingEntryInput,
+  mergeEntryUpdates,
+} from './validation';
 
-// Import Firebase implementations
-import * as FirebaseEntries from './entries.api';
+/**
+ * Get an entry by ID or fail
+ */
+const getExistingEntry = async (id: string): Promise<DailyEntry> => {
+  const entry = await getRepositories().entries.getById(id);
+  if (!entry) {
+    throw new Error(`Entry with id ${id} not found`);
+  }
+  return entry;
+};
 
-// Import local implementations
-import * as LocalEntries from './entries.local';
+/**
+ * Refuse to set the P/L of an entry with trades, which is always the total of its trades
+ */
+const assertProfitLossEditable = async (entryId: string): Promise<void> => {
+  if ((await getRepositories().trades.getByEntry(entryId)).length > 0) {
+    throw new ValidationError(
+      'The P/L of this day is the total of its trades. Add or edit a trade instead.'
+    );
+  }
+};
 
 /**
- * Check if Firebase is properly configured
+ * Plan the writes that bring entry balances and the account's currentBalance in line
+ * with the ledger, given the account's entries as they will be after the commit
  */
-const isFirebaseConfigured = (): boolean => {
-  try {
-    const isDemoConfig = db.app.options.projectId === 'demo-project' || 
-                        db.app.options.apiKey === 'demo-api-key';
-    return !isDemoConfig;
-  } catch (error) {
-    return false;
+export const planBalanceWrites = (
+  account: TradingAccount,
+  entries: DailyEntry[]
+): WriteOperation[] => {
+  // Trashed entries keep their last balance and stay out of the ledger
+  const ledger = rebuildLedger(
+    account.initialBalance,
+    entries.filter((entry) => !entry.deletedAt)
+  );
+
+  const previousBalances = new Map(entries.map((entry) => [entry.id, entry.balance]));
+  const changedBalances: Record<string, number> = {};
+  ledger.entries.forEach((entry) => {
+    if (previousBalances.get(entry.id) !== entry.balance) {
+      changedBalances[entry.id] = entry.balance;
+    }
+  });
+
+  const operations: WriteOperation[] = [];
+  if (Object.keys(changedBalances).length > 0) {
+    operations.push({ type: 'setBalances', accountId: account.id, balances: changedBalances });
+  }
+  // Skipping unchanged totals keeps updatedAt stable, so synced devices don't keep re-pushing the account
+  if (
+    account.currentBalance !== ledger.currentBalance ||
+    account.netCashFlow !== ledger.netCashFlow
+  ) {
+    operations.push({
+      type: 'update',
+      collection: COLLECTIONS.ACCOUNTS,
+      id: account.id,
+      changes: { currentBalance: ledger.currentBalance, netCashFlow: ledger.netCashFlow },
+    });
   }
+  return operations;
 };
 
-const useLocal = !isFirebaseConfigured();
+/**
+ * Commit changes to one entry of an account together with the balance updates they cause,
+ * planned from the ledger as the commit reads it
+ */
+const commitEntryChange = (
+  accountId: string,
+  operations: WriteOperation[],
+  applyToEntries: (entries: DailyEntry[]) => DailyEntry[]
+): Promise<void> =>
+  getRepositories().commitLedger(accountId, async (account, entries) => [
+    ...operations,
+    ...planBalanceWrites(account, applyToEntries(entries)),
+  ]);
 
 /**
- * Create a new daily entry
+ * Rebuild every entry balance and the account's currentBalance
+ * from initialBalance plus chronological P/L
+ */
+export const recalculateBalances = async (accountId: string): Promise<void> => {
+  const { accounts, commitLedger } = getRepositories();
+  if (!(await accounts.getById(accountId))) {
+    return;
+  }
+  await commitLedger(accountId, async (account, entries) => planBalanceWrites(account, entries));
+};
+
+/**
+ * Create a new daily entry.
+ * Throws DuplicateEntryError when the trading day already has an entry,
+ * unless options.onDuplicate is 'merge'. Merging into a day with trades
+ * throws ValidationError, since that day's P/L comes from its trades.
  */
 export const createEntry = async (
-  entry: CreateDailyEntryInput
+  entry: CreateDailyEntryInput,
+  options: CreateEntryOptions = {}
 ): Promise<string> => {
-  if (useLocal) {
-    return LocalEntries.createEntryLocal(entry);
+  validateEntryDate(entry.date);
+  const { entries, newId } = getRepositories();
+
+  if (isTradingEntryInput(entry)) {
+    const existing = findSameDayEntry(await entries.getByAccount(entry.accountId), entry.date);
+    if (existing) {
+      if (options.onDuplicate !== 'merge') {
+        throw new DuplicateEntryError(existing);
+      }
+      await updateEntry(existing.id, mergeEntryUpdates(existing, entry));
+      return existing.id;
+    }
   }
-  return FirebaseEntries.createEntry(entry);
+
+  const now = new Date();
+  const record: DailyEntry = {
+    id: newId(COLLECTIONS.ENTRIES),
+    ...entry,
+    balance: 0,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await commitEntryChange(
+    entry.accountId,
+    [{ type: 'put', collection: COLLECTIONS.ENTRIES, record }],
+    (stored) => [...stored, record]
+  );
+
+  return record.id;
 };
 
 /**
- * Update an existing daily entry
+ * Update an existing daily entry and update account balances.
+ * Throws ValidationError when the P/L of an entry with trades is changed.
  */
 export const updateEntry = async (
   id: string,
   updates: UpdateDailyEntryInput
 ): Promise<void> => {
-  if (useLocal) {
-    // For local, we need accountId to update
-    if (!updates.accountId) {
-      throw new Error('accountId is required for local updates');
+  const { entries } = getRepositories();
+  const existing = await getExistingEntry(id);
+
+  if (updates.profitLoss !== undefined && updates.profitLoss !== existing.profitLoss) {
+    await assertProfitLossEditable(id);
+  }
+
+  if (updates.date) {
+    validateEntryDate(updates.date);
+    if (isTradingEntryInput({ ...existing, ...updates })) {
+      const sameDay = findSameDayEntry(
+        await entries.getByAccount(existing.accountId),
+        updates.date,
+        id
+      );
+      if (sameDay) {
+        throw new DuplicateEntryError(sameDay);
+      }
     }
-    return LocalEntries.updateEntryLocal(id, updates.accountId, updates);
   }
-  return FirebaseEntries.updateEntry(id, updates);
+
+  // Entries cannot move between accounts
+  const { accountId: _accountId, ...changes } = updates;
+  await commitEntryChange(
+    existing.accountId,
+    [{ type: 'update', collection: COLLECTIONS.ENTRIES, id, changes }],
+    (stored) => stored.map((entry) => (entry.id === id ? applyChanges(entry, changes) : entry))
+  );
+};
+
+/**
+ * Move a daily entry to the trash and update account balances
+ */
+export const deleteEntry = async (id: string): Promise<void> => {
+  const existing = await getRepositories().entries.getById(id);
+  if (!existing) {
+    return;
+  }
+
+  const changes = { deletedAt: new Date() };
+  await commitEntryChange(
+    existing.accountId,
+    [{ type: 'update', collection: COLLECTIONS.ENTRIES, id, changes }],
+    (stored) => stored.map((entry) => (entry.id === id ? { ...entry, ...changes } : entry))
+  );
 };
 
 /**
- * Delete a daily entry
+ * Restore a trashed daily entry.
+ * Throws DuplicateEntryError when its trading day has been recorded again meanwhile.
  */
-export const deleteEntry = async (id: string, accountId?: string): Promise<void> => {
-  if (useLocal) {
-    if (!accountId) {
-      throw new Error('accountId is required for local deletes');
+export const restoreEntry = async (id: string): Promise<void> => {
+  const { entries } = getRepositories();
+  const existing = await getExistingEntry(id);
+
+  if (isTradingEntryInput(existing)) {
+    const sameDay = findSameDayEntry(
+      await entries.getByAccount(existing.accountId),
+      existing.date,
+      id
+    );
+    if (sameDay) {
+      throw new DuplicateEntryError(sameDay);
     }
-    return LocalEntries.deleteEntryLocal(id, accountId);
   }
-  return FirebaseEntries.deleteEntry(id);
+
+  const changes = { deletedAt: undefined };
+  await commitEntryChange(
+    existing.accountId,
+    [{ type: 'update', collection: COLLECTIONS.ENTRIES, id, changes }],
+    (stored) => stored.map((entry) => (entry.id === id ? applyChanges(entry, changes) : entry))
+  );
 };
 
 /**
- * Get all entries for a specific account
+ * Permanently delete a daily entry and its trades
+ */
+export const purgeEntry = async (id: string): Promise<void> => {
+  const { entries, commit } = getRepositories();
+  const existing = await entries.getById(id);
+  const operations: WriteOperation[] = [
+    { type: 'deleteWhere', collection: COLLECTIONS.TRADES, field: 'entryId', value: id },
+    { type: 'delete', collection: COLLECTIONS.ENTRIES, id },
+  ];
+
+  if (!existing) {
+    await commit(operations);
+    return;
+  }
+  await commitEntryChange(existing.accountId, operations, (stored) =>
+    stored.filter((entry) => entry.id !== id)
+  );
+};
+
+/**
+ * Get all entries for a specific account, optionally only those dated within a range
  */
 export const getEntriesByAccount = async (
+  accountId: string,
+  range?: EntryDateRange
+): Promise<DailyEntry[]> => {
+  const entries = await getRepositories().entries.getByAccount(accountId, range);
+  return entries.filter((entry) => !entry.deletedAt);
+};
+
+/**
+ * Get one page of an account's entries, newest first.
+ * Pass the previous page's nextCursor to continue; trashed entries are skipped,
+ * reading further pages until this one is full.
+ */
+export const getEntriesPage = async (
+  accountId: string,
+  { limit = DEFAULTS.PAGE_SIZE, cursor, from, to }: Partial<EntryPageQuery> = {}
+): Promise<EntryPage> => {
+  const { entries } = getRepositories();
+  const collected: DailyEntry[] = [];
+  let nextCursor: EntryCursor | null = cursor ?? null;
+
+  do {
+    const page = await entries.getPage(accountId, {
+      limit: limit - collected.length,
+      cursor: nextCursor ?? undefined,
+      from,
+      to,
+    });
+    collected.push(...page.entries.filter((entry) => !entry.deletedAt));
+    nextCursor = page.nextCursor;
+  } while (nextCursor && collected.length < limit);
+
+  return { entries: collected, nextCursor };
+};
+
+/**
+ * Follow the entries of an account outside the trash, newest first.
+ * With limitCount, only the newest that many entries, trash included, are followed;
+ * changes to older entries still show through the balances they move.
+ * Returns an unsubscribe function.
+ */
+export const subscribeToEntries = (
+  accountId: string,
+  onChange: (entries: DailyEntry[]) => void,
+  onError: (error: Error) => void,
+  limitCount?: number
+): Unsubscribe =>
+  getRepositories().entries.subscribeByAccount(
+    accountId,
+    (entries) => onChange(entries.filter((entry) => !entry.deletedAt)),
+    onError,
+    limitCount
+  );
+
+/**
+ * Get the trashed entries for a specific account
+ */
+export const getDeletedEntriesByAccount = async (
   accountId: string
 ): Promise<DailyEntry[]> => {
-  if (useLocal) {
-    return LocalEntries.getEntriesByAccountLocal(accountId);
+  const entries = await getRepositories().entries.getByAccount(accountId);
+  return entries.filter((entry) => entry.deletedAt);
+};
+
+/**
+ * Commit a trade change together with the entry P/L and balance updates it causes
+ */
+const commitTradeChange = async (
+  entryId: string,
+  operations: WriteOperation[],
+  applyToTrades: (trades: Trade[]) => Trade[]
+): Promise<void> => {
+  const { trades, commitLedger } = getRepositories();
+  const entry = await getExistingEntry(entryId);
+
+  // Trades are read in the plan too, so a retried commit sums them again
+  await commitLedger(entry.accountId, async (account, entries) => {
+    const profitLoss = calculateTradesProfitLoss(applyToTrades(await trades.getByEntry(entryId)));
+    const changes = { profitLoss };
+    const after = entries.map((item) => (item.id === entryId ? { ...item, ...changes } : item));
+    return [
+      ...operations,
+      { type: 'update', collection: COLLECTIONS.ENTRIES, id: entryId, changes },
+      ...planBalanceWrites(account, after),
+    ];
+  });
+};
+
+/**
+ * Create a new trade for a daily entry
+ */
+export const createTrade = async (trade: CreateTradeInput): Promise<string> => {
+  const now = new Date();
+  const record: Trade = {
+    id: getRepositories().newId(COLLECTIONS.TRADES),
+    ...trade,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await commitTradeChange(
+    trade.entryId,
+    [{ type: 'put', collection: COLLECTIONS.TRADES, record }],
+    (stored) => [...stored, record]
+  );
+  return record.id;
+};
+
+/**
+ * Update an existing trade
+ */
+export const updateTrade = async (
+  id: string,
+  updates: UpdateTradeInput
+): Promise<void> => {
+  const { trades } = getRepositories();
+  const existing = await trades.getById(id);
+  if (!existing) {
+    throw new Error(`Trade with id ${id} not found`);
+  }
+
+  // Trades cannot move between entries or accounts
+  const { entryId: _entryId, accountId: _accountId, ...changes } = updates;
+  await commitTradeChange(
+    existing.entryId,
+    [{ type: 'update', collection: COLLECTIONS.TRADES, id, changes }],
+    (stored) => stored.map((trade) => (trade.id === id ? applyChanges(trade, changes) : trade))
+  );
+};
+
+/**
+ * Delete a trade
+ */
+export const deleteTrade = async (id: string): Promise<void> => {
+  const existing = await getRepositories().trades.getById(id);
+  if (!existing) {
+    return;
   }
-  return FirebaseEntries.getEntriesByAccount(accountId);
+
+  await commitTradeChange(
+    existing.entryId,
+    [{ type: 'delete', collection: COLLECTIONS.TRADES, id }],
+    (stored) => stored.filter((trade) => trade.id !== id)
+  );
+};
+
+/**
+ * Get all trades recorded for a daily entry
+ */
+export const getTradesByEntry = async (entryId: string): Promise<Trade[]> => {
+  return getRepositories().trades.getByEntry(entryId);
+};
+
+/**
+ * Get all trades recorded for an account's entries
+ */
+export const getTradesByAccount = async (accountId: string): Promise<Trade[]> => {
+  return getRepositories().trades.getByAccount(accountId);
 };
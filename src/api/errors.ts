@@ -0,0 +1,111 @@
+/**
+ * Errors raised by the api layer so screens can react to them specifically
+ */
+
+import { DailyEntry } from '../models';
+
+/**
+ * Input rejected by an api-level business rule
+ */
+export class ValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ValidationError';
+  }
+}
+
+/**
+ * A trading entry already exists for the same trading day on the same account
+ */
+export class DuplicateEntryError extends ValidationError {
+  existingEntry: DailyEntry;
+
+  constructor(existingEntry: DailyEntry) {
+    super('An entry already exists for this trading day');
+    this.name = 'DuplicateEntryError';
+    this.existingEntry = existingEntry;
+  }
+}
+
+/**
+ * Data stored on the device could not be read or is not in the expected shape.
+ * The stored value is left untouched so it can be recovered.
+ */
+export class StorageReadError extends Error {
+  key: string;
+
+  constructor(key: string, cause?: unknown) {
+    super(`Stored data under ${key} could not be read`);
+    this.name = 'StorageReadError';
+    this.key = key;
+    this.cause = cause;
+  }
+}
+
+/**
+ * Upgrading the device storage schema failed, or the data was written by a newer app version
+ */
+export class StorageMigrationError extends Error {
+  version: number;
+
+  constructor(version: number, message: string, cause?: unknown) {
+    super(message);
+    this.name = 'StorageMigrationError';
+    this.version = version;
+    this.cause = cause;
+  }
+}
+
+/**
+ * A Firestore read or write was attempted while nobody is signed in
+ */
+export class AuthRequiredError extends Error {
+  constructor() {
+    super('Sign in to access your journal');
+    this.name = 'AuthRequiredError';
+  }
+}
+
+/**
+ * Firebase Auth refused a sign-in or sign-up. The message is fit to show the user.
+ */
+export class AuthError extends Error {
+  code: string;
+
+  constructor(code: string, message: string) {
+    super(message);
+    this.name = 'AuthError';
+    this.code = code;
+  }
+}
+
+/**
+ * Journal data on the device is encrypted and the passcode has not been entered
+ */
+export class JournalLockedError extends Error {
+  constructor() {
+    super('Unlock the app to access your journal');
+    this.name = 'JournalLockedError';
+  }
+}
+
+/**
+ * The passcode entered does not match the one the journal is locked with
+ */
+export class InvalidPasscodeError extends Error {
+  constructor() {
+    super('Incorrect passcode');
+    this.name = 'InvalidPasscodeError';
+  }
+}
+
+/**
+ * An encrypted backup could not be opened with the password given.
+ * AES-GCM cannot tell a wrong password from an altered file, so the message covers both.
+ */
+export class InvalidBackupPasswordError extends ValidationError {
+  constructor() {
+    super('Wrong password, or the backup file was changed after it was encrypted');
+    this.name = 'InvalidBackupPasswordError';
+  }
+}
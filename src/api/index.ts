@@ -1,3 +1,43 @@
-// Export from wrapper files that handle Firebase/Local storage automatically
+// Services run on the repository selected at startup (Firestore, AsyncStorage, synced or in-memory)
 export * from './accounts';
 export * from './entries';
+export * from './settings';
+export * from './trash';
+export * from './migration';
+export {
+  runStorageMigrations,
+  restoreStorageBackup,
+  getStoredSchemaVersion,
+  CURRENT_SCHEMA_VERSION,
+} from './storage.migrations';
+export * from './errors';
+export * from './auth';
+export * from './passcode';
+export * from './diagnostics';
+export * from './csv.export';
+export * from './csv.import';
+export * from './statement.parser';
+export * from './statement.import';
+export * from './backup';
+export * from './report';
+export { syncNow, startAutoSync } from './sync';
+export { getSyncStatus, subscribeToSyncStatus } from './sync.queue';
+export type { SyncState, SyncStatus } from './sync.queue';
+export {
+  configureStorage,
+  getStorageBackend,
+  createRepositories,
+} from './repository';
+export type {
+  StorageBackend,
+  Repositories,
+  AccountRepository,
+  EntryRepository,
+  TradeRepository,
+  EntryDateRange,
+  EntryCursor,
+  EntryPageQuery,
+  EntryPage,
+  Unsubscribe,
+} from './repository';
+export type { CreateEntryOptions, DuplicateEntryPolicy } from './validation';
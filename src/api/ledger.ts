@@ -0,0 +1,46 @@
+/**
+ * Balance engine shared by the Firebase and local implementations.
+ * Balances are never trusted from the caller: every DailyEntry.balance and the
+ * account's currentBalance are rebuilt from initialBalance plus chronological P/L.
+ */
+
+import { DailyEntry } from '../models';
+import { calculateNetCashFlow } from '../utils/helpers';
+
+export interface LedgerResult {
+  entries: DailyEntry[];
+  currentBalance: number;
+  netCashFlow: number;
+}
+
+/**
+ * Sort entries chronologically (oldest first), using creation time to order
+ * entries that share the same date
+ */
+export const sortChronologically = (entries: DailyEntry[]): DailyEntry[] => {
+  return [...entries].sort((a, b) => {
+    const byDate = a.date.getTime() - b.date.getTime();
+    return byDate !== 0 ? byDate : a.createdAt.getTime() - b.createdAt.getTime();
+  });
+};
+
+/**
+ * Rebuild the running balance of every entry for an account.
+ * Cash-flow transactions are part of the balance like any trading day.
+ */
+export const rebuildLedger = (
+  initialBalance: number,
+  entries: DailyEntry[]
+): LedgerResult => {
+  let runningBalance = initialBalance;
+  const rebuilt = sortChronologically(entries).map((entry) => {
+    runningBalance += entry.profitLoss;
+    return { ...entry, balance: runningBalance };
+  });
+
+  return {
+    entries: rebuilt,
+    currentBalance: runningBalance,
+    netCashFlow: calculateNetCashFlow(entries),
+  };
+};
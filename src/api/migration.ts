@@ -0,0 +1,392 @@
+/**
+ * One-time upload of journal data kept on the device (local mode) into Firestore.
+ * The offline-first backend keeps its copy of Firestore in the same device store, so
+ * the accounts written in local mode are recorded before the first sync can add to it,
+ * and only those are offered for upload.
+ * Local ids are remapped to Firestore ids; progress is saved after every document
+ * so an interrupted migration resumes where it stopped.
+ * Settings and FX rates are device-local and are not migrated.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { collection, doc } from 'firebase/firestore';
+import { db } from '../config';
+import { COLLECTIONS } from '../constants';
+import { TradingAccount, DailyEntry, Trade } from '../models';
+import { firestoreAccountRepository } from './accounts.api';
+import { firestoreEntryRepository, firestoreTradeRepository } from './entries.api';
+import { localAccountRepository } from './accounts.local';
+import { localEntryRepository, localTradeRepository } from './entries.local';
+import { getStorageBackend, isFirebaseConfigured } from './repository';
+import { hasSyncedBefore } from './sync';
+
+const MIGRATION_STATE_KEY = '@BitacoraFx:migration';
+// Set while the app runs in local mode, until a Firebase backend records the local data
+const LOCAL_MODE_KEY = '@BitacoraFx:localModeUsed';
+
+export type MigrationPhase = 'accounts' | 'entries' | 'trades' | 'finalizing';
+
+export interface MigrationProgress {
+  phase: MigrationPhase;
+  completed: number;
+  total: number;
+}
+
+export interface MigrationConflict {
+  collection: 'accounts' | 'entries' | 'trades';
+  localId: string;
+  message: string;
+}
+
+export interface MigrationReport {
+  accounts: number;
+  entries: number;
+  trades: number;
+  // Accounts already present in Firestore under the same id, updated with newer device changes
+  updated: number;
+  conflicts: MigrationConflict[];
+}
+
+export interface LocalMigrationStatus {
+  // Local data exists that has not been migrated yet
+  pending: boolean;
+  // A previous run stopped part-way
+  inProgress: boolean;
+  accounts: number;
+  entries: number;
+}
+
+interface MigrationState {
+  // Accounts written in local mode; unset until a Firebase backend first looks at the device
+  localAccountIds?: string[];
+  // Local id -> Firestore id, reserved before each upload so retries rewrite the same document.
+  // Accounts found in Firestore under their local id map to themselves, as do their records.
+  idMap: Record<string, string>;
+  conflicts: MigrationConflict[];
+  completedAt?: string;
+}
+
+interface LocalSnapshot {
+  accounts: TradingAccount[];
+  entries: DailyEntry[];
+  trades: Trade[];
+}
+
+const EMPTY_STATE: MigrationState = { idMap: {}, conflicts: [] };
+
+/**
+ * Get the saved migration state from local storage
+ */
+const getMigrationState = async (): Promise<MigrationState> => {
+  try {
+    const data = await AsyncStorage.getItem(MIGRATION_STATE_KEY);
+    return data ? { ...EMPTY_STATE, ...JSON.parse(data) } : { ...EMPTY_STATE };
+  } catch (error) {
+    console.error('Error reading migration state from storage:', error);
+    return { ...EMPTY_STATE };
+  }
+};
+
+/**
+ * Save the migration state to local storage
+ */
+const saveMigrationState = async (state: MigrationState): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(MIGRATION_STATE_KEY, JSON.stringify(state));
+  } catch (error) {
+    console.error('Error saving migration state to storage:', error);
+    throw error;
+  }
+};
+
+/**
+ * Note which device data belongs to local mode. In local mode this only flags that the
+ * device store is the journal itself; the first time a Firebase backend runs afterwards,
+ * the accounts on the device are recorded for upload. Without the flag, they are only
+ * recorded when the device has never synced, since a synced device holds a copy of Firestore.
+ * Call at startup, before the first sync.
+ */
+export const recordLocalModeData = async (): Promise<void> => {
+  const backend = getStorageBackend();
+  if (backend === 'asyncStorage') {
+    await AsyncStorage.setItem(LOCAL_MODE_KEY, new Date().toISOString());
+    return;
+  }
+  if ((backend !== 'firestore' && backend !== 'synced') || !isFirebaseConfigured()) {
+    return;
+  }
+
+  const state = await getMigrationState();
+  const localModeUsed = !!(await AsyncStorage.getItem(LOCAL_MODE_KEY));
+  if (state.localAccountIds && !localModeUsed) {
+    return;
+  }
+  // Installs from before the flag existed: data left by a finished migration is already uploaded
+  const predatesFirebase =
+    localModeUsed || (!state.completedAt && !(await hasSyncedBefore()));
+
+  const recorded = new Set(state.localAccountIds ?? []);
+  if (predatesFirebase) {
+    const accounts = await localAccountRepository.getAll();
+    const added = accounts.filter((account) => !recorded.has(account.id));
+    added.forEach((account) => recorded.add(account.id));
+    if (added.length > 0) {
+      // Local mode was used again after a migration, so there is more to upload
+      delete state.completedAt;
+    }
+  }
+  state.localAccountIds = [...recorded];
+  await saveMigrationState(state);
+  await AsyncStorage.removeItem(LOCAL_MODE_KEY);
+};
+
+/**
+ * Read the accounts written in local mode, with their entries and trades, trash included
+ */
+const readLocalData = async (localAccountIds: string[]): Promise<LocalSnapshot> => {
+  const accounts = (await localAccountRepository.getAll()).filter((account) =>
+    localAccountIds.includes(account.id)
+  );
+  const entries = (
+    await Promise.all(accounts.map((account) => localEntryRepository.getByAccount(account.id)))
+  ).flat();
+  const trades: Trade[] = [];
+  for (const entry of entries) {
+    trades.push(...(await localTradeRepository.getByEntry(entry.id)));
+  }
+  return { accounts, entries, trades };
+};
+
+/**
+ * Look up or reserve the Firestore id for a local document
+ */
+const reserveId = async (
+  state: MigrationState,
+  collectionName: string,
+  localId: string
+): Promise<string> => {
+  if (!state.idMap[localId]) {
+    state.idMap[localId] = doc(collection(db, collectionName)).id;
+    await saveMigrationState(state);
+  }
+  return state.idMap[localId];
+};
+
+/**
+ * Record a conflict once, even when a resumed run meets it again
+ */
+const addConflict = (state: MigrationState, conflict: MigrationConflict): void => {
+  if (!state.conflicts.some((existing) => existing.localId === conflict.localId)) {
+    state.conflicts.push(conflict);
+  }
+};
+
+/**
+ * Check whether device data written in local mode is waiting to be migrated to Firestore
+ */
+export const getLocalMigrationStatus = async (): Promise<LocalMigrationStatus> => {
+  const backend = getStorageBackend();
+  if ((backend !== 'firestore' && backend !== 'synced') || !isFirebaseConfigured()) {
+    return { pending: false, inProgress: false, accounts: 0, entries: 0 };
+  }
+  await recordLocalModeData();
+  const state = await getMigrationState();
+  if (state.completedAt) {
+    return { pending: false, inProgress: false, accounts: 0, entries: 0 };
+  }
+
+  const localAccountIds = state.localAccountIds ?? [];
+  const accounts = (await localAccountRepository.getAll()).filter((account) =>
+    localAccountIds.includes(account.id)
+  );
+  const entryCounts = await Promise.all(
+    accounts.map(async (account) => (await localEntryRepository.getByAccount(account.id)).length)
+  );
+  return {
+    pending: accounts.length > 0,
+    inProgress: Object.keys(state.idMap).length > 0,
+    accounts: accounts.length,
+    entries: entryCounts.reduce((sum, count) => sum + count, 0),
+  };
+};
+
+/**
+ * Replace device records with their migrated copies so both stores share ids
+ */
+const rekeyLocalAccount = async (
+  account: TradingAccount,
+  snapshot: LocalSnapshot,
+  idMap: Record<string, string>
+): Promise<void> => {
+  const accountId = idMap[account.id];
+  const entries = snapshot.entries.filter((entry) => entry.accountId === account.id);
+  const trades = snapshot.trades.filter((trade) => trade.accountId === account.id);
+
+  await localAccountRepository.put({ ...account, id: accountId });
+  for (const entry of entries) {
+    if (idMap[entry.id]) {
+      await localEntryRepository.put({ ...entry, id: idMap[entry.id], accountId });
+    }
+  }
+  for (const trade of trades) {
+    if (idMap[trade.id] && idMap[trade.entryId]) {
+      await localTradeRepository.put({
+        ...trade,
+        id: idMap[trade.id],
+        entryId: idMap[trade.entryId],
+        accountId,
+      });
+    }
+  }
+
+  await localTradeRepository.deleteByAccount(account.id);
+  await localEntryRepository.deleteByAccount(account.id);
+  await localAccountRepository.delete(account.id);
+};
+
+/**
+ * Check whether a device record should replace the copy in Firestore, if there is one
+ */
+const isNewerThanRemote = (local: { updatedAt: Date }, remote?: { updatedAt: Date }): boolean =>
+  !remote || local.updatedAt.getTime() > remote.updatedAt.getTime();
+
+/**
+ * Upload the accounts written in local mode, with their entries and trades, to Firestore
+ * under new ids. Accounts already in Firestore under the same id, such as ones synced before
+ * local mode was used, keep their ids, and only records newer on the device are uploaded.
+ * Accounts whose name matches one already in Firestore are uploaded alongside it
+ * and reported as conflicts; entries and trades without a parent are skipped.
+ */
+export const migrateLocalData = async (
+  onProgress?: (progress: MigrationProgress) => void
+): Promise<MigrationReport> => {
+  await recordLocalModeData();
+  const state = await getMigrationState();
+  const snapshot = await readLocalData(state.localAccountIds ?? []);
+  const remoteAccounts = await firestoreAccountRepository.getAll();
+  const sharedAccountIds = new Set(
+    snapshot.accounts
+      .filter((account) => remoteAccounts.some((remote) => remote.id === account.id))
+      .map((account) => account.id)
+  );
+
+  // Accounts
+  for (const [index, account] of snapshot.accounts.entries()) {
+    onProgress?.({ phase: 'accounts', completed: index, total: snapshot.accounts.length });
+    if (sharedAccountIds.has(account.id)) {
+      state.idMap[account.id] = account.id;
+      const remote = remoteAccounts.find((existing) => existing.id === account.id);
+      if (isNewerThanRemote(account, remote)) {
+        await firestoreAccountRepository.put(account);
+      }
+      continue;
+    }
+
+    const duplicate = remoteAccounts.find(
+      (remote) =>
+        remote.id !== state.idMap[account.id] &&
+        remote.name.trim().toLowerCase() === account.name.trim().toLowerCase() &&
+        remote.broker === account.broker
+    );
+    if (duplicate) {
+      addConflict(state, {
+        collection: 'accounts',
+        localId: account.id,
+        message: `"${account.name}" already exists in Firebase; both accounts were kept`,
+      });
+    }
+
+    const id = await reserveId(state, COLLECTIONS.ACCOUNTS, account.id);
+    await firestoreAccountRepository.put({ ...account, id });
+  }
+
+  const isMigratedAccount = (accountId: string) => !!state.idMap[accountId];
+
+  // Copies already in Firestore of the shared accounts' records, by id
+  const remoteEntries = new Map<string, DailyEntry>();
+  const remoteTrades = new Map<string, Trade>();
+  for (const accountId of sharedAccountIds) {
+    (await firestoreEntryRepository.getByAccount(accountId)).forEach((entry) =>
+      remoteEntries.set(entry.id, entry)
+    );
+    (await firestoreTradeRepository.getByAccount(accountId)).forEach((trade) =>
+      remoteTrades.set(trade.id, trade)
+    );
+  }
+
+  // Entries
+  for (const [index, entry] of snapshot.entries.entries()) {
+    onProgress?.({ phase: 'entries', completed: index, total: snapshot.entries.length });
+    if (sharedAccountIds.has(entry.accountId)) {
+      state.idMap[entry.id] = entry.id;
+      if (isNewerThanRemote(entry, remoteEntries.get(entry.id))) {
+        await firestoreEntryRepository.put(entry);
+      }
+      continue;
+    }
+    if (!isMigratedAccount(entry.accountId)) {
+      addConflict(state, {
+        collection: 'entries',
+        localId: entry.id,
+        message: 'Entry belongs to an account that no longer exists and was not migrated',
+      });
+      continue;
+    }
+    const id = await reserveId(state, COLLECTIONS.ENTRIES, entry.id);
+    await firestoreEntryRepository.put({ ...entry, id, accountId: state.idMap[entry.accountId] });
+  }
+
+  // Trades
+  for (const [index, trade] of snapshot.trades.entries()) {
+    onProgress?.({ phase: 'trades', completed: index, total: snapshot.trades.length });
+    if (sharedAccountIds.has(trade.accountId)) {
+      state.idMap[trade.id] = trade.id;
+      if (isNewerThanRemote(trade, remoteTrades.get(trade.id))) {
+        await firestoreTradeRepository.put(trade);
+      }
+      continue;
+    }
+    if (!isMigratedAccount(trade.accountId) || !state.idMap[trade.entryId]) {
+      addConflict(state, {
+        collection: 'trades',
+        localId: trade.id,
+        message: `${trade.symbol} trade belongs to an entry that was not migrated`,
+      });
+      continue;
+    }
+    const id = await reserveId(state, COLLECTIONS.TRADES, trade.id);
+    await firestoreTradeRepository.put({
+      ...trade,
+      id,
+      entryId: state.idMap[trade.entryId],
+      accountId: state.idMap[trade.accountId],
+    });
+  }
+
+  // Keep the device copy under the new ids, so the offline-first store matches Firestore
+  const migratedAccounts = snapshot.accounts.filter(
+    (account) => isMigratedAccount(account.id) && !sharedAccountIds.has(account.id)
+  );
+  for (const [index, account] of migratedAccounts.entries()) {
+    onProgress?.({ phase: 'finalizing', completed: index, total: migratedAccounts.length });
+    await rekeyLocalAccount(account, snapshot, state.idMap);
+  }
+
+  state.completedAt = new Date().toISOString();
+  await saveMigrationState(state);
+  onProgress?.({
+    phase: 'finalizing',
+    completed: migratedAccounts.length,
+    total: migratedAccounts.length,
+  });
+
+  const isNewRecord = (record: { id: string; accountId: string }) =>
+    !!state.idMap[record.id] && !sharedAccountIds.has(record.accountId);
+  return {
+    accounts: migratedAccounts.length,
+    entries: snapshot.entries.filter(isNewRecord).length,
+    trades: snapshot.trades.filter(isNewRecord).length,
+    updated: sharedAccountIds.size,
+    conflicts: state.conflicts,
+  };
+};
@@ -0,0 +1,311 @@
+/**
+ * Optional passcode lock for the journal kept on this device.
+ * Setting a passcode encrypts the stored accounts, entries and trades with a key derived
+ * from it; the app stays locked until the passcode is entered, and locks again after
+ * a period without use. Settings and FX rates are not encrypted.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { DEFAULTS } from '../constants';
+import { InvalidPasscodeError, ValidationError } from './errors';
+import { getStorageBackend, Unsubscribe } from './repository';
+import {
+  KEY_DERIVATION_ITERATIONS,
+  createKeySalt,
+  deriveStorageKey,
+  decryptValue,
+  encryptValue,
+  isEncryptedValue,
+  runStorageRekey,
+  setStorageEncryption,
+} from './storage.crypto';
+import { clearSyncedData } from './sync';
+
+const PASSCODE_LOCK_KEY = '@BitacoraFx:passcodeLock';
+const ACCOUNTS_KEY = '@BitacoraFx:accounts';
+const JOURNAL_KEY_PREFIXES = ['@BitacoraFx:entries_', '@BitacoraFx:trades_'];
+const BACKUP_KEY_PREFIX = '@BitacoraFx:backup_v';
+
+// Sealed with the key so a passcode can be checked without reading the journal
+const PASSCODE_CHECK_VALUE = 'BitacoraFx';
+
+interface PasscodeLockConfig {
+  salt: string;
+  iterations: number;
+  check: string;
+  autoLockMinutes: number;
+}
+
+export type PasscodeLockStatus = 'disabled' | 'locked' | 'unlocked';
+
+export interface PasscodeLockState {
+  status: PasscodeLockStatus;
+  // Minutes without use before the app locks itself, null while no passcode is set
+  autoLockMinutes: number | null;
+}
+
+type PasscodeLockListener = (state: PasscodeLockState) => void;
+
+let config: PasscodeLockConfig | null = null;
+let state: PasscodeLockState = { status: 'disabled', autoLockMinutes: null };
+const listeners = new Set<PasscodeLockListener>();
+
+/**
+ * Update the lock state and notify subscribers
+ */
+const setLockState = (status: PasscodeLockStatus): void => {
+  state = { status, autoLockMinutes: config?.autoLockMinutes ?? null };
+  listeners.forEach((listener) => listener(state));
+};
+
+/**
+ * Whether a storage key holds journal data, which is encrypted under the lock
+ */
+const isJournalKey = (key: string): boolean =>
+  key === ACCOUNTS_KEY || JOURNAL_KEY_PREFIXES.some((prefix) => key.startsWith(prefix));
+
+/**
+ * Reject passcodes that are not all digits or are too short
+ */
+const validatePasscode = (passcode: string): void => {
+  if (!/^\d+$/.test(passcode) || passcode.length < DEFAULTS.PASSCODE_MIN_LENGTH) {
+    throw new ValidationError(`Passcode must be at least ${DEFAULTS.PASSCODE_MIN_LENGTH} digits`);
+  }
+};
+
+/**
+ * Derive the key for a passcode and check it against the stored lock
+ */
+const verifyPasscode = async (
+  lock: PasscodeLockConfig,
+  passcode: string
+): Promise<Uint8Array> => {
+  const key = await deriveStorageKey(passcode, lock.salt, lock.iterations);
+  try {
+    decryptValue(PASSCODE_LOCK_KEY, lock.check, key);
+  } catch {
+    throw new InvalidPasscodeError();
+  }
+  return key;
+};
+
+/**
+ * Build a lock for a new passcode along with its key
+ */
+const createLock = async (
+  passcode: string,
+  autoLockMinutes: number
+): Promise<{ lock: PasscodeLockConfig; key: Uint8Array }> => {
+  const salt = createKeySalt();
+  const key = await deriveStorageKey(passcode, salt, KEY_DERIVATION_ITERATIONS);
+  return {
+    key,
+    lock: {
+      salt,
+      iterations: KEY_DERIVATION_ITERATIONS,
+      check: encryptValue(PASSCODE_LOCK_KEY, PASSCODE_CHECK_VALUE, key),
+      autoLockMinutes,
+    },
+  };
+};
+
+/**
+ * Move one stored value from one key to another; a null key means plain text
+ */
+const resealValue = (
+  storageKey: string,
+  value: string,
+  fromKey: Uint8Array | null,
+  toKey: Uint8Array | null
+): string => {
+  let plain = value;
+  if (isEncryptedValue(value)) {
+    if (!fromKey) {
+      throw new Error(`Stored data under ${storageKey} is encrypted with an unknown key`);
+    }
+    plain = decryptValue(storageKey, value, fromKey);
+  }
+  return toKey ? encryptValue(storageKey, plain, toKey) : plain;
+};
+
+/**
+ * Move the journal values inside a storage migration backup to another key
+ */
+const resealBackup = (
+  value: string,
+  fromKey: Uint8Array | null,
+  toKey: Uint8Array | null
+): string => {
+  const backup: Record<string, string | null> = JSON.parse(value);
+  Object.entries(backup).forEach(([key, stored]) => {
+    if (stored !== null && isJournalKey(key)) {
+      backup[key] = resealValue(key, stored, fromKey, toKey);
+    }
+  });
+  return JSON.stringify(backup);
+};
+
+/**
+ * Read every stored journal value and return it moved to another key, ready to write
+ */
+const resealJournal = async (
+  fromKey: Uint8Array | null,
+  toKey: Uint8Array | null
+): Promise<[string, string][]> => {
+  const keys = (await AsyncStorage.getAllKeys()).filter(
+    (key) => isJournalKey(key) || key.startsWith(BACKUP_KEY_PREFIX)
+  );
+  const pairs = await AsyncStorage.multiGet(keys);
+  return pairs
+    .filter((pair): pair is [string, string] => pair[1] !== null)
+    .map(([key, value]) => [
+      key,
+      key.startsWith(BACKUP_KEY_PREFIX)
+        ? resealBackup(value, fromKey, toKey)
+        : resealValue(key, value, fromKey, toKey),
+    ]);
+};
+
+/**
+ * Load the passcode lock saved on this device. Call once at startup, before any journal reads;
+ * with a passcode set, the journal starts out locked.
+ */
+export const loadPasscodeLock = async (): Promise<PasscodeLockState> => {
+  const data = await AsyncStorage.getItem(PASSCODE_LOCK_KEY);
+  config = data ? JSON.parse(data) : null;
+  setStorageEncryption(config !== null, null);
+  setLockState(config ? 'locked' : 'disabled');
+  return state;
+};
+
+/**
+ * Get the current lock state
+ */
+export const getPasscodeLockState = (): PasscodeLockState => state;
+
+/**
+ * Subscribe to lock state changes. Returns an unsubscribe function.
+ */
+export const subscribeToPasscodeLock = (listener: PasscodeLockListener): Unsubscribe => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Unlock the journal. Throws InvalidPasscodeError when the passcode is wrong.
+ */
+export const unlockWithPasscode = async (passcode: string): Promise<void> => {
+  if (!config) {
+    return;
+  }
+  const key = await verifyPasscode(config, passcode);
+  setStorageEncryption(true, key);
+  setLockState('unlocked');
+};
+
+/**
+ * Forget the key until the passcode is entered again
+ */
+export const lockJournal = (): void => {
+  if (!config || state.status === 'locked') {
+    return;
+  }
+  setStorageEncryption(true, null);
+  setLockState('locked');
+};
+
+/**
+ * Set a passcode and encrypt the journal stored on this device with it
+ */
+export const enablePasscodeLock = async (
+  passcode: string,
+  autoLockMinutes: number = DEFAULTS.AUTO_LOCK_MINUTES
+): Promise<void> => {
+  validatePasscode(passcode);
+  if (config) {
+    throw new ValidationError('A passcode is already set');
+  }
+  const { lock, key } = await createLock(passcode, autoLockMinutes);
+
+  await runStorageRekey(async () => {
+    const sealed = await resealJournal(null, key);
+    // The lock is saved in the same write as the data it opens, so a crash leaves one or the other
+    await AsyncStorage.multiSet([...sealed, [PASSCODE_LOCK_KEY, JSON.stringify(lock)]]);
+    config = lock;
+    setStorageEncryption(true, key);
+  });
+  setLockState('unlocked');
+};
+
+/**
+ * Replace the passcode, re-encrypting the stored journal with the new one
+ */
+export const changePasscode = async (currentPasscode: string, newPasscode: string): Promise<void> => {
+  if (!config) {
+    throw new ValidationError('No passcode is set');
+  }
+  validatePasscode(newPasscode);
+  const currentKey = await verifyPasscode(config, currentPasscode);
+  const { lock, key } = await createLock(newPasscode, config.autoLockMinutes);
+
+  await runStorageRekey(async () => {
+    const sealed = await resealJournal(currentKey, key);
+    await AsyncStorage.multiSet([...sealed, [PASSCODE_LOCK_KEY, JSON.stringify(lock)]]);
+    config = lock;
+    setStorageEncryption(true, key);
+  });
+  setLockState('unlocked');
+};
+
+/**
+ * Remove the passcode and store the journal in plain text again
+ */
+export const disablePasscodeLock = async (passcode: string): Promise<void> => {
+  if (!config) {
+    return;
+  }
+  const key = await verifyPasscode(config, passcode);
+
+  await runStorageRekey(async () => {
+    // Plain values are readable under the old lock too, so a crash before the lock is removed is harmless
+    await AsyncStorage.multiSet(await resealJournal(key, null));
+    await AsyncStorage.removeItem(PASSCODE_LOCK_KEY);
+    config = null;
+    setStorageEncryption(false, null);
+  });
+  setLockState('disabled');
+};
+
+/**
+ * Change how long the app may go unused before it locks itself
+ */
+export const setAutoLockMinutes = async (minutes: number): Promise<void> => {
+  if (!config) {
+    return;
+  }
+  const updated = { ...config, autoLockMinutes: minutes };
+  await AsyncStorage.setItem(PASSCODE_LOCK_KEY, JSON.stringify(updated));
+  config = updated;
+  setLockState(state.status);
+};
+
+/**
+ * Erase the journal stored on this device along with the passcode, for a forgotten passcode.
+ * With offline-first sync the journal is pulled again from Firebase; otherwise it is gone.
+ */
+export const resetPasscodeLock = async (): Promise<void> => {
+  await runStorageRekey(async () => {
+    const keys = (await AsyncStorage.getAllKeys()).filter(
+      (key) => isJournalKey(key) || key.startsWith(BACKUP_KEY_PREFIX)
+    );
+    await AsyncStorage.multiRemove([...keys, PASSCODE_LOCK_KEY]);
+    config = null;
+    setStorageEncryption(false, null);
+  });
+  if (getStorageBackend() === 'synced') {
+    await clearSyncedData();
+  }
+  setLockState('disabled');
+};
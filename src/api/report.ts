@@ -0,0 +1,437 @@
+/**
+ * Printable performance report of one account, or every account, over a period.
+ * The report is a self-contained HTML document with inline SVG charts, so it can be
+ * shared as is or printed to PDF. Figures for all accounts are converted into the base
+ * currency the way Analytics does, and accounts without an FX rate are left out.
+ */
+
+import { TradingAccount, DailyEntry, CashFlowType } from '../models';
+import { CASH_FLOW_LABELS } from '../constants';
+import {
+  calculateStatistics,
+  formatCurrency,
+  formatDate,
+  formatDateTime,
+  getTradingDayKey,
+  isCashFlowEntry,
+  TradingStatistics,
+} from '../utils/helpers';
+import { convertAmount, convertEntries, findUnconvertibleCurrencies } from '../utils/currency';
+import { escapeMarkup, renderBarChart, renderLineChart, ChartPoint } from '../utils/svg';
+import { toFileNamePart } from '../utils/files';
+import type { ShareableFile } from '../utils/files';
+import { getAllAccounts, getAccountById } from './accounts';
+import { getEntriesByAccount } from './entries';
+import { sortChronologically } from './ledger';
+import { getSettings, getFxRates } from './settings';
+import { ValidationError } from './errors';
+
+export interface ReportOptions {
+  // Report a single account; every account Analytics covers when omitted
+  accountId?: string;
+  // First and last trading day of the period, both included
+  from: Date;
+  to: Date;
+}
+
+export interface ReportBalancePoint {
+  date: Date;
+  balance: number;
+}
+
+export interface MonthlyReturn {
+  // Calendar month as YYYY-MM
+  month: string;
+  openingBalance: number;
+  cashFlow: number;
+  profitLoss: number;
+  closingBalance: number;
+  // Trading P/L over the opening balance; null when the month opened with nothing
+  returnPercent: number | null;
+}
+
+export interface ReportEntry {
+  entry: DailyEntry;
+  accountName: string;
+}
+
+export interface PerformanceReport {
+  // The account name, or 'All Accounts'
+  title: string;
+  accountId?: string;
+  currency: string;
+  from: Date;
+  to: Date;
+  generatedAt: Date;
+  accounts: TradingAccount[];
+  // Currencies of accounts left out because they cannot be converted
+  excludedCurrencies: string[];
+  openingBalance: number;
+  closingBalance: number;
+  profitLoss: number;
+  cashFlow: number;
+  returnPercent: number | null;
+  statistics: TradingStatistics;
+  balanceCurve: ReportBalancePoint[];
+  // Entries of the period, oldest first, amounts in the report currency
+  entries: ReportEntry[];
+  monthlyReturns: MonthlyReturn[];
+}
+
+const CHART_SIZE = { width: 680, height: 220 };
+
+/**
+ * Percentage change, or null when there is no base to compare with
+ */
+const toPercent = (amount: number, base: number): number | null =>
+  base > 0 ? (amount / base) * 100 : null;
+
+/**
+ * Calendar months from the month of one day key to the month of another, as YYYY-MM
+ */
+const listMonths = (fromKey: string, toKey: string): string[] => {
+  const months: string[] = [];
+  let year = Number(fromKey.slice(0, 4));
+  let month = Number(fromKey.slice(5, 7));
+  const last = toKey.slice(0, 7);
+  for (;;) {
+    const key = `${year}-${month.toString().padStart(2, '0')}`;
+    months.push(key);
+    if (key >= last) {
+      return months;
+    }
+    month++;
+    if (month > 12) {
+      month = 1;
+      year++;
+    }
+  }
+};
+
+/**
+ * Gather the figures of a performance report
+ */
+export const buildPerformanceReport = async ({
+  accountId,
+  from,
+  to,
+}: ReportOptions): Promise<PerformanceReport> => {
+  const fromKey = getTradingDayKey(from);
+  const toKey = getTradingDayKey(to);
+  if (fromKey > toKey) {
+    throw new ValidationError('The start of the period must be on or before its end');
+  }
+
+  const [settings, rates] = await Promise.all([getSettings(), getFxRates()]);
+  let accounts: TradingAccount[];
+  let currency: string;
+  let excludedCurrencies: string[] = [];
+  if (accountId) {
+    const account = await getAccountById(accountId);
+    if (!account || account.deletedAt) {
+      throw new Error(`Account with id ${accountId} not found`);
+    }
+    accounts = [account];
+    currency = account.currency;
+  } else {
+    const allAccounts = (await getAllAccounts()).filter(
+      (account) => settings.includeArchivedInAnalytics || !account.archived
+    );
+    currency = settings.baseCurrency;
+    excludedCurrencies = findUnconvertibleCurrencies(allAccounts, rates, currency);
+    accounts = allAccounts
+      .filter((account) => !excludedCurrencies.includes(account.currency))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  // Each account's balance going into the period, then its entries inside the period
+  const balances = new Map<string, number>();
+  const periodEntries: ReportEntry[] = [];
+  for (const account of accounts) {
+    const stored = sortChronologically(await getEntriesByAccount(account.id));
+    // Each entry is converted at the rate effective on its own date
+    const entries = convertEntries(stored, rates, account.currency, currency) ?? [];
+    const before = entries.filter((entry) => getTradingDayKey(entry.date) < fromKey);
+    balances.set(
+      account.id,
+      before.length > 0
+        ? before[before.length - 1].balance
+        : convertAmount(account.initialBalance, rates, account.currency, currency, from) ?? 0
+    );
+    entries
+      .filter((entry) => {
+        const key = getTradingDayKey(entry.date);
+        return key >= fromKey && key <= toKey;
+      })
+      .forEach((entry) => periodEntries.push({ entry, accountName: account.name }));
+  }
+  // Same order as sortChronologically, across accounts
+  const entries = periodEntries.sort(
+    (a, b) =>
+      a.entry.date.getTime() - b.entry.date.getTime() ||
+      a.entry.createdAt.getTime() - b.entry.createdAt.getTime()
+  );
+
+  const total = () => [...balances.values()].reduce((sum, balance) => sum + balance, 0);
+  const openingBalance = total();
+  const balanceCurve: ReportBalancePoint[] = [{ date: from, balance: openingBalance }];
+  const months = new Map(
+    listMonths(fromKey, toKey).map((month) => [
+      month,
+      { cashFlow: 0, profitLoss: 0, openingBalance: null as number | null, closingBalance: 0 },
+    ])
+  );
+  let runningBalance = openingBalance;
+
+  entries.forEach(({ entry }) => {
+    const month = months.get(getTradingDayKey(entry.date).slice(0, 7));
+    if (month && month.openingBalance === null) {
+      month.openingBalance = runningBalance;
+    }
+    balances.set(entry.accountId, entry.balance);
+    runningBalance = total();
+    if (month) {
+      month[isCashFlowEntry(entry) ? 'cashFlow' : 'profitLoss'] += entry.profitLoss;
+      month.closingBalance = runningBalance;
+    }
+
+    // One point per trading day, at the balance the day closed with
+    const last = balanceCurve[balanceCurve.length - 1];
+    if (balanceCurve.length > 1 && getTradingDayKey(last.date) === getTradingDayKey(entry.date)) {
+      last.balance = runningBalance;
+    } else {
+      balanceCurve.push({ date: entry.date, balance: runningBalance });
+    }
+  });
+
+  // Months without entries open and close at the balance carried over from before
+  let carried = openingBalance;
+  const monthlyReturns: MonthlyReturn[] = [...months.entries()].map(([month, figures]) => {
+    const opening = figures.openingBalance ?? carried;
+    const closing = figures.openingBalance === null ? carried : figures.closingBalance;
+    carried = closing;
+    return {
+      month,
+      openingBalance: opening,
+      cashFlow: figures.cashFlow,
+      profitLoss: figures.profitLoss,
+      closingBalance: closing,
+      returnPercent: toPercent(figures.profitLoss, opening),
+    };
+  });
+
+  const plainEntries = entries.map(({ entry }) => entry);
+  const profitLoss = plainEntries
+    .filter((entry) => !isCashFlowEntry(entry))
+    .reduce((sum, entry) => sum + entry.profitLoss, 0);
+  return {
+    title: accountId ? accounts[0].name : 'All Accounts',
+    accountId,
+    currency,
+    from,
+    to,
+    generatedAt: new Date(),
+    accounts,
+    excludedCurrencies,
+    openingBalance,
+    closingBalance: runningBalance,
+    profitLoss,
+    cashFlow: plainEntries
+      .filter(isCashFlowEntry)
+      .reduce((sum, entry) => sum + entry.profitLoss, 0),
+    returnPercent: toPercent(profitLoss, openingBalance),
+    statistics: calculateStatistics(plainEntries),
+    balanceCurve,
+    entries,
+    monthlyReturns,
+  };
+};
+
+/**
+ * Format an amount with a sign in front of gains
+ */
+const formatSigned = (amount: number, currency: string): string =>
+  `${amount > 0 ? '+' : ''}${formatCurrency(amount, currency)}`;
+
+/**
+ * Format a percentage with one decimal, or a dash when there is none
+ */
+const formatPercent = (value: number | null): string =>
+  value === null ? '&ndash;' : `${value > 0 ? '+' : ''}${value.toFixed(1)}%`;
+
+/**
+ * CSS class colouring an amount by its sign
+ */
+const signClass = (amount: number): string => (amount > 0 ? 'profit' : amount < 0 ? 'loss' : '');
+
+/**
+ * Label of a calendar month key such as 2024-03
+ */
+const formatMonth = (month: string): string =>
+  new Intl.DateTimeFormat('en-US', { year: 'numeric', month: 'short' }).format(
+    new Date(Number(month.slice(0, 4)), Number(month.slice(5, 7)) - 1, 1)
+  );
+
+/**
+ * One labelled figure of the summary grid
+ */
+const renderMetric = (label: string, value: string, className = ''): string =>
+  `<div class="metric"><div class="metric-label">${label}</div><div class="metric-value ${className}">${value}</div></div>`;
+
+/**
+ * Render a report as a self-contained HTML document
+ */
+export const renderPerformanceReport = (report: PerformanceReport): string => {
+  const { currency, statistics } = report;
+  const money = (amount: number) => escapeMarkup(formatCurrency(amount, currency));
+  const signed = (amount: number) => escapeMarkup(formatSigned(amount, currency));
+  const axisFormat = new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency,
+    maximumFractionDigits: 0,
+  });
+  const chartOptions = { ...CHART_SIZE, formatValue: (value: number) => axisFormat.format(value) };
+  const dayLabel = (date: Date) => `${date.getMonth() + 1}/${date.getDate()}`;
+  const showAccount = !report.accountId;
+
+  const balancePoints: ChartPoint[] = report.balanceCurve.map((point) => ({
+    label: dayLabel(point.date),
+    value: point.balance,
+  }));
+  const profitLossPoints: ChartPoint[] = report.entries
+    .filter(({ entry }) => !isCashFlowEntry(entry))
+    .map(({ entry }) => ({ label: dayLabel(entry.date), value: entry.profitLoss }));
+
+  const summary = [
+    renderMetric('Opening Balance', money(report.openingBalance)),
+    renderMetric('Closing Balance', money(report.closingBalance)),
+    renderMetric('Net P/L', signed(report.profitLoss), signClass(report.profitLoss)),
+    renderMetric('Return', formatPercent(report.returnPercent), signClass(report.profitLoss)),
+    renderMetric('Deposits &amp; Withdrawals', signed(report.cashFlow)),
+    renderMetric('Total Profit', signed(statistics.totalProfit), 'profit'),
+    renderMetric('Total Loss', money(statistics.totalLoss), 'loss'),
+    renderMetric('Win Days', statistics.winDays.toString()),
+    renderMetric('Loss Days', statistics.lossDays.toString()),
+    renderMetric(
+      'Avg Daily P/L',
+      signed(statistics.averageDailyPnL),
+      signClass(statistics.averageDailyPnL)
+    ),
+    renderMetric('Win Rate', `${statistics.winRate.toFixed(1)}%`),
+  ].join('');
+
+  const monthRows = report.monthlyReturns
+    .map(
+      (month) => `<tr>
+        <td>${escapeMarkup(formatMonth(month.month))}</td>
+        <td class="num">${money(month.openingBalance)}</td>
+        <td class="num">${signed(month.cashFlow)}</td>
+        <td class="num ${signClass(month.profitLoss)}">${signed(month.profitLoss)}</td>
+        <td class="num">${money(month.closingBalance)}</td>
+        <td class="num ${signClass(month.profitLoss)}">${formatPercent(month.returnPercent)}</td>
+      </tr>`
+    )
+    .join('');
+
+  const entryRows = report.entries
+    .map(({ entry, accountName }) => {
+      const type = isCashFlowEntry(entry)
+        ? CASH_FLOW_LABELS[entry.type as CashFlowType]
+        : 'Trading';
+      return `<tr>
+        <td>${escapeMarkup(formatDate(entry.date))}</td>
+        ${showAccount ? `<td>${escapeMarkup(accountName)}</td>` : ''}
+        <td>${type}</td>
+        <td class="num ${signClass(entry.profitLoss)}">${signed(entry.profitLoss)}</td>
+        <td class="num">${money(entry.balance)}</td>
+        <td class="notes">${escapeMarkup(entry.notes ?? '')}</td>
+      </tr>`;
+    })
+    .join('');
+
+  const excludedNote =
+    report.excludedCurrencies.length > 0
+      ? `<p class="note">Accounts in ${escapeMarkup(report.excludedCurrencies.join(', '))} are not included: there is no FX rate to ${escapeMarkup(currency)}.</p>`
+      : '';
+  const accountsNote = showAccount
+    ? `<p class="note">Accounts: ${escapeMarkup(report.accounts.map((account) => account.name).join(', ') || 'none')}. Amounts are in ${escapeMarkup(currency)}.</p>`
+    : '';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeMarkup(report.title)} - Performance Report</title>
+<style>
+  @page { margin: 16mm; }
+  body { font-family: -apple-system, 'Helvetica Neue', Helvetica, Arial, sans-serif; color: #1C1C1E; margin: 0 auto; max-width: 720px; padding: 16px; font-size: 12px; }
+  h1 { font-size: 22px; margin: 0; }
+  h2 { font-size: 15px; margin: 24px 0 8px; page-break-after: avoid; }
+  .period { color: #8E8E93; margin: 4px 0 0; }
+  .metrics { display: flex; flex-wrap: wrap; gap: 8px; margin-top: 16px; }
+  .metric { flex: 1 0 130px; border: 1px solid #E5E5EA; border-radius: 8px; padding: 8px 10px; }
+  .metric-label { color: #8E8E93; font-size: 11px; }
+  .metric-value { font-size: 15px; font-weight: 600; margin-top: 2px; }
+  .chart { page-break-inside: avoid; }
+  .chart svg { width: 100%; height: auto; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { text-align: left; padding: 5px 6px; border-bottom: 1px solid #E5E5EA; vertical-align: top; }
+  th { color: #8E8E93; font-weight: 600; font-size: 11px; }
+  tr { page-break-inside: avoid; }
+  .num { text-align: right; white-space: nowrap; }
+  .notes { white-space: pre-wrap; color: #3A3A3C; }
+  .profit { color: #248A3D; }
+  .loss { color: #D70015; }
+  .note, .empty { color: #8E8E93; }
+  footer { color: #8E8E93; font-size: 10px; margin-top: 24px; }
+</style>
+</head>
+<body>
+<h1>${escapeMarkup(report.title)}</h1>
+<p class="period">Performance report, ${escapeMarkup(formatDate(report.from))} to ${escapeMarkup(formatDate(report.to))}</p>
+${accountsNote}
+${excludedNote}
+<div class="metrics">${summary}</div>
+
+<h2>Balance</h2>
+<div class="chart">${renderLineChart(balancePoints, chartOptions)}</div>
+
+<h2>Daily P/L</h2>
+${profitLossPoints.length > 0 ? `<div class="chart">${renderBarChart(profitLossPoints, chartOptions)}</div>` : '<p class="empty">No trading days in this period.</p>'}
+
+<h2>Monthly Returns</h2>
+<table>
+  <thead><tr><th>Month</th><th class="num">Opening</th><th class="num">Deposits &amp; Withdrawals</th><th class="num">P/L</th><th class="num">Closing</th><th class="num">Return</th></tr></thead>
+  <tbody>${monthRows}</tbody>
+</table>
+<p class="note">Return is the month's trading P/L over the balance it opened with.</p>
+
+<h2>Entries</h2>
+${
+  entryRows
+    ? `<table>
+  <thead><tr><th>Date</th>${showAccount ? '<th>Account</th>' : ''}<th>Type</th><th class="num">P/L</th><th class="num">Balance</th><th>Notes</th></tr></thead>
+  <tbody>${entryRows}</tbody>
+</table>`
+    : '<p class="empty">No entries in this period.</p>'
+}
+
+<footer>Generated by BitacoraFx on ${escapeMarkup(formatDateTime(report.generatedAt))}</footer>
+</body>
+</html>
+`;
+};
+
+/**
+ * Build the HTML file of a report, ready to share or print to PDF
+ */
+export const exportPerformanceReport = (report: PerformanceReport): ShareableFile => {
+  const scope = report.accountId ? toFileNamePart(report.title) : 'all-accounts';
+  return {
+    fileName: `bitacorafx-report-${scope}-${getTradingDayKey(report.from)}-to-${getTradingDayKey(report.to)}.html`,
+    content: renderPerformanceReport(report),
+    mimeType: 'text/html',
+    uti: 'public.html',
+  };
+};
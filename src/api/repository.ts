@@ -0,0 +1,287 @@
+/**
+ * Storage contract shared by every backend.
+ * Repositories only persist documents; validation, balances and cascades live in
+ * the accounts/entries services so every backend behaves the same.
+ */
+
+import Constants from 'expo-constants';
+import { db, isUsingFirebaseEmulator } from '../config/firebase.config';
+import { COLLECTIONS } from '../constants';
+import { TradingAccount, DailyEntry, Trade } from '../models';
+import { firestoreAccountRepository } from './accounts.api';
+import { firestoreEntryRepository, firestoreTradeRepository } from './entries.api';
+import { localAccountRepository } from './accounts.local';
+import { localEntryRepository, localTradeRepository } from './entries.local';
+import { createMemoryAccountRepository } from './accounts.memory';
+import {
+  createMemoryEntryRepository,
+  createMemoryTradeRepository,
+} from './entries.memory';
+import { createSyncedRepositories } from './synced';
+import { commitToFirestore, commitLedgerToFirestore, newFirestoreId } from './transactions.api';
+import { createRollbackCommit } from './transactions';
+import { generateLocalId } from './storage.helpers';
+
+// 'synced' keeps the journal in AsyncStorage and replays changes to Firestore in the background
+export type StorageBackend = 'firestore' | 'asyncStorage' | 'synced' | 'memory';
+
+// Fields written on create; ids and timestamps are assigned by the repository
+export type NewTradingAccount = Omit<TradingAccount, 'id' | 'createdAt' | 'updatedAt'>;
+export type NewDailyEntry = Omit<DailyEntry, 'id' | 'createdAt' | 'updatedAt'>;
+export type NewTrade = Omit<Trade, 'id' | 'createdAt' | 'updatedAt'>;
+
+// Fields written on update; an explicit undefined clears the field
+export type TradingAccountChanges = Partial<Omit<TradingAccount, 'id' | 'createdAt' | 'updatedAt'>>;
+export type DailyEntryChanges = Partial<
+  Omit<DailyEntry, 'id' | 'accountId' | 'createdAt' | 'updatedAt'>
+>;
+export type TradeChanges = Partial<
+  Omit<Trade, 'id' | 'entryId' | 'accountId' | 'createdAt' | 'updatedAt'>
+>;
+
+// Stops a subscription
+export type Unsubscribe = () => void;
+
+export interface AccountRepository {
+  // Every account, including those in the trash
+  getAll(): Promise<TradingAccount[]>;
+  // Deliver getAll() now and after every change, including changes from other devices
+  subscribe(
+    onChange: (accounts: TradingAccount[]) => void,
+    onError: (error: Error) => void
+  ): Unsubscribe;
+  getById(id: string): Promise<TradingAccount | null>;
+  create(account: NewTradingAccount): Promise<string>;
+  update(id: string, changes: TradingAccountChanges): Promise<void>;
+  // Insert or replace a whole record, keeping its id and timestamps
+  put(account: TradingAccount): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+// Inclusive date bounds for entry queries; either side may be left open
+export interface EntryDateRange {
+  from?: Date;
+  to?: Date;
+}
+
+// Position of the last entry of a page. Pages are ordered by date, then id, both descending,
+// so entries sharing a date are neither repeated nor skipped between pages.
+export interface EntryCursor {
+  date: Date;
+  id: string;
+}
+
+export interface EntryPageQuery extends EntryDateRange {
+  limit: number;
+  // Start after this entry; omitted for the first page
+  cursor?: EntryCursor;
+}
+
+export interface EntryPage {
+  entries: DailyEntry[];
+  // null once the last page has been read
+  nextCursor: EntryCursor | null;
+}
+
+export interface EntryRepository {
+  getById(id: string): Promise<DailyEntry | null>;
+  // Every entry of every account, including those in the trash and those whose account is gone
+  getAll(): Promise<DailyEntry[]>;
+  // Every entry of the account in the range, including those in the trash, newest first
+  getByAccount(accountId: string, range?: EntryDateRange): Promise<DailyEntry[]>;
+  // One page of the account's entries, including those in the trash, newest first
+  getPage(accountId: string, query: EntryPageQuery): Promise<EntryPage>;
+  // Deliver getByAccount(accountId) now and after every change to the account's entries,
+  // only the newest limitCount of them when it is given
+  subscribeByAccount(
+    accountId: string,
+    onChange: (entries: DailyEntry[]) => void,
+    onError: (error: Error) => void,
+    limitCount?: number
+  ): Unsubscribe;
+  create(entry: NewDailyEntry): Promise<string>;
+  update(id: string, changes: DailyEntryChanges): Promise<void>;
+  put(entry: DailyEntry): Promise<void>;
+  // Store derived running balances without touching updatedAt
+  setBalances(accountId: string, balances: Record<string, number>): Promise<void>;
+  delete(id: string): Promise<void>;
+  deleteByAccount(accountId: string): Promise<void>;
+}
+
+export interface TradeRepository {
+  getById(id: string): Promise<Trade | null>;
+  // Trades of the entry, oldest open time first
+  getByEntry(entryId: string): Promise<Trade[]>;
+  getByAccount(accountId: string): Promise<Trade[]>;
+  create(trade: NewTrade): Promise<string>;
+  update(id: string, changes: TradeChanges): Promise<void>;
+  put(trade: Trade): Promise<void>;
+  delete(id: string): Promise<void>;
+  deleteByEntry(entryId: string): Promise<void>;
+  deleteByAccount(accountId: string): Promise<void>;
+}
+
+export type StoredCollection = (typeof COLLECTIONS)[keyof typeof COLLECTIONS];
+
+// One write inside a commit. Updates bump updatedAt; setBalances does not.
+export type WriteOperation =
+  | { type: 'put'; collection: 'accounts'; record: TradingAccount }
+  | { type: 'put'; collection: 'entries'; record: DailyEntry }
+  | { type: 'put'; collection: 'trades'; record: Trade }
+  | { type: 'update'; collection: 'accounts'; id: string; changes: TradingAccountChanges }
+  | { type: 'update'; collection: 'entries'; id: string; changes: DailyEntryChanges }
+  | { type: 'update'; collection: 'trades'; id: string; changes: TradeChanges }
+  | { type: 'setBalances'; accountId: string; balances: Record<string, number> }
+  | { type: 'delete'; collection: StoredCollection; id: string }
+  | {
+      type: 'deleteWhere';
+      collection: 'entries' | 'trades';
+      field: 'accountId' | 'entryId';
+      value: string;
+    };
+
+// Plans the writes of a ledger change from the account and its entries as they are now
+export type LedgerPlan = (
+  account: TradingAccount,
+  entries: DailyEntry[]
+) => Promise<WriteOperation[]>;
+
+export interface RecordStores {
+  accounts: AccountRepository;
+  entries: EntryRepository;
+  trades: TradeRepository;
+}
+
+export interface Repositories extends RecordStores {
+  // Id for a document that is about to be written with a put operation
+  newId(collection: StoredCollection): string;
+  // Apply the operations in order so that they all land or none do.
+  // Firestore splits commits over its batch limit; children should come before their parent.
+  commit(operations: WriteOperation[]): Promise<void>;
+  // Commit a change to an account's ledger, planned from a read of the account and its
+  // entries made as part of the commit, so a concurrent change to the ledger is planned
+  // again instead of overwritten. Throws when the account does not exist.
+  commitLedger(accountId: string, plan: LedgerPlan): Promise<void>;
+}
+
+/**
+ * Check if Firebase is properly configured
+ */
+export const isFirebaseConfigured = (): boolean => {
+  // The emulators accept any project id, demo ones included
+  if (isUsingFirebaseEmulator()) {
+    return true;
+  }
+  try {
+    // Check if we're using demo/placeholder values
+    const isDemoConfig = db.app.options.projectId === 'demo-project' ||
+                        db.app.options.apiKey === 'demo-api-key';
+    return !isDemoConfig;
+  } catch (error) {
+    return false;
+  }
+};
+
+/**
+ * Add device-side ids and rollback-based commits to record stores
+ */
+const withLocalCommit = (stores: RecordStores): Repositories => ({
+  ...stores,
+  newId: () => generateLocalId(),
+  ...createRollbackCommit(stores),
+});
+
+/**
+ * Build the repositories for a storage backend
+ */
+export const createRepositories = (backend: StorageBackend): Repositories => {
+  switch (backend) {
+    case 'firestore':
+      return {
+        accounts: firestoreAccountRepository,
+        entries: firestoreEntryRepository,
+        trades: firestoreTradeRepository,
+        newId: newFirestoreId,
+        commit: commitToFirestore,
+        commitLedger: commitLedgerToFirestore,
+      };
+    case 'asyncStorage':
+      return withLocalCommit({
+        accounts: localAccountRepository,
+        entries: localEntryRepository,
+        trades: localTradeRepository,
+      });
+    case 'synced':
+      return createSyncedRepositories(
+        withLocalCommit({
+          accounts: localAccountRepository,
+          entries: localEntryRepository,
+          trades: localTradeRepository,
+        })
+      );
+    case 'memory':
+      return withLocalCommit({
+        accounts: createMemoryAccountRepository(),
+        entries: createMemoryEntryRepository(),
+        trades: createMemoryTradeRepository(),
+      });
+  }
+};
+
+/**
+ * Backend requested through `extra.storageBackend` in the Expo config,
+ * otherwise offline-first sync when Firebase is configured and AsyncStorage for development
+ */
+const getDefaultBackend = (): StorageBackend => {
+  const requested = Constants.expoConfig?.extra?.storageBackend;
+  if (
+    requested === 'firestore' ||
+    requested === 'asyncStorage' ||
+    requested === 'synced' ||
+    requested === 'memory'
+  ) {
+    return requested;
+  }
+  return isFirebaseConfigured() ? 'synced' : 'asyncStorage';
+};
+
+let activeBackend: StorageBackend | null = null;
+let activeRepositories: Repositories | null = null;
+
+/**
+ * Select the storage backend. Call once at startup, or from tests with 'memory'
+ * to get a fresh, empty store.
+ */
+export const configureStorage = (backend: StorageBackend): Repositories => {
+  activeBackend = backend;
+  activeRepositories = createRepositories(backend);
+
+  if (backend === 'firestore') {
+    console.log('☁️  Production Mode: Using Firebase Firestore');
+  } else if (backend === 'synced') {
+    console.log('🔄 Offline-first Mode: Using local storage synced to Firebase Firestore');
+  } else if (backend === 'asyncStorage') {
+    console.log('🔧 Development Mode: Using local storage (AsyncStorage)');
+  } else {
+    console.log('🧪 Using in-memory storage');
+  }
+
+  return activeRepositories;
+};
+
+/**
+ * Get the active repositories, selecting the default backend on first use
+ */
+export const getRepositories = (): Repositories => {
+  return activeRepositories ?? configureStorage(getDefaultBackend());
+};
+
+/**
+ * Get the active storage backend
+ */
+export const getStorageBackend = (): StorageBackend => {
+  if (!activeBackend) {
+    getRepositories();
+  }
+  return activeBackend as StorageBackend;
+};
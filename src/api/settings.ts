@@ -0,0 +1,181 @@
+/**
+ * Device-local settings and FX rate table.
+ * Always stored in AsyncStorage (localStorage on web), whichever backend holds the journal.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  AppSettings,
+  FxRate,
+  CreateFxRateInput,
+  UpdateFxRateInput,
+} from '../models';
+import { DEFAULTS, CSV_EXPORT_COLUMNS, TRASH_RETENTION_OPTIONS } from '../constants';
+
+const SETTINGS_KEY = '@BitacoraFx:settings';
+const FX_RATES_KEY = '@BitacoraFx:fxRates';
+
+const DEFAULT_SETTINGS: AppSettings = {
+  baseCurrency: DEFAULTS.BASE_CURRENCY,
+  includeArchivedInAnalytics: false,
+  trashRetentionDays: DEFAULTS.TRASH_RETENTION_DAYS,
+  csvExportColumns: [...CSV_EXPORT_COLUMNS],
+};
+
+/**
+ * Whether a code is an ISO 4217 currency that Intl can format amounts in
+ */
+const isCurrencyCode = (value: unknown): value is string => {
+  if (typeof value !== 'string' || !/^[A-Z]{3}$/.test(value)) {
+    return false;
+  }
+  try {
+    new Intl.NumberFormat('en-US', { style: 'currency', currency: value });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Check settings from outside the app, such as a backup file, field by field.
+ * Fields that are missing or invalid fall back to their defaults.
+ */
+export const sanitizeSettings = (value: unknown): AppSettings => {
+  const data = (typeof value === 'object' && value !== null ? value : {}) as Record<
+    string,
+    unknown
+  >;
+  const columns = Array.isArray(data.csvExportColumns)
+    ? CSV_EXPORT_COLUMNS.filter((column) => (data.csvExportColumns as unknown[]).includes(column))
+    : [];
+  return {
+    baseCurrency: isCurrencyCode(data.baseCurrency)
+      ? data.baseCurrency
+      : DEFAULT_SETTINGS.baseCurrency,
+    includeArchivedInAnalytics:
+      typeof data.includeArchivedInAnalytics === 'boolean'
+        ? data.includeArchivedInAnalytics
+        : DEFAULT_SETTINGS.includeArchivedInAnalytics,
+    trashRetentionDays: (TRASH_RETENTION_OPTIONS as readonly unknown[]).includes(
+      data.trashRetentionDays
+    )
+      ? (data.trashRetentionDays as number)
+      : DEFAULT_SETTINGS.trashRetentionDays,
+    csvExportColumns: columns.length > 0 ? columns : [...DEFAULT_SETTINGS.csvExportColumns],
+  };
+};
+
+/**
+ * Get app settings, filling in defaults for anything not stored yet
+ */
+export const getSettings = async (): Promise<AppSettings> => {
+  try {
+    const data = await AsyncStorage.getItem(SETTINGS_KEY);
+    return data ? { ...DEFAULT_SETTINGS, ...JSON.parse(data) } : DEFAULT_SETTINGS;
+  } catch (error) {
+    console.error('Error reading settings from storage:', error);
+    return DEFAULT_SETTINGS;
+  }
+};
+
+/**
+ * Update app settings
+ */
+export const updateSettings = async (updates: Partial<AppSettings>): Promise<AppSettings> => {
+  const settings = { ...(await getSettings()), ...updates };
+  try {
+    await AsyncStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error('Error saving settings to storage:', error);
+    throw error;
+  }
+  return settings;
+};
+
+/**
+ * Get all FX rates from local storage
+ */
+const getStoredFxRates = async (): Promise<FxRate[]> => {
+  try {
+    const data = await AsyncStorage.getItem(FX_RATES_KEY);
+    return data ? JSON.parse(data, (key, value) => {
+      if (key === 'effectiveDate' || key === 'createdAt' || key === 'updatedAt') {
+        return new Date(value);
+      }
+      return value;
+    }) : [];
+  } catch (error) {
+    console.error('Error reading FX rates from storage:', error);
+    return [];
+  }
+};
+
+/**
+ * Save FX rates to local storage
+ */
+const saveFxRates = async (rates: FxRate[]): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(FX_RATES_KEY, JSON.stringify(rates));
+  } catch (error) {
+    console.error('Error saving FX rates to storage:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get all FX rates, newest effective date first
+ */
+export const getFxRates = async (): Promise<FxRate[]> => {
+  const rates = await getStoredFxRates();
+  return rates.sort((a, b) => b.effectiveDate.getTime() - a.effectiveDate.getTime());
+};
+
+/**
+ * Add a dated FX rate
+ */
+export const createFxRate = async (rate: CreateFxRateInput): Promise<string> => {
+  const rates = await getStoredFxRates();
+  const now = new Date();
+  const newRate: FxRate = {
+    id: `local_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`,
+    ...rate,
+    createdAt: now,
+    updatedAt: now,
+  };
+  rates.push(newRate);
+  await saveFxRates(rates);
+  return newRate.id;
+};
+
+/**
+ * Update an existing FX rate
+ */
+export const updateFxRate = async (id: string, updates: UpdateFxRateInput): Promise<void> => {
+  const rates = await getStoredFxRates();
+  const index = rates.findIndex((rate) => rate.id === id);
+  if (index === -1) {
+    throw new Error(`FX rate with id ${id} not found`);
+  }
+  rates[index] = {
+    ...rates[index],
+    ...updates,
+    updatedAt: new Date(),
+  };
+  await saveFxRates(rates);
+};
+
+/**
+ * Replace the whole FX rate table, as restoring a backup does
+ */
+export const replaceFxRates = async (rates: FxRate[]): Promise<void> => {
+  await saveFxRates(rates);
+};
+
+/**
+ * Delete an FX rate
+ */
+export const deleteFxRate = async (id: string): Promise<void> => {
+  const rates = await getStoredFxRates();
+  await saveFxRates(rates.filter((rate) => rate.id !== id));
+};
@@ -0,0 +1,393 @@
+/**
+ * Import of MetaTrader statements into a trading account.
+ * Closed trades are grouped by the day they closed into one trading entry per day, holding
+ * the trades and their net P/L after commission and swap. Deposits, withdrawals and other
+ * balance operations become cash-flow entries. The import is reconciled against the
+ * statement's closing balance so missing history or a wrong initial balance shows up.
+ */
+
+import { TradingAccount, DailyEntry, Trade } from '../models';
+import { getTradingDayKey, isCashFlowEntry } from '../utils/helpers';
+import { COLLECTIONS } from '../constants';
+import { getRepositories, WriteOperation } from './repository';
+import { getAccountById } from './accounts';
+import { getEntriesByAccount, planBalanceWrites } from './entries';
+import { rebuildLedger } from './ledger';
+import { findSameDayEntry } from './validation';
+import {
+  ParsedStatement,
+  StatementTrade,
+  StatementBalanceOperation,
+  StatementPlatform,
+} from './statement.parser';
+
+// What to do with a statement day that already has a trading entry
+export type StatementDayPolicy = 'skip' | 'replace';
+
+export interface StatementImportOptions {
+  // Deposits and withdrawals already counted in the account's initial balance can be left out
+  includeCashFlows: boolean;
+  onExistingDay: StatementDayPolicy;
+}
+
+export type StatementRowStatus = 'new' | 'existing' | 'future';
+
+export interface StatementDay {
+  dayKey: string;
+  date: Date;
+  trades: StatementTrade[];
+  // Net of commission and swap
+  profitLoss: number;
+  commission: number;
+  swap: number;
+  status: StatementRowStatus;
+  // The trading entry already recorded on this day
+  existingEntry?: DailyEntry;
+}
+
+export interface StatementCashFlow {
+  operation: StatementBalanceOperation;
+  status: StatementRowStatus;
+}
+
+export interface StatementReconciliation {
+  statementBalance?: number;
+  // Account balance once the import is written
+  journalBalance: number;
+  // Journal minus statement; zero when they agree
+  difference?: number;
+  // Days where the journal already has a P/L that differs from the statement
+  dayDifferences: { date: Date; journalProfitLoss: number; statementProfitLoss: number }[];
+}
+
+export interface StatementImportPreview {
+  accountId: string;
+  platform: StatementPlatform;
+  fileName: string;
+  accountNumber?: string;
+  // Set when the statement is in another currency than the account
+  currencyMismatch?: { statement: string; account: string };
+  unreadableRows: number;
+  days: StatementDay[];
+  cashFlows: StatementCashFlow[];
+  options: StatementImportOptions;
+  reconciliation: StatementReconciliation;
+}
+
+export interface StatementImportResult {
+  daysCreated: number;
+  daysReplaced: number;
+  trades: number;
+  cashFlows: number;
+  reconciliation: StatementReconciliation;
+}
+
+// Amounts closer than this are treated as equal, absorbing rounding in the report
+const AMOUNT_TOLERANCE = 0.005;
+
+/**
+ * Round to cents so sums of many trades do not carry float noise into the journal
+ */
+const roundAmount = (amount: number): number => Math.round(amount * 100) / 100;
+
+/**
+ * Local midnight of a date
+ */
+const startOfDay = (date: Date): Date =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+/**
+ * Notes for an imported trading day, naming the source and the costs
+ */
+const describeDay = (platform: StatementPlatform, day: StatementDay): string => {
+  const parts = [`${day.trades.length} trades`];
+  if (day.commission !== 0) {
+    parts.push(`commission ${day.commission.toFixed(2)}`);
+  }
+  if (day.swap !== 0) {
+    parts.push(`swap ${day.swap.toFixed(2)}`);
+  }
+  return `${platform} statement: ${parts.join(', ')}`;
+};
+
+/**
+ * Group closed trades by the day they closed
+ */
+const groupTradesByDay = (trades: StatementTrade[]): StatementDay[] => {
+  const days = new Map<string, StatementDay>();
+  trades.forEach((trade) => {
+    const dayKey = getTradingDayKey(trade.closeTime);
+    const day = days.get(dayKey) ?? {
+      dayKey,
+      date: startOfDay(trade.closeTime),
+      trades: [],
+      profitLoss: 0,
+      commission: 0,
+      swap: 0,
+      status: 'new' as StatementRowStatus,
+    };
+    day.trades.push(trade);
+    day.profitLoss = roundAmount(day.profitLoss + trade.profit + trade.commission + trade.swap);
+    day.commission = roundAmount(day.commission + trade.commission);
+    day.swap = roundAmount(day.swap + trade.swap);
+    days.set(dayKey, day);
+  });
+  return [...days.values()].sort((a, b) => a.date.getTime() - b.date.getTime());
+};
+
+/**
+ * Whether a cash-flow operation is already recorded as an entry on the same day
+ */
+const isRecordedCashFlow = (
+  entries: DailyEntry[],
+  operation: StatementBalanceOperation
+): boolean =>
+  entries.some(
+    (entry) =>
+      !entry.deletedAt &&
+      isCashFlowEntry(entry) &&
+      getTradingDayKey(entry.date) === getTradingDayKey(operation.time) &&
+      Math.abs(entry.profitLoss - operation.amount) < AMOUNT_TOLERANCE
+  );
+
+/**
+ * Plan every write of an import, and the account's entries as they will be afterwards
+ */
+const planStatementImport = (
+  account: TradingAccount,
+  entries: DailyEntry[],
+  preview: Omit<StatementImportPreview, 'reconciliation'>
+): { operations: WriteOperation[]; entriesAfter: DailyEntry[] } => {
+  const { newId } = getRepositories();
+  const { days, cashFlows, options, platform } = preview;
+  const now = new Date();
+  // Trades go first, so a commit split over several batches never leaves a day without them
+  const tradeOperations: WriteOperation[] = [];
+  const entryOperations: WriteOperation[] = [];
+  let entriesAfter = [...entries];
+
+  days.forEach((day) => {
+    if (day.status === 'future') {
+      return;
+    }
+    let entryId: string;
+    if (day.status === 'existing' && day.existingEntry) {
+      if (options.onExistingDay === 'skip') {
+        return;
+      }
+      // The statement is the source of truth for the day; the journal notes are kept
+      const { existingEntry } = day;
+      entryId = existingEntry.id;
+      const changes = { profitLoss: day.profitLoss };
+      tradeOperations.push({
+        type: 'deleteWhere',
+        collection: COLLECTIONS.TRADES,
+        field: 'entryId',
+        value: entryId,
+      });
+      entryOperations.push({
+        type: 'update',
+        collection: COLLECTIONS.ENTRIES,
+        id: entryId,
+        changes,
+      });
+      entriesAfter = entriesAfter.map((entry) =>
+        entry.id === entryId ? { ...entry, ...changes } : entry
+      );
+    } else {
+      const record: DailyEntry = {
+        id: newId(COLLECTIONS.ENTRIES),
+        accountId: account.id,
+        date: day.date,
+        profitLoss: day.profitLoss,
+        balance: 0,
+        notes: describeDay(platform, day),
+        createdAt: now,
+        updatedAt: now,
+      };
+      entryId = record.id;
+      entryOperations.push({ type: 'put', collection: COLLECTIONS.ENTRIES, record });
+      entriesAfter.push(record);
+    }
+
+    day.trades.forEach((trade) => {
+      const record: Trade = {
+        id: newId(COLLECTIONS.TRADES),
+        entryId,
+        accountId: account.id,
+        symbol: trade.symbol,
+        direction: trade.direction,
+        lotSize: trade.lotSize,
+        entryPrice: trade.openPrice,
+        exitPrice: trade.closePrice,
+        stopLoss: trade.stopLoss,
+        takeProfit: trade.takeProfit,
+        openTime: trade.openTime,
+        closeTime: trade.closeTime,
+        // Net, so the entry's P/L stays the sum of its trades
+        profitLoss: roundAmount(trade.profit + trade.commission + trade.swap),
+        createdAt: now,
+        updatedAt: now,
+      };
+      tradeOperations.push({ type: 'put', collection: COLLECTIONS.TRADES, record });
+    });
+  });
+
+  if (options.includeCashFlows) {
+    cashFlows
+      .filter((cashFlow) => cashFlow.status === 'new')
+      .forEach(({ operation }) => {
+        const record: DailyEntry = {
+          id: newId(COLLECTIONS.ENTRIES),
+          accountId: account.id,
+          type: operation.type,
+          date: operation.time,
+          profitLoss: roundAmount(operation.amount),
+          balance: 0,
+          notes: [operation.comment, `${platform} #${operation.ticket}`].filter(Boolean).join(', '),
+          createdAt: now,
+          updatedAt: now,
+        };
+        entryOperations.push({ type: 'put', collection: COLLECTIONS.ENTRIES, record });
+        entriesAfter.push(record);
+      });
+  }
+
+  return { operations: [...tradeOperations, ...entryOperations], entriesAfter };
+};
+
+/**
+ * Compare the journal as it will be after the import with the statement
+ */
+const reconcile = (
+  account: TradingAccount,
+  entriesAfter: DailyEntry[],
+  days: StatementDay[],
+  options: StatementImportOptions,
+  statementBalance?: number
+): StatementReconciliation => {
+  const journalBalance = roundAmount(
+    rebuildLedger(
+      account.initialBalance,
+      entriesAfter.filter((entry) => !entry.deletedAt)
+    ).currentBalance
+  );
+
+  const dayDifferences = days
+    .filter(
+      (day) =>
+        day.existingEntry &&
+        options.onExistingDay === 'skip' &&
+        Math.abs(day.existingEntry.profitLoss - day.profitLoss) >= AMOUNT_TOLERANCE
+    )
+    .map((day) => ({
+      date: day.date,
+      journalProfitLoss: day.existingEntry?.profitLoss ?? 0,
+      statementProfitLoss: day.profitLoss,
+    }));
+
+  return {
+    statementBalance,
+    journalBalance,
+    difference:
+      statementBalance === undefined ? undefined : roundAmount(journalBalance - statementBalance),
+    dayDifferences,
+  };
+};
+
+/**
+ * Read the account's entries and work out what importing a statement would change.
+ * Days that already have a trading entry, cash flows already recorded and days
+ * after today are flagged; nothing is written.
+ */
+export const previewStatementImport = async (
+  accountId: string,
+  statement: ParsedStatement,
+  options: StatementImportOptions
+): Promise<StatementImportPreview> => {
+  const account = await getAccountById(accountId);
+  if (!account || account.deletedAt) {
+    throw new Error(`Account with id ${accountId} not found`);
+  }
+  const entries = await getEntriesByAccount(accountId);
+  const today = getTradingDayKey(new Date());
+
+  const days = groupTradesByDay(statement.trades).map((day): StatementDay => {
+    if (day.dayKey > today) {
+      return { ...day, status: 'future' };
+    }
+    const existingEntry = findSameDayEntry(entries, day.date);
+    return existingEntry ? { ...day, status: 'existing', existingEntry } : day;
+  });
+
+  const cashFlows = [...statement.balanceOperations]
+    .sort((a, b) => a.time.getTime() - b.time.getTime())
+    .map((operation): StatementCashFlow => {
+      if (getTradingDayKey(operation.time) > today) {
+        return { operation, status: 'future' };
+      }
+      return {
+        operation,
+        status: isRecordedCashFlow(entries, operation) ? 'existing' : 'new',
+      };
+    });
+
+  const partial = {
+    accountId,
+    platform: statement.platform,
+    fileName: statement.fileName,
+    accountNumber: statement.accountNumber,
+    currencyMismatch:
+      statement.currency && statement.currency !== account.currency
+        ? { statement: statement.currency, account: account.currency }
+        : undefined,
+    unreadableRows: statement.unreadableRows,
+    days,
+    cashFlows,
+    options,
+  };
+  const { entriesAfter } = planStatementImport(account, entries, partial);
+  return {
+    ...partial,
+    reconciliation: reconcile(account, entriesAfter, days, options, statement.closingBalance),
+  };
+};
+
+/**
+ * Write a previewed statement import in one commit, together with the balance updates
+ * it causes, and reconcile the result with the statement
+ */
+export const importStatement = async (
+  preview: StatementImportPreview
+): Promise<StatementImportResult> => {
+  const account = await getAccountById(preview.accountId);
+  if (!account || account.deletedAt) {
+    throw new Error(`Account with id ${preview.accountId} not found`);
+  }
+  const entries = await getEntriesByAccount(preview.accountId);
+  const { operations, entriesAfter } = planStatementImport(account, entries, preview);
+  if (operations.length > 0) {
+    await getRepositories().commit([...operations, ...planBalanceWrites(account, entriesAfter)]);
+  }
+
+  const written = preview.days.filter(
+    (day) =>
+      day.status === 'new' ||
+      (day.status === 'existing' && preview.options.onExistingDay === 'replace')
+  );
+  return {
+    daysCreated: written.filter((day) => day.status === 'new').length,
+    daysReplaced: written.filter((day) => day.status === 'existing').length,
+    trades: written.reduce((count, day) => count + day.trades.length, 0),
+    cashFlows: preview.options.includeCashFlows
+      ? preview.cashFlows.filter((cashFlow) => cashFlow.status === 'new').length
+      : 0,
+    reconciliation: reconcile(
+      account,
+      entriesAfter,
+      preview.days,
+      preview.options,
+      preview.reconciliation.statementBalance
+    ),
+  };
+};
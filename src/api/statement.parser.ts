@@ -0,0 +1,429 @@
+/**
+ * Parser for MetaTrader account statements: the MT4 "Detailed Statement" and the MT5
+ * history report, saved as HTML or XLSX from the terminal.
+ * Sections are found by their titles and columns by their header names, so reports
+ * from brokers that add or reorder columns are still read.
+ */
+
+import { TradeDirection } from '../models';
+import { decodeTextFile, isZipFile, readHtmlTableRows, readXlsxRows } from '../utils/spreadsheet';
+import { ValidationError } from './errors';
+
+export type StatementPlatform = 'MT4' | 'MT5';
+
+export interface StatementTrade {
+  ticket: string;
+  symbol: string;
+  direction: TradeDirection;
+  lotSize: number;
+  openTime: Date;
+  openPrice: number;
+  closeTime: Date;
+  closePrice: number;
+  stopLoss?: number;
+  takeProfit?: number;
+  // Commissions, taxes and fees charged on the trade, negative when paid
+  commission: number;
+  swap: number;
+  // Gross profit, before commission and swap
+  profit: number;
+}
+
+export type StatementCashFlowType = 'deposit' | 'withdrawal' | 'adjustment';
+
+export interface StatementBalanceOperation {
+  ticket: string;
+  time: Date;
+  type: StatementCashFlowType;
+  // Signed change to the balance
+  amount: number;
+  comment: string;
+}
+
+export interface ParsedStatement {
+  platform: StatementPlatform;
+  fileName: string;
+  accountNumber?: string;
+  currency?: string;
+  trades: StatementTrade[];
+  balanceOperations: StatementBalanceOperation[];
+  // Balance the statement ends with, when it reports one
+  closingBalance?: number;
+  // Transaction rows whose numbers or times could not be read
+  unreadableRows: number;
+}
+
+interface StatementSection {
+  header: string[];
+  rows: string[][];
+}
+
+// Titles that start a new part of either report; a row holding just one of them ends a section
+const SECTION_TITLE =
+  /^(closed transactions|open trades|working orders|summary|details|positions|open positions|orders|deals|results):?$/i;
+
+// MT5 deal types that move credit or bonus money, which is not part of the balance
+const NON_BALANCE_DEAL_TYPES = ['credit', 'bonus'];
+
+/**
+ * Lower-case a header cell and drop its spaces, so "S / L" and "s/l" match
+ */
+const normalizeLabel = (text: string): string => text.toLowerCase().replace(/\s+/g, '');
+
+/**
+ * Read a number as printed by MetaTrader, with spaces as thousands separators
+ */
+const parseStatementNumber = (text: string | undefined): number | null => {
+  const cleaned = (text ?? '').replace(/\s+/g, '');
+  return /^[+-]?\d+(\.\d+)?$/.test(cleaned) ? Number(cleaned) : null;
+};
+
+/**
+ * Read a server time such as "2024.03.15 14:05:31", or an Excel date serial from XLSX files,
+ * as a local date and time
+ */
+const parseStatementTime = (text: string | undefined): Date | null => {
+  const value = (text ?? '').trim();
+  const match = /^(\d{4})[.\-/](\d{2})[.\-/](\d{2})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?)?/.exec(
+    value
+  );
+  if (match) {
+    const [, year, month, day, hours = '0', minutes = '0', seconds = '0'] = match;
+    return new Date(+year, +month - 1, +day, +hours, +minutes, +seconds);
+  }
+  const serial = parseStatementNumber(value);
+  if (serial !== null && serial > 1) {
+    // Serial days count from 1899-12-30; read back through UTC so no time zone shift applies
+    const utc = new Date(Date.UTC(1899, 11, 30) + Math.round(serial * 86400) * 1000);
+    return new Date(
+      utc.getUTCFullYear(),
+      utc.getUTCMonth(),
+      utc.getUTCDate(),
+      utc.getUTCHours(),
+      utc.getUTCMinutes(),
+      utc.getUTCSeconds()
+    );
+  }
+  return null;
+};
+
+/**
+ * First non-empty cell of a row
+ */
+const firstText = (row: string[]): string => row.find((cell) => cell !== '') ?? '';
+
+/**
+ * Find a section by its title and return its header and body rows
+ */
+const readSection = (rows: string[][], title: string): StatementSection | null => {
+  const start = rows.findIndex(
+    (row) => normalizeLabel(firstText(row)).replace(/:$/, '') === normalizeLabel(title)
+  );
+  if (start < 0 || start + 1 >= rows.length) {
+    return null;
+  }
+
+  const body: string[][] = [];
+  for (const row of rows.slice(start + 2)) {
+    const filled = row.filter((cell) => cell !== '');
+    if (filled.length === 1 && SECTION_TITLE.test(filled[0])) {
+      break;
+    }
+    body.push(row);
+  }
+  return { header: rows[start + 1], rows: body };
+};
+
+/**
+ * Index of a header column; occurrence picks among repeated names like the two "Price" columns
+ */
+const columnOf = (header: string[], name: string, occurrence = 0): number => {
+  const wanted = normalizeLabel(name);
+  const indexes = header
+    .map((cell, index) => (normalizeLabel(cell) === wanted ? index : -1))
+    .filter((index) => index >= 0);
+  return indexes[occurrence] ?? -1;
+};
+
+/**
+ * Value printed after a label such as "Balance:" in the summary part of a report
+ */
+const valueAfterLabel = (rows: string[][], label: string): string | undefined => {
+  const wanted = normalizeLabel(label);
+  for (const row of rows) {
+    const index = row.findIndex((cell) => normalizeLabel(cell) === wanted);
+    if (index >= 0) {
+      return row.slice(index + 1).find((cell) => cell !== '');
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Optional stop loss or take profit; MetaTrader prints 0 when none was set
+ */
+const optionalPrice = (text: string | undefined): number | undefined => {
+  const price = parseStatementNumber(text);
+  return price ? price : undefined;
+};
+
+/**
+ * Cash-flow type of a balance operation from the sign of its amount
+ */
+const toBalanceType = (amount: number): StatementCashFlowType =>
+  amount >= 0 ? 'deposit' : 'withdrawal';
+
+/**
+ * Read the "Closed Transactions" section of an MT4 Detailed Statement
+ */
+const parseMt4 = (rows: string[][], statement: ParsedStatement): void => {
+  const section = readSection(rows, 'Closed Transactions');
+  if (!section) {
+    return;
+  }
+  const { header } = section;
+  const column = {
+    ticket: columnOf(header, 'Ticket'),
+    openTime: columnOf(header, 'Open Time'),
+    type: columnOf(header, 'Type'),
+    size: columnOf(header, 'Size'),
+    item: columnOf(header, 'Item'),
+    openPrice: columnOf(header, 'Price'),
+    stopLoss: columnOf(header, 'S / L'),
+    takeProfit: columnOf(header, 'T / P'),
+    closeTime: columnOf(header, 'Close Time'),
+    closePrice: columnOf(header, 'Price', 1),
+    commission: columnOf(header, 'Commission'),
+    taxes: columnOf(header, 'Taxes'),
+    swap: columnOf(header, 'Swap'),
+    profit: columnOf(header, 'Profit'),
+  };
+
+  section.rows.forEach((row) => {
+    const ticket = row[column.ticket] ?? '';
+    if (!/^\d+$/.test(ticket)) {
+      // Totals and comment rows
+      return;
+    }
+    const type = (row[column.type] ?? '').toLowerCase();
+
+    if (type === 'balance') {
+      // The comment spans the trade columns; the amount sits in the last column
+      const time = parseStatementTime(row[column.openTime]);
+      const amount = parseStatementNumber([...row].reverse().find((cell) => cell !== ''));
+      if (!time || amount === null) {
+        statement.unreadableRows++;
+        return;
+      }
+      statement.balanceOperations.push({
+        ticket,
+        time,
+        type: toBalanceType(amount),
+        amount,
+        comment: row[column.type + 1] ?? '',
+      });
+      return;
+    }
+    if (type !== 'buy' && type !== 'sell') {
+      // Credit, and pending orders that were cancelled or expired
+      return;
+    }
+
+    const openTime = parseStatementTime(row[column.openTime]);
+    const closeTime = parseStatementTime(row[column.closeTime]);
+    const lotSize = parseStatementNumber(row[column.size]);
+    const openPrice = parseStatementNumber(row[column.openPrice]);
+    const closePrice = parseStatementNumber(row[column.closePrice]);
+    const profit = parseStatementNumber(row[column.profit]);
+    if (
+      !openTime ||
+      !closeTime ||
+      lotSize === null ||
+      openPrice === null ||
+      closePrice === null ||
+      profit === null
+    ) {
+      statement.unreadableRows++;
+      return;
+    }
+    statement.trades.push({
+      ticket,
+      symbol: row[column.item] ?? '',
+      direction: type,
+      lotSize,
+      openTime,
+      openPrice,
+      closeTime,
+      closePrice,
+      stopLoss: optionalPrice(row[column.stopLoss]),
+      takeProfit: optionalPrice(row[column.takeProfit]),
+      commission:
+        (parseStatementNumber(row[column.commission]) ?? 0) +
+        (parseStatementNumber(row[column.taxes]) ?? 0),
+      swap: parseStatementNumber(row[column.swap]) ?? 0,
+      profit,
+    });
+  });
+
+  const account = rows.flat().join(' ');
+  statement.accountNumber = /Account:\s*(\d+)/i.exec(account)?.[1];
+  statement.currency = /Currency:\s*([A-Z]{3})\b/.exec(account)?.[1];
+};
+
+/**
+ * Read the "Positions" and "Deals" sections of an MT5 history report
+ */
+const parseMt5 = (rows: string[][], statement: ParsedStatement): void => {
+  const positions = readSection(rows, 'Positions');
+  if (positions) {
+    const { header } = positions;
+    const column = {
+      openTime: columnOf(header, 'Time'),
+      position: columnOf(header, 'Position'),
+      symbol: columnOf(header, 'Symbol'),
+      type: columnOf(header, 'Type'),
+      volume: columnOf(header, 'Volume'),
+      openPrice: columnOf(header, 'Price'),
+      stopLoss: columnOf(header, 'S / L'),
+      takeProfit: columnOf(header, 'T / P'),
+      closeTime: columnOf(header, 'Time', 1),
+      closePrice: columnOf(header, 'Price', 1),
+      commission: columnOf(header, 'Commission'),
+      swap: columnOf(header, 'Swap'),
+      profit: columnOf(header, 'Profit'),
+    };
+
+    positions.rows.forEach((row) => {
+      const type = (row[column.type] ?? '').toLowerCase();
+      if (type !== 'buy' && type !== 'sell') {
+        // Totals rows
+        return;
+      }
+      const openTime = parseStatementTime(row[column.openTime]);
+      const closeTime = parseStatementTime(row[column.closeTime]);
+      // Partly closed positions print the volume as "closed / opened"
+      const lotSize = parseStatementNumber((row[column.volume] ?? '').split('/')[0]);
+      const openPrice = parseStatementNumber(row[column.openPrice]);
+      const closePrice = parseStatementNumber(row[column.closePrice]);
+      const profit = parseStatementNumber(row[column.profit]);
+      if (
+        !openTime ||
+        !closeTime ||
+        lotSize === null ||
+        openPrice === null ||
+        closePrice === null ||
+        profit === null
+      ) {
+        statement.unreadableRows++;
+        return;
+      }
+      statement.trades.push({
+        ticket: row[column.position] ?? '',
+        symbol: row[column.symbol] ?? '',
+        direction: type,
+        lotSize,
+        openTime,
+        openPrice,
+        closeTime,
+        closePrice,
+        stopLoss: optionalPrice(row[column.stopLoss]),
+        takeProfit: optionalPrice(row[column.takeProfit]),
+        commission: parseStatementNumber(row[column.commission]) ?? 0,
+        swap: parseStatementNumber(row[column.swap]) ?? 0,
+        profit,
+      });
+    });
+  }
+
+  const deals = readSection(rows, 'Deals');
+  if (deals) {
+    const { header } = deals;
+    const column = {
+      time: columnOf(header, 'Time'),
+      deal: columnOf(header, 'Deal'),
+      type: columnOf(header, 'Type'),
+      commission: columnOf(header, 'Commission'),
+      fee: columnOf(header, 'Fee'),
+      swap: columnOf(header, 'Swap'),
+      profit: columnOf(header, 'Profit'),
+      comment: columnOf(header, 'Comment'),
+    };
+
+    deals.rows.forEach((row) => {
+      const type = (row[column.type] ?? '').toLowerCase();
+      // Trade deals are covered by the positions; rows without a type are totals
+      if (!type || type.startsWith('buy') || type.startsWith('sell')) {
+        return;
+      }
+      if (NON_BALANCE_DEAL_TYPES.includes(type)) {
+        return;
+      }
+      const time = parseStatementTime(row[column.time]);
+      const profit = parseStatementNumber(row[column.profit]);
+      if (!time || profit === null) {
+        statement.unreadableRows++;
+        return;
+      }
+      // Charges, corrections and interest change the balance like transfers do
+      const amount =
+        profit +
+        (parseStatementNumber(row[column.commission]) ?? 0) +
+        (parseStatementNumber(row[column.fee]) ?? 0) +
+        (parseStatementNumber(row[column.swap]) ?? 0);
+      statement.balanceOperations.push({
+        ticket: row[column.deal] ?? '',
+        time,
+        type: type === 'balance' ? toBalanceType(amount) : 'adjustment',
+        amount,
+        comment: row[column.comment] || type,
+      });
+    });
+  }
+
+  const account = valueAfterLabel(rows, 'Account:') ?? '';
+  statement.accountNumber = /^(\d+)/.exec(account)?.[1];
+  statement.currency = /\(([A-Z]{3})\b/.exec(account)?.[1];
+};
+
+/**
+ * Read an MT4 or MT5 statement saved as HTML or XLSX.
+ * Throws ValidationError when the file is not a statement or holds no transactions.
+ */
+export const parseStatement = (fileName: string, bytes: Uint8Array): ParsedStatement => {
+  let rows: string[][];
+  try {
+    rows = isZipFile(bytes) ? readXlsxRows(bytes) : readHtmlTableRows(decodeTextFile(bytes));
+  } catch (error) {
+    console.error('Error reading statement file:', error);
+    throw new ValidationError('The file could not be read as an HTML or XLSX statement');
+  }
+
+  const titles = rows.map((row) => normalizeLabel(firstText(row)).replace(/:$/, ''));
+  let platform: StatementPlatform;
+  if (titles.includes('closedtransactions')) {
+    platform = 'MT4';
+  } else if (titles.includes('positions') || titles.includes('deals')) {
+    platform = 'MT5';
+  } else {
+    throw new ValidationError('This does not look like an MT4 or MT5 statement');
+  }
+
+  const statement: ParsedStatement = {
+    platform,
+    fileName,
+    trades: [],
+    balanceOperations: [],
+    unreadableRows: 0,
+  };
+  if (platform === 'MT4') {
+    parseMt4(rows, statement);
+  } else {
+    parseMt5(rows, statement);
+  }
+  statement.closingBalance = parseStatementNumber(valueAfterLabel(rows, 'Balance:')) ?? undefined;
+
+  if (statement.trades.length === 0 && statement.balanceOperations.length === 0) {
+    throw new ValidationError('The statement has no closed trades or balance operations');
+  }
+  return statement;
+};
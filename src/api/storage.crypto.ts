@@ -0,0 +1,159 @@
+/**
+ * Encryption of journal data kept in AsyncStorage (localStorage on web).
+ * While a passcode lock is set, values are sealed with AES-256-GCM under a key derived
+ * from the passcode. The key only lives in memory, between unlocking and locking.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { gcm } from '@noble/ciphers/aes';
+import { bytesToUtf8, utf8ToBytes, bytesToHex, hexToBytes } from '@noble/ciphers/utils';
+import { pbkdf2Async } from '@noble/hashes/pbkdf2';
+import { sha256 } from '@noble/hashes/sha2';
+import { getRandomBytes } from 'expo-crypto';
+import { JournalLockedError, StorageReadError } from './errors';
+
+const ENCRYPTED_VALUE_PREFIX = 'enc:v1:';
+const NONCE_BYTES = 12;
+const KEY_BYTES = 32;
+const SALT_BYTES = 16;
+
+// PBKDF2 runs in JavaScript on the device, so this trades brute-force cost against unlock time
+export const KEY_DERIVATION_ITERATIONS = 100000;
+
+let encryptionEnabled = false;
+let activeKey: Uint8Array | null = null;
+
+// Writes wait while stored values are being re-encrypted under a new key
+let rekeyLock: Promise<unknown> = Promise.resolve();
+
+/**
+ * Create a random salt for deriving a storage key, hex encoded
+ */
+export const createKeySalt = (): string => bytesToHex(getRandomBytes(SALT_BYTES));
+
+/**
+ * Derive the storage key for a passcode
+ */
+export const deriveStorageKey = (
+  passcode: string,
+  salt: string,
+  iterations: number
+): Promise<Uint8Array> =>
+  pbkdf2Async(sha256, passcode, hexToBytes(salt), { c: iterations, dkLen: KEY_BYTES });
+
+/**
+ * Set whether stored journal data is encrypted and the key to use, null while locked
+ */
+export const setStorageEncryption = (enabled: boolean, key: Uint8Array | null): void => {
+  encryptionEnabled = enabled;
+  activeKey = enabled ? key : null;
+};
+
+/**
+ * Whether journal data is encrypted and no key is loaded
+ */
+export const isStorageLocked = (): boolean => encryptionEnabled && !activeKey;
+
+/**
+ * Re-encrypt stored values with no journal writes in between.
+ * The task writes through AsyncStorage directly and switches to the new key
+ * with setStorageEncryption as soon as the values are written.
+ */
+export const runStorageRekey = <T>(task: () => Promise<T>): Promise<T> => {
+  const result = rekeyLock.then(task);
+  rekeyLock = result.catch(() => undefined);
+  return result;
+};
+
+/**
+ * Encode bytes as base64
+ */
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  // Chunked so large journals stay within the argument limit of fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+/**
+ * Decode base64 into bytes
+ */
+const fromBase64 = (encoded: string): Uint8Array => {
+  const binary = atob(encoded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+/**
+ * Whether a stored value was written encrypted
+ */
+export const isEncryptedValue = (value: string): boolean =>
+  value.startsWith(ENCRYPTED_VALUE_PREFIX);
+
+/**
+ * Seal a value with a key. The storage key name is authenticated with it,
+ * so a sealed value cannot be moved under another key.
+ */
+export const encryptValue = (storageKey: string, value: string, key: Uint8Array): string => {
+  const nonce = getRandomBytes(NONCE_BYTES);
+  const sealed = gcm(key, nonce, utf8ToBytes(storageKey)).encrypt(utf8ToBytes(value));
+  const payload = new Uint8Array(NONCE_BYTES + sealed.length);
+  payload.set(nonce);
+  payload.set(sealed, NONCE_BYTES);
+  return `${ENCRYPTED_VALUE_PREFIX}${toBase64(payload)}`;
+};
+
+/**
+ * Open a sealed value. Throws when the key is wrong or the value was altered.
+ */
+export const decryptValue = (storageKey: string, stored: string, key: Uint8Array): string => {
+  const payload = fromBase64(stored.substring(ENCRYPTED_VALUE_PREFIX.length));
+  const nonce = payload.subarray(0, NONCE_BYTES);
+  return bytesToUtf8(
+    gcm(key, nonce, utf8ToBytes(storageKey)).decrypt(payload.subarray(NONCE_BYTES))
+  );
+};
+
+/**
+ * Read a journal value, decrypting it when it was stored encrypted.
+ * Values written before the lock was set are returned as they are.
+ */
+export const readStoredValue = async (storageKey: string): Promise<string | null> => {
+  let data: string | null;
+  try {
+    data = await AsyncStorage.getItem(storageKey);
+  } catch (error) {
+    throw new StorageReadError(storageKey, error);
+  }
+  if (!data || !isEncryptedValue(data)) {
+    return data;
+  }
+  if (!activeKey) {
+    throw new JournalLockedError();
+  }
+  try {
+    return decryptValue(storageKey, data, activeKey);
+  } catch (error) {
+    throw new StorageReadError(storageKey, error);
+  }
+};
+
+/**
+ * Write a journal value, encrypted while a passcode lock is set.
+ * Refuses to write while locked rather than store the value in plain text.
+ */
+export const writeStoredValue = async (storageKey: string, value: string): Promise<void> => {
+  await rekeyLock;
+  if (isStorageLocked()) {
+    throw new JournalLockedError();
+  }
+  await AsyncStorage.setItem(
+    storageKey,
+    activeKey ? encryptValue(storageKey, value, activeKey) : value
+  );
+};
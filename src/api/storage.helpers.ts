@@ -0,0 +1,105 @@
+/**
+ * Helpers shared by the AsyncStorage and in-memory repositories
+ */
+
+import { DailyEntry } from '../models';
+import type { EntryCursor, EntryDateRange, EntryPage, EntryPageQuery } from './repository';
+import { StorageReadError } from './errors';
+import { readStoredValue, writeStoredValue } from './storage.crypto';
+
+/**
+ * Generate an id for a document stored on the device
+ */
+export const generateLocalId = (): string =>
+  `local_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+
+/**
+ * Apply changed fields to a stored document, bumping updatedAt.
+ * An explicit undefined removes the field.
+ */
+export const applyChanges = <T extends { updatedAt: Date }>(
+  record: T,
+  changes: object,
+  touch: boolean = true
+): T => {
+  const updated: Record<string, unknown> = { ...record };
+  Object.entries(changes).forEach(([key, value]) => {
+    if (value === undefined) {
+      delete updated[key];
+    } else {
+      updated[key] = value;
+    }
+  });
+  if (touch) {
+    updated.updatedAt = new Date();
+  }
+  return updated as T;
+};
+
+/**
+ * Read a list stored as JSON, reviving the given date fields.
+ * Throws StorageReadError instead of hiding unreadable data behind an empty list,
+ * and JournalLockedError when the list is encrypted and the app is locked.
+ */
+export const readStoredList = async <T>(key: string, dateFields: string[]): Promise<T[]> => {
+  const data = await readStoredValue(key);
+  if (!data) {
+    return [];
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(data, (field, value) =>
+      dateFields.includes(field) && value != null ? new Date(value) : value
+    );
+  } catch (error) {
+    throw new StorageReadError(key, error);
+  }
+  if (!Array.isArray(parsed)) {
+    throw new StorageReadError(key, new Error('Expected a list'));
+  }
+  return parsed;
+};
+
+/**
+ * Save a list as JSON, encrypted while a passcode lock is set
+ */
+export const writeStoredList = <T>(key: string, records: T[]): Promise<void> =>
+  writeStoredValue(key, JSON.stringify(records));
+
+/**
+ * Keep the entries dated within a range
+ */
+export const filterByDateRange = (
+  entries: DailyEntry[],
+  { from, to }: EntryDateRange = {}
+): DailyEntry[] =>
+  entries.filter(
+    (entry) =>
+      (!from || entry.date.getTime() >= from.getTime()) &&
+      (!to || entry.date.getTime() <= to.getTime())
+  );
+
+/**
+ * Order entries by date, then id, newest first (the order Firestore pages use)
+ */
+const compareEntriesDescending = (a: EntryCursor, b: EntryCursor): number =>
+  b.date.getTime() - a.date.getTime() || (a.id < b.id ? 1 : a.id > b.id ? -1 : 0);
+
+/**
+ * Cut one page out of an account's entries, the way the Firestore query does
+ */
+export const paginateEntries = (entries: DailyEntry[], query: EntryPageQuery): EntryPage => {
+  const { cursor, limit } = query;
+  const sorted = filterByDateRange(entries, query).sort(compareEntriesDescending);
+  const start = cursor
+    ? sorted.findIndex((entry) => compareEntriesDescending(cursor, entry) > 0)
+    : 0;
+  const remaining = start === -1 ? [] : sorted.slice(start);
+  const page = remaining.slice(0, limit);
+  const last = page[page.length - 1];
+  return {
+    entries: page,
+    nextCursor: remaining.length > limit && last ? { date: last.date, id: last.id } : null,
+  };
+};
@@ -0,0 +1,148 @@
+/**
+ * Versioned layout of the data kept in AsyncStorage.
+ * Steps run in order at startup, after a backup of every app key is saved,
+ * and the stored version is bumped after each step so a crash resumes at the failed step.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { StorageMigrationError } from './errors';
+import { readStoredValue, writeStoredValue } from './storage.crypto';
+
+const KEY_PREFIX = '@BitacoraFx:';
+const SCHEMA_VERSION_KEY = '@BitacoraFx:schemaVersion';
+const BACKUP_KEY_PREFIX = '@BitacoraFx:backup_v';
+const ACCOUNTS_KEY = '@BitacoraFx:accounts';
+const PASSCODE_LOCK_KEY = '@BitacoraFx:passcodeLock';
+
+interface StorageMigration {
+  // Version the data is at once this step has run
+  version: number;
+  description: string;
+  migrate: () => Promise<void>;
+}
+
+/**
+ * Apply a transform to every record of a stored JSON list.
+ * Encrypted lists are read and written back encrypted, so migrations run after unlocking.
+ */
+const updateStoredList = async (
+  key: string,
+  transform: (record: Record<string, unknown>) => Record<string, unknown>
+): Promise<void> => {
+  const data = await readStoredValue(key);
+  if (!data) {
+    return;
+  }
+  const records: Record<string, unknown>[] = JSON.parse(data);
+  await writeStoredValue(key, JSON.stringify(records.map(transform)));
+};
+
+// Version 1 is the unversioned layout written before schema versioning existed
+const MIGRATIONS: StorageMigration[] = [
+  {
+    version: 2,
+    description: 'Fill account fields added after the first release',
+    migrate: () =>
+      updateStoredList(ACCOUNTS_KEY, (account) => ({
+        ...account,
+        broker: account.broker ?? '',
+        netCashFlow: account.netCashFlow ?? 0,
+        archived: account.archived ?? false,
+      })),
+  },
+];
+
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Get the app keys holding user data, leaving out backups, the version marker
+ * and the passcode lock, which must match the key the data is encrypted with now
+ */
+const getDataKeys = async (): Promise<string[]> => {
+  const keys = await AsyncStorage.getAllKeys();
+  return keys.filter(
+    (key) =>
+      key.startsWith(KEY_PREFIX) &&
+      key !== SCHEMA_VERSION_KEY &&
+      key !== PASSCODE_LOCK_KEY &&
+      !key.startsWith(BACKUP_KEY_PREFIX)
+  );
+};
+
+/**
+ * Get the schema version of the stored data.
+ * Data without a version marker predates versioning; a device without data is current.
+ */
+export const getStoredSchemaVersion = async (): Promise<number> => {
+  const stored = await AsyncStorage.getItem(SCHEMA_VERSION_KEY);
+  if (stored) {
+    return Number(stored);
+  }
+  return (await getDataKeys()).length > 0 ? 1 : CURRENT_SCHEMA_VERSION;
+};
+
+/**
+ * Save a copy of every app key before migrating from a version
+ */
+const backupStorage = async (version: number): Promise<void> => {
+  const backupKey = `${BACKUP_KEY_PREFIX}${version}`;
+  // A resumed migration keeps the backup taken before the first attempt
+  if (await AsyncStorage.getItem(backupKey)) {
+    return;
+  }
+  const pairs = await AsyncStorage.multiGet(await getDataKeys());
+  await AsyncStorage.setItem(backupKey, JSON.stringify(Object.fromEntries(pairs)));
+};
+
+/**
+ * Bring stored data up to CURRENT_SCHEMA_VERSION. Call once at startup before any reads.
+ * Throws StorageMigrationError when a step fails or the data is from a newer app version.
+ */
+export const runStorageMigrations = async (): Promise<void> => {
+  const version = await getStoredSchemaVersion();
+  if (version > CURRENT_SCHEMA_VERSION) {
+    throw new StorageMigrationError(
+      version,
+      `Stored data is from a newer version of the app (schema ${version})`
+    );
+  }
+
+  const pending = MIGRATIONS.filter((migration) => migration.version > version);
+  if (pending.length > 0) {
+    await backupStorage(version);
+  }
+
+  for (const migration of pending) {
+    try {
+      await migration.migrate();
+    } catch (error) {
+      throw new StorageMigrationError(
+        migration.version,
+        `Failed to upgrade stored data: ${migration.description}`,
+        error
+      );
+    }
+    await AsyncStorage.setItem(SCHEMA_VERSION_KEY, String(migration.version));
+    console.log(`🗄️  Storage schema upgraded to v${migration.version}`);
+  }
+
+  if (pending.length === 0 && !(await AsyncStorage.getItem(SCHEMA_VERSION_KEY))) {
+    await AsyncStorage.setItem(SCHEMA_VERSION_KEY, String(CURRENT_SCHEMA_VERSION));
+  }
+};
+
+/**
+ * Put back the data saved before migrating from a schema version
+ */
+export const restoreStorageBackup = async (version: number): Promise<void> => {
+  const data = await AsyncStorage.getItem(`${BACKUP_KEY_PREFIX}${version}`);
+  if (!data) {
+    throw new StorageMigrationError(version, `No backup exists for schema ${version}`);
+  }
+  const backup: Record<string, string | null> = JSON.parse(data);
+  await AsyncStorage.multiRemove(await getDataKeys());
+  await AsyncStorage.multiSet(
+    Object.entries(backup).filter((pair): pair is [string, string] => pair[1] !== null)
+  );
+  await AsyncStorage.setItem(SCHEMA_VERSION_KEY, String(version));
+};
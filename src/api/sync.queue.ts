@@ -0,0 +1,156 @@
+/**
+ * Outbound change queue and sync status for the offline-first backend.
+ * Local writes record which documents changed; the sync engine replays them to Firestore.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { COLLECTIONS } from '../constants';
+import { generateLocalId } from './storage.helpers';
+import { StorageReadError } from './errors';
+
+const SYNC_QUEUE_KEY = '@BitacoraFx:syncQueue';
+
+export type SyncCollection = (typeof COLLECTIONS)[keyof typeof COLLECTIONS];
+
+// Operations only name documents; the current local copy is read when they are pushed
+export type SyncOperation =
+  | { id: string; type: 'put'; collection: SyncCollection; docId: string }
+  | { id: string; type: 'delete'; collection: SyncCollection; docId: string }
+  | {
+      id: string;
+      type: 'deleteWhere';
+      collection: SyncCollection;
+      field: 'accountId' | 'entryId';
+      value: string;
+    };
+
+// Omit applied to each member of the union so the variants stay discriminated
+type WithoutId<T> = T extends unknown ? Omit<T, 'id'> : never;
+export type NewSyncOperation = WithoutId<SyncOperation>;
+
+export type SyncState = 'idle' | 'syncing' | 'offline' | 'error' | 'disabled';
+
+export interface SyncStatus {
+  state: SyncState;
+  pendingChanges: number;
+  lastSyncedAt?: Date;
+  // Last time a sync brought in changes from another device, so screens know to reload
+  lastRemoteChangeAt?: Date;
+  error?: string;
+}
+
+type SyncStatusListener = (status: SyncStatus) => void;
+
+let status: SyncStatus = { state: 'disabled', pendingChanges: 0 };
+const statusListeners = new Set<SyncStatusListener>();
+const queueListeners = new Set<() => void>();
+
+// Queue writes are chained so concurrent enqueues never overwrite each other
+let queueLock: Promise<unknown> = Promise.resolve();
+
+/**
+ * Run a read-modify-write of the queue after every earlier one has finished
+ */
+const withQueueLock = <T>(task: () => Promise<T>): Promise<T> => {
+  const result = queueLock.then(task);
+  queueLock = result.catch(() => undefined);
+  return result;
+};
+
+/**
+ * Get the queued operations from local storage, oldest first.
+ * Throws StorageReadError when the queue cannot be read, so the next write does not
+ * replace unpushed changes with an empty queue.
+ */
+export const getSyncQueue = async (): Promise<SyncOperation[]> => {
+  let parsed: unknown;
+  try {
+    const data = await AsyncStorage.getItem(SYNC_QUEUE_KEY);
+    parsed = data ? JSON.parse(data) : [];
+  } catch (error) {
+    throw new StorageReadError(SYNC_QUEUE_KEY, error);
+  }
+  if (!Array.isArray(parsed)) {
+    throw new StorageReadError(SYNC_QUEUE_KEY, new Error('Expected a list'));
+  }
+  return parsed;
+};
+
+/**
+ * Save the queue to local storage and publish its new length
+ */
+const saveSyncQueue = async (queue: SyncOperation[]): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(SYNC_QUEUE_KEY, JSON.stringify(queue));
+  } catch (error) {
+    console.error('Error saving sync queue to storage:', error);
+    throw error;
+  }
+  setSyncStatus({ pendingChanges: queue.length });
+};
+
+/**
+ * Append operations to the queue and notify the sync engine
+ */
+export const enqueueSyncOperations = async (operations: NewSyncOperation[]): Promise<void> => {
+  if (operations.length === 0) {
+    return;
+  }
+  await withQueueLock(async () => {
+    const queue = await getSyncQueue();
+    await saveSyncQueue([
+      ...queue,
+      ...operations.map((operation) => ({ ...operation, id: generateLocalId() }) as SyncOperation),
+    ]);
+  });
+  queueListeners.forEach((listener) => listener());
+};
+
+/**
+ * Drop every queued operation without pushing it
+ */
+export const clearSyncQueue = (): Promise<void> => withQueueLock(() => saveSyncQueue([]));
+
+/**
+ * Remove pushed operations from the queue, keeping anything queued meanwhile
+ */
+export const removeSyncOperations = async (ids: string[]): Promise<void> => {
+  const pushed = new Set(ids);
+  await withQueueLock(async () => {
+    const queue = await getSyncQueue();
+    await saveSyncQueue(queue.filter((operation) => !pushed.has(operation.id)));
+  });
+};
+
+/**
+ * Listen for newly queued operations. Returns an unsubscribe function.
+ */
+export const onSyncOperationsQueued = (listener: () => void): (() => void) => {
+  queueListeners.add(listener);
+  return () => {
+    queueListeners.delete(listener);
+  };
+};
+
+/**
+ * Get the current sync status
+ */
+export const getSyncStatus = (): SyncStatus => status;
+
+/**
+ * Update the sync status and notify subscribers
+ */
+export const setSyncStatus = (changes: Partial<SyncStatus>): void => {
+  status = { ...status, ...changes };
+  statusListeners.forEach((listener) => listener(status));
+};
+
+/**
+ * Subscribe to sync status changes. Returns an unsubscribe function.
+ */
+export const subscribeToSyncStatus = (listener: SyncStatusListener): (() => void) => {
+  statusListeners.add(listener);
+  return () => {
+    statusListeners.delete(listener);
+  };
+};
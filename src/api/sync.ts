@@ -0,0 +1,480 @@
+/**
+ * Sync engine for the offline-first backend.
+ * Pushes the outbound queue to Firestore, pulls documents changed on other devices
+ * and settles conflicts with last-writer-wins on updatedAt.
+ *
+ * Permanent deletes (purges) made on another device are not pulled: Firestore keeps
+ * no trace of removed documents, so they only disappear where they were purged.
+ * Trashing and restoring are ordinary updates and sync normally.
+ */
+
+import { AppState } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  setDoc,
+  deleteDoc,
+  query,
+  where,
+  Timestamp,
+  serverTimestamp,
+  DocumentSnapshot,
+} from 'firebase/firestore';
+import { db } from '../config';
+import { COLLECTIONS, DEFAULTS } from '../constants';
+import { TradingAccount, DailyEntry, Trade } from '../models';
+import { mapAccountDoc, toFirestoreRecord } from './accounts.api';
+import { getCurrentUser, onAuthUserChanged, ownedByCurrentUser } from './auth.api';
+import { mapEntryDoc, mapTradeDoc, deleteWhere } from './entries.api';
+import { localAccountRepository } from './accounts.local';
+import { localEntryRepository, localTradeRepository } from './entries.local';
+import { getStorageBackend } from './repository';
+import { isStorageLocked } from './storage.crypto';
+import { recalculateBalances } from './entries';
+import {
+  SyncCollection,
+  SyncOperation,
+  getSyncQueue,
+  removeSyncOperations,
+  clearSyncQueue,
+  onSyncOperationsQueued,
+  setSyncStatus,
+} from './sync.queue';
+
+const SYNC_STATE_KEY = '@BitacoraFx:syncState';
+
+// Pull order matters: accounts must exist locally before their entries are rebalanced
+const SYNC_COLLECTIONS: SyncCollection[] = [
+  COLLECTIONS.ACCOUNTS,
+  COLLECTIONS.ENTRIES,
+  COLLECTIONS.TRADES,
+];
+
+// Derived from other documents or stamped on upload, so they never decide a conflict
+const DERIVED_FIELDS = new Set(['balance', 'currentBalance', 'netCashFlow', 'ownerId']);
+
+type SyncRecord = TradingAccount | DailyEntry | Trade;
+
+interface SyncCursor {
+  // Highest server syncedAt already pulled, in milliseconds
+  lastPulledAt?: number;
+  lastSyncedAt?: string;
+}
+
+interface SyncAdapter {
+  getLocal(id: string): Promise<SyncRecord | null>;
+  // Writes straight to the device store so pulled documents are not queued again
+  putLocal(record: SyncRecord): Promise<void>;
+  fromDoc(snapshot: DocumentSnapshot): SyncRecord;
+}
+
+const ADAPTERS: Record<SyncCollection, SyncAdapter> = {
+  [COLLECTIONS.ACCOUNTS]: {
+    getLocal: (id) => localAccountRepository.getById(id),
+    putLocal: (record) => localAccountRepository.put(record as TradingAccount),
+    fromDoc: mapAccountDoc,
+  },
+  [COLLECTIONS.ENTRIES]: {
+    getLocal: (id) => localEntryRepository.getById(id),
+    putLocal: (record) => localEntryRepository.put(record as DailyEntry),
+    fromDoc: mapEntryDoc,
+  },
+  [COLLECTIONS.TRADES]: {
+    getLocal: (id) => localTradeRepository.getById(id),
+    putLocal: (record) => localTradeRepository.put(record as Trade),
+    fromDoc: mapTradeDoc,
+  },
+};
+
+/**
+ * Raised when Firestore does not answer within DEFAULTS.SYNC_TIMEOUT
+ */
+class SyncTimeoutError extends Error {
+  constructor() {
+    super('Sync timed out');
+    this.name = 'SyncTimeoutError';
+  }
+}
+
+/**
+ * Reject when a Firestore call hangs, as writes do while the device is offline
+ */
+const withTimeout = <T>(promise: Promise<T>): Promise<T> =>
+  new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new SyncTimeoutError()), DEFAULTS.SYNC_TIMEOUT);
+    promise.then(
+      (value) => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      (error) => {
+        clearTimeout(timer);
+        reject(error);
+      }
+    );
+  });
+
+/**
+ * Check whether a sync failure means the device cannot reach Firestore
+ */
+const isOfflineError = (error: unknown): boolean =>
+  error instanceof SyncTimeoutError ||
+  (error as { code?: string } | null)?.code === 'unavailable';
+
+/**
+ * Get the pull cursor from local storage
+ */
+const getSyncCursor = async (): Promise<SyncCursor> => {
+  try {
+    const data = await AsyncStorage.getItem(SYNC_STATE_KEY);
+    return data ? JSON.parse(data) : {};
+  } catch (error) {
+    console.error('Error reading sync state from storage:', error);
+    return {};
+  }
+};
+
+/**
+ * Check whether a sync has finished on this device since the last sign-out
+ */
+export const hasSyncedBefore = async (): Promise<boolean> =>
+  !!(await getSyncCursor()).lastSyncedAt;
+
+/**
+ * Save the pull cursor to local storage
+ */
+const saveSyncCursor = async (cursor: SyncCursor): Promise<void> => {
+  await AsyncStorage.setItem(SYNC_STATE_KEY, JSON.stringify(cursor));
+};
+
+/**
+ * Get the account a synced record belongs to
+ */
+const getRecordAccountId = (record: SyncRecord): string =>
+  'accountId' in record ? record.accountId : record.id;
+
+/**
+ * Stable serialization of the user-edited fields of a record
+ */
+const contentKey = (record: SyncRecord): string => {
+  const fields = record as unknown as Record<string, unknown>;
+  return JSON.stringify(
+    Object.keys(fields)
+      .filter((key) => !DERIVED_FIELDS.has(key) && fields[key] !== undefined)
+      .sort()
+      .map((key) => [key, fields[key]])
+  );
+};
+
+/**
+ * Decide which copy of a document wins: the later updatedAt, and on a tie the
+ * greater content so every device picks the same side
+ */
+export const resolveConflict = (local: SyncRecord, remote: SyncRecord): 'local' | 'remote' => {
+  const difference = remote.updatedAt.getTime() - local.updatedAt.getTime();
+  if (difference !== 0) {
+    return difference > 0 ? 'remote' : 'local';
+  }
+  return contentKey(remote) > contentKey(local) ? 'remote' : 'local';
+};
+
+/**
+ * Replay one queued operation to Firestore. Returns the account whose local
+ * data was replaced by a newer remote copy, if any.
+ */
+const pushOperation = async (operation: SyncOperation): Promise<string | null> => {
+  if (operation.type === 'delete') {
+    await withTimeout(deleteDoc(doc(db, operation.collection, operation.docId)));
+    return null;
+  }
+  if (operation.type === 'deleteWhere') {
+    await withTimeout(deleteWhere(operation.collection, operation.field, operation.value));
+    return null;
+  }
+
+  const adapter = ADAPTERS[operation.collection];
+  const local = await adapter.getLocal(operation.docId);
+  if (!local) {
+    // Deleted locally since it was queued; the delete follows in the queue
+    return null;
+  }
+
+  const ref = doc(db, operation.collection, operation.docId);
+  const remoteDoc = await withTimeout(getDoc(ref));
+  if (remoteDoc.exists()) {
+    const remote = adapter.fromDoc(remoteDoc);
+    if (resolveConflict(local, remote) === 'remote') {
+      await adapter.putLocal(remote);
+      return getRecordAccountId(remote);
+    }
+  }
+
+  await withTimeout(setDoc(ref, { ...toFirestoreRecord(local), syncedAt: serverTimestamp() }));
+  return null;
+};
+
+/**
+ * Push the queued operations in order and drop the ones that reached Firestore
+ */
+const pushQueue = async (affectedAccounts: Set<string>): Promise<void> => {
+  const queue = await getSyncQueue();
+  const pushed: string[] = [];
+  const pushedDocs = new Set<string>();
+
+  try {
+    for (const operation of queue) {
+      // Later puts of the same document would upload the same local copy again
+      const docKey =
+        operation.type === 'put' ? `${operation.collection}/${operation.docId}` : null;
+      if (docKey && pushedDocs.has(docKey)) {
+        pushed.push(operation.id);
+        continue;
+      }
+
+      const accountId = await pushOperation(operation);
+      if (accountId) {
+        affectedAccounts.add(accountId);
+      }
+      pushed.push(operation.id);
+      if (docKey) {
+        pushedDocs.add(docKey);
+      } else if (operation.type === 'delete') {
+        // A put queued after the delete recreates the document, so it must be pushed
+        pushedDocs.delete(`${operation.collection}/${operation.docId}`);
+      } else {
+        // The documents a deleteWhere removed are not known by id; forget the whole collection
+        const prefix = `${operation.collection}/`;
+        pushedDocs.forEach((key) => {
+          if (key.startsWith(prefix)) {
+            pushedDocs.delete(key);
+          }
+        });
+      }
+    }
+  } finally {
+    await removeSyncOperations(pushed);
+  }
+};
+
+/**
+ * Check whether a local delete of the document is still waiting to be pushed
+ */
+const isPendingDelete = (
+  queue: SyncOperation[],
+  collectionName: SyncCollection,
+  record: SyncRecord
+): boolean => {
+  const fields = record as unknown as Record<string, unknown>;
+  return queue.some(
+    (operation) =>
+      operation.collection === collectionName &&
+      ((operation.type === 'delete' && operation.docId === record.id) ||
+        (operation.type === 'deleteWhere' && fields[operation.field] === operation.value))
+  );
+};
+
+/**
+ * Merge documents changed in Firestore since the last pull into the device store.
+ * Returns the new pull cursor.
+ */
+const pullCollection = async (
+  collectionName: SyncCollection,
+  since: number | undefined,
+  affectedAccounts: Set<string>
+): Promise<number | undefined> => {
+  const ref = collection(db, collectionName);
+  const snapshot = await withTimeout(
+    getDocs(
+      since
+        ? query(ref, ownedByCurrentUser(), where('syncedAt', '>=', Timestamp.fromMillis(since)))
+        : query(ref, ownedByCurrentUser())
+    )
+  );
+  const adapter = ADAPTERS[collectionName];
+  const queue = await getSyncQueue();
+  let latest = since;
+
+  for (const remoteDoc of snapshot.docs) {
+    const syncedAt = remoteDoc.get('syncedAt');
+    if (syncedAt instanceof Timestamp) {
+      latest = Math.max(latest ?? 0, syncedAt.toMillis());
+    }
+
+    const remote = adapter.fromDoc(remoteDoc);
+    if (isPendingDelete(queue, collectionName, remote)) {
+      continue;
+    }
+    const local = await adapter.getLocal(remote.id);
+    if (!local || resolveConflict(local, remote) === 'remote') {
+      await adapter.putLocal(remote);
+      affectedAccounts.add(getRecordAccountId(remote));
+    }
+  }
+
+  return latest;
+};
+
+let runningSync: Promise<void> | null = null;
+let syncRequested = false;
+
+/**
+ * Push local changes, pull remote ones and re-derive balances of touched accounts
+ */
+const runSync = async (): Promise<void> => {
+  setSyncStatus({ state: 'syncing', error: undefined });
+  const cursor = await getSyncCursor();
+  const affectedAccounts = new Set<string>();
+
+  try {
+    await pushQueue(affectedAccounts);
+
+    let lastPulledAt = cursor.lastPulledAt;
+    for (const collectionName of SYNC_COLLECTIONS) {
+      const latest = await pullCollection(collectionName, cursor.lastPulledAt, affectedAccounts);
+      if (latest !== undefined && latest > (lastPulledAt ?? 0)) {
+        lastPulledAt = latest;
+      }
+    }
+
+    // Pulled documents carry the other device's balances; recalculating queues
+    // only the values that actually differ, so devices settle instead of ping-ponging
+    for (const accountId of affectedAccounts) {
+      await recalculateBalances(accountId);
+    }
+
+    const lastSyncedAt = new Date();
+    await saveSyncCursor({ lastPulledAt, lastSyncedAt: lastSyncedAt.toISOString() });
+    setSyncStatus({
+      state: 'idle',
+      lastSyncedAt,
+      ...(affectedAccounts.size > 0 ? { lastRemoteChangeAt: lastSyncedAt } : {}),
+    });
+  } catch (error) {
+    if (isOfflineError(error)) {
+      setSyncStatus({ state: 'offline' });
+    } else {
+      console.error('Error syncing with Firestore:', error);
+      setSyncStatus({
+        state: 'error',
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+};
+
+/**
+ * Sync now. Calls made while a sync is running schedule one more pass after it.
+ */
+export const syncNow = async (): Promise<void> => {
+  // Firestore only serves the signed-in user's documents, and pulled changes
+  // cannot be stored while the device copy is locked
+  if (getStorageBackend() !== 'synced' || !getCurrentUser() || isStorageLocked()) {
+    return;
+  }
+  if (runningSync) {
+    syncRequested = true;
+    return runningSync;
+  }
+
+  runningSync = runSync();
+  try {
+    await runningSync;
+  } finally {
+    runningSync = null;
+  }
+
+  if (syncRequested) {
+    syncRequested = false;
+    await syncNow();
+  }
+};
+
+/**
+ * Start background sync: on launch, shortly after local writes, when the app
+ * returns to the foreground, when the browser comes back online and on an interval.
+ * Returns a function that stops it.
+ */
+export const startAutoSync = (): (() => void) => {
+  if (getStorageBackend() !== 'synced') {
+    setSyncStatus({ state: 'disabled', pendingChanges: 0 });
+    return () => {};
+  }
+
+  let debounceTimer: ReturnType<typeof setTimeout> | null = null;
+  const scheduleSync = () => {
+    if (debounceTimer) {
+      clearTimeout(debounceTimer);
+    }
+    debounceTimer = setTimeout(() => {
+      debounceTimer = null;
+      syncNow();
+    }, DEFAULTS.DEBOUNCE_DELAY);
+  };
+
+  // An unreadable queue is reported by the sync itself
+  Promise.all([getSyncQueue(), getSyncCursor()])
+    .then(([queue, cursor]) => {
+      setSyncStatus({
+        state: 'idle',
+        pendingChanges: queue.length,
+        lastSyncedAt: cursor.lastSyncedAt ? new Date(cursor.lastSyncedAt) : undefined,
+      });
+    })
+    .catch((error) => console.error('Error reading sync state:', error))
+    .finally(syncNow);
+
+  const unsubscribeQueue = onSyncOperationsQueued(scheduleSync);
+  const unsubscribeAuth = onAuthUserChanged((user) => {
+    if (user) {
+      syncNow();
+    }
+  });
+  const interval = setInterval(syncNow, DEFAULTS.SYNC_INTERVAL);
+  const appStateSubscription = AppState.addEventListener('change', (appState) => {
+    if (appState === 'active') {
+      syncNow();
+    }
+  });
+
+  // React Native defines window without DOM events
+  const canListenOnline =
+    typeof window !== 'undefined' && typeof window.addEventListener === 'function';
+  if (canListenOnline) {
+    window.addEventListener('online', scheduleSync);
+  }
+
+  return () => {
+    if (debounceTimer) {
+      clearTimeout(debounceTimer);
+    }
+    unsubscribeQueue();
+    unsubscribeAuth();
+    clearInterval(interval);
+    appStateSubscription.remove();
+    if (canListenOnline) {
+      window.removeEventListener('online', scheduleSync);
+    }
+  };
+};
+
+/**
+ * Remove the device copy of the journal, its unpushed changes and the pull cursor.
+ * Run on sign-out so the next user to sign in starts from their own data.
+ */
+export const clearSyncedData = async (): Promise<void> => {
+  if (runningSync) {
+    await runningSync;
+  }
+  const accounts = await localAccountRepository.getAll();
+  for (const account of accounts) {
+    await localTradeRepository.deleteByAccount(account.id);
+    await localEntryRepository.deleteByAccount(account.id);
+    await localAccountRepository.delete(account.id);
+  }
+  await clearSyncQueue();
+  await AsyncStorage.removeItem(SYNC_STATE_KEY);
+  setSyncStatus({ lastSyncedAt: undefined, lastRemoteChangeAt: undefined, error: undefined });
+};
@@ -0,0 +1,194 @@
+/**
+ * Offline-first repositories: every read and write goes to the device store first,
+ * and each write queues the changed documents for the sync engine to push to Firestore.
+ */
+
+import { TradingAccount, DailyEntry, Trade } from '../models';
+import { COLLECTIONS } from '../constants';
+import type {
+  Repositories,
+  WriteOperation,
+  NewTradingAccount,
+  TradingAccountChanges,
+  NewDailyEntry,
+  DailyEntryChanges,
+  NewTrade,
+  TradeChanges,
+  EntryDateRange,
+  EntryPageQuery,
+  LedgerPlan,
+} from './repository';
+import { enqueueSyncOperations, NewSyncOperation, SyncCollection } from './sync.queue';
+
+/**
+ * Queue a document for upload
+ */
+const queuePut = (collection: SyncCollection, docId: string) =>
+  enqueueSyncOperations([{ type: 'put', collection, docId }]);
+
+/**
+ * Queue a document for deletion
+ */
+const queueDelete = (collection: SyncCollection, docId: string) =>
+  enqueueSyncOperations([{ type: 'delete', collection, docId }]);
+
+/**
+ * Sync operations replaying a committed write
+ */
+const toSyncOperations = (operation: WriteOperation): NewSyncOperation[] => {
+  switch (operation.type) {
+    case 'put':
+      return [{ type: 'put', collection: operation.collection, docId: operation.record.id }];
+    case 'update':
+      return [{ type: 'put', collection: operation.collection, docId: operation.id }];
+    case 'setBalances':
+      return Object.keys(operation.balances).map((docId) => ({
+        type: 'put' as const,
+        collection: COLLECTIONS.ENTRIES,
+        docId,
+      }));
+    case 'delete':
+      return [{ type: 'delete', collection: operation.collection, docId: operation.id }];
+    case 'deleteWhere':
+      return [operation];
+  }
+};
+
+/**
+ * Wrap device repositories so their writes are replayed to Firestore
+ */
+export const createSyncedRepositories = (local: Repositories): Repositories => ({
+  accounts: {
+    getAll: () => local.accounts.getAll(),
+    getById: (id: string) => local.accounts.getById(id),
+    subscribe: (onChange, onError) => local.accounts.subscribe(onChange, onError),
+
+    async create(account: NewTradingAccount) {
+      const id = await local.accounts.create(account);
+      await queuePut(COLLECTIONS.ACCOUNTS, id);
+      return id;
+    },
+
+    async update(id: string, changes: TradingAccountChanges) {
+      await local.accounts.update(id, changes);
+      await queuePut(COLLECTIONS.ACCOUNTS, id);
+    },
+
+    async put(account: TradingAccount) {
+      await local.accounts.put(account);
+      await queuePut(COLLECTIONS.ACCOUNTS, account.id);
+    },
+
+    async delete(id: string) {
+      await local.accounts.delete(id);
+      await queueDelete(COLLECTIONS.ACCOUNTS, id);
+    },
+  },
+
+  entries: {
+    getById: (id: string) => local.entries.getById(id),
+    getAll: () => local.entries.getAll(),
+    getByAccount: (accountId: string, range?: EntryDateRange) =>
+      local.entries.getByAccount(accountId, range),
+    getPage: (accountId: string, query: EntryPageQuery) => local.entries.getPage(accountId, query),
+    // Pulled changes are written to the device store, which notifies subscribers
+    subscribeByAccount: (accountId, onChange, onError, limitCount) =>
+      local.entries.subscribeByAccount(accountId, onChange, onError, limitCount),
+
+    async create(entry: NewDailyEntry) {
+      const id = await local.entries.create(entry);
+      await queuePut(COLLECTIONS.ENTRIES, id);
+      return id;
+    },
+
+    async update(id: string, changes: DailyEntryChanges) {
+      await local.entries.update(id, changes);
+      await queuePut(COLLECTIONS.ENTRIES, id);
+    },
+
+    async put(entry: DailyEntry) {
+      await local.entries.put(entry);
+      await queuePut(COLLECTIONS.ENTRIES, entry.id);
+    },
+
+    async setBalances(accountId: string, balances: Record<string, number>) {
+      await local.entries.setBalances(accountId, balances);
+      await enqueueSyncOperations(
+        Object.keys(balances).map((docId) => ({
+          type: 'put' as const,
+          collection: COLLECTIONS.ENTRIES,
+          docId,
+        }))
+      );
+    },
+
+    async delete(id: string) {
+      await local.entries.delete(id);
+      await queueDelete(COLLECTIONS.ENTRIES, id);
+    },
+
+    async deleteByAccount(accountId: string) {
+      await local.entries.deleteByAccount(accountId);
+      await enqueueSyncOperations([
+        { type: 'deleteWhere', collection: COLLECTIONS.ENTRIES, field: 'accountId', value: accountId },
+      ]);
+    },
+  },
+
+  trades: {
+    getById: (id: string) => local.trades.getById(id),
+    getByEntry: (entryId: string) => local.trades.getByEntry(entryId),
+    getByAccount: (accountId: string) => local.trades.getByAccount(accountId),
+
+    async create(trade: NewTrade) {
+      const id = await local.trades.create(trade);
+      await queuePut(COLLECTIONS.TRADES, id);
+      return id;
+    },
+
+    async update(id: string, changes: TradeChanges) {
+      await local.trades.update(id, changes);
+      await queuePut(COLLECTIONS.TRADES, id);
+    },
+
+    async put(trade: Trade) {
+      await local.trades.put(trade);
+      await queuePut(COLLECTIONS.TRADES, trade.id);
+    },
+
+    async delete(id: string) {
+      await local.trades.delete(id);
+      await queueDelete(COLLECTIONS.TRADES, id);
+    },
+
+    async deleteByEntry(entryId: string) {
+      await local.trades.deleteByEntry(entryId);
+      await enqueueSyncOperations([
+        { type: 'deleteWhere', collection: COLLECTIONS.TRADES, field: 'entryId', value: entryId },
+      ]);
+    },
+
+    async deleteByAccount(accountId: string) {
+      await local.trades.deleteByAccount(accountId);
+      await enqueueSyncOperations([
+        { type: 'deleteWhere', collection: COLLECTIONS.TRADES, field: 'accountId', value: accountId },
+      ]);
+    },
+  },
+
+  newId: (collection) => local.newId(collection),
+
+  async commit(operations: WriteOperation[]) {
+    await local.commit(operations);
+    await enqueueSyncOperations(operations.flatMap(toSyncOperations));
+  },
+
+  async commitLedger(accountId: string, plan: LedgerPlan) {
+    let planned: WriteOperation[] = [];
+    await local.commitLedger(accountId, async (account, entries) => {
+      planned = await plan(account, entries);
+      return planned;
+    });
+    await enqueueSyncOperations(planned.flatMap(toSyncOperations));
+  },
+});
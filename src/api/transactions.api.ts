@@ -0,0 +1,218 @@
+/**
+ * Firestore commits: a transaction when the writes fit in one, otherwise
+ * chunked write batches applied in order. Ledger changes are planned inside
+ * their transaction, so Firestore retries them when the account changed meanwhile.
+ */
+
+import {
+  collection,
+  doc,
+  getDocs,
+  query,
+  where,
+  runTransaction,
+  writeBatch,
+  Timestamp,
+  serverTimestamp,
+  DocumentReference,
+  Transaction,
+  increment,
+} from 'firebase/firestore';
+import { db } from '../config';
+import { COLLECTIONS } from '../constants';
+import type { LedgerPlan, StoredCollection, WriteOperation } from './repository';
+import { mapAccountDoc, toFirestoreChanges, toFirestoreRecord } from './accounts.api';
+import { firestoreEntryRepository } from './entries.api';
+import { ownedByCurrentUser } from './auth.api';
+
+// Firestore rejects transactions and batches with more writes than this
+const FIRESTORE_WRITE_LIMIT = 500;
+
+type FirestoreWrite =
+  | { type: 'set'; ref: DocumentReference; data: Record<string, unknown> }
+  | { type: 'update'; ref: DocumentReference; data: Record<string, unknown> }
+  | { type: 'delete'; ref: DocumentReference };
+
+/**
+ * Generate the id of a document before writing it
+ */
+export const newFirestoreId = (collectionName: StoredCollection): string =>
+  doc(collection(db, collectionName)).id;
+
+/**
+ * Turn repository operations into document writes, querying the documents
+ * a deleteWhere operation covers
+ */
+const resolveWrites = async (operations: WriteOperation[]): Promise<FirestoreWrite[]> => {
+  const writes: FirestoreWrite[] = [];
+  for (const operation of operations) {
+    switch (operation.type) {
+      case 'put':
+        writes.push({
+          type: 'set',
+          ref: doc(db, operation.collection, operation.record.id),
+          data: { ...toFirestoreRecord(operation.record), syncedAt: serverTimestamp() },
+        });
+        break;
+      case 'update':
+        writes.push({
+          type: 'update',
+          ref: doc(db, operation.collection, operation.id),
+          data: {
+            ...toFirestoreChanges(operation.changes),
+            updatedAt: Timestamp.now(),
+            syncedAt: serverTimestamp(),
+          },
+        });
+        break;
+      case 'setBalances':
+        Object.entries(operation.balances).forEach(([id, balance]) => {
+          writes.push({
+            type: 'update',
+            ref: doc(db, COLLECTIONS.ENTRIES, id),
+            data: { balance, syncedAt: serverTimestamp() },
+          });
+        });
+        break;
+      case 'delete':
+        writes.push({ type: 'delete', ref: doc(db, operation.collection, operation.id) });
+        break;
+      case 'deleteWhere': {
+        const snapshot = await getDocs(
+          query(
+            collection(db, operation.collection),
+            ownedByCurrentUser(),
+            where(operation.field, '==', operation.value)
+          )
+        );
+        snapshot.docs.forEach((match) => writes.push({ type: 'delete', ref: match.ref }));
+        break;
+      }
+    }
+  }
+  return writes;
+};
+
+/**
+ * Apply writes within a transaction. Documents being updated are read first,
+ * so a document deleted meanwhile fails the whole commit instead of part of it.
+ */
+const applyInTransaction = async (
+  transaction: Transaction,
+  writes: FirestoreWrite[]
+): Promise<void> => {
+  // Documents written whole earlier in the commit need not exist yet
+  const setPaths = new Set(
+    writes.filter((write) => write.type === 'set').map((write) => write.ref.path)
+  );
+  const updatedRefs = new Map<string, DocumentReference>();
+  writes.forEach((write) => {
+    if (write.type === 'update' && !setPaths.has(write.ref.path)) {
+      updatedRefs.set(write.ref.path, write.ref);
+    }
+  });
+
+  const snapshots = await Promise.all(
+    Array.from(updatedRefs.values(), (ref) => transaction.get(ref))
+  );
+  const missing = snapshots.find((snapshot) => !snapshot.exists());
+  if (missing) {
+    throw new Error(`Document ${missing.ref.path} not found`);
+  }
+
+  writes.forEach((write) => {
+    if (write.type === 'set') {
+      transaction.set(write.ref, write.data);
+    } else if (write.type === 'update') {
+      transaction.update(write.ref, write.data);
+    } else {
+      transaction.delete(write.ref);
+    }
+  });
+};
+
+/**
+ * Apply writes in a single transaction
+ */
+const commitTransaction = (writes: FirestoreWrite[]): Promise<void> =>
+  runTransaction(db, (transaction) => applyInTransaction(transaction, writes));
+
+/**
+ * Apply writes in order, in batches of at most FIRESTORE_WRITE_LIMIT.
+ * Each batch is atomic on its own; a failure leaves earlier batches applied,
+ * which is why cascades list children before the parent document.
+ */
+const commitBatches = async (writes: FirestoreWrite[]): Promise<void> => {
+  for (let start = 0; start < writes.length; start += FIRESTORE_WRITE_LIMIT) {
+    const batch = writeBatch(db);
+    writes.slice(start, start + FIRESTORE_WRITE_LIMIT).forEach((write) => {
+      if (write.type === 'set') {
+        batch.set(write.ref, write.data);
+      } else if (write.type === 'update') {
+        batch.update(write.ref, write.data);
+      } else {
+        batch.delete(write.ref);
+      }
+    });
+    await batch.commit();
+  }
+};
+
+/**
+ * Commit repository operations to Firestore
+ */
+export const commitToFirestore = async (operations: WriteOperation[]): Promise<void> => {
+  const writes = await resolveWrites(operations);
+  if (writes.length === 0) {
+    return;
+  }
+  if (writes.length <= FIRESTORE_WRITE_LIMIT) {
+    await commitTransaction(writes);
+  } else {
+    await commitBatches(writes);
+  }
+};
+
+/**
+ * Commit a ledger change to Firestore. The account is read through the transaction and
+ * every ledger change writes it, so a concurrent one makes Firestore run the plan again.
+ * Entries cannot be read through a transaction, which is why the account carries a version.
+ * Changes over the transaction limit fall back to batches, as in commitToFirestore.
+ */
+export const commitLedgerToFirestore = async (
+  accountId: string,
+  plan: LedgerPlan
+): Promise<void> => {
+  const accountRef = doc(db, COLLECTIONS.ACCOUNTS, accountId);
+  const oversized = await runTransaction(db, async (transaction) => {
+    const accountDoc = await transaction.get(accountRef);
+    if (!accountDoc.exists()) {
+      throw new Error(`Account with id ${accountId} not found`);
+    }
+    const entries = await firestoreEntryRepository.getByAccount(accountId);
+    const writes = await resolveWrites(await plan(mapAccountDoc(accountDoc), entries));
+    if (writes.length === 0) {
+      return null;
+    }
+    if (writes.length + 1 > FIRESTORE_WRITE_LIMIT) {
+      return writes;
+    }
+    // Bumped in the account's own write when there is one; a document is written once
+    const version = { ledgerVersion: increment(1) };
+    const hasAccountWrite = writes.some((write) => write.ref.path === accountRef.path);
+    await applyInTransaction(
+      transaction,
+      hasAccountWrite
+        ? writes.map((write) =>
+            write.ref.path === accountRef.path && write.type !== 'delete'
+              ? { ...write, data: { ...write.data, ...version } }
+              : write
+          )
+        : [...writes, { type: 'update', ref: accountRef, data: version }]
+    );
+    return null;
+  });
+  if (oversized) {
+    await commitBatches(oversized);
+  }
+};
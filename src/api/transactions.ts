@@ -0,0 +1,154 @@
+/**
+ * All-or-nothing commits for the device-side backends (AsyncStorage and in-memory).
+ * Every operation records how to undo itself; when one fails, the ones already
+ * applied are reverted in reverse order before the error is rethrown.
+ */
+
+import { TradingAccount, DailyEntry, Trade } from '../models';
+import { COLLECTIONS } from '../constants';
+import type { LedgerPlan, RecordStores, StoredCollection, WriteOperation } from './repository';
+
+type StoredRecord = TradingAccount | DailyEntry | Trade;
+type Undo = () => Promise<void>;
+
+interface RecordStore {
+  getById(id: string): Promise<StoredRecord | null>;
+  put(record: StoredRecord): Promise<void>;
+  update(id: string, changes: object): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+/**
+ * Get the store for a collection through the methods every repository shares
+ */
+const getStore = (stores: RecordStores, collection: StoredCollection): RecordStore =>
+  stores[collection] as unknown as RecordStore;
+
+/**
+ * Undo that puts back records as they were before the operation
+ */
+const restoreRecords = (store: RecordStore, records: StoredRecord[]): Undo => async () => {
+  for (const record of records) {
+    await store.put(record);
+  }
+};
+
+/**
+ * Get the records a deleteWhere operation is about to remove
+ */
+const findMatching = async (
+  stores: RecordStores,
+  operation: Extract<WriteOperation, { type: 'deleteWhere' }>
+): Promise<StoredRecord[]> => {
+  if (operation.collection === COLLECTIONS.ENTRIES) {
+    return stores.entries.getByAccount(operation.value);
+  }
+  return operation.field === 'entryId'
+    ? stores.trades.getByEntry(operation.value)
+    : stores.trades.getByAccount(operation.value);
+};
+
+/**
+ * Apply one operation and return how to revert it
+ */
+const applyOperation = async (
+  stores: RecordStores,
+  operation: WriteOperation
+): Promise<Undo> => {
+  switch (operation.type) {
+    case 'put': {
+      const store = getStore(stores, operation.collection);
+      const existing = await store.getById(operation.record.id);
+      await store.put(operation.record);
+      return existing
+        ? restoreRecords(store, [existing])
+        : () => store.delete(operation.record.id);
+    }
+
+    case 'update': {
+      const store = getStore(stores, operation.collection);
+      const existing = await store.getById(operation.id);
+      if (!existing) {
+        throw new Error(`Document ${operation.collection}/${operation.id} not found`);
+      }
+      await store.update(operation.id, operation.changes);
+      return restoreRecords(store, [existing]);
+    }
+
+    case 'setBalances': {
+      const entries = await stores.entries.getByAccount(operation.accountId);
+      const previous: Record<string, number> = {};
+      entries
+        .filter((entry) => entry.id in operation.balances)
+        .forEach((entry) => {
+          previous[entry.id] = entry.balance;
+        });
+      await stores.entries.setBalances(operation.accountId, operation.balances);
+      return () => stores.entries.setBalances(operation.accountId, previous);
+    }
+
+    case 'delete': {
+      const store = getStore(stores, operation.collection);
+      const existing = await store.getById(operation.id);
+      await store.delete(operation.id);
+      return restoreRecords(store, existing ? [existing] : []);
+    }
+
+    case 'deleteWhere': {
+      const matching = await findMatching(stores, operation);
+      if (operation.collection === COLLECTIONS.ENTRIES) {
+        await stores.entries.deleteByAccount(operation.value);
+      } else if (operation.field === 'entryId') {
+        await stores.trades.deleteByEntry(operation.value);
+      } else {
+        await stores.trades.deleteByAccount(operation.value);
+      }
+      return restoreRecords(getStore(stores, operation.collection), matching);
+    }
+  }
+};
+
+/**
+ * Build the commit functions for device-side stores.
+ * Commits run one at a time so a rollback never undoes another commit's writes,
+ * and a ledger change is planned inside its turn so no other commit lands in between.
+ */
+export const createRollbackCommit = (stores: RecordStores) => {
+  let lock: Promise<unknown> = Promise.resolve();
+
+  const runLocked = <T>(task: () => Promise<T>): Promise<T> => {
+    const result = lock.then(task);
+    lock = result.catch(() => undefined);
+    return result;
+  };
+
+  const commit = async (operations: WriteOperation[]): Promise<void> => {
+    const undo: Undo[] = [];
+    try {
+      for (const operation of operations) {
+        undo.push(await applyOperation(stores, operation));
+      }
+    } catch (error) {
+      for (const revert of undo.reverse()) {
+        try {
+          await revert();
+        } catch (rollbackError) {
+          console.error('Error rolling back local write:', rollbackError);
+        }
+      }
+      throw error;
+    }
+  };
+
+  return {
+    commit: (operations: WriteOperation[]): Promise<void> => runLocked(() => commit(operations)),
+    commitLedger: (accountId: string, plan: LedgerPlan): Promise<void> =>
+      runLocked(async () => {
+        const account = await stores.accounts.getById(accountId);
+        if (!account) {
+          throw new Error(`Account with id ${accountId} not found`);
+        }
+        await commit(await plan(account, await stores.entries.getByAccount(accountId)));
+      }),
+  };
+};
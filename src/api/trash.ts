@@ -0,0 +1,79 @@
+/**
+ * Recycle bin built on the soft-delete functions of the accounts and entries API.
+ * Works with whichever backend is active.
+ */
+
+import { TradingAccount, DailyEntry } from '../models';
+import { getAllAccounts, getDeletedAccounts, purgeAccount } from './accounts';
+import { getDeletedEntriesByAccount, purgeEntry } from './entries';
+import { getSettings } from './settings';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface TrashContents {
+  accounts: TradingAccount[];
+  // Trashed entries of accounts that are not themselves in the trash
+  entries: DailyEntry[];
+}
+
+/**
+ * Get everything currently in the trash, most recently deleted first
+ */
+export const getTrash = async (): Promise<TrashContents> => {
+  const [accounts, deletedAccounts] = await Promise.all([
+    getAllAccounts(),
+    getDeletedAccounts(),
+  ]);
+  const entryResults = await Promise.all(
+    accounts.map((account) => getDeletedEntriesByAccount(account.id))
+  );
+
+  const byDeletedAt = (a: { deletedAt?: Date }, b: { deletedAt?: Date }) =>
+    (b.deletedAt?.getTime() ?? 0) - (a.deletedAt?.getTime() ?? 0);
+
+  return {
+    accounts: deletedAccounts.sort(byDeletedAt),
+    entries: entryResults.flat().sort(byDeletedAt),
+  };
+};
+
+/**
+ * Permanently delete everything in the trash
+ */
+export const emptyTrash = async (): Promise<void> => {
+  const { accounts, entries } = await getTrash();
+  for (const entry of entries) {
+    await purgeEntry(entry.id);
+  }
+  for (const account of accounts) {
+    await purgeAccount(account.id);
+  }
+};
+
+/**
+ * Permanently delete trashed items older than the configured retention period.
+ * Returns the number of purged accounts and entries.
+ */
+export const purgeExpiredTrash = async (now: Date = new Date()): Promise<number> => {
+  const { trashRetentionDays } = await getSettings();
+  if (trashRetentionDays <= 0) {
+    return 0;
+  }
+
+  const cutoff = now.getTime() - trashRetentionDays * DAY_MS;
+  const isExpired = (item: { deletedAt?: Date }) =>
+    !!item.deletedAt && item.deletedAt.getTime() < cutoff;
+
+  const { accounts, entries } = await getTrash();
+  const expiredEntries = entries.filter(isExpired);
+  const expiredAccounts = accounts.filter(isExpired);
+
+  for (const entry of expiredEntries) {
+    await purgeEntry(entry.id);
+  }
+  for (const account of expiredAccounts) {
+    await purgeAccount(account.id);
+  }
+
+  return expiredEntries.length + expiredAccounts.length;
+};
@@ -0,0 +1,69 @@
+/**
+ * Entry rules shared by the Firebase and local implementations
+ */
+
+import { DailyEntry, CreateDailyEntryInput, UpdateDailyEntryInput } from '../models';
+import { getTradingDayKey, isSameTradingDay, isCashFlowEntry } from '../utils/helpers';
+import { ValidationError } from './errors';
+
+/**
+ * What to do when a trading entry is created for a day that already has one
+ */
+export type DuplicateEntryPolicy = 'reject' | 'merge';
+
+export interface CreateEntryOptions {
+  onDuplicate?: DuplicateEntryPolicy;
+}
+
+/**
+ * Reject invalid dates and trading days in the future
+ */
+export const validateEntryDate = (date: Date): void => {
+  if (!(date instanceof Date) || isNaN(date.getTime())) {
+    throw new ValidationError('Entry date is invalid');
+  }
+  if (getTradingDayKey(date) > getTradingDayKey(new Date())) {
+    throw new ValidationError('Entries cannot be dated in the future');
+  }
+};
+
+/**
+ * Find the trading entry recorded on the same trading day, ignoring cash flows
+ * and entries in the trash
+ */
+export const findSameDayEntry = (
+  entries: DailyEntry[],
+  date: Date,
+  excludeId?: string
+): DailyEntry | undefined => {
+  return entries.find(
+    (entry) =>
+      entry.id !== excludeId &&
+      !entry.deletedAt &&
+      !isCashFlowEntry(entry) &&
+      isSameTradingDay(entry.date, date)
+  );
+};
+
+/**
+ * Whether an entry input is subject to the one-entry-per-trading-day rule
+ */
+export const isTradingEntryInput = (
+  entry: CreateDailyEntryInput | UpdateDailyEntryInput
+): boolean => {
+  return entry.type === undefined || entry.type === 'trading';
+};
+
+/**
+ * Fold a second entry for the same day into the existing one
+ */
+export const mergeEntryUpdates = (
+  existing: DailyEntry,
+  incoming: CreateDailyEntryInput
+): UpdateDailyEntryInput => {
+  const notes = [existing.notes, incoming.notes].filter(Boolean).join('\n');
+  return {
+    profitLoss: existing.profitLoss + incoming.profitLoss,
+    notes: notes || undefined,
+  };
+};
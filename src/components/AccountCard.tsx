@@ -5,17 +5,22 @@ import {
   TouchableOpacity,
   StyleSheet,
 } from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
 import { TradingAccount } from '../types';
-import { formatCurrency } from '../utils/helpers';
+import { formatCurrency, calculateAccountProfitLoss } from '../utils/helpers';
+import { ChallengeEvaluation } from '../utils/challenge';
+import ChallengeProgress from './ChallengeProgress';
 import { DARK_THEME_COLORS } from '../theme/darkTheme';
 
 interface AccountCardProps {
   account: TradingAccount;
   onPress: () => void;
+  onEdit?: () => void;
+  challenge?: ChallengeEvaluation | null;
 }
 
-const AccountCard: React.FC<AccountCardProps> = ({ account, onPress }) => {
-  const profitLoss = account.currentBalance - account.initialBalance;
+const AccountCard: React.FC<AccountCardProps> = ({ account, onPress, onEdit, challenge }) => {
+  const profitLoss = calculateAccountProfitLoss(account);
   const profitLossPercent = account.initialBalance !== 0
     ? ((profitLoss / account.initialBalance) * 100).toFixed(2)
     : '0.00';
@@ -30,7 +35,21 @@ const AccountCard: React.FC<AccountCardProps> = ({ account, onPress }) => {
             <Text style={styles.broker}>{account.broker}</Text>
           )}
         </View>
-        <Text style={styles.currency}>{account.currency}</Text>
+        <View style={styles.headerActions}>
+          {account.archived && (
+            <Text style={styles.archivedBadge}>Archived</Text>
+          )}
+          <Text style={styles.currency}>{account.currency}</Text>
+          {onEdit && (
+            <TouchableOpacity
+              style={styles.editButton}
+              onPress={onEdit}
+              hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+            >
+              <MaterialIcons name="edit" size={18} color={DARK_THEME_COLORS.textSecondary} />
+            </TouchableOpacity>
+          )}
+        </View>
       </View>
       
       <View style={styles.balanceContainer}>
@@ -69,6 +88,10 @@ const AccountCard: React.FC<AccountCardProps> = ({ account, onPress }) => {
           </Text>
         </View>
       </View>
+
+      {challenge && (
+        <ChallengeProgress evaluation={challenge} currency={account.currency} compact />
+      )}
     </TouchableOpacity>
   );
 };
@@ -101,6 +124,19 @@ const styles = StyleSheet.create({
     color: DARK_THEME_COLORS.textSecondary,
     marginTop: 2,
   },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  archivedBadge: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#FF9500',
+    marginRight: 8,
+  },
+  editButton: {
+    marginLeft: 8,
+  },
   currency: {
     fontSize: 14,
     fontWeight: '600',
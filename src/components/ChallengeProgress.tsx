@@ -0,0 +1,158 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { ChallengeEvaluation, ChallengeRuleResult, ChallengeStatus } from '../utils/challenge';
+import { formatCurrency } from '../utils/helpers';
+import { DARK_THEME_COLORS } from '../theme/darkTheme';
+
+interface ChallengeProgressProps {
+  evaluation: ChallengeEvaluation;
+  currency: string;
+  compact?: boolean;
+}
+
+const STATUS_LABELS: Record<ChallengeStatus, string> = {
+  passed: 'Passed',
+  failed: 'Failed',
+  in_progress: 'In Progress',
+};
+
+const STATUS_COLORS: Record<ChallengeStatus, string> = {
+  passed: DARK_THEME_COLORS.profit,
+  failed: DARK_THEME_COLORS.loss,
+  in_progress: '#FF9500',
+};
+
+const formatRuleValue = (result: ChallengeRuleResult, value: number, currency: string): string => {
+  if (result.rule === 'minTradingDays') {
+    return `${value} ${value === 1 ? 'day' : 'days'}`;
+  }
+  if (result.rule === 'consistency') {
+    return `${value.toFixed(1)}%`;
+  }
+  return formatCurrency(value, currency);
+};
+
+const describeRemaining = (result: ChallengeRuleResult, currency: string): string => {
+  if (result.status === 'failed') {
+    return 'Limit breached';
+  }
+  if (result.status === 'passed') {
+    return 'Met';
+  }
+  const remaining = result.rule === 'consistency'
+    ? formatCurrency(result.remaining, currency)
+    : formatRuleValue(result, result.remaining, currency);
+  if (result.rule === 'maxDailyLoss' || result.rule === 'maxDrawdown') {
+    return `${remaining} room left`;
+  }
+  return `${remaining} to go`;
+};
+
+/**
+ * Pass/fail/in-progress status of a prop-firm challenge with the room left on each rule
+ */
+const ChallengeProgress: React.FC<ChallengeProgressProps> = ({
+  evaluation,
+  currency,
+  compact = false,
+}) => {
+  const statusColor = STATUS_COLORS[evaluation.status];
+
+  return (
+    <View style={[styles.container, compact && styles.compactContainer]}>
+      <View style={styles.header}>
+        <View style={styles.titleRow}>
+          <MaterialIcons name="emoji-events" size={18} color={statusColor} />
+          <Text style={styles.title}>Challenge</Text>
+        </View>
+        <Text style={[styles.status, { backgroundColor: statusColor }]}>
+          {STATUS_LABELS[evaluation.status]}
+        </Text>
+      </View>
+
+      {evaluation.rules.map((result) => (
+        <View key={result.rule} style={styles.ruleRow}>
+          <Text style={styles.ruleLabel}>{result.label}</Text>
+          <View style={styles.ruleValues}>
+            {!compact && (
+              <Text style={styles.ruleCurrent}>
+                {formatRuleValue(result, result.current, currency)} /{' '}
+                {formatRuleValue(result, result.limit, currency)}
+              </Text>
+            )}
+            <Text style={[styles.ruleRemaining, { color: STATUS_COLORS[result.status] }]}>
+              {describeRemaining(result, currency)}
+            </Text>
+          </View>
+        </View>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: DARK_THEME_COLORS.backgroundSecondary,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+  },
+  compactContainer: {
+    padding: 0,
+    marginBottom: 0,
+    marginTop: 12,
+    paddingTop: 12,
+    borderRadius: 0,
+    borderTopWidth: 1,
+    borderTopColor: DARK_THEME_COLORS.border,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: DARK_THEME_COLORS.text,
+  },
+  status: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: '#FFFFFF',
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 4,
+    overflow: 'hidden',
+  },
+  ruleRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 4,
+  },
+  ruleLabel: {
+    fontSize: 14,
+    color: DARK_THEME_COLORS.textSecondary,
+  },
+  ruleValues: {
+    alignItems: 'flex-end',
+  },
+  ruleCurrent: {
+    fontSize: 12,
+    color: DARK_THEME_COLORS.textSecondary,
+  },
+  ruleRemaining: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
+
+export default ChallengeProgress;
@@ -0,0 +1,232 @@
+import React from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet } from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { ChallengeRules, DrawdownType } from '../types';
+import { sanitizeNumericInput } from '../utils/helpers';
+import { DARK_THEME_COLORS } from '../theme/darkTheme';
+
+export interface ChallengeRulesFormValues {
+  enabled: boolean;
+  profitTargetPercent: string;
+  maxDailyLossPercent: string;
+  maxDrawdownPercent: string;
+  drawdownType: DrawdownType;
+  minTradingDays: string;
+  consistencyPercent: string;
+}
+
+export const EMPTY_CHALLENGE_FORM: ChallengeRulesFormValues = {
+  enabled: false,
+  profitTargetPercent: '',
+  maxDailyLossPercent: '',
+  maxDrawdownPercent: '',
+  drawdownType: 'static',
+  minTradingDays: '',
+  consistencyPercent: '',
+};
+
+/**
+ * Fill the form from an account's existing ruleset
+ */
+export const toChallengeFormValues = (rules?: ChallengeRules): ChallengeRulesFormValues => {
+  if (!rules) {
+    return EMPTY_CHALLENGE_FORM;
+  }
+  return {
+    enabled: true,
+    profitTargetPercent: rules.profitTargetPercent?.toString() ?? '',
+    maxDailyLossPercent: rules.maxDailyLossPercent?.toString() ?? '',
+    maxDrawdownPercent: rules.maxDrawdownPercent?.toString() ?? '',
+    drawdownType: rules.drawdownType,
+    minTradingDays: rules.minTradingDays?.toString() ?? '',
+    consistencyPercent: rules.consistencyPercent?.toString() ?? '',
+  };
+};
+
+const parsePositive = (value: string): number | undefined | null => {
+  if (!value) return undefined;
+  const parsed = parseFloat(value);
+  return isNaN(parsed) || parsed <= 0 ? null : parsed;
+};
+
+/**
+ * Build the ruleset from the form.
+ * Returns undefined when the challenge is disabled and null when a value is invalid.
+ */
+export const parseChallengeRules = (
+  values: ChallengeRulesFormValues
+): ChallengeRules | undefined | null => {
+  if (!values.enabled) {
+    return undefined;
+  }
+  const rules: ChallengeRules = {
+    drawdownType: values.drawdownType,
+  };
+  const fields: (keyof Omit<ChallengeRules, 'drawdownType'>)[] = [
+    'profitTargetPercent',
+    'maxDailyLossPercent',
+    'maxDrawdownPercent',
+    'minTradingDays',
+    'consistencyPercent',
+  ];
+  for (const field of fields) {
+    const parsed = parsePositive(values[field]);
+    if (parsed === null) {
+      return null;
+    }
+    if (parsed !== undefined) {
+      rules[field] = parsed;
+    }
+  }
+  return rules;
+};
+
+interface ChallengeRulesFormProps {
+  values: ChallengeRulesFormValues;
+  onChange: (values: ChallengeRulesFormValues) => void;
+}
+
+const ChallengeRulesForm: React.FC<ChallengeRulesFormProps> = ({ values, onChange }) => {
+  const updateField = (field: keyof ChallengeRulesFormValues) => (text: string) => {
+    onChange({ ...values, [field]: sanitizeNumericInput(text).replace('-', '') });
+  };
+
+  return (
+    <View style={styles.container}>
+      <TouchableOpacity
+        style={styles.toggle}
+        onPress={() => onChange({ ...values, enabled: !values.enabled })}
+      >
+        <MaterialIcons
+          name={values.enabled ? 'check-box' : 'check-box-outline-blank'}
+          size={24}
+          color={DARK_THEME_COLORS.primary}
+        />
+        <Text style={styles.toggleText}>Prop-firm challenge</Text>
+      </TouchableOpacity>
+
+      {values.enabled && (
+        <>
+          <View style={styles.row}>
+            <TextInput
+              style={[styles.input, styles.halfInput]}
+              placeholder="Profit target %"
+              value={values.profitTargetPercent}
+              onChangeText={updateField('profitTargetPercent')}
+            />
+            <TextInput
+              style={[styles.input, styles.halfInput]}
+              placeholder="Max daily loss %"
+              value={values.maxDailyLossPercent}
+              onChangeText={updateField('maxDailyLossPercent')}
+            />
+          </View>
+
+          <View style={styles.row}>
+            <TextInput
+              style={[styles.input, styles.halfInput]}
+              placeholder="Max drawdown %"
+              value={values.maxDrawdownPercent}
+              onChangeText={updateField('maxDrawdownPercent')}
+            />
+            <View style={[styles.halfInput, styles.drawdownButtons]}>
+              {(['static', 'trailing'] as DrawdownType[]).map((type) => (
+                <TouchableOpacity
+                  key={type}
+                  style={[
+                    styles.drawdownButton,
+                    values.drawdownType === type && styles.drawdownButtonActive,
+                  ]}
+                  onPress={() => onChange({ ...values, drawdownType: type })}
+                >
+                  <Text
+                    style={[
+                      styles.drawdownButtonText,
+                      values.drawdownType === type && styles.drawdownButtonTextActive,
+                    ]}
+                  >
+                    {type === 'static' ? 'Static' : 'Trailing'}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+
+          <View style={styles.row}>
+            <TextInput
+              style={[styles.input, styles.halfInput]}
+              placeholder="Min trading days"
+              value={values.minTradingDays}
+              onChangeText={updateField('minTradingDays')}
+            />
+            <TextInput
+              style={[styles.input, styles.halfInput]}
+              placeholder="Best day max %"
+              value={values.consistencyPercent}
+              onChangeText={updateField('consistencyPercent')}
+            />
+          </View>
+        </>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 8,
+  },
+  toggle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 16,
+  },
+  toggleText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: DARK_THEME_COLORS.text,
+  },
+  row: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  input: {
+    backgroundColor: DARK_THEME_COLORS.backgroundTertiary,
+    borderRadius: 8,
+    padding: 16,
+    fontSize: 16,
+    marginBottom: 16,
+    color: DARK_THEME_COLORS.text,
+    borderWidth: 1,
+    borderColor: DARK_THEME_COLORS.border,
+  },
+  halfInput: {
+    flex: 1,
+  },
+  drawdownButtons: {
+    flexDirection: 'row',
+    gap: 4,
+    marginBottom: 16,
+  },
+  drawdownButton: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderRadius: 8,
+    backgroundColor: DARK_THEME_COLORS.backgroundTertiary,
+  },
+  drawdownButtonActive: {
+    backgroundColor: DARK_THEME_COLORS.primary,
+  },
+  drawdownButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: DARK_THEME_COLORS.textSecondary,
+  },
+  drawdownButtonTextActive: {
+    color: '#FFFFFF',
+  },
+});
+
+export default ChallengeRulesForm;
@@ -0,0 +1,156 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { getTradingDayKey } from '../utils/helpers';
+import { DARK_THEME_COLORS } from '../theme/darkTheme';
+
+interface DatePickerProps {
+  value: Date;
+  onChange: (date: Date) => void;
+  maximumDate?: Date;
+}
+
+const WEEKDAYS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+
+/**
+ * Inline month calendar used to pick the trading day of an entry
+ */
+const DatePicker: React.FC<DatePickerProps> = ({ value, onChange, maximumDate }) => {
+  const [visibleMonth, setVisibleMonth] = useState(
+    new Date(value.getFullYear(), value.getMonth(), 1)
+  );
+
+  const year = visibleMonth.getFullYear();
+  const month = visibleMonth.getMonth();
+  const daysInMonth = new Date(year, month + 1, 0).getDate();
+  const leadingBlanks = new Date(year, month, 1).getDay();
+  const maxKey = maximumDate ? getTradingDayKey(maximumDate) : null;
+  const selectedKey = getTradingDayKey(value);
+  const canGoForward = !maximumDate || new Date(year, month + 1, 1) <= maximumDate;
+
+  const cells: (number | null)[] = [
+    ...Array.from({ length: leadingBlanks }, () => null),
+    ...Array.from({ length: daysInMonth }, (_, i) => i + 1),
+  ];
+
+  const handleSelect = (day: number) => {
+    // Keep the current time for today, use midday for past days
+    const selected = new Date(year, month, day, 12, 0, 0, 0);
+    if (getTradingDayKey(selected) === getTradingDayKey(new Date())) {
+      onChange(new Date());
+    } else {
+      onChange(selected);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => setVisibleMonth(new Date(year, month - 1, 1))}>
+          <MaterialIcons name="chevron-left" size={24} color={DARK_THEME_COLORS.primary} />
+        </TouchableOpacity>
+        <Text style={styles.monthLabel}>
+          {visibleMonth.toLocaleDateString('en-US', { month: 'long', year: 'numeric' })}
+        </Text>
+        <TouchableOpacity
+          onPress={() => setVisibleMonth(new Date(year, month + 1, 1))}
+          disabled={!canGoForward}
+        >
+          <MaterialIcons
+            name="chevron-right"
+            size={24}
+            color={canGoForward ? DARK_THEME_COLORS.primary : DARK_THEME_COLORS.textTertiary}
+          />
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.grid}>
+        {WEEKDAYS.map((weekday, index) => (
+          <Text key={`weekday-${index}`} style={[styles.cell, styles.weekday]}>
+            {weekday}
+          </Text>
+        ))}
+        {cells.map((day, index) => {
+          if (day === null) {
+            return <View key={`blank-${index}`} style={styles.cell} />;
+          }
+          const key = getTradingDayKey(new Date(year, month, day));
+          const disabled = maxKey !== null && key > maxKey;
+          const selected = key === selectedKey;
+          return (
+            <TouchableOpacity
+              key={key}
+              style={[styles.cell, selected && styles.selectedCell]}
+              onPress={() => handleSelect(day)}
+              disabled={disabled}
+            >
+              <Text
+                style={[
+                  styles.dayText,
+                  disabled && styles.disabledText,
+                  selected && styles.selectedText,
+                ]}
+              >
+                {day}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: DARK_THEME_COLORS.backgroundTertiary,
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 16,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  monthLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: DARK_THEME_COLORS.text,
+  },
+  grid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  cell: {
+    width: `${100 / 7}%`,
+    height: 36,
+    justifyContent: 'center',
+    alignItems: 'center',
+    textAlign: 'center',
+    borderRadius: 18,
+  },
+  weekday: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: DARK_THEME_COLORS.textSecondary,
+    lineHeight: 36,
+  },
+  selectedCell: {
+    backgroundColor: DARK_THEME_COLORS.primary,
+  },
+  dayText: {
+    fontSize: 14,
+    color: DARK_THEME_COLORS.text,
+  },
+  disabledText: {
+    color: DARK_THEME_COLORS.textTertiary,
+  },
+  selectedText: {
+    color: '#FFFFFF',
+    fontWeight: '700',
+  },
+});
+
+export default DatePicker;
@@ -1,18 +1,36 @@
 import React from 'react';
 import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
-import { DailyEntry } from '../types';
-import { formatCurrency, formatDate } from '../utils/helpers';
+import { MaterialIcons } from '@expo/vector-icons';
+import { DailyEntry, CashFlowType } from '../types';
+import { formatCurrency, formatDate, isCashFlowEntry } from '../utils/helpers';
+import { CASH_FLOW_LABELS } from '../constants';
 import { DARK_THEME_COLORS } from '../theme/darkTheme';
 
+const CASH_FLOW_ICONS: Record<CashFlowType, keyof typeof MaterialIcons.glyphMap> = {
+  deposit: 'add-circle-outline',
+  withdrawal: 'remove-circle-outline',
+  payout: 'payments',
+  transfer: 'swap-horiz',
+  adjustment: 'tune',
+};
+
 interface EntryCardProps {
   entry: DailyEntry;
   currency: string;
   onPress?: () => void;
   onLongPress?: () => void;
+  onTradesPress?: () => void;
 }
 
-const EntryCard: React.FC<EntryCardProps> = ({ entry, currency, onPress, onLongPress }) => {
+const EntryCard: React.FC<EntryCardProps> = ({
+  entry,
+  currency,
+  onPress,
+  onLongPress,
+  onTradesPress,
+}) => {
   const isProfit = entry.profitLoss >= 0;
+  const cashFlowType = isCashFlowEntry(entry) ? (entry.type as CashFlowType) : null;
 
   return (
     <TouchableOpacity 
@@ -22,11 +40,23 @@ const EntryCard: React.FC<EntryCardProps> = ({ entry, currency, onPress, onLongP
       activeOpacity={0.7}
     >
       <View style={styles.header}>
-        <Text style={styles.date}>{formatDate(entry.date)}</Text>
+        <View>
+          <Text style={styles.date}>{formatDate(entry.date)}</Text>
+          {cashFlowType && (
+            <View style={styles.cashFlowRow}>
+              <MaterialIcons
+                name={CASH_FLOW_ICONS[cashFlowType]}
+                size={14}
+                color={DARK_THEME_COLORS.textSecondary}
+              />
+              <Text style={styles.cashFlowLabel}>{CASH_FLOW_LABELS[cashFlowType]}</Text>
+            </View>
+          )}
+        </View>
         <Text
           style={[
             styles.profitLoss,
-            isProfit ? styles.profit : styles.loss,
+            cashFlowType ? styles.cashFlow : isProfit ? styles.profit : styles.loss,
           ]}
         >
           {isProfit ? '+' : ''}
@@ -47,6 +77,14 @@ const EntryCard: React.FC<EntryCardProps> = ({ entry, currency, onPress, onLongP
           <Text style={styles.notes}>{entry.notes}</Text>
         </View>
       )}
+
+      {onTradesPress && (
+        <TouchableOpacity style={styles.tradesButton} onPress={onTradesPress}>
+          <MaterialIcons name="list-alt" size={16} color={DARK_THEME_COLORS.primary} />
+          <Text style={styles.tradesButtonText}>Trades</Text>
+          <MaterialIcons name="chevron-right" size={16} color={DARK_THEME_COLORS.primary} />
+        </TouchableOpacity>
+      )}
     </TouchableOpacity>
   );
 };
@@ -84,6 +122,19 @@ const styles = StyleSheet.create({
   loss: {
     color: DARK_THEME_COLORS.loss,
   },
+  cashFlow: {
+    color: DARK_THEME_COLORS.primary,
+  },
+  cashFlowRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 2,
+    gap: 4,
+  },
+  cashFlowLabel: {
+    fontSize: 12,
+    color: DARK_THEME_COLORS.textSecondary,
+  },
   balanceRow: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -113,6 +164,21 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: DARK_THEME_COLORS.text,
   },
+  tradesButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 8,
+    paddingTop: 8,
+    borderTopWidth: 1,
+    borderTopColor: DARK_THEME_COLORS.border,
+    gap: 4,
+  },
+  tradesButtonText: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '600',
+    color: DARK_THEME_COLORS.primary,
+  },
 });
 
 export default EntryCard;
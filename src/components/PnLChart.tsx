@@ -2,7 +2,7 @@ import React, { useMemo } from 'react';
 import { View, Text, StyleSheet, Dimensions } from 'react-native';
 import { LineChart } from 'react-native-chart-kit';
 import { DailyEntry } from '../types';
-import { formatCurrency } from '../utils/helpers';
+import { formatCurrency, getTradingEntries } from '../utils/helpers';
 
 interface PnLChartProps {
   entries: DailyEntry[];
@@ -13,11 +13,14 @@ interface PnLChartProps {
 const PnLChart: React.FC<PnLChartProps> = ({ entries, currency = 'USD', darkMode = false }) => {
   const screenWidth = Dimensions.get('window').width;
 
+  // Deposits, withdrawals and other cash flows are not trading results
+  const tradingEntries = useMemo(() => getTradingEntries(entries), [entries]);
+
   const chartData = useMemo(() => {
-    if (entries.length === 0) return { labels: [], data: [], totalPnL: 0 };
+    if (tradingEntries.length === 0) return { labels: [], data: [], totalPnL: 0 };
 
     // Sort entries by date (oldest first)
-    const sortedEntries = [...entries].sort(
+    const sortedEntries = [...tradingEntries].sort(
       (a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()
     );
 
@@ -46,9 +49,9 @@ const PnLChart: React.FC<PnLChartProps> = ({ entries, currency = 'USD', darkMode
       data,
       totalPnL,
     };
-  }, [entries]);
+  }, [tradingEntries]);
 
-  if (entries.length === 0) {
+  if (tradingEntries.length === 0) {
     return (
       <View style={[styles.emptyContainer, darkMode && styles.darkContainer]}>
         <Text style={[styles.emptyText, darkMode && styles.darkText]}>
@@ -2,7 +2,7 @@ import React, { useMemo } from 'react';
 import { View, Text, StyleSheet } from 'react-native';
 import { MaterialIcons } from '@expo/vector-icons';
 import { DailyEntry } from '../types';
-import { formatCurrency } from '../utils/helpers';
+import { formatCurrency, calculateStatistics } from '../utils/helpers';
 
 interface StatisticsProps {
   entries: DailyEntry[];
@@ -10,56 +10,8 @@ interface StatisticsProps {
   darkMode?: boolean;
 }
 
-interface Stats {
-  totalProfit: number;
-  totalLoss: number;
-  winDays: number;
-  lossDays: number;
-  averageDailyPnL: number;
-  winRate: number;
-}
-
 const Statistics: React.FC<StatisticsProps> = ({ entries, currency = 'USD', darkMode = false }) => {
-  const stats: Stats = useMemo(() => {
-    if (entries.length === 0) {
-      return {
-        totalProfit: 0,
-        totalLoss: 0,
-        winDays: 0,
-        lossDays: 0,
-        averageDailyPnL: 0,
-        winRate: 0,
-      };
-    }
-
-    let totalProfit = 0;
-    let totalLoss = 0;
-    let winDays = 0;
-    let lossDays = 0;
-
-    entries.forEach((entry) => {
-      if (entry.profitLoss > 0) {
-        totalProfit += entry.profitLoss;
-        winDays++;
-      } else if (entry.profitLoss < 0) {
-        totalLoss += entry.profitLoss;
-        lossDays++;
-      }
-    });
-
-    const totalPnL = entries.reduce((sum, entry) => sum + entry.profitLoss, 0);
-    const averageDailyPnL = totalPnL / entries.length;
-    const winRate = entries.length > 0 ? (winDays / entries.length) * 100 : 0;
-
-    return {
-      totalProfit,
-      totalLoss,
-      winDays,
-      lossDays,
-      averageDailyPnL,
-      winRate,
-    };
-  }, [entries]);
+  const stats = useMemo(() => calculateStatistics(entries), [entries]);
 
   const containerStyle = [styles.container, darkMode && styles.darkContainer];
   const textStyle = [styles.text, darkMode && styles.darkText];
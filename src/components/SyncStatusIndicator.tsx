@@ -0,0 +1,83 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, ActivityIndicator, StyleSheet } from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { SyncStatus } from '../api';
+import { DARK_THEME_COLORS } from '../theme/darkTheme';
+
+interface SyncStatusIndicatorProps {
+  status: SyncStatus;
+  onPress?: () => void;
+}
+
+/**
+ * Icon and colour for a sync state
+ */
+const getIndicatorIcon = (
+  status: SyncStatus
+): { name: keyof typeof MaterialIcons.glyphMap; color: string } => {
+  switch (status.state) {
+    case 'offline':
+      return { name: 'cloud-off', color: DARK_THEME_COLORS.textSecondary };
+    case 'error':
+      return { name: 'sync-problem', color: DARK_THEME_COLORS.loss };
+    default:
+      return status.pendingChanges > 0
+        ? { name: 'cloud-upload', color: '#FF9500' }
+        : { name: 'cloud-done', color: DARK_THEME_COLORS.profit };
+  }
+};
+
+const SyncStatusIndicator: React.FC<SyncStatusIndicatorProps> = ({ status, onPress }) => {
+  // Nothing to show when the journal is not synced to Firestore
+  if (status.state === 'disabled') {
+    return null;
+  }
+
+  const icon = getIndicatorIcon(status);
+
+  return (
+    <TouchableOpacity
+      style={styles.container}
+      onPress={onPress}
+      disabled={status.state === 'syncing'}
+    >
+      {status.state === 'syncing' ? (
+        <ActivityIndicator size="small" color={DARK_THEME_COLORS.primary} />
+      ) : (
+        <MaterialIcons name={icon.name} size={24} color={icon.color} />
+      )}
+      {status.pendingChanges > 0 && (
+        <View style={styles.badge}>
+          <Text style={styles.badgeText}>
+            {status.pendingChanges > 99 ? '99+' : status.pendingChanges}
+          </Text>
+        </View>
+      )}
+    </TouchableOpacity>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    padding: 8,
+  },
+  badge: {
+    position: 'absolute',
+    top: 2,
+    right: 0,
+    minWidth: 16,
+    height: 16,
+    borderRadius: 8,
+    paddingHorizontal: 4,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#FF9500',
+  },
+  badgeText: {
+    fontSize: 10,
+    fontWeight: '700',
+    color: '#FFFFFF',
+  },
+});
+
+export default SyncStatusIndicator;
@@ -0,0 +1,151 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Trade } from '../types';
+import { formatCurrency } from '../utils/helpers';
+import { DARK_THEME_COLORS } from '../theme/darkTheme';
+
+interface TradeCardProps {
+  trade: Trade;
+  currency: string;
+  onPress?: () => void;
+  onLongPress?: () => void;
+}
+
+const formatTime = (date: Date): string => {
+  return new Intl.DateTimeFormat('en-US', {
+    hour: '2-digit',
+    minute: '2-digit',
+  }).format(date);
+};
+
+const TradeCard: React.FC<TradeCardProps> = ({ trade, currency, onPress, onLongPress }) => {
+  const isProfit = trade.profitLoss >= 0;
+  const isBuy = trade.direction === 'buy';
+
+  return (
+    <TouchableOpacity
+      style={styles.card}
+      onPress={onPress}
+      onLongPress={onLongPress}
+      activeOpacity={0.7}
+    >
+      <View style={styles.header}>
+        <View style={styles.symbolRow}>
+          <Text style={styles.symbol}>{trade.symbol}</Text>
+          <Text style={[styles.direction, isBuy ? styles.buy : styles.sell]}>
+            {isBuy ? 'BUY' : 'SELL'}
+          </Text>
+          <Text style={styles.lots}>{trade.lotSize} lots</Text>
+        </View>
+        <Text
+          style={[
+            styles.profitLoss,
+            isProfit ? styles.profit : styles.loss,
+          ]}
+        >
+          {isProfit ? '+' : ''}
+          {formatCurrency(trade.profitLoss, currency)}
+        </Text>
+      </View>
+
+      <View style={styles.row}>
+        <Text style={styles.label}>Entry / Exit</Text>
+        <Text style={styles.value}>
+          {trade.entryPrice} → {trade.exitPrice}
+        </Text>
+      </View>
+
+      {(trade.stopLoss !== undefined || trade.takeProfit !== undefined) && (
+        <View style={styles.row}>
+          <Text style={styles.label}>SL / TP</Text>
+          <Text style={styles.value}>
+            {trade.stopLoss ?? '-'} / {trade.takeProfit ?? '-'}
+          </Text>
+        </View>
+      )}
+
+      <View style={styles.row}>
+        <Text style={styles.label}>Open / Close</Text>
+        <Text style={styles.value}>
+          {formatTime(trade.openTime)} - {formatTime(trade.closeTime)}
+        </Text>
+      </View>
+    </TouchableOpacity>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: DARK_THEME_COLORS.backgroundSecondary,
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.3,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  symbolRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  symbol: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: DARK_THEME_COLORS.text,
+  },
+  direction: {
+    fontSize: 12,
+    fontWeight: '700',
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 4,
+    overflow: 'hidden',
+    color: '#FFFFFF',
+  },
+  buy: {
+    backgroundColor: DARK_THEME_COLORS.profit,
+  },
+  sell: {
+    backgroundColor: DARK_THEME_COLORS.loss,
+  },
+  lots: {
+    fontSize: 12,
+    color: DARK_THEME_COLORS.textSecondary,
+  },
+  profitLoss: {
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  profit: {
+    color: DARK_THEME_COLORS.profit,
+  },
+  loss: {
+    color: DARK_THEME_COLORS.loss,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 4,
+  },
+  label: {
+    fontSize: 14,
+    color: DARK_THEME_COLORS.textSecondary,
+  },
+  value: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: DARK_THEME_COLORS.text,
+  },
+});
+
+export default TradeCard;
@@ -0,0 +1,76 @@
+import React, { useEffect } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { DEFAULTS } from '../constants';
+import { DARK_THEME_COLORS } from '../theme/darkTheme';
+
+interface UndoSnackbarProps {
+  // The snackbar is hidden while message is null
+  message: string | null;
+  onUndo: () => void;
+  onDismiss: () => void;
+  duration?: number;
+}
+
+const UndoSnackbar: React.FC<UndoSnackbarProps> = ({
+  message,
+  onUndo,
+  onDismiss,
+  duration = DEFAULTS.UNDO_DURATION,
+}) => {
+  useEffect(() => {
+    if (message) {
+      const timer = setTimeout(onDismiss, duration);
+      return () => clearTimeout(timer);
+    }
+  }, [message, onDismiss, duration]);
+
+  if (!message) {
+    return null;
+  }
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.message}>{message}</Text>
+      <TouchableOpacity
+        onPress={onUndo}
+        hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+      >
+        <Text style={styles.undo}>UNDO</Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    left: 16,
+    right: 16,
+    bottom: 24,
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    backgroundColor: DARK_THEME_COLORS.backgroundTertiary,
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.3,
+    shadowRadius: 4,
+    elevation: 6,
+  },
+  message: {
+    flex: 1,
+    fontSize: 14,
+    color: DARK_THEME_COLORS.text,
+    marginRight: 12,
+  },
+  undo: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: DARK_THEME_COLORS.primary,
+  },
+});
+
+export default UndoSnackbar;
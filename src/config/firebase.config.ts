@@ -1,5 +1,14 @@
 import { initializeApp, FirebaseApp } from 'firebase/app';
-import { getFirestore, Firestore } from 'firebase/firestore';
+import { initializeFirestore, connectFirestoreEmulator, Firestore } from 'firebase/firestore';
+import * as firebaseAuth from 'firebase/auth';
+import {
+  initializeAuth,
+  connectAuthEmulator,
+  browserLocalPersistence,
+  Auth,
+  Persistence,
+} from 'firebase/auth';
+import AsyncStorage from '@react-native-async-storage/async-storage';
 import Constants from 'expo-constants';
 
 // Firebase configuration interface
@@ -24,10 +33,36 @@ const getFirebaseConfig = (): FirebaseConfig => {
   };
 };
 
+// Host running the Firebase emulators (e.g. localhost, or 10.0.2.2 from an Android emulator)
+const emulatorHost: string | undefined =
+  process.env.EXPO_PUBLIC_FIREBASE_EMULATOR_HOST || Constants.expoConfig?.extra?.firebaseEmulatorHost;
+
+/**
+ * Check whether Firestore and Auth talk to the local emulators instead of a real project
+ */
+export const isUsingFirebaseEmulator = (): boolean => Boolean(emulatorHost);
+
+// The React Native build of firebase/auth adds AsyncStorage persistence; its typings ship with that build only
+const { getReactNativePersistence } = firebaseAuth as typeof firebaseAuth & {
+  getReactNativePersistence?: (storage: typeof AsyncStorage) => Persistence;
+};
+
 // Initialize Firebase
 const config = getFirebaseConfig();
 const app: FirebaseApp = initializeApp(config);
-const db: Firestore = getFirestore(app);
+// Optional fields (notes, stop loss, take profit...) are left undefined rather than stored
+const db: Firestore = initializeFirestore(app, { ignoreUndefinedProperties: true });
+// Sign-in survives restarts: AsyncStorage on native, local storage on the web
+const auth: Auth = initializeAuth(app, {
+  persistence: getReactNativePersistence
+    ? getReactNativePersistence(AsyncStorage)
+    : browserLocalPersistence,
+});
+
+if (emulatorHost) {
+  connectFirestoreEmulator(db, emulatorHost, 8080);
+  connectAuthEmulator(auth, `http://${emulatorHost}:9099`, { disableWarnings: true });
+}
 
-export { app, db };
+export { app, db, auth };
 export default app;
@@ -1,2 +1,2 @@
-export { app, db } from './firebase.config';
+export { app, db, auth, isUsingFirebaseEmulator } from './firebase.config';
 export type { FirebaseConfig } from './firebase.config';
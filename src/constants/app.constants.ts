@@ -1,7 +1,10 @@
+import { CashFlowType, CsvExportColumn } from '../models';
+
 // Firebase collection names
 export const COLLECTIONS = {
   ACCOUNTS: 'accounts',
   ENTRIES: 'entries',
+  TRADES: 'trades',
 } as const;
 
 // App-wide string constants
@@ -18,6 +21,10 @@ export const STRINGS = {
   ERROR_DELETING_ACCOUNT: 'Failed to delete account',
   ERROR_INVALID_INPUT: 'Please enter a valid number',
   ERROR_REQUIRED_FIELD: 'This field is required',
+  ERROR_STORAGE_UNREADABLE:
+    'Some data saved on this device could not be read. It has been left untouched so it can be recovered.',
+  ERROR_STORAGE_MIGRATION: 'Saved data could not be upgraded. A backup was kept on this device.',
+  ERROR_PASSCODE_LOCK: 'The passcode lock saved on this device could not be read.',
   
   // Success messages
   SUCCESS_ACCOUNT_CREATED: 'Account created successfully',
@@ -69,6 +76,58 @@ export const SIZES = {
 // Default values
 export const DEFAULTS = {
   CURRENCY: 'USD',
+  BASE_CURRENCY: 'USD',
   PAGE_SIZE: 20,
   DEBOUNCE_DELAY: 300,
+  TRASH_RETENTION_DAYS: 30,
+  UNDO_DURATION: 5000,
+  SYNC_INTERVAL: 60000,
+  SYNC_TIMEOUT: 15000,
+  DASHBOARD_RANGE_DAYS: 90,
+  PASSCODE_MIN_LENGTH: 6,
+  AUTO_LOCK_MINUTES: 5,
+  AUTO_LOCK_CHECK_INTERVAL: 15000,
+  BACKUP_PASSWORD_MIN_LENGTH: 8,
 } as const;
+
+// Trash retention choices in days (0 keeps deleted items until purged by hand)
+export const TRASH_RETENTION_OPTIONS = [7, 30, 90, 0] as const;
+
+// Periods the dashboard charts and statistics can cover in days (0 covers all history)
+export const DASHBOARD_RANGE_OPTIONS = [30, 90, 365, 0] as const;
+
+// Minutes without use before a passcode-locked app locks itself
+export const AUTO_LOCK_OPTIONS = [1, 5, 15, 60] as const;
+
+// Currencies available for accounts and FX conversion
+export const CURRENCIES = ['USD', 'EUR', 'GBP', 'JPY'] as const;
+
+// Cash-flow transaction types with their display labels
+export const CASH_FLOW_LABELS: Record<CashFlowType, string> = {
+  deposit: 'Deposit',
+  withdrawal: 'Withdrawal',
+  payout: 'Payout',
+  transfer: 'Transfer',
+  adjustment: 'Adjustment',
+};
+
+// Columns of a CSV export of entries, in file order, with their header labels
+export const CSV_EXPORT_COLUMNS: CsvExportColumn[] = [
+  'date',
+  'account',
+  'type',
+  'profitLoss',
+  'balance',
+  'notes',
+  'currency',
+];
+
+export const CSV_COLUMN_LABELS: Record<CsvExportColumn, string> = {
+  date: 'Date',
+  account: 'Account',
+  type: 'Type',
+  profitLoss: 'P/L',
+  balance: 'Balance',
+  notes: 'Notes',
+  currency: 'Currency',
+};
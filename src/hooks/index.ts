@@ -1,2 +1,6 @@
 export * from './useAccounts';
 export * from './useEntries';
+export * from './useSyncStatus';
+export * from './useAuth';
+export * from './usePasscodeLock';
+export * from './useAutoLock';
@@ -1,7 +1,7 @@
 import { useState, useEffect, useCallback } from 'react';
 import { Alert } from 'react-native';
 import { TradingAccount } from '../models';
-import { getAllAccounts, createAccount, deleteAccount } from '../api';
+import { getAllAccounts, subscribeToAccounts, createAccount, deleteAccount } from '../api';
 import { STRINGS } from '../constants';
 
 interface UseAccountsReturn {
@@ -14,7 +14,8 @@ interface UseAccountsReturn {
 }
 
 /**
- * Custom hook for managing trading accounts
+ * Custom hook for managing trading accounts.
+ * The list stays live: changes from any screen or device are delivered as they happen.
  */
 export const useAccounts = (): UseAccountsReturn => {
   const [accounts, setAccounts] = useState<TradingAccount[]>([]);
@@ -37,15 +38,26 @@ export const useAccounts = (): UseAccountsReturn => {
   }, []);
 
   useEffect(() => {
-    loadAccounts();
-  }, [loadAccounts]);
+    setLoading(true);
+    return subscribeToAccounts(
+      (nextAccounts) => {
+        setAccounts(nextAccounts);
+        setError(null);
+        setLoading(false);
+      },
+      (err) => {
+        console.error('Error loading accounts:', err);
+        setError(STRINGS.ERROR_LOADING_ACCOUNTS);
+        setLoading(false);
+      }
+    );
+  }, []);
 
   const addAccount = async (
     account: Omit<TradingAccount, 'id' | 'createdAt' | 'updatedAt' | 'currentBalance'>
   ) => {
     try {
       await createAccount(account);
-      await loadAccounts();
     } catch (err) {
       console.error('Error creating account:', err);
       Alert.alert('Error', STRINGS.ERROR_CREATING_ACCOUNT);
@@ -56,7 +68,6 @@ export const useAccounts = (): UseAccountsReturn => {
   const removeAccount = async (id: string) => {
     try {
       await deleteAccount(id);
-      await loadAccounts();
     } catch (err) {
       console.error('Error deleting account:', err);
       Alert.alert('Error', STRINGS.ERROR_DELETING_ACCOUNT);
@@ -0,0 +1,35 @@
+import { useState, useEffect } from 'react';
+import { AuthUser, getCurrentUser, isSignInRequired, subscribeToAuthUser } from '../api';
+
+interface UseAuthReturn {
+  user: AuthUser | null;
+  // True until the saved session has been restored
+  initializing: boolean;
+  // False for device-only storage, which needs no account
+  signInRequired: boolean;
+}
+
+/**
+ * Custom hook for following the signed-in user
+ */
+export const useAuth = (): UseAuthReturn => {
+  const signInRequired = isSignInRequired();
+  const [user, setUser] = useState<AuthUser | null>(getCurrentUser);
+  const [initializing, setInitializing] = useState(signInRequired);
+
+  useEffect(() => {
+    if (!signInRequired) {
+      return;
+    }
+    return subscribeToAuthUser((nextUser) => {
+      setUser(nextUser);
+      setInitializing(false);
+    });
+  }, [signInRequired]);
+
+  return {
+    user,
+    initializing,
+    signInRequired,
+  };
+};
@@ -0,0 +1,45 @@
+import { useEffect, useRef, useCallback } from 'react';
+import { AppState } from 'react-native';
+import { lockJournal } from '../api';
+import { DEFAULTS } from '../constants';
+import { usePasscodeLock } from './usePasscodeLock';
+
+/**
+ * Custom hook that locks the app after the configured time without use.
+ * Returns the function to call on user interaction.
+ */
+export const useAutoLock = (): (() => void) => {
+  const { status, autoLockMinutes } = usePasscodeLock();
+  const lastActivityAt = useRef(Date.now());
+
+  const recordActivity = useCallback(() => {
+    lastActivityAt.current = Date.now();
+  }, []);
+
+  useEffect(() => {
+    if (status !== 'unlocked' || !autoLockMinutes) {
+      return;
+    }
+    lastActivityAt.current = Date.now();
+
+    const lockIfIdle = () => {
+      if (Date.now() - lastActivityAt.current >= autoLockMinutes * 60000) {
+        lockJournal();
+      }
+    };
+
+    // Timers are paused in the background, so idle time is checked again on return
+    const interval = setInterval(lockIfIdle, DEFAULTS.AUTO_LOCK_CHECK_INTERVAL);
+    const subscription = AppState.addEventListener('change', (appState) => {
+      if (appState === 'active') {
+        lockIfIdle();
+      }
+    });
+    return () => {
+      clearInterval(interval);
+      subscription.remove();
+    };
+  }, [status, autoLockMinutes]);
+
+  return recordActivity;
+};
@@ -1,7 +1,7 @@
 import { useState, useEffect, useCallback } from 'react';
 import { Alert } from 'react-native';
-import { DailyEntry } from '../models';
-import { getEntriesByAccount, createEntry } from '../api';
+import { DailyEntry, CreateDailyEntryInput } from '../models';
+import { getEntriesByAccount, subscribeToEntries, createEntry } from '../api';
 import { STRINGS } from '../constants';
 
 interface UseEntriesReturn {
@@ -9,11 +9,12 @@ interface UseEntriesReturn {
   loading: boolean;
   error: string | null;
   refresh: () => Promise<void>;
-  addEntry: (entry: Omit<DailyEntry, 'id' | 'createdAt' | 'updatedAt'>) => Promise<void>;
+  addEntry: (entry: CreateDailyEntryInput) => Promise<void>;
 }
 
 /**
- * Custom hook for managing daily entries for a specific account
+ * Custom hook for managing daily entries for a specific account.
+ * The list stays live: changes from any screen or device are delivered as they happen.
  */
 export const useEntries = (accountId: string): UseEntriesReturn => {
   const [entries, setEntries] = useState<DailyEntry[]>([]);
@@ -36,13 +37,25 @@ export const useEntries = (accountId: string): UseEntriesReturn => {
   }, [accountId]);
 
   useEffect(() => {
-    loadEntries();
-  }, [loadEntries]);
+    setLoading(true);
+    return subscribeToEntries(
+      accountId,
+      (nextEntries) => {
+        setEntries(nextEntries);
+        setError(null);
+        setLoading(false);
+      },
+      (err) => {
+        console.error('Error loading entries:', err);
+        setError(STRINGS.ERROR_LOADING_ENTRIES);
+        setLoading(false);
+      }
+    );
+  }, [accountId]);
 
-  const addEntry = async (entry: Omit<DailyEntry, 'id' | 'createdAt' | 'updatedAt'>) => {
+  const addEntry = async (entry: CreateDailyEntryInput) => {
     try {
       await createEntry(entry);
-      await loadEntries();
     } catch (err) {
       console.error('Error creating entry:', err);
       Alert.alert('Error', STRINGS.ERROR_CREATING_ENTRY);
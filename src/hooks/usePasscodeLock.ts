@@ -0,0 +1,13 @@
+import { useState, useEffect } from 'react';
+import { PasscodeLockState, getPasscodeLockState, subscribeToPasscodeLock } from '../api';
+
+/**
+ * Custom hook for following the passcode lock
+ */
+export const usePasscodeLock = (): PasscodeLockState => {
+  const [lockState, setLockState] = useState<PasscodeLockState>(getPasscodeLockState);
+
+  useEffect(() => subscribeToPasscodeLock(setLockState), []);
+
+  return lockState;
+};
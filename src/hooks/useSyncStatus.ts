@@ -0,0 +1,21 @@
+import { useState, useEffect } from 'react';
+import { SyncStatus, getSyncStatus, subscribeToSyncStatus, syncNow } from '../api';
+
+interface UseSyncStatusReturn {
+  status: SyncStatus;
+  syncNow: () => Promise<void>;
+}
+
+/**
+ * Custom hook for following the background sync with Firestore
+ */
+export const useSyncStatus = (): UseSyncStatusReturn => {
+  const [status, setStatus] = useState<SyncStatus>(getSyncStatus);
+
+  useEffect(() => subscribeToSyncStatus(setStatus), []);
+
+  return {
+    status,
+    syncNow,
+  };
+};
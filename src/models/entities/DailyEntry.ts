@@ -1,14 +1,31 @@
+export type CashFlowType = 'deposit' | 'withdrawal' | 'payout' | 'transfer' | 'adjustment';
+
+export type EntryType = 'trading' | CashFlowType;
+
 export interface DailyEntry {
   id: string;
   accountId: string;
+  // Firebase Auth uid of the account owner; set by the api layer on Firestore writes
+  ownerId?: string;
+  // Entries without a type are trading days
+  type?: EntryType;
   date: Date;
+  // For cash-flow transactions this is the signed amount moved in or out of the account
   profitLoss: number;
   balance: number;
   notes?: string;
+  // Set while the entry sits in the trash; trashed entries do not count towards balances
+  deletedAt?: Date;
   createdAt: Date;
   updatedAt: Date;
 }
 
-export type CreateDailyEntryInput = Omit<DailyEntry, 'id' | 'createdAt' | 'updatedAt'>;
+// Balances are derived by the api layer from initialBalance plus chronological P/L
+export type CreateDailyEntryInput = Omit<
+  DailyEntry,
+  'id' | 'ownerId' | 'balance' | 'deletedAt' | 'createdAt' | 'updatedAt'
+>;
 
-export type UpdateDailyEntryInput = Partial<Omit<DailyEntry, 'id' | 'createdAt' | 'updatedAt'>>;
+export type UpdateDailyEntryInput = Partial<
+  Omit<DailyEntry, 'id' | 'ownerId' | 'balance' | 'deletedAt' | 'createdAt' | 'updatedAt'>
+>;
@@ -0,0 +1,16 @@
+/**
+ * Exchange rate effective from a given date: 1 unit of `from` = `rate` units of `to`
+ */
+export interface FxRate {
+  id: string;
+  from: string;
+  to: string;
+  rate: number;
+  effectiveDate: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type CreateFxRateInput = Omit<FxRate, 'id' | 'createdAt' | 'updatedAt'>;
+
+export type UpdateFxRateInput = Partial<Omit<FxRate, 'id' | 'createdAt' | 'updatedAt'>>;
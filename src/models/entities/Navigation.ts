@@ -1,4 +1,5 @@
 import { TradingAccount } from './TradingAccount';
+import { DailyEntry } from './DailyEntry';
 
 export interface ChartDataPoint {
   date: string;
@@ -8,9 +9,25 @@ export interface ChartDataPoint {
 export type RootStackParamList = {
   Main: undefined;
   Dashboard: { account: TradingAccount };
+  Trades: { account: TradingAccount; entry: DailyEntry };
+  FxRates: undefined;
+  Trash: undefined;
+  Migration: undefined;
+  Profile: undefined;
+  Passcode: undefined;
+  Diagnostics: undefined;
+  // Preselects one account; every account can still be picked on the screen
+  Export: { accountId?: string } | undefined;
+  Import: { accountId: string };
+  StatementImport: { accountId: string };
+  Backup: undefined;
+  // Preselects one account; every account can still be picked on the screen
+  Report: { accountId?: string } | undefined;
+  SignIn: undefined;
 };
 
 export type RootTabParamList = {
   Accounts: undefined;
   Analytics: undefined;
+  Settings: undefined;
 };
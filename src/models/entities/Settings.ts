@@ -0,0 +1,23 @@
+// Columns a CSV export of entries can hold
+export type CsvExportColumn =
+  | 'date'
+  | 'account'
+  | 'type'
+  | 'profitLoss'
+  | 'balance'
+  | 'notes'
+  | 'currency';
+
+/**
+ * Device-local app settings
+ */
+export interface AppSettings {
+  // Currency used for every cross-account aggregate
+  baseCurrency: string;
+  // Whether archived accounts count towards analytics aggregates
+  includeArchivedInAnalytics: boolean;
+  // Days a deleted item stays in the trash before it is purged (0 keeps it forever)
+  trashRetentionDays: number;
+  // Columns picked for the last CSV export, remembered for the next one
+  csvExportColumns: CsvExportColumn[];
+}
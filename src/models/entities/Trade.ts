@@ -0,0 +1,25 @@
+export type TradeDirection = 'buy' | 'sell';
+
+export interface Trade {
+  id: string;
+  entryId: string;
+  accountId: string;
+  // Firebase Auth uid of the account owner; set by the api layer on Firestore writes
+  ownerId?: string;
+  symbol: string;
+  direction: TradeDirection;
+  lotSize: number;
+  entryPrice: number;
+  exitPrice: number;
+  stopLoss?: number;
+  takeProfit?: number;
+  openTime: Date;
+  closeTime: Date;
+  profitLoss: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type CreateTradeInput = Omit<Trade, 'id' | 'ownerId' | 'createdAt' | 'updatedAt'>;
+
+export type UpdateTradeInput = Partial<Omit<Trade, 'id' | 'ownerId' | 'createdAt' | 'updatedAt'>>;
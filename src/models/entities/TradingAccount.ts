@@ -1,19 +1,44 @@
+export type DrawdownType = 'static' | 'trailing';
+
+/**
+ * Prop-firm challenge ruleset. Limits are percentages of the initial balance.
+ */
+export interface ChallengeRules {
+  profitTargetPercent?: number;
+  maxDailyLossPercent?: number;
+  maxDrawdownPercent?: number;
+  drawdownType: DrawdownType;
+  minTradingDays?: number;
+  // Maximum share (%) of the total profit that may come from a single day
+  consistencyPercent?: number;
+}
+
 export interface TradingAccount {
   id: string;
+  // Firebase Auth uid of the user the account belongs to; set by the api layer on Firestore writes
+  ownerId?: string;
   name: string;
   broker: string;
   initialBalance: number;
   currentBalance: number;
+  // Sum of deposits, withdrawals, payouts, transfers and adjustments
+  netCashFlow?: number;
   currency: string;
+  challenge?: ChallengeRules;
+  // Retired accounts keep their history but are hidden from the active list
+  archived?: boolean;
+  archivedAt?: Date;
+  // Set while the account sits in the trash
+  deletedAt?: Date;
   createdAt: Date;
   updatedAt: Date;
 }
 
 export type CreateTradingAccountInput = Omit<
   TradingAccount,
-  'id' | 'createdAt' | 'updatedAt' | 'currentBalance'
+  'id' | 'ownerId' | 'createdAt' | 'updatedAt' | 'currentBalance' | 'netCashFlow' | 'deletedAt'
 >;
 
 export type UpdateTradingAccountInput = Partial<
-  Omit<TradingAccount, 'id' | 'createdAt' | 'updatedAt'>
+  Omit<TradingAccount, 'id' | 'ownerId' | 'createdAt' | 'updatedAt' | 'deletedAt'>
 >;
@@ -1,3 +1,6 @@
 export * from './TradingAccount';
 export * from './DailyEntry';
+export * from './Trade';
+export * from './FxRate';
+export * from './Settings';
 export * from './Navigation';
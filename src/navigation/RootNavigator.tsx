@@ -1,13 +1,42 @@
 import React from 'react';
+import { View, ActivityIndicator, StyleSheet } from 'react-native';
 import { NavigationContainer } from '@react-navigation/native';
 import { createNativeStackNavigator } from '@react-navigation/native-stack';
 import TabNavigator from './TabNavigator';
 import DashboardScreen from '../screens/DashboardScreen';
+import TradesScreen from '../screens/TradesScreen';
+import FxRatesScreen from '../screens/FxRatesScreen';
+import TrashScreen from '../screens/TrashScreen';
+import MigrationScreen from '../screens/MigrationScreen';
+import ProfileScreen from '../screens/ProfileScreen';
+import PasscodeScreen from '../screens/PasscodeScreen';
+import DiagnosticsScreen from '../screens/DiagnosticsScreen';
+import ExportScreen from '../screens/ExportScreen';
+import ImportScreen from '../screens/ImportScreen';
+import StatementImportScreen from '../screens/StatementImportScreen';
+import BackupScreen from '../screens/BackupScreen';
+import ReportScreen from '../screens/ReportScreen';
+import SignInScreen from '../screens/SignInScreen';
+import { useAuth } from '../hooks';
 import { RootStackParamList } from '../types';
+import { DARK_THEME_COLORS } from '../theme/darkTheme';
 
 const Stack = createNativeStackNavigator<RootStackParamList>();
 
 const RootNavigator: React.FC = () => {
+  const { user, initializing, signInRequired } = useAuth();
+
+  // Wait for the saved session so a signed-in user never sees the sign-in screen flash
+  if (initializing) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color={DARK_THEME_COLORS.primary} />
+      </View>
+    );
+  }
+
+  const signedIn = !signInRequired || user !== null;
+
   return (
     <NavigationContainer>
       <Stack.Navigator
@@ -15,11 +44,38 @@ const RootNavigator: React.FC = () => {
           headerShown: false,
         }}
       >
-        <Stack.Screen name="Main" component={TabNavigator} />
-        <Stack.Screen name="Dashboard" component={DashboardScreen} />
+        {signedIn ? (
+          <>
+            <Stack.Screen name="Main" component={TabNavigator} />
+            <Stack.Screen name="Dashboard" component={DashboardScreen} />
+            <Stack.Screen name="Trades" component={TradesScreen} />
+            <Stack.Screen name="FxRates" component={FxRatesScreen} />
+            <Stack.Screen name="Trash" component={TrashScreen} />
+            <Stack.Screen name="Migration" component={MigrationScreen} />
+            <Stack.Screen name="Profile" component={ProfileScreen} />
+            <Stack.Screen name="Passcode" component={PasscodeScreen} />
+            <Stack.Screen name="Diagnostics" component={DiagnosticsScreen} />
+            <Stack.Screen name="Export" component={ExportScreen} />
+            <Stack.Screen name="Import" component={ImportScreen} />
+            <Stack.Screen name="StatementImport" component={StatementImportScreen} />
+            <Stack.Screen name="Backup" component={BackupScreen} />
+            <Stack.Screen name="Report" component={ReportScreen} />
+          </>
+        ) : (
+          <Stack.Screen name="SignIn" component={SignInScreen} />
+        )}
       </Stack.Navigator>
     </NavigationContainer>
   );
 };
 
+const styles = StyleSheet.create({
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: DARK_THEME_COLORS.background,
+  },
+});
+
 export default RootNavigator;
@@ -9,6 +9,7 @@ import {
   TouchableOpacity,
   Alert,
   ActivityIndicator,
+  ScrollView,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { MaterialIcons } from '@expo/vector-icons';
@@ -18,10 +19,49 @@ import { BottomTabScreenProps } from '@react-navigation/bottom-tabs';
 import { useFocusEffect } from '@react-navigation/native';
 import AccountCard from '../components/AccountCard';
 import Button from '../components/Button';
+import UndoSnackbar from '../components/UndoSnackbar';
+import SyncStatusIndicator from '../components/SyncStatusIndicator';
+import ChallengeRulesForm, {
+  ChallengeRulesFormValues,
+  EMPTY_CHALLENGE_FORM,
+  parseChallengeRules,
+  toChallengeFormValues,
+} from '../components/ChallengeRulesForm';
 import { TradingAccount, RootStackParamList, RootTabParamList } from '../types';
-import { getAllAccounts, createAccount, deleteAccount } from '../api';
+import {
+  subscribeToAccounts,
+  createAccount,
+  updateAccount,
+  deleteAccount,
+  restoreAccount,
+  purgeExpiredTrash,
+  archiveAccount,
+  unarchiveAccount,
+  getEntriesByAccount,
+  getLocalMigrationStatus,
+  LocalMigrationStatus,
+  StorageReadError,
+  isSignInRequired,
+} from '../api';
+import { useSyncStatus } from '../hooks';
+import { evaluateChallenge, ChallengeEvaluation } from '../utils/challenge';
+import { CURRENCIES, STRINGS } from '../constants';
 import { DARK_THEME_COLORS } from '../theme/darkTheme';
 
+interface AccountForm {
+  name: string;
+  broker: string;
+  initialBalance: string;
+  currency: string;
+}
+
+const EMPTY_ACCOUNT_FORM: AccountForm = {
+  name: '',
+  broker: '',
+  initialBalance: '',
+  currency: 'USD',
+};
+
 type AccountsScreenProps = CompositeScreenProps<
   BottomTabScreenProps<RootTabParamList, 'Accounts'>,
   NativeStackScreenProps<RootStackParamList>
@@ -29,39 +69,83 @@ type AccountsScreenProps = CompositeScreenProps<
 
 const AccountsScreen: React.FC<AccountsScreenProps> = ({ navigation }) => {
   const [accounts, setAccounts] = useState<TradingAccount[]>([]);
+  const [challenges, setChallenges] = useState<Record<string, ChallengeEvaluation | null>>({});
   const [loading, setLoading] = useState(true);
+  const [showArchived, setShowArchived] = useState(false);
   const [modalVisible, setModalVisible] = useState(false);
-  const [newAccount, setNewAccount] = useState({
-    name: '',
-    broker: '',
-    initialBalance: '',
-    currency: 'USD',
-  });
+  const [editingAccount, setEditingAccount] = useState<TradingAccount | null>(null);
+  const [accountForm, setAccountForm] = useState<AccountForm>(EMPTY_ACCOUNT_FORM);
+  const [challengeForm, setChallengeForm] = useState<ChallengeRulesFormValues>(EMPTY_CHALLENGE_FORM);
   const [saving, setSaving] = useState(false);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  // Most recently trashed account, offered for undo
+  const [trashedAccount, setTrashedAccount] = useState<TradingAccount | null>(null);
+  const { status: syncStatus, syncNow } = useSyncStatus();
+  const [migrationStatus, setMigrationStatus] = useState<LocalMigrationStatus | null>(null);
 
-  const loadAccounts = useCallback(async () => {
-    try {
-      setLoading(true);
-      const fetchedAccounts = await getAllAccounts();
-      setAccounts(fetchedAccounts);
-    } catch (error) {
-      console.error('Error loading accounts:', error);
-      Alert.alert('Error', 'Failed to load accounts');
-    } finally {
-      setLoading(false);
-    }
-  }, []);
+  // The list stays live: writes from this device, other screens and synced devices all land here
+  useEffect(
+    () =>
+      subscribeToAccounts(
+        (nextAccounts) => {
+          setAccounts(nextAccounts);
+          setLoading(false);
+        },
+        (error) => {
+          console.error('Error loading accounts:', error);
+          setLoading(false);
+          if (error instanceof StorageReadError) {
+            Alert.alert('Saved Data Unreadable', STRINGS.ERROR_STORAGE_UNREADABLE);
+            return;
+          }
+          Alert.alert('Error', 'Failed to load accounts');
+        }
+      ),
+    []
+  );
+
+  // Evaluate challenge rules against each challenge account's history.
+  // Entry changes update the account balance, so they re-run this too.
+  useEffect(() => {
+    let cancelled = false;
+    const evaluations: Record<string, ChallengeEvaluation | null> = {};
+    Promise.all(
+      accounts
+        .filter((account) => account.challenge)
+        .map(async (account) => {
+          const entries = await getEntriesByAccount(account.id);
+          evaluations[account.id] = evaluateChallenge(account, entries);
+        })
+    )
+      .then(() => {
+        if (!cancelled) {
+          setChallenges(evaluations);
+        }
+      })
+      .catch((error) => {
+        console.error('Error evaluating challenges:', error);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [accounts]);
 
+  // Drop trashed items past the retention period once per app start
   useEffect(() => {
-    loadAccounts();
-  }, [loadAccounts]);
+    purgeExpiredTrash().catch((error) => {
+      console.error('Error purging expired trash:', error);
+    });
+  }, []);
 
-  // Reload accounts when screen comes into focus
+  // Check for local-mode data to move whenever the screen comes into focus
   useFocusEffect(
     useCallback(() => {
-      loadAccounts();
-    }, [loadAccounts])
+      getLocalMigrationStatus()
+        .then(setMigrationStatus)
+        .catch((error) => {
+          console.error('Error checking local data:', error);
+        });
+    }, [])
   );
 
   useEffect(() => {
@@ -77,33 +161,99 @@ const AccountsScreen: React.FC<AccountsScreenProps> = ({ navigation }) => {
     setSuccessMessage(message);
   };
 
-  const handleCreateAccount = async () => {
-    if (!newAccount.name || !newAccount.broker || !newAccount.initialBalance) {
+  const openCreateModal = () => {
+    setEditingAccount(null);
+    setAccountForm(EMPTY_ACCOUNT_FORM);
+    setChallengeForm(EMPTY_CHALLENGE_FORM);
+    setModalVisible(true);
+  };
+
+  const openEditModal = (account: TradingAccount) => {
+    setEditingAccount(account);
+    setAccountForm({
+      name: account.name,
+      broker: account.broker,
+      initialBalance: account.initialBalance.toString(),
+      currency: account.currency,
+    });
+    setChallengeForm(toChallengeFormValues(account.challenge));
+    setModalVisible(true);
+  };
+
+  const closeModal = () => {
+    setModalVisible(false);
+    setEditingAccount(null);
+  };
+
+  const handleSaveAccount = async () => {
+    const name = accountForm.name.trim();
+    const broker = accountForm.broker.trim();
+    if (!name || !broker || !accountForm.initialBalance) {
       Alert.alert('Error', 'Please fill in all fields');
       return;
     }
 
-    const balance = parseFloat(newAccount.initialBalance);
+    const balance = parseFloat(accountForm.initialBalance);
     if (isNaN(balance) || balance < 0) {
       Alert.alert('Error', 'Please enter a valid balance');
       return;
     }
 
+    const challenge = parseChallengeRules(challengeForm);
+    if (challenge === null) {
+      Alert.alert('Error', 'Please enter valid challenge rules');
+      return;
+    }
+
     try {
       setSaving(true);
-      await createAccount({
-        name: newAccount.name,
-        broker: newAccount.broker,
-        initialBalance: balance,
-        currency: newAccount.currency,
-      });
-      setModalVisible(false);
-      setNewAccount({ name: '', broker: '', initialBalance: '', currency: 'USD' });
-      await loadAccounts();
-      showSuccessMessage('Account created successfully!');
+      if (editingAccount) {
+        await updateAccount(editingAccount.id, {
+          name,
+          broker,
+          currency: accountForm.currency,
+          challenge,
+          // Only touch the initial balance when it changed, since that re-derives every entry balance
+          ...(balance !== editingAccount.initialBalance ? { initialBalance: balance } : {}),
+        });
+      } else {
+        await createAccount({
+          name,
+          broker,
+          initialBalance: balance,
+          currency: accountForm.currency,
+          challenge,
+        });
+      }
+      closeModal();
+      setAccountForm(EMPTY_ACCOUNT_FORM);
+      setChallengeForm(EMPTY_CHALLENGE_FORM);
+      showSuccessMessage(
+        editingAccount ? 'Account updated successfully!' : 'Account created successfully!'
+      );
+    } catch (error) {
+      console.error('Error saving account:', error);
+      Alert.alert('Error', editingAccount ? 'Failed to update account' : 'Failed to create account');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleArchived = async (account: TradingAccount) => {
+    try {
+      setSaving(true);
+      if (account.archived) {
+        await unarchiveAccount(account.id);
+      } else {
+        await archiveAccount(account.id);
+      }
+      closeModal();
+      showSuccessMessage(
+        account.archived ? 'Account restored successfully!' : 'Account archived successfully!'
+      );
     } catch (error) {
-      console.error('Error creating account:', error);
-      Alert.alert('Error', 'Failed to create account');
+      console.error('Error archiving account:', error);
+      Alert.alert('Error', 'Failed to update account');
     } finally {
       setSaving(false);
     }
@@ -112,7 +262,7 @@ const AccountsScreen: React.FC<AccountsScreenProps> = ({ navigation }) => {
   const handleDeleteAccount = (account: TradingAccount) => {
     Alert.alert(
       'Delete Account',
-      `Are you sure you want to delete "${account.name}"? This will also delete all associated entries.`,
+      `Move "${account.name}" and its entries to the trash? You can restore it later from the trash.`,
       [
         { text: 'Cancel', style: 'cancel' },
         {
@@ -121,8 +271,8 @@ const AccountsScreen: React.FC<AccountsScreenProps> = ({ navigation }) => {
           onPress: async () => {
             try {
               await deleteAccount(account.id);
-              await loadAccounts();
-              showSuccessMessage('Account deleted successfully!');
+              closeModal();
+              setTrashedAccount(account);
             } catch (error) {
               console.error('Error deleting account:', error);
               Alert.alert('Error', 'Failed to delete account');
@@ -133,10 +283,36 @@ const AccountsScreen: React.FC<AccountsScreenProps> = ({ navigation }) => {
     );
   };
 
+  const handleUndoDelete = async () => {
+    if (!trashedAccount) {
+      return;
+    }
+    const account = trashedAccount;
+    setTrashedAccount(null);
+    try {
+      await restoreAccount(account.id);
+      showSuccessMessage('Account restored successfully!');
+    } catch (error) {
+      console.error('Error restoring account:', error);
+      Alert.alert('Error', 'Failed to restore account');
+    }
+  };
+
+  const dismissUndo = useCallback(() => {
+    setTrashedAccount(null);
+  }, []);
+
   const handleAccountPress = (account: TradingAccount) => {
     navigation.navigate('Dashboard', { account });
   };
 
+  const archivedCount = accounts.filter((account) => account.archived).length;
+  // Fall back to the active list once the last archived account is restored
+  const viewingArchived = showArchived && archivedCount > 0;
+  const visibleAccounts = accounts.filter(
+    (account) => Boolean(account.archived) === viewingArchived
+  );
+
   if (loading) {
     return (
       <SafeAreaView style={styles.loadingContainer}>
@@ -156,30 +332,97 @@ const AccountsScreen: React.FC<AccountsScreenProps> = ({ navigation }) => {
       
       <View style={styles.header}>
         <Text style={styles.title}>Trading Accounts</Text>
+        <View style={styles.headerActions}>
+          <SyncStatusIndicator status={syncStatus} onPress={syncNow} />
+          {isSignInRequired() && (
+            <TouchableOpacity
+              style={styles.addButton}
+              onPress={() => navigation.navigate('Profile')}
+            >
+              <MaterialIcons name="account-circle" size={26} color="#8E8E93" />
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity
+            style={styles.addButton}
+            onPress={() => navigation.navigate('Trash')}
+          >
+            <MaterialIcons name="delete-outline" size={26} color="#8E8E93" />
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.addButton}
+            onPress={openCreateModal}
+          >
+            <MaterialIcons name="add" size={28} color="#007AFF" />
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      {migrationStatus?.pending && (
         <TouchableOpacity
-          style={styles.addButton}
-          onPress={() => setModalVisible(true)}
+          style={styles.migrationBanner}
+          onPress={() => navigation.navigate('Migration')}
         >
-          <MaterialIcons name="add" size={28} color="#007AFF" />
+          <MaterialIcons name="cloud-upload" size={22} color={DARK_THEME_COLORS.primary} />
+          <Text style={styles.migrationText}>
+            {migrationStatus.accounts} accounts saved on this device are not in Firebase yet.
+            Tap to upload them.
+          </Text>
+          <MaterialIcons name="chevron-right" size={22} color={DARK_THEME_COLORS.textSecondary} />
         </TouchableOpacity>
-      </View>
+      )}
+
+      {archivedCount > 0 && (
+        <View style={styles.filterRow}>
+          {[false, true].map((archived) => (
+            <TouchableOpacity
+              key={archived ? 'archived' : 'active'}
+              style={[
+                styles.filterButton,
+                viewingArchived === archived && styles.filterButtonActive,
+              ]}
+              onPress={() => setShowArchived(archived)}
+            >
+              <Text
+                style={[
+                  styles.filterButtonText,
+                  viewingArchived === archived && styles.filterButtonTextActive,
+                ]}
+              >
+                {archived
+                  ? `Archived (${archivedCount})`
+                  : `Active (${accounts.length - archivedCount})`}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
 
-      {accounts.length === 0 ? (
+      {visibleAccounts.length === 0 ? (
         <View style={styles.emptyContainer}>
-          <MaterialIcons name="account-balance-wallet" size={64} color="#E5E5EA" />
-          <Text style={styles.emptyText}>No accounts yet</Text>
+          <MaterialIcons
+            name={viewingArchived ? 'archive' : 'account-balance-wallet'}
+            size={64}
+            color="#E5E5EA"
+          />
+          <Text style={styles.emptyText}>
+            {viewingArchived ? 'No archived accounts' : 'No accounts yet'}
+          </Text>
           <Text style={styles.emptySubtext}>
-            Tap the + button to create your first trading account
+            {viewingArchived
+              ? 'Archived accounts keep their history and can be restored at any time'
+              : 'Tap the + button to create your first trading account'}
           </Text>
         </View>
       ) : (
         <FlatList
-          data={accounts}
+          data={visibleAccounts}
           keyExtractor={(item) => item.id}
           renderItem={({ item }) => (
             <AccountCard
               account={item}
               onPress={() => handleAccountPress(item)}
+              onEdit={() => openEditModal(item)}
+              challenge={challenges[item.id]}
             />
           )}
           contentContainerStyle={styles.list}
@@ -187,84 +430,122 @@ const AccountsScreen: React.FC<AccountsScreenProps> = ({ navigation }) => {
         />
       )}
 
+      <UndoSnackbar
+        message={trashedAccount ? `"${trashedAccount.name}" moved to trash` : null}
+        onUndo={handleUndoDelete}
+        onDismiss={dismissUndo}
+      />
+
       <Modal
         visible={modalVisible}
         animationType="slide"
         transparent={true}
-        onRequestClose={() => setModalVisible(false)}
+        onRequestClose={closeModal}
       >
         <View style={styles.modalOverlay}>
           <View style={styles.modalContent}>
             <View style={styles.modalHeader}>
-              <Text style={styles.modalTitle}>New Account</Text>
-              <TouchableOpacity onPress={() => setModalVisible(false)}>
+              <Text style={styles.modalTitle}>
+                {editingAccount ? 'Edit Account' : 'New Account'}
+              </Text>
+              <TouchableOpacity onPress={closeModal}>
                 <MaterialIcons name="close" size={24} color="#8E8E93" />
               </TouchableOpacity>
             </View>
 
-            <TextInput
-              style={styles.input}
-              placeholder="Account Name"
-              value={newAccount.name}
-              onChangeText={(text) =>
-                setNewAccount({ ...newAccount, name: text })
-              }
-            />
+            <ScrollView showsVerticalScrollIndicator={false}>
+              <TextInput
+                style={styles.input}
+                placeholder="Account Name"
+                value={accountForm.name}
+                onChangeText={(text) =>
+                  setAccountForm({ ...accountForm, name: text })
+                }
+              />
 
-            <TextInput
-              style={styles.input}
-              placeholder="Broker"
-              value={newAccount.broker}
-              onChangeText={(text) =>
-                setNewAccount({ ...newAccount, broker: text })
-              }
-            />
+              <TextInput
+                style={styles.input}
+                placeholder="Broker"
+                value={accountForm.broker}
+                onChangeText={(text) =>
+                  setAccountForm({ ...accountForm, broker: text })
+                }
+              />
 
-            <TextInput
-              style={styles.input}
-              placeholder="Initial Balance"
-              value={newAccount.initialBalance}
-              onChangeText={(text) =>
-                setNewAccount({ ...newAccount, initialBalance: text })
-              }
-              keyboardType="numeric"
-            />
+              <TextInput
+                style={styles.input}
+                placeholder="Initial Balance"
+                value={accountForm.initialBalance}
+                onChangeText={(text) =>
+                  setAccountForm({ ...accountForm, initialBalance: text })
+                }
+                keyboardType="numeric"
+              />
 
-            <View style={styles.currencyContainer}>
-              <Text style={styles.label}>Currency</Text>
-              <View style={styles.currencyButtons}>
-                {['USD', 'EUR', 'GBP'].map((curr) => (
-                  <TouchableOpacity
-                    key={curr}
-                    style={[
-                      styles.currencyButton,
-                      newAccount.currency === curr &&
-                        styles.currencyButtonActive,
-                    ]}
-                    onPress={() =>
-                      setNewAccount({ ...newAccount, currency: curr })
-                    }
-                  >
-                    <Text
+              <View style={styles.currencyContainer}>
+                <Text style={styles.label}>Currency</Text>
+                <View style={styles.currencyButtons}>
+                  {CURRENCIES.map((curr) => (
+                    <TouchableOpacity
+                      key={curr}
                       style={[
-                        styles.currencyButtonText,
-                        newAccount.currency === curr &&
-                          styles.currencyButtonTextActive,
+                        styles.currencyButton,
+                        accountForm.currency === curr &&
+                          styles.currencyButtonActive,
                       ]}
+                      onPress={() =>
+                        setAccountForm({ ...accountForm, currency: curr })
+                      }
                     >
-                      {curr}
-                    </Text>
-                  </TouchableOpacity>
-                ))}
+                      <Text
+                        style={[
+                          styles.currencyButtonText,
+                          accountForm.currency === curr &&
+                            styles.currencyButtonTextActive,
+                        ]}
+                      >
+                        {curr}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
               </View>
-            </View>
 
-            <Button
-              title="Create Account"
-              onPress={handleCreateAccount}
-              loading={saving}
-              style={styles.createButton}
-            />
+              {editingAccount &&
+                Number(accountForm.initialBalance) !== editingAccount.initialBalance && (
+                  <Text style={styles.hint}>
+                    Changing the initial balance recalculates the balance of every entry
+                  </Text>
+                )}
+
+              <ChallengeRulesForm values={challengeForm} onChange={setChallengeForm} />
+
+              <Button
+                title={editingAccount ? 'Save Changes' : 'Create Account'}
+                onPress={handleSaveAccount}
+                loading={saving}
+                style={styles.createButton}
+              />
+
+              {editingAccount && (
+                <Button
+                  title={editingAccount.archived ? 'Unarchive Account' : 'Archive Account'}
+                  variant="secondary"
+                  onPress={() => handleToggleArchived(editingAccount)}
+                  disabled={saving}
+                  style={styles.actionButton}
+                />
+              )}
+
+              {editingAccount && (
+                <Button
+                  title="Delete Account"
+                  variant="danger"
+                  onPress={() => handleDeleteAccount(editingAccount)}
+                  style={styles.actionButton}
+                />
+              )}
+            </ScrollView>
           </View>
         </View>
       </Modal>
@@ -308,9 +589,50 @@ const styles = StyleSheet.create({
     fontWeight: '700',
     color: DARK_THEME_COLORS.text,
   },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
   addButton: {
     padding: 8,
   },
+  migrationBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginHorizontal: 16,
+    marginBottom: 8,
+    padding: 12,
+    borderRadius: 12,
+    backgroundColor: DARK_THEME_COLORS.backgroundSecondary,
+  },
+  migrationText: {
+    flex: 1,
+    fontSize: 14,
+    color: DARK_THEME_COLORS.text,
+  },
+  filterRow: {
+    flexDirection: 'row',
+    gap: 8,
+    paddingHorizontal: 16,
+  },
+  filterButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: DARK_THEME_COLORS.backgroundTertiary,
+  },
+  filterButtonActive: {
+    backgroundColor: DARK_THEME_COLORS.primary,
+  },
+  filterButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: DARK_THEME_COLORS.textSecondary,
+  },
+  filterButtonTextActive: {
+    color: '#FFFFFF',
+  },
   list: {
     padding: 16,
   },
@@ -343,6 +665,7 @@ const styles = StyleSheet.create({
     borderTopRightRadius: 20,
     padding: 24,
     minHeight: 400,
+    maxHeight: '90%',
   },
   modalHeader: {
     flexDirection: 'row',
@@ -396,6 +719,15 @@ const styles = StyleSheet.create({
   currencyButtonTextActive: {
     color: '#FFFFFF',
   },
+  hint: {
+    fontSize: 12,
+    color: DARK_THEME_COLORS.textSecondary,
+    marginTop: -8,
+    marginBottom: 16,
+  },
+  actionButton: {
+    marginTop: 12,
+  },
   createButton: {
     marginTop: 8,
   },
@@ -1,28 +1,53 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useCallback } from 'react';
 import {
   View,
   Text,
   StyleSheet,
   ActivityIndicator,
   ScrollView,
+  TouchableOpacity,
+  Switch,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { MaterialIcons } from '@expo/vector-icons';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { CompositeScreenProps, useFocusEffect } from '@react-navigation/native';
+import { BottomTabScreenProps } from '@react-navigation/bottom-tabs';
 import { getAccounts, getEntriesByAccount } from '../services/firestore';
-import { TradingAccount, DailyEntry } from '../types';
+import { getSettings, updateSettings, getFxRates } from '../api';
+import { TradingAccount, DailyEntry, RootStackParamList, RootTabParamList } from '../types';
 import PnLChart from '../components/PnLChart';
 import Statistics from '../components/Statistics';
 import {
   formatCurrency,
   calculateTotalProfitLoss,
   calculateWinRate,
+  calculateAccountProfitLoss,
+  getTradingEntries,
 } from '../utils/helpers';
+import {
+  convertAmount,
+  convertEntries,
+  findUnconvertibleCurrencies,
+} from '../utils/currency';
+import { DEFAULTS } from '../constants';
 import { DARK_THEME_COLORS } from '../theme/darkTheme';
 
-const AnalyticsScreen: React.FC = () => {
+type AnalyticsScreenProps = CompositeScreenProps<
+  BottomTabScreenProps<RootTabParamList, 'Analytics'>,
+  NativeStackScreenProps<RootStackParamList>
+>;
+
+const AnalyticsScreen: React.FC<AnalyticsScreenProps> = ({ navigation }) => {
   const [loading, setLoading] = useState(true);
   const [accounts, setAccounts] = useState<TradingAccount[]>([]);
   const [allEntries, setAllEntries] = useState<DailyEntry[]>([]);
+  const [baseCurrency, setBaseCurrency] = useState<string>(DEFAULTS.BASE_CURRENCY);
+  const [missingCurrencies, setMissingCurrencies] = useState<string[]>([]);
+  const [includeArchived, setIncludeArchived] = useState(false);
+  const [archivedCount, setArchivedCount] = useState(0);
+  // Account balances converted into the base currency (null when no rate is known)
+  const [convertedBalances, setConvertedBalances] = useState<Record<string, number | null>>({});
   const [stats, setStats] = useState({
     totalBalance: 0,
     totalProfitLoss: 0,
@@ -32,38 +57,68 @@ const AnalyticsScreen: React.FC = () => {
     worstDay: 0,
   });
 
-  useEffect(() => {
-    loadAnalytics();
-  }, []);
-
-  const loadAnalytics = async () => {
+  const loadAnalytics = useCallback(async () => {
     try {
       setLoading(true);
-      const fetchedAccounts = await getAccounts();
+      const [allAccounts, settings, rates] = await Promise.all([
+        getAccounts(),
+        getSettings(),
+        getFxRates(),
+      ]);
+      const base = settings.baseCurrency;
+      setBaseCurrency(base);
+      setIncludeArchived(settings.includeArchivedInAnalytics);
+      setArchivedCount(allAccounts.filter((account) => account.archived).length);
+
+      const fetchedAccounts = settings.includeArchivedInAnalytics
+        ? allAccounts
+        : allAccounts.filter((account) => !account.archived);
       setAccounts(fetchedAccounts);
 
-      const entriesPromises = fetchedAccounts.map((account) =>
-        getEntriesByAccount(account.id)
+      // Accounts in a currency without any FX rate to the base currency are left out
+      const missing = findUnconvertibleCurrencies(fetchedAccounts, rates, base);
+      setMissingCurrencies(missing);
+      const convertibleAccounts = fetchedAccounts.filter(
+        (account) => !missing.includes(account.currency)
       );
+
+      const entriesPromises = convertibleAccounts.map(async (account) => {
+        const entries = await getEntriesByAccount(account.id);
+        // Each entry is converted at the rate effective on its own date
+        return convertEntries(entries, rates, account.currency, base) ?? [];
+      });
       const entriesResults = await Promise.all(entriesPromises);
       const combined = entriesResults.flat();
       setAllEntries(combined);
 
-      const totalBalance = fetchedAccounts.reduce(
-        (sum, account) => sum + account.currentBalance,
+      const balances: Record<string, number | null> = {};
+      fetchedAccounts.forEach((account) => {
+        balances[account.id] = convertAmount(
+          account.currentBalance,
+          rates,
+          account.currency,
+          base
+        );
+      });
+      setConvertedBalances(balances);
+
+      const totalBalance = convertibleAccounts.reduce(
+        (sum, account) => sum + (balances[account.id] ?? 0),
         0
       );
       const totalPL = calculateTotalProfitLoss(combined);
       const winRate = calculateWinRate(combined);
-      
-      const profitLosses = combined.map((entry) => entry.profitLoss);
+
+      // Deposits, withdrawals and other cash flows are not trading days
+      const tradingEntries = getTradingEntries(combined);
+      const profitLosses = tradingEntries.map((entry) => entry.profitLoss);
       const bestDay = profitLosses.length > 0 ? Math.max(...profitLosses) : 0;
       const worstDay = profitLosses.length > 0 ? Math.min(...profitLosses) : 0;
 
       setStats({
         totalBalance,
         totalProfitLoss: totalPL,
-        totalTrades: combined.length,
+        totalTrades: tradingEntries.length,
         winRate,
         bestDay,
         worstDay,
@@ -73,8 +128,25 @@ const AnalyticsScreen: React.FC = () => {
     } finally {
       setLoading(false);
     }
+  }, []);
+
+  const handleIncludeArchivedChange = async (value: boolean) => {
+    try {
+      setIncludeArchived(value);
+      await updateSettings({ includeArchivedInAnalytics: value });
+      await loadAnalytics();
+    } catch (error) {
+      console.error('Error updating analytics settings:', error);
+    }
   };
 
+  // Reload when returning from the FX rates screen or after journal changes
+  useFocusEffect(
+    useCallback(() => {
+      loadAnalytics();
+    }, [loadAnalytics])
+  );
+
   if (loading) {
     return (
       <SafeAreaView style={styles.loadingContainer}>
@@ -89,12 +161,47 @@ const AnalyticsScreen: React.FC = () => {
         contentContainerStyle={styles.scrollContent}
         showsVerticalScrollIndicator={false}
       >
-        <Text style={styles.title}>Analytics</Text>
+        <View style={styles.titleRow}>
+          <Text style={styles.title}>Analytics</Text>
+          <TouchableOpacity
+            style={styles.currencyChip}
+            onPress={() => navigation.navigate('FxRates')}
+          >
+            <MaterialIcons name="currency-exchange" size={16} color="#007AFF" />
+            <Text style={styles.currencyChipText}>{baseCurrency}</Text>
+          </TouchableOpacity>
+        </View>
+
+        {archivedCount > 0 && (
+          <View style={styles.toggleRow}>
+            <Text style={styles.toggleLabel}>
+              Include archived accounts ({archivedCount})
+            </Text>
+            <Switch
+              value={includeArchived}
+              onValueChange={handleIncludeArchivedChange}
+              trackColor={{ true: DARK_THEME_COLORS.primary }}
+            />
+          </View>
+        )}
+
+        {missingCurrencies.length > 0 && (
+          <TouchableOpacity
+            style={styles.warningBanner}
+            onPress={() => navigation.navigate('FxRates')}
+          >
+            <MaterialIcons name="warning" size={20} color="#FF9500" />
+            <Text style={styles.warningText}>
+              No FX rate from {missingCurrencies.join(', ')} to {baseCurrency}. Those
+              accounts are excluded from totals. Tap to add rates.
+            </Text>
+          </TouchableOpacity>
+        )}
 
         {allEntries.length > 0 && (
           <>
-            <PnLChart entries={allEntries} darkMode={true} />
-            <Statistics entries={allEntries} darkMode={true} />
+            <PnLChart entries={allEntries} currency={baseCurrency} darkMode={true} />
+            <Statistics entries={allEntries} currency={baseCurrency} darkMode={true} />
           </>
         )}
 
@@ -107,7 +214,7 @@ const AnalyticsScreen: React.FC = () => {
           <View style={styles.statRow}>
             <Text style={styles.statLabel}>Total Balance</Text>
             <Text style={styles.statValue}>
-              {formatCurrency(stats.totalBalance)}
+              {formatCurrency(stats.totalBalance, baseCurrency)}
             </Text>
           </View>
 
@@ -120,13 +227,15 @@ const AnalyticsScreen: React.FC = () => {
               ]}
             >
               {stats.totalProfitLoss >= 0 ? '+' : ''}
-              {formatCurrency(stats.totalProfitLoss)}
+              {formatCurrency(stats.totalProfitLoss, baseCurrency)}
             </Text>
           </View>
 
           <View style={styles.statRow}>
             <Text style={styles.statLabel}>Active Accounts</Text>
-            <Text style={styles.statValue}>{accounts.length}</Text>
+            <Text style={styles.statValue}>
+              {accounts.filter((account) => !account.archived).length}
+            </Text>
           </View>
         </View>
 
@@ -151,14 +260,14 @@ const AnalyticsScreen: React.FC = () => {
           <View style={styles.statRow}>
             <Text style={styles.statLabel}>Best Day</Text>
             <Text style={[styles.statValue, styles.profit]}>
-              +{formatCurrency(stats.bestDay)}
+              +{formatCurrency(stats.bestDay, baseCurrency)}
             </Text>
           </View>
 
           <View style={styles.statRow}>
             <Text style={styles.statLabel}>Worst Day</Text>
             <Text style={[styles.statValue, styles.loss]}>
-              {formatCurrency(stats.worstDay)}
+              {formatCurrency(stats.worstDay, baseCurrency)}
             </Text>
           </View>
         </View>
@@ -171,7 +280,7 @@ const AnalyticsScreen: React.FC = () => {
             </View>
 
             {accounts.map((account) => {
-              const accountPL = account.currentBalance - account.initialBalance;
+              const accountPL = calculateAccountProfitLoss(account);
               const accountPLPercent = account.initialBalance !== 0
                 ? ((accountPL / account.initialBalance) * 100).toFixed(2)
                 : '0.00';
@@ -179,10 +288,18 @@ const AnalyticsScreen: React.FC = () => {
               return (
                 <View key={account.id} style={styles.accountRow}>
                   <View style={styles.accountInfo}>
-                    <Text style={styles.accountName}>{account.name}</Text>
+                    <Text style={styles.accountName}>
+                      {account.name}
+                      {account.archived ? ' (archived)' : ''}
+                    </Text>
                     <Text style={styles.accountBalance}>
                       {formatCurrency(account.currentBalance, account.currency)}
                     </Text>
+                    {account.currency !== baseCurrency && convertedBalances[account.id] != null && (
+                      <Text style={styles.accountConverted}>
+                        ≈ {formatCurrency(convertedBalances[account.id] as number, baseCurrency)}
+                      </Text>
+                    )}
                   </View>
                   <View style={styles.accountPL}>
                     <Text
@@ -237,11 +354,58 @@ const styles = StyleSheet.create({
   scrollContent: {
     padding: 16,
   },
+  titleRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 20,
+  },
   title: {
     fontSize: 32,
     fontWeight: '700',
     color: DARK_THEME_COLORS.text,
-    marginBottom: 20,
+  },
+  toggleRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    backgroundColor: DARK_THEME_COLORS.backgroundSecondary,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    marginBottom: 16,
+  },
+  toggleLabel: {
+    fontSize: 14,
+    color: DARK_THEME_COLORS.text,
+  },
+  currencyChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: DARK_THEME_COLORS.backgroundSecondary,
+  },
+  currencyChipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: DARK_THEME_COLORS.primary,
+  },
+  warningBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: DARK_THEME_COLORS.backgroundSecondary,
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 16,
+  },
+  warningText: {
+    flex: 1,
+    fontSize: 14,
+    color: DARK_THEME_COLORS.textSecondary,
   },
   card: {
     backgroundColor: DARK_THEME_COLORS.backgroundSecondary,
@@ -309,6 +473,11 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: DARK_THEME_COLORS.textSecondary,
   },
+  accountConverted: {
+    fontSize: 12,
+    color: DARK_THEME_COLORS.textTertiary,
+    marginTop: 2,
+  },
   accountPL: {
     alignItems: 'flex-end',
   },
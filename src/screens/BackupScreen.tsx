@@ -0,0 +1,453 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+  ScrollView,
+  Switch,
+  TextInput,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { MaterialIcons } from '@expo/vector-icons';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import Button from '../components/Button';
+import { RootStackParamList } from '../types';
+import {
+  exportJournalBackup,
+  isEncryptedBackup,
+  readBackup,
+  previewRestore,
+  restoreBackup,
+  JournalBackup,
+  RestoreMode,
+  RestorePreview,
+  RestoreCounts,
+  ValidationError,
+  InvalidBackupPasswordError,
+} from '../api';
+import { pickTextFile, shareTextFile } from '../utils/files';
+import { formatDateTime } from '../utils/helpers';
+import { DARK_THEME_COLORS } from '../theme/darkTheme';
+import { DEFAULTS } from '../constants';
+
+type BackupScreenProps = NativeStackScreenProps<RootStackParamList, 'Backup'>;
+
+const BACKUP_MIME_TYPES = ['application/json', 'text/plain'];
+
+const RECORD_LABELS: { key: 'accounts' | 'entries' | 'trades'; label: string }[] = [
+  { key: 'accounts', label: 'Accounts' },
+  { key: 'entries', label: 'Entries' },
+  { key: 'trades', label: 'Trades' },
+];
+
+/**
+ * Summarize the changes to one kind of record
+ */
+const describeCounts = (counts: RestoreCounts, mode: RestoreMode): string => {
+  const parts = [`${counts.added} added`, `${counts.overwritten} overwritten`];
+  if (mode === 'replace') {
+    parts.push(`${counts.removed} removed`);
+  } else {
+    parts.push(`${counts.kept} kept`);
+    if (counts.skipped > 0) {
+      parts.push(`${counts.skipped} skipped`);
+    }
+  }
+  return parts.join(', ');
+};
+
+const BackupScreen: React.FC<BackupScreenProps> = ({ navigation }) => {
+  const [exporting, setExporting] = useState(false);
+  const [encrypt, setEncrypt] = useState(false);
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  // Content of a picked backup that is encrypted and waits for its password
+  const [lockedFile, setLockedFile] = useState<string | null>(null);
+  const [unlockPassword, setUnlockPassword] = useState('');
+  const [unlocking, setUnlocking] = useState(false);
+  const [backup, setBackup] = useState<JournalBackup | null>(null);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [preview, setPreview] = useState<RestorePreview | null>(null);
+  const [restoring, setRestoring] = useState(false);
+
+  useEffect(() => {
+    if (!backup) {
+      return;
+    }
+    let cancelled = false;
+    setPreview(null);
+    previewRestore(backup, mode)
+      .then((result) => {
+        if (!cancelled) {
+          setPreview(result);
+        }
+      })
+      .catch((error) => {
+        console.error('Error previewing restore:', error);
+        Alert.alert('Error', 'Failed to compare the backup with the journal');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [backup, mode]);
+
+  const handleExport = async () => {
+    if (encrypt && password !== confirmPassword) {
+      Alert.alert('Error', 'The passwords do not match');
+      return;
+    }
+    try {
+      setExporting(true);
+      await shareTextFile(await exportJournalBackup(encrypt ? password : undefined));
+      setPassword('');
+      setConfirmPassword('');
+    } catch (error) {
+      console.error('Error exporting backup:', error);
+      Alert.alert(
+        'Error',
+        error instanceof ValidationError ? error.message : 'Failed to export the backup'
+      );
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handlePickFile = async () => {
+    try {
+      const file = await pickTextFile(BACKUP_MIME_TYPES);
+      if (!file) {
+        return;
+      }
+      if (isEncryptedBackup(file.content)) {
+        setBackup(null);
+        setUnlockPassword('');
+        setLockedFile(file.content);
+        return;
+      }
+      setLockedFile(null);
+      setBackup(await readBackup(file.content));
+    } catch (error) {
+      console.error('Error opening backup:', error);
+      Alert.alert('Error', error instanceof ValidationError ? error.message : 'Failed to open the file');
+    }
+  };
+
+  const handleUnlock = async () => {
+    if (!lockedFile) {
+      return;
+    }
+    try {
+      setUnlocking(true);
+      setBackup(await readBackup(lockedFile, unlockPassword));
+      setLockedFile(null);
+      setUnlockPassword('');
+    } catch (error) {
+      if (error instanceof InvalidBackupPasswordError) {
+        Alert.alert('Wrong Password', error.message);
+        return;
+      }
+      console.error('Error opening backup:', error);
+      Alert.alert('Error', error instanceof ValidationError ? error.message : 'Failed to open the file');
+    } finally {
+      setUnlocking(false);
+    }
+  };
+
+  const runRestore = async () => {
+    if (!backup) {
+      return;
+    }
+    try {
+      setRestoring(true);
+      await restoreBackup(backup, mode);
+      setBackup(null);
+      setPreview(null);
+      Alert.alert('Restore Complete', 'The backup has been restored.');
+    } catch (error) {
+      console.error('Error restoring backup:', error);
+      Alert.alert('Error', 'Failed to restore the backup. Your journal was not changed.');
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  const handleRestore = () => {
+    if (mode === 'merge') {
+      runRestore();
+      return;
+    }
+    Alert.alert(
+      'Replace Journal',
+      'Every account, entry and trade on this device is deleted and replaced by the backup, and the settings and FX rates are restored too. This cannot be undone.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Replace', style: 'destructive', onPress: runRestore },
+      ]
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView contentContainerStyle={styles.scrollContent}>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <MaterialIcons name="arrow-back" size={24} color="#007AFF" />
+        </TouchableOpacity>
+
+        <Text style={styles.title}>Backup & Restore</Text>
+
+        <View style={styles.card}>
+          <Text style={styles.label}>Back up</Text>
+          <Text style={styles.bodyText}>
+            Save every account, entry and trade, including the trash, together with your
+            settings and FX rates, to a JSON file. Keep it somewhere other than this device.
+          </Text>
+          <View style={styles.toggleRow}>
+            <Text style={styles.toggleLabel}>Protect with a password</Text>
+            <Switch
+              value={encrypt}
+              onValueChange={setEncrypt}
+              trackColor={{ true: DARK_THEME_COLORS.primary }}
+            />
+          </View>
+          {encrypt && (
+            <>
+              <TextInput
+                style={styles.input}
+                value={password}
+                onChangeText={setPassword}
+                placeholder={`Password (at least ${DEFAULTS.BACKUP_PASSWORD_MIN_LENGTH} characters)`}
+                placeholderTextColor={DARK_THEME_COLORS.textTertiary}
+                secureTextEntry
+                autoCapitalize="none"
+                autoCorrect={false}
+              />
+              <TextInput
+                style={styles.input}
+                value={confirmPassword}
+                onChangeText={setConfirmPassword}
+                placeholder="Confirm password"
+                placeholderTextColor={DARK_THEME_COLORS.textTertiary}
+                secureTextEntry
+                autoCapitalize="none"
+                autoCorrect={false}
+              />
+              <Text style={styles.warningText}>
+                The password cannot be recovered. Without it the backup cannot be restored.
+              </Text>
+            </>
+          )}
+          <Button
+            title="Export Backup"
+            onPress={handleExport}
+            loading={exporting}
+            disabled={encrypt && !password}
+          />
+        </View>
+
+        <View style={styles.card}>
+          <Text style={styles.label}>Restore</Text>
+          <Text style={styles.bodyText}>
+            {backup
+              ? `Backup from ${formatDateTime(backup.exportedAt)}: ${backup.accounts.length} accounts, ${backup.entries.length} entries and ${backup.trades.length} trades.`
+              : lockedFile
+                ? 'This backup is encrypted. Enter its password to open it.'
+                : 'Pick a backup file to see what restoring it would change.'}
+          </Text>
+          {lockedFile && (
+            <>
+              <TextInput
+                style={styles.input}
+                value={unlockPassword}
+                onChangeText={setUnlockPassword}
+                placeholder="Backup password"
+                placeholderTextColor={DARK_THEME_COLORS.textTertiary}
+                secureTextEntry
+                autoCapitalize="none"
+                autoCorrect={false}
+                onSubmitEditing={handleUnlock}
+              />
+              <Button
+                title="Open Backup"
+                onPress={handleUnlock}
+                loading={unlocking}
+                disabled={unlocking || !unlockPassword}
+              />
+            </>
+          )}
+          <Button
+            title={backup || lockedFile ? 'Choose Another File' : 'Choose Backup File'}
+            variant={backup || lockedFile ? 'secondary' : 'primary'}
+            onPress={handlePickFile}
+            disabled={restoring || unlocking}
+          />
+        </View>
+
+        {backup && (
+          <View style={styles.card}>
+            <View style={styles.segments}>
+              {(['merge', 'replace'] as const).map((option) => (
+                <TouchableOpacity
+                  key={option}
+                  style={[styles.segment, mode === option && styles.segmentActive]}
+                  onPress={() => setMode(option)}
+                  disabled={restoring}
+                >
+                  <Text style={[styles.segmentText, mode === option && styles.segmentTextActive]}>
+                    {option === 'merge' ? 'Merge' : 'Replace All'}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <Text style={styles.hint}>
+              {mode === 'merge'
+                ? 'Adds what is missing and updates records where the backup copy is newer. Entries for a day that already has one are skipped.'
+                : 'Deletes the journal on this device and puts the backup in its place.'}
+            </Text>
+
+            {preview ? (
+              <>
+                {RECORD_LABELS.map(({ key, label }) => (
+                  <View key={key} style={styles.summaryRow}>
+                    <Text style={styles.summaryLabel}>{label}</Text>
+                    <Text style={styles.summaryValue}>{describeCounts(preview[key], mode)}</Text>
+                  </View>
+                ))}
+                <View style={styles.summaryRow}>
+                  <Text style={styles.summaryLabel}>Settings</Text>
+                  <Text style={styles.summaryValue}>
+                    {preview.settingsReplaced
+                      ? 'Replaced, with the FX rates'
+                      : `Kept, ${preview.fxRatesAdded} FX rates added`}
+                  </Text>
+                </View>
+                {preview.reassignedIds > 0 && (
+                  <Text style={styles.warningText}>
+                    {preview.reassignedIds} records in the backup share an id with unrelated
+                    records here and are restored under a new id.
+                  </Text>
+                )}
+                <Button
+                  title={mode === 'merge' ? 'Merge Backup' : 'Replace Journal'}
+                  variant={mode === 'merge' ? 'primary' : 'danger'}
+                  onPress={handleRestore}
+                  loading={restoring}
+                  disabled={restoring}
+                />
+              </>
+            ) : (
+              <ActivityIndicator size="small" color="#007AFF" />
+            )}
+          </View>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: DARK_THEME_COLORS.background,
+  },
+  scrollContent: {
+    padding: 16,
+  },
+  backButton: {
+    marginBottom: 12,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: '700',
+    color: DARK_THEME_COLORS.text,
+  },
+  card: {
+    backgroundColor: DARK_THEME_COLORS.backgroundSecondary,
+    borderRadius: 12,
+    padding: 16,
+    marginTop: 16,
+    gap: 12,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: DARK_THEME_COLORS.text,
+  },
+  bodyText: {
+    fontSize: 14,
+    lineHeight: 20,
+    color: DARK_THEME_COLORS.textSecondary,
+  },
+  toggleRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: 12,
+  },
+  toggleLabel: {
+    flex: 1,
+    fontSize: 14,
+    color: DARK_THEME_COLORS.text,
+  },
+  input: {
+    backgroundColor: DARK_THEME_COLORS.backgroundTertiary,
+    borderRadius: 8,
+    padding: 16,
+    fontSize: 16,
+    color: DARK_THEME_COLORS.text,
+    borderWidth: 1,
+    borderColor: DARK_THEME_COLORS.border,
+  },
+  hint: {
+    fontSize: 13,
+    lineHeight: 18,
+    color: DARK_THEME_COLORS.textSecondary,
+  },
+  warningText: {
+    fontSize: 13,
+    lineHeight: 18,
+    color: '#FF9500',
+  },
+  segments: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  segment: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 8,
+    backgroundColor: DARK_THEME_COLORS.backgroundTertiary,
+    alignItems: 'center',
+  },
+  segmentActive: {
+    backgroundColor: DARK_THEME_COLORS.primary,
+  },
+  segmentText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: DARK_THEME_COLORS.textSecondary,
+  },
+  segmentTextActive: {
+    color: '#FFFFFF',
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  summaryLabel: {
+    fontSize: 14,
+    color: DARK_THEME_COLORS.textSecondary,
+  },
+  summaryValue: {
+    flex: 1,
+    textAlign: 'right',
+    fontSize: 14,
+    fontWeight: '600',
+    color: DARK_THEME_COLORS.text,
+  },
+});
+
+export default BackupScreen;
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import {
   View,
   Text,
@@ -13,15 +13,42 @@ import {
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { MaterialIcons } from '@expo/vector-icons';
 import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { useFocusEffect } from '@react-navigation/native';
 import EntryCard from '../components/EntryCard';
 import Button from '../components/Button';
 import BalanceChart from '../components/BalanceChart';
 import PnLChart from '../components/PnLChart';
 import Statistics from '../components/Statistics';
-import { DailyEntry, RootStackParamList } from '../types';
-import { getEntriesByAccount, createEntry, updateEntry, deleteEntry } from '../api';
-import { updateAccount } from '../api';
-import { formatCurrency, sanitizeNumericInput } from '../utils/helpers';
+import DatePicker from '../components/DatePicker';
+import ChallengeProgress from '../components/ChallengeProgress';
+import UndoSnackbar from '../components/UndoSnackbar';
+import { DailyEntry, CashFlowType, RootStackParamList } from '../types';
+import {
+  getAccountById,
+  getEntriesByAccount,
+  getEntriesPage,
+  subscribeToEntries,
+  subscribeToAccount,
+  EntryCursor,
+  createEntry,
+  updateEntry,
+  deleteEntry,
+  getTradesByEntry,
+  restoreEntry,
+  DuplicateEntryError,
+  ValidationError,
+  DuplicateEntryPolicy,
+  StorageReadError,
+} from '../api';
+import {
+  formatCurrency,
+  formatDate,
+  sanitizeNumericInput,
+  calculateAccountProfitLoss,
+  isCashFlowEntry,
+} from '../utils/helpers';
+import { evaluateChallenge } from '../utils/challenge';
+import { CASH_FLOW_LABELS, DASHBOARD_RANGE_OPTIONS, DEFAULTS, STRINGS } from '../constants';
 import { DARK_THEME_COLORS } from '../theme/darkTheme';
 
 type DashboardScreenProps = NativeStackScreenProps<RootStackParamList, 'Dashboard'>;
@@ -31,22 +58,57 @@ const DashboardScreen: React.FC<DashboardScreenProps> = ({
   route,
 }) => {
   const { account } = route.params;
+  // Entries listed so far; further pages load as the list is scrolled
   const [entries, setEntries] = useState<DailyEntry[]>([]);
-  const [currentBalance, setCurrentBalance] = useState(account.initialBalance);
+  const [nextCursor, setNextCursor] = useState<EntryCursor | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  // How many entries are listed, read by live refreshes without re-subscribing
+  const loadedCountRef = useRef(0);
+  // Entries within the selected period, for the charts and statistics
+  const [rangeDays, setRangeDays] = useState<number>(DEFAULTS.DASHBOARD_RANGE_DAYS);
+  const [rangeEntries, setRangeEntries] = useState<DailyEntry[]>([]);
+  // Challenge rules are judged on the whole history, loaded only for challenge accounts
+  const [historyEntries, setHistoryEntries] = useState<DailyEntry[]>([]);
+  const [currentBalance, setCurrentBalance] = useState(account.currentBalance);
+  const [totalPL, setTotalPL] = useState(calculateAccountProfitLoss(account));
   const [loading, setLoading] = useState(true);
   const [modalVisible, setModalVisible] = useState(false);
   const [editModalVisible, setEditModalVisible] = useState(false);
   const [selectedEntry, setSelectedEntry] = useState<DailyEntry | null>(null);
+  // Trades of the entry being edited; while there are any its P/L comes from them
+  const [selectedTradeCount, setSelectedTradeCount] = useState(0);
   const [newEntry, setNewEntry] = useState({
+    date: new Date(),
     profitLoss: '',
     notes: '',
   });
   const [editEntry, setEditEntry] = useState({
+    date: new Date(),
     profitLoss: '',
     notes: '',
   });
+  const [cashFlowModalVisible, setCashFlowModalVisible] = useState(false);
+  const [newCashFlow, setNewCashFlow] = useState<{
+    type: CashFlowType;
+    date: Date;
+    amount: string;
+    notes: string;
+  }>({
+    type: 'deposit',
+    date: new Date(),
+    amount: '',
+    notes: '',
+  });
+  const [datePickerVisible, setDatePickerVisible] = useState(false);
   const [saving, setSaving] = useState(false);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  // Most recently trashed entry, offered for undo
+  const [trashedEntry, setTrashedEntry] = useState<DailyEntry | null>(null);
+
+  const challengeEvaluation = useMemo(
+    () => evaluateChallenge(account, historyEntries),
+    [account, historyEntries]
+  );
 
   const handleNewProfitLossChange = useCallback((text: string) => {
     setNewEntry(prev => ({ ...prev, profitLoss: sanitizeNumericInput(text) }));
@@ -59,25 +121,128 @@ const DashboardScreen: React.FC<DashboardScreenProps> = ({
   const loadEntries = useCallback(async () => {
     try {
       setLoading(true);
-      const fetchedEntries = await getEntriesByAccount(account.id);
-      setEntries(fetchedEntries);
-      // Update current balance from the most recent entry
-      if (fetchedEntries.length > 0) {
-        setCurrentBalance(fetchedEntries[0].balance);
-      } else {
-        setCurrentBalance(account.initialBalance);
+      const [latestAccount, firstPage] = await Promise.all([
+        getAccountById(account.id),
+        getEntriesPage(account.id),
+      ]);
+      setEntries(firstPage.entries);
+      setNextCursor(firstPage.nextCursor);
+      // Balance and P/L come from the account so they cover entries not loaded yet
+      if (latestAccount) {
+        setCurrentBalance(latestAccount.currentBalance);
+        setTotalPL(calculateAccountProfitLoss(latestAccount));
       }
     } catch (error) {
       console.error('Error loading entries:', error);
+      if (error instanceof StorageReadError) {
+        Alert.alert('Saved Data Unreadable', STRINGS.ERROR_STORAGE_UNREADABLE);
+        return;
+      }
       Alert.alert('Error', 'Failed to load entries');
     } finally {
       setLoading(false);
     }
-  }, [account.id, account.initialBalance]);
+  }, [account.id]);
+
+  const loadRangeEntries = useCallback(async () => {
+    try {
+      const from = rangeDays > 0 ? new Date(Date.now() - rangeDays * 86400000) : undefined;
+      const [inRange, history] = await Promise.all([
+        getEntriesByAccount(account.id, { from }),
+        account.challenge && from ? getEntriesByAccount(account.id) : null,
+      ]);
+      setRangeEntries(inRange);
+      setHistoryEntries(history ?? inRange);
+    } catch (error) {
+      console.error('Error loading chart entries:', error);
+    }
+  }, [account.id, account.challenge, rangeDays]);
+
+  const loadMoreEntries = async () => {
+    if (!nextCursor || loadingMore) {
+      return;
+    }
+    try {
+      setLoadingMore(true);
+      const page = await getEntriesPage(account.id, { cursor: nextCursor });
+      setEntries((prev) => [...prev, ...page.entries]);
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      console.error('Error loading more entries:', error);
+      Alert.alert('Error', 'Failed to load more entries');
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const reloadEntries = () => Promise.all([loadEntries(), loadRangeEntries()]);
 
   useEffect(() => {
-    loadEntries();
-  }, [loadEntries]);
+    loadedCountRef.current = entries.length;
+  }, [entries]);
+
+  // Read again the entries already listed, without the loading spinner
+  const refreshLoadedEntries = useCallback(async () => {
+    try {
+      const page = await getEntriesPage(account.id, {
+        limit: Math.max(loadedCountRef.current, DEFAULTS.PAGE_SIZE),
+      });
+      setEntries(page.entries);
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      console.error('Error refreshing entries:', error);
+    }
+  }, [account.id]);
+
+  // Only the entries listed are followed, so a long history is not streamed
+  const followedCount = Math.max(entries.length, DEFAULTS.PAGE_SIZE);
+
+  // Changes from synced devices and teammates show up while the screen is open
+  useEffect(() => {
+    // The first delivery is the current state, which the focus effects already load
+    let initial = true;
+    return subscribeToEntries(
+      account.id,
+      () => {
+        if (initial) {
+          initial = false;
+          return;
+        }
+        refreshLoadedEntries();
+        loadRangeEntries();
+      },
+      (error) => console.error('Error following entries:', error),
+      followedCount
+    );
+  }, [account.id, followedCount, refreshLoadedEntries, loadRangeEntries]);
+
+  useEffect(() => {
+    const unsubscribeAccount = subscribeToAccount(
+      account.id,
+      (latestAccount) => {
+        if (latestAccount) {
+          setCurrentBalance(latestAccount.currentBalance);
+          setTotalPL(calculateAccountProfitLoss(latestAccount));
+        }
+      },
+      (error) => console.error('Error following account:', error)
+    );
+    return unsubscribeAccount;
+  }, [account.id]);
+
+  // Reload entries when screen comes into focus (e.g. after editing trades)
+  useFocusEffect(
+    useCallback(() => {
+      loadEntries();
+    }, [loadEntries])
+  );
+
+  // Charts follow the selected period as well as focus changes
+  useFocusEffect(
+    useCallback(() => {
+      loadRangeEntries();
+    }, [loadRangeEntries])
+  );
 
   useEffect(() => {
     if (successMessage) {
@@ -92,7 +257,13 @@ const DashboardScreen: React.FC<DashboardScreenProps> = ({
     setSuccessMessage(message);
   };
 
-  const handleCreateEntry = async () => {
+  const openNewEntryModal = () => {
+    setNewEntry({ date: new Date(), profitLoss: '', notes: '' });
+    setDatePickerVisible(false);
+    setModalVisible(true);
+  };
+
+  const handleCreateEntry = async (onDuplicate: DuplicateEntryPolicy = 'reject') => {
     if (!newEntry.profitLoss) {
       Alert.alert('Error', 'Please enter profit/loss amount');
       return;
@@ -106,42 +277,132 @@ const DashboardScreen: React.FC<DashboardScreenProps> = ({
 
     try {
       setSaving(true);
-      
-      const newBalance = currentBalance + profitLoss;
+
+      await createEntry(
+        {
+          accountId: account.id,
+          date: newEntry.date,
+          profitLoss,
+          notes: newEntry.notes || undefined,
+        },
+        { onDuplicate }
+      );
+
+      setModalVisible(false);
+      setNewEntry({ date: new Date(), profitLoss: '', notes: '' });
+      await reloadEntries();
+      showSuccessMessage(
+        onDuplicate === 'merge' ? 'Entry merged successfully!' : 'Entry added successfully!'
+      );
+    } catch (error) {
+      if (error instanceof DuplicateEntryError) {
+        Alert.alert(
+          'Entry Already Exists',
+          `There is already an entry for ${formatDate(newEntry.date)}. Merge this P/L and notes into it?`,
+          [
+            { text: 'Cancel', style: 'cancel' },
+            { text: 'Merge', onPress: () => handleCreateEntry('merge') },
+          ]
+        );
+        return;
+      }
+      console.error('Error creating entry:', error);
+      Alert.alert('Error', error instanceof ValidationError ? error.message : 'Failed to create entry');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const openImportChoice = () => {
+    Alert.alert('Import Entries', 'What would you like to import?', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'CSV File',
+        onPress: () => navigation.navigate('Import', { accountId: account.id }),
+      },
+      {
+        text: 'MT4/MT5 Statement',
+        onPress: () => navigation.navigate('StatementImport', { accountId: account.id }),
+      },
+    ]);
+  };
+
+  const openCashFlowModal = () => {
+    setNewCashFlow({ type: 'deposit', date: new Date(), amount: '', notes: '' });
+    setDatePickerVisible(false);
+    setCashFlowModalVisible(true);
+  };
+
+  const handleCreateCashFlow = async () => {
+    if (!newCashFlow.amount) {
+      Alert.alert('Error', 'Please enter an amount');
+      return;
+    }
+
+    const amount = parseFloat(newCashFlow.amount);
+    if (isNaN(amount) || amount === 0) {
+      Alert.alert('Error', 'Please enter a valid number');
+      return;
+    }
+
+    // Deposits add money and withdrawals/payouts remove it;
+    // transfers and adjustments keep the sign that was entered
+    let signedAmount = amount;
+    if (newCashFlow.type === 'deposit') {
+      signedAmount = Math.abs(amount);
+    } else if (newCashFlow.type === 'withdrawal' || newCashFlow.type === 'payout') {
+      signedAmount = -Math.abs(amount);
+    }
+
+    try {
+      setSaving(true);
 
       await createEntry({
         accountId: account.id,
-        date: new Date(),
-        profitLoss,
-        balance: newBalance,
-        notes: newEntry.notes || undefined,
+        type: newCashFlow.type,
+        date: newCashFlow.date,
+        profitLoss: signedAmount,
+        notes: newCashFlow.notes || undefined,
       });
 
-      setModalVisible(false);
-      setNewEntry({ profitLoss: '', notes: '' });
-      await loadEntries();
-      showSuccessMessage('Entry added successfully!');
+      setCashFlowModalVisible(false);
+      setNewCashFlow({ type: 'deposit', date: new Date(), amount: '', notes: '' });
+      await reloadEntries();
+      showSuccessMessage(`${CASH_FLOW_LABELS[newCashFlow.type]} recorded successfully!`);
     } catch (error) {
-      console.error('Error creating entry:', error);
-      Alert.alert('Error', 'Failed to create entry');
+      console.error('Error creating cash flow:', error);
+      Alert.alert(
+        'Error',
+        error instanceof ValidationError ? error.message : 'Failed to record transaction'
+      );
     } finally {
       setSaving(false);
     }
   };
 
-  const handleEditEntry = (entry: DailyEntry) => {
+  const handleEditEntry = async (entry: DailyEntry) => {
+    try {
+      setSelectedTradeCount((await getTradesByEntry(entry.id)).length);
+    } catch (error) {
+      console.error('Error loading trades:', error);
+      Alert.alert('Error', 'Failed to load the trades of this entry');
+      return;
+    }
     setSelectedEntry(entry);
     setEditEntry({
+      date: entry.date,
       profitLoss: entry.profitLoss.toString(),
       notes: entry.notes || '',
     });
+    setDatePickerVisible(false);
     setEditModalVisible(true);
   };
 
   const handleUpdateEntry = async () => {
     if (!selectedEntry) return;
 
-    if (!editEntry.profitLoss) {
+    const hasTrades = selectedTradeCount > 0;
+    if (!hasTrades && !editEntry.profitLoss) {
       Alert.alert('Error', 'Please enter profit/loss amount');
       return;
     }
@@ -154,29 +415,30 @@ const DashboardScreen: React.FC<DashboardScreenProps> = ({
 
     try {
       setSaving(true);
-      
-      // Find the previous entry balance to calculate the new balance correctly
-      const entryIndex = entries.findIndex(e => e.id === selectedEntry.id);
-      const previousBalance = entryIndex < entries.length - 1 
-        ? entries[entryIndex + 1].balance 
-        : account.initialBalance;
-      const newBalance = previousBalance + profitLoss;
 
+      // Balances of this and every later entry are rebuilt by the api layer.
+      // A day with trades keeps the P/L they add up to.
       await updateEntry(selectedEntry.id, {
-        accountId: account.id,
-        profitLoss,
-        balance: newBalance,
+        date: editEntry.date,
+        ...(hasTrades ? {} : { profitLoss }),
         notes: editEntry.notes || undefined,
       });
 
       setEditModalVisible(false);
       setSelectedEntry(null);
-      setEditEntry({ profitLoss: '', notes: '' });
-      await loadEntries();
+      setEditEntry({ date: new Date(), profitLoss: '', notes: '' });
+      await reloadEntries();
       showSuccessMessage('Entry updated successfully!');
     } catch (error) {
+      if (error instanceof DuplicateEntryError) {
+        Alert.alert(
+          'Entry Already Exists',
+          `There is already an entry for ${formatDate(editEntry.date)}. Edit that entry instead.`
+        );
+        return;
+      }
       console.error('Error updating entry:', error);
-      Alert.alert('Error', 'Failed to update entry');
+      Alert.alert('Error', error instanceof ValidationError ? error.message : 'Failed to update entry');
     } finally {
       setSaving(false);
     }
@@ -185,7 +447,7 @@ const DashboardScreen: React.FC<DashboardScreenProps> = ({
   const handleDeleteEntry = (entry: DailyEntry) => {
     Alert.alert(
       'Delete Entry',
-      'Are you sure you want to delete this entry?',
+      'Move this entry to the trash? You can restore it later from the trash.',
       [
         { text: 'Cancel', style: 'cancel' },
         {
@@ -193,22 +455,9 @@ const DashboardScreen: React.FC<DashboardScreenProps> = ({
           style: 'destructive',
           onPress: async () => {
             try {
-              await deleteEntry(entry.id, account.id);
-              
-              // Reload entries to get updated list
-              const updatedEntries = await getEntriesByAccount(account.id);
-              setEntries(updatedEntries);
-              
-              // Update account balance to the most recent entry's balance or initial balance
-              const newCurrentBalance = updatedEntries.length > 0 
-                ? updatedEntries[0].balance 
-                : account.initialBalance;
-              
-              await updateAccount(account.id, {
-                currentBalance: newCurrentBalance,
-              });
-              
-              showSuccessMessage('Entry deleted successfully!');
+              await deleteEntry(entry.id);
+              await reloadEntries();
+              setTrashedEntry(entry);
             } catch (error) {
               console.error('Error deleting entry:', error);
               Alert.alert('Error', 'Failed to delete entry');
@@ -219,18 +468,87 @@ const DashboardScreen: React.FC<DashboardScreenProps> = ({
     );
   };
 
+  const handleUndoDelete = async () => {
+    if (!trashedEntry) {
+      return;
+    }
+    const entry = trashedEntry;
+    setTrashedEntry(null);
+    try {
+      await restoreEntry(entry.id);
+      await reloadEntries();
+      showSuccessMessage('Entry restored successfully!');
+    } catch (error) {
+      console.error('Error restoring entry:', error);
+      if (error instanceof DuplicateEntryError) {
+        Alert.alert(
+          'Entry Not Restored',
+          `There is already an entry for ${formatDate(error.existingEntry.date)}.`
+        );
+        return;
+      }
+      Alert.alert('Error', 'Failed to restore entry');
+    }
+  };
+
+  const dismissUndo = useCallback(() => {
+    setTrashedEntry(null);
+  }, []);
+
+  const renderDateField = (date: Date, onChange: (date: Date) => void) => (
+    <>
+      <TouchableOpacity
+        style={styles.dateField}
+        onPress={() => setDatePickerVisible(!datePickerVisible)}
+      >
+        <MaterialIcons name="event" size={18} color={DARK_THEME_COLORS.primary} />
+        <Text style={styles.modalDate}>
+          {date.toLocaleDateString('en-US', {
+            weekday: 'long',
+            year: 'numeric',
+            month: 'long',
+            day: 'numeric',
+          })}
+        </Text>
+      </TouchableOpacity>
+      {datePickerVisible && (
+        <DatePicker
+          value={date}
+          maximumDate={new Date()}
+          onChange={(selected) => {
+            onChange(selected);
+            setDatePickerVisible(false);
+          }}
+        />
+      )}
+    </>
+  );
+
   const renderHeader = () => {
-    const totalPL = entries.reduce((sum, entry) => sum + entry.profitLoss, 0);
     const isProfit = totalPL >= 0;
 
     return (
       <View style={styles.accountInfo}>
-        <TouchableOpacity
-          style={styles.backButton}
-          onPress={() => navigation.goBack()}
-        >
-          <MaterialIcons name="arrow-back" size={24} color="#007AFF" />
-        </TouchableOpacity>
+        <View style={styles.headerRow}>
+          <TouchableOpacity onPress={() => navigation.goBack()}>
+            <MaterialIcons name="arrow-back" size={24} color="#007AFF" />
+          </TouchableOpacity>
+          <View style={styles.headerActions}>
+            <TouchableOpacity onPress={openImportChoice}>
+              <MaterialIcons name="file-upload" size={24} color="#007AFF" />
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={() => navigation.navigate('Export', { accountId: account.id })}
+            >
+              <MaterialIcons name="file-download" size={24} color="#007AFF" />
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={() => navigation.navigate('Report', { accountId: account.id })}
+            >
+              <MaterialIcons name="assessment" size={24} color="#007AFF" />
+            </TouchableOpacity>
+          </View>
+        </View>
         
         <Text style={styles.accountName}>{account.name}</Text>
         
@@ -249,22 +567,59 @@ const DashboardScreen: React.FC<DashboardScreenProps> = ({
           </View>
         </View>
 
+        {challengeEvaluation && (
+          <ChallengeProgress evaluation={challengeEvaluation} currency={account.currency} />
+        )}
+
         {entries.length > 0 && (
+          <View style={styles.rangeButtons}>
+            {DASHBOARD_RANGE_OPTIONS.map((days) => (
+              <TouchableOpacity
+                key={days}
+                style={[styles.rangeButton, rangeDays === days && styles.rangeButtonActive]}
+                onPress={() => setRangeDays(days)}
+              >
+                <Text
+                  style={[
+                    styles.rangeButtonText,
+                    rangeDays === days && styles.rangeButtonTextActive,
+                  ]}
+                >
+                  {days === 0 ? 'All time' : `${days} days`}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+
+        {rangeEntries.length > 0 && (
           <>
-            <PnLChart entries={entries} currency={account.currency} darkMode={true} />
-            <Statistics entries={entries} currency={account.currency} darkMode={true} />
-            <BalanceChart entries={entries} currency={account.currency} darkMode={true} />
+            <PnLChart entries={rangeEntries} currency={account.currency} darkMode={true} />
+            <Statistics entries={rangeEntries} currency={account.currency} darkMode={true} />
+            <BalanceChart entries={rangeEntries} currency={account.currency} darkMode={true} />
           </>
         )}
 
+        {entries.length > 0 && rangeEntries.length === 0 && (
+          <Text style={styles.rangeEmptyText}>No entries in this period</Text>
+        )}
+
         <View style={styles.sectionHeader}>
           <Text style={styles.sectionTitle}>Daily Entries</Text>
-          <TouchableOpacity
-            style={styles.addEntryButton}
-            onPress={() => setModalVisible(true)}
-          >
-            <MaterialIcons name="add" size={24} color="#FFFFFF" />
-          </TouchableOpacity>
+          <View style={styles.sectionActions}>
+            <TouchableOpacity
+              style={[styles.addEntryButton, styles.cashFlowButton]}
+              onPress={openCashFlowModal}
+            >
+              <MaterialIcons name="swap-vert" size={24} color="#FFFFFF" />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.addEntryButton}
+              onPress={openNewEntryModal}
+            >
+              <MaterialIcons name="add" size={24} color="#FFFFFF" />
+            </TouchableOpacity>
+          </View>
         </View>
       </View>
     );
@@ -296,9 +651,21 @@ const DashboardScreen: React.FC<DashboardScreenProps> = ({
             currency={account.currency}
             onPress={() => handleEditEntry(item)}
             onLongPress={() => handleDeleteEntry(item)}
+            onTradesPress={
+              isCashFlowEntry(item)
+                ? undefined
+                : () => navigation.navigate('Trades', { account, entry: item })
+            }
           />
         )}
         ListHeaderComponent={renderHeader}
+        onEndReached={loadMoreEntries}
+        onEndReachedThreshold={0.5}
+        ListFooterComponent={
+          loadingMore ? (
+            <ActivityIndicator style={styles.listFooter} color={DARK_THEME_COLORS.primary} />
+          ) : null
+        }
         contentContainerStyle={styles.listContent}
         showsVerticalScrollIndicator={false}
         ListEmptyComponent={
@@ -312,6 +679,12 @@ const DashboardScreen: React.FC<DashboardScreenProps> = ({
         }
       />
 
+      <UndoSnackbar
+        message={trashedEntry ? 'Entry moved to trash' : null}
+        onUndo={handleUndoDelete}
+        onDismiss={dismissUndo}
+      />
+
       <Modal
         visible={modalVisible}
         animationType="slide"
@@ -327,14 +700,7 @@ const DashboardScreen: React.FC<DashboardScreenProps> = ({
               </TouchableOpacity>
             </View>
 
-            <Text style={styles.modalDate}>
-              {new Date().toLocaleDateString('en-US', {
-                weekday: 'long',
-                year: 'numeric',
-                month: 'long',
-                day: 'numeric',
-              })}
-            </Text>
+            {renderDateField(newEntry.date, (date) => setNewEntry({ ...newEntry, date }))}
 
             <TextInput
               style={styles.input}
@@ -358,7 +724,87 @@ const DashboardScreen: React.FC<DashboardScreenProps> = ({
 
             <Button
               title="Add Entry"
-              onPress={handleCreateEntry}
+              onPress={() => handleCreateEntry()}
+              loading={saving}
+              style={styles.createButton}
+            />
+          </View>
+        </View>
+      </Modal>
+
+      {/* Cash Flow Modal */}
+      <Modal
+        visible={cashFlowModalVisible}
+        animationType="slide"
+        transparent={true}
+        onRequestClose={() => setCashFlowModalVisible(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>New Transaction</Text>
+              <TouchableOpacity onPress={() => setCashFlowModalVisible(false)}>
+                <MaterialIcons name="close" size={24} color="#8E8E93" />
+              </TouchableOpacity>
+            </View>
+
+            <Text style={styles.modalHint}>
+              Deposits, withdrawals and payouts change the balance but not your trading statistics
+            </Text>
+
+            {renderDateField(newCashFlow.date, (date) => setNewCashFlow({ ...newCashFlow, date }))}
+
+            <View style={styles.typeButtons}>
+              {(Object.keys(CASH_FLOW_LABELS) as CashFlowType[]).map((type) => (
+                <TouchableOpacity
+                  key={type}
+                  style={[
+                    styles.typeButton,
+                    newCashFlow.type === type && styles.typeButtonActive,
+                  ]}
+                  onPress={() => setNewCashFlow({ ...newCashFlow, type })}
+                >
+                  <Text
+                    style={[
+                      styles.typeButtonText,
+                      newCashFlow.type === type && styles.typeButtonTextActive,
+                    ]}
+                  >
+                    {CASH_FLOW_LABELS[type]}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <TextInput
+              style={styles.input}
+              placeholder={
+                newCashFlow.type === 'transfer' || newCashFlow.type === 'adjustment'
+                  ? 'Amount (e.g., 500 or -200)'
+                  : 'Amount'
+              }
+              value={newCashFlow.amount}
+              onChangeText={(text) =>
+                setNewCashFlow({ ...newCashFlow, amount: sanitizeNumericInput(text) })
+              }
+              keyboardType="default"
+            />
+
+            <TextInput
+              style={[styles.input, styles.notesInput]}
+              placeholder="Notes (optional)"
+              value={newCashFlow.notes}
+              onChangeText={(text) =>
+                setNewCashFlow({ ...newCashFlow, notes: text })
+              }
+              multiline
+              numberOfLines={4}
+              textAlignVertical="top"
+            />
+
+            <Button
+              title="Record Transaction"
+              onPress={handleCreateCashFlow}
               loading={saving}
               style={styles.createButton}
             />
@@ -376,27 +822,30 @@ const DashboardScreen: React.FC<DashboardScreenProps> = ({
         <View style={styles.modalOverlay}>
           <View style={styles.modalContent}>
             <View style={styles.modalHeader}>
-              <Text style={styles.modalTitle}>Edit Entry</Text>
+              <Text style={styles.modalTitle}>
+                {selectedEntry && isCashFlowEntry(selectedEntry) ? 'Edit Transaction' : 'Edit Entry'}
+              </Text>
               <TouchableOpacity onPress={() => setEditModalVisible(false)}>
                 <MaterialIcons name="close" size={24} color="#8E8E93" />
               </TouchableOpacity>
             </View>
 
-            <Text style={styles.modalDate}>
-              {selectedEntry && new Date(selectedEntry.date).toLocaleDateString('en-US', {
-                weekday: 'long',
-                year: 'numeric',
-                month: 'long',
-                day: 'numeric',
-              })}
-            </Text>
+            {renderDateField(editEntry.date, (date) => setEditEntry({ ...editEntry, date }))}
+
+            {selectedTradeCount > 0 && (
+              <Text style={styles.modalHint}>
+                The P/L of this day is the total of its {selectedTradeCount}{' '}
+                {selectedTradeCount === 1 ? 'trade' : 'trades'}. Edit the trades to change it.
+              </Text>
+            )}
 
             <TextInput
-              style={styles.input}
+              style={[styles.input, selectedTradeCount > 0 && styles.inputReadOnly]}
               placeholder="Profit/Loss (e.g., 100 or -50)"
               value={editEntry.profitLoss}
               onChangeText={handleEditProfitLossChange}
               keyboardType="default"
+              editable={selectedTradeCount === 0}
             />
 
             <TextInput
@@ -451,12 +900,22 @@ const styles = StyleSheet.create({
   listContent: {
     padding: 16,
   },
+  listFooter: {
+    paddingVertical: 16,
+  },
   accountInfo: {
     marginBottom: 16,
   },
-  backButton: {
+  headerRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
     marginBottom: 12,
   },
+  headerActions: {
+    flexDirection: 'row',
+    gap: 16,
+  },
   accountName: {
     fontSize: 28,
     fontWeight: '700',
@@ -507,6 +966,35 @@ const styles = StyleSheet.create({
   loss: {
     color: DARK_THEME_COLORS.loss,
   },
+  rangeButtons: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 16,
+  },
+  rangeButton: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: DARK_THEME_COLORS.backgroundTertiary,
+    alignItems: 'center',
+  },
+  rangeButtonActive: {
+    backgroundColor: DARK_THEME_COLORS.primary,
+  },
+  rangeButtonText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: DARK_THEME_COLORS.textSecondary,
+  },
+  rangeButtonTextActive: {
+    color: '#FFFFFF',
+  },
+  rangeEmptyText: {
+    fontSize: 14,
+    color: DARK_THEME_COLORS.textSecondary,
+    textAlign: 'center',
+    marginBottom: 16,
+  },
   sectionHeader: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -518,6 +1006,13 @@ const styles = StyleSheet.create({
     fontWeight: '700',
     color: DARK_THEME_COLORS.text,
   },
+  sectionActions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  cashFlowButton: {
+    backgroundColor: DARK_THEME_COLORS.backgroundTertiary,
+  },
   addEntryButton: {
     backgroundColor: DARK_THEME_COLORS.primary,
     width: 40,
@@ -568,6 +1063,16 @@ const styles = StyleSheet.create({
   modalDate: {
     fontSize: 14,
     color: DARK_THEME_COLORS.textSecondary,
+  },
+  modalHint: {
+    fontSize: 14,
+    color: DARK_THEME_COLORS.textSecondary,
+    marginBottom: 16,
+  },
+  dateField: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
     marginBottom: 24,
   },
   input: {
@@ -580,9 +1085,35 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: DARK_THEME_COLORS.border,
   },
+  inputReadOnly: {
+    color: DARK_THEME_COLORS.textSecondary,
+  },
   notesInput: {
     height: 100,
   },
+  typeButtons: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  typeButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    backgroundColor: DARK_THEME_COLORS.backgroundTertiary,
+  },
+  typeButtonActive: {
+    backgroundColor: DARK_THEME_COLORS.primary,
+  },
+  typeButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: DARK_THEME_COLORS.textSecondary,
+  },
+  typeButtonTextActive: {
+    color: '#FFFFFF',
+  },
   createButton: {
     marginTop: 8,
   },
@@ -0,0 +1,301 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+  ScrollView,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { MaterialIcons } from '@expo/vector-icons';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import Button from '../components/Button';
+import { RootStackParamList } from '../types';
+import {
+  IntegrityIssue,
+  IntegrityIssueType,
+  IntegrityReport,
+  checkDataIntegrity,
+  repairIntegrityIssue,
+  repairAllIntegrityIssues,
+} from '../api';
+import { formatCurrency, formatDate, formatDateTime } from '../utils/helpers';
+import { DARK_THEME_COLORS } from '../theme/darkTheme';
+
+type DiagnosticsScreenProps = NativeStackScreenProps<RootStackParamList, 'Diagnostics'>;
+
+const ISSUE_TITLES: Record<IntegrityIssueType, string> = {
+  orphanEntries: 'Entries without an account',
+  balanceMismatch: 'Balances out of line',
+  duplicateEntries: 'Duplicate trading day',
+  invalidDate: 'Invalid entry date',
+};
+
+const REPAIR_LABELS: Record<IntegrityIssueType, string> = {
+  orphanEntries: 'Delete',
+  balanceMismatch: 'Recalculate',
+  duplicateEntries: 'Merge',
+  invalidDate: 'Re-date',
+};
+
+/**
+ * Explain an issue and what its repair will do
+ */
+const describeIssue = (issue: IntegrityIssue): string => {
+  switch (issue.type) {
+    case 'orphanEntries':
+      return `${issue.entryCount} entries belong to an account that no longer exists. Repairing deletes them and their trades.`;
+    case 'balanceMismatch': {
+      const stored = formatCurrency(issue.storedBalance, issue.currency);
+      const expected = formatCurrency(issue.expectedBalance, issue.currency);
+      const entries = issue.entryCount > 0 ? `, and ${issue.entryCount} entry balances are off` : '';
+      return `${issue.accountName}: balance is ${stored} but the entries add up to ${expected}${entries}. Repairing recalculates them.`;
+    }
+    case 'duplicateEntries':
+      return `${issue.accountName}: ${issue.entryIds.length} trading entries on ${formatDate(issue.date)}. Repairing merges them into the first one, adding up P/L and keeping all notes and trades.`;
+    case 'invalidDate':
+      return isNaN(issue.date.getTime())
+        ? `${issue.accountName}: an entry has an unreadable date. Repairing moves it to the day it was recorded.`
+        : `${issue.accountName}: an entry is dated in the future (${formatDate(issue.date)}). Repairing moves it to the day it was recorded.`;
+  }
+};
+
+const DiagnosticsScreen: React.FC<DiagnosticsScreenProps> = ({ navigation }) => {
+  const [report, setReport] = useState<IntegrityReport | null>(null);
+  const [checking, setChecking] = useState(true);
+  const [repairing, setRepairing] = useState<string | null>(null);
+
+  const runCheck = useCallback(async () => {
+    try {
+      setChecking(true);
+      setReport(await checkDataIntegrity());
+    } catch (error) {
+      console.error('Error checking data integrity:', error);
+      Alert.alert('Error', 'Failed to check your data');
+    } finally {
+      setChecking(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    runCheck();
+  }, [runCheck]);
+
+  const repairIssue = async (issue: IntegrityIssue) => {
+    try {
+      setRepairing(issue.key);
+      await repairIntegrityIssue(issue);
+      // Fixing one issue can settle or reveal others, so the report is always rebuilt
+      setReport(await checkDataIntegrity());
+    } catch (error) {
+      console.error('Error repairing data:', error);
+      Alert.alert('Error', 'Failed to repair this issue');
+    } finally {
+      setRepairing(null);
+    }
+  };
+
+  const handleRepair = (issue: IntegrityIssue) => {
+    if (issue.type !== 'orphanEntries') {
+      repairIssue(issue);
+      return;
+    }
+    Alert.alert('Delete Entries', `${describeIssue(issue)} This cannot be undone.`, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Delete', style: 'destructive', onPress: () => repairIssue(issue) },
+    ]);
+  };
+
+  const handleRepairAll = () => {
+    if (!report) {
+      return;
+    }
+    Alert.alert(
+      'Repair All',
+      `Repair all ${report.issues.length} issues? Entries without an account are deleted and duplicate days are merged.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Repair',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              setRepairing('all');
+              setReport(await repairAllIntegrityIssues(report));
+            } catch (error) {
+              console.error('Error repairing data:', error);
+              Alert.alert('Error', 'Some issues could not be repaired');
+              await runCheck();
+            } finally {
+              setRepairing(null);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const busy = checking || repairing !== null;
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView contentContainerStyle={styles.scrollContent}>
+        <View style={styles.headerRow}>
+          <TouchableOpacity onPress={() => navigation.goBack()} disabled={busy}>
+            <MaterialIcons name="arrow-back" size={24} color="#007AFF" />
+          </TouchableOpacity>
+          <TouchableOpacity onPress={runCheck} disabled={busy}>
+            <Text style={styles.headerAction}>Check Again</Text>
+          </TouchableOpacity>
+        </View>
+
+        <Text style={styles.title}>Data Check</Text>
+
+        {checking && !report ? (
+          <ActivityIndicator size="large" color="#007AFF" style={styles.loading} />
+        ) : report ? (
+          <>
+            <View style={styles.card}>
+              <View style={styles.cardHeader}>
+                <MaterialIcons
+                  name={report.issues.length === 0 ? 'check-circle-outline' : 'error-outline'}
+                  size={32}
+                  color={report.issues.length === 0 ? DARK_THEME_COLORS.profit : '#FF9500'}
+                />
+                <Text style={styles.summaryText}>
+                  {report.issues.length === 0
+                    ? 'No problems found'
+                    : `${report.issues.length} problems found`}
+                </Text>
+              </View>
+              <Text style={styles.bodyText}>
+                Checked {report.accountCount} accounts and {report.entryCount} entries, including
+                the trash, on {formatDateTime(report.checkedAt)}.
+              </Text>
+              {report.issues.length > 0 && (
+                <Button
+                  title="Repair All"
+                  onPress={handleRepairAll}
+                  loading={repairing === 'all'}
+                  disabled={busy}
+                />
+              )}
+            </View>
+
+            {report.issues.map((issue) => (
+              <View key={issue.key} style={styles.issue}>
+                <View style={styles.issueInfo}>
+                  <Text style={styles.issueTitle}>{ISSUE_TITLES[issue.type]}</Text>
+                  <Text style={styles.issueText}>{describeIssue(issue)}</Text>
+                </View>
+                <TouchableOpacity
+                  style={styles.repairButton}
+                  onPress={() => handleRepair(issue)}
+                  disabled={busy}
+                >
+                  {repairing === issue.key ? (
+                    <ActivityIndicator size="small" color={DARK_THEME_COLORS.primary} />
+                  ) : (
+                    <Text style={styles.repairText}>{REPAIR_LABELS[issue.type]}</Text>
+                  )}
+                </TouchableOpacity>
+              </View>
+            ))}
+          </>
+        ) : null}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: DARK_THEME_COLORS.background,
+  },
+  scrollContent: {
+    padding: 16,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  headerAction: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: DARK_THEME_COLORS.primary,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: '700',
+    color: DARK_THEME_COLORS.text,
+    marginBottom: 16,
+  },
+  loading: {
+    marginTop: 48,
+  },
+  card: {
+    backgroundColor: DARK_THEME_COLORS.backgroundSecondary,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    gap: 12,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  summaryText: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: DARK_THEME_COLORS.text,
+  },
+  bodyText: {
+    fontSize: 14,
+    lineHeight: 20,
+    color: DARK_THEME_COLORS.textSecondary,
+  },
+  issue: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: DARK_THEME_COLORS.backgroundSecondary,
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+    gap: 12,
+  },
+  issueInfo: {
+    flex: 1,
+  },
+  issueTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: DARK_THEME_COLORS.text,
+  },
+  issueText: {
+    fontSize: 13,
+    lineHeight: 18,
+    color: DARK_THEME_COLORS.textSecondary,
+    marginTop: 4,
+  },
+  repairButton: {
+    minWidth: 88,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    backgroundColor: DARK_THEME_COLORS.backgroundTertiary,
+    alignItems: 'center',
+  },
+  repairText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: DARK_THEME_COLORS.primary,
+  },
+});
+
+export default DiagnosticsScreen;
@@ -0,0 +1,205 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+  ScrollView,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { MaterialIcons } from '@expo/vector-icons';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import Button from '../components/Button';
+import { TradingAccount, CsvExportColumn, RootStackParamList } from '../types';
+import {
+  getAllAccounts,
+  getSettings,
+  updateSettings,
+  exportEntriesCsv,
+  ValidationError,
+} from '../api';
+import { shareTextFile } from '../utils/files';
+import { CSV_COLUMN_LABELS, CSV_EXPORT_COLUMNS } from '../constants';
+import { DARK_THEME_COLORS } from '../theme/darkTheme';
+
+type ExportScreenProps = NativeStackScreenProps<RootStackParamList, 'Export'>;
+
+const ExportScreen: React.FC<ExportScreenProps> = ({ navigation, route }) => {
+  const [loading, setLoading] = useState(true);
+  const [exporting, setExporting] = useState(false);
+  const [accounts, setAccounts] = useState<TradingAccount[]>([]);
+  // Undefined exports every account
+  const [accountId, setAccountId] = useState<string | undefined>(route.params?.accountId);
+  const [columns, setColumns] = useState<CsvExportColumn[]>([...CSV_EXPORT_COLUMNS]);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const [allAccounts, settings] = await Promise.all([getAllAccounts(), getSettings()]);
+        setAccounts(allAccounts.sort((a, b) => a.name.localeCompare(b.name)));
+        setColumns(settings.csvExportColumns);
+      } catch (error) {
+        console.error('Error loading export options:', error);
+        Alert.alert('Error', 'Failed to load export options');
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, []);
+
+  const toggleColumn = async (column: CsvExportColumn) => {
+    const next = columns.includes(column)
+      ? columns.filter((selected) => selected !== column)
+      : [...columns, column];
+    setColumns(next);
+    try {
+      await updateSettings({ csvExportColumns: next });
+    } catch (error) {
+      console.error('Error saving export columns:', error);
+    }
+  };
+
+  const handleExport = async () => {
+    try {
+      setExporting(true);
+      const file = await exportEntriesCsv({ accountId, columns });
+      await shareTextFile(file);
+    } catch (error) {
+      console.error('Error exporting CSV:', error);
+      Alert.alert('Error', error instanceof ValidationError ? error.message : 'Failed to export entries');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#007AFF" />
+      </View>
+    );
+  }
+
+  const scopes: { id: string | undefined; label: string }[] = [
+    { id: undefined, label: 'All accounts' },
+    ...accounts.map((account) => ({ id: account.id, label: account.name })),
+  ];
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView contentContainerStyle={styles.scrollContent}>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <MaterialIcons name="arrow-back" size={24} color="#007AFF" />
+        </TouchableOpacity>
+
+        <Text style={styles.title}>Export to CSV</Text>
+
+        <View style={styles.card}>
+          <Text style={styles.label}>Entries from</Text>
+          {scopes.map((scope) => (
+            <TouchableOpacity
+              key={scope.id ?? 'all'}
+              style={styles.option}
+              onPress={() => setAccountId(scope.id)}
+            >
+              <MaterialIcons
+                name={accountId === scope.id ? 'radio-button-checked' : 'radio-button-unchecked'}
+                size={22}
+                color={DARK_THEME_COLORS.primary}
+              />
+              <Text style={styles.optionText}>{scope.label}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <View style={styles.card}>
+          <Text style={styles.label}>Columns</Text>
+          {CSV_EXPORT_COLUMNS.map((column) => (
+            <TouchableOpacity
+              key={column}
+              style={styles.option}
+              onPress={() => toggleColumn(column)}
+            >
+              <MaterialIcons
+                name={columns.includes(column) ? 'check-box' : 'check-box-outline-blank'}
+                size={22}
+                color={DARK_THEME_COLORS.primary}
+              />
+              <Text style={styles.optionText}>{CSV_COLUMN_LABELS[column]}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <Text style={styles.hint}>
+          Dates are written as YYYY-MM-DD and amounts in each account's currency. Trashed accounts
+          and entries are left out.
+        </Text>
+
+        <Button
+          title="Export"
+          onPress={handleExport}
+          loading={exporting}
+          disabled={exporting || columns.length === 0}
+        />
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: DARK_THEME_COLORS.background,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: DARK_THEME_COLORS.background,
+  },
+  scrollContent: {
+    padding: 16,
+  },
+  backButton: {
+    marginBottom: 12,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: '700',
+    color: DARK_THEME_COLORS.text,
+    marginBottom: 16,
+  },
+  card: {
+    backgroundColor: DARK_THEME_COLORS.backgroundSecondary,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: DARK_THEME_COLORS.text,
+    marginBottom: 8,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 8,
+  },
+  optionText: {
+    fontSize: 15,
+    color: DARK_THEME_COLORS.text,
+  },
+  hint: {
+    fontSize: 13,
+    lineHeight: 18,
+    color: DARK_THEME_COLORS.textSecondary,
+    marginBottom: 16,
+  },
+});
+
+export default ExportScreen;
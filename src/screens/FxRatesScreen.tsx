@@ -0,0 +1,501 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  FlatList,
+  StyleSheet,
+  TextInput,
+  Modal,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+  ScrollView,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { MaterialIcons } from '@expo/vector-icons';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import Button from '../components/Button';
+import DatePicker from '../components/DatePicker';
+import { FxRate, RootStackParamList } from '../types';
+import {
+  getSettings,
+  updateSettings,
+  getFxRates,
+  createFxRate,
+  updateFxRate,
+  deleteFxRate,
+} from '../api';
+import { formatDate, sanitizeNumericInput } from '../utils/helpers';
+import { CURRENCIES, DEFAULTS } from '../constants';
+import { DARK_THEME_COLORS } from '../theme/darkTheme';
+
+type FxRatesScreenProps = NativeStackScreenProps<RootStackParamList, 'FxRates'>;
+
+interface RateForm {
+  from: string;
+  to: string;
+  rate: string;
+  effectiveDate: Date;
+}
+
+const FxRatesScreen: React.FC<FxRatesScreenProps> = ({ navigation }) => {
+  const [baseCurrency, setBaseCurrency] = useState<string>(DEFAULTS.BASE_CURRENCY);
+  const [rates, setRates] = useState<FxRate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [modalVisible, setModalVisible] = useState(false);
+  const [selectedRate, setSelectedRate] = useState<FxRate | null>(null);
+  const [form, setForm] = useState<RateForm>({
+    from: 'EUR',
+    to: DEFAULTS.BASE_CURRENCY,
+    rate: '',
+    effectiveDate: new Date(),
+  });
+  const [datePickerVisible, setDatePickerVisible] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const loadRates = useCallback(async () => {
+    try {
+      setLoading(true);
+      const [settings, fetchedRates] = await Promise.all([getSettings(), getFxRates()]);
+      setBaseCurrency(settings.baseCurrency);
+      setRates(fetchedRates);
+    } catch (error) {
+      console.error('Error loading FX rates:', error);
+      Alert.alert('Error', 'Failed to load FX rates');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadRates();
+  }, [loadRates]);
+
+  const handleBaseCurrencyChange = async (currency: string) => {
+    try {
+      await updateSettings({ baseCurrency: currency });
+      setBaseCurrency(currency);
+    } catch (error) {
+      console.error('Error updating base currency:', error);
+      Alert.alert('Error', 'Failed to update base currency');
+    }
+  };
+
+  const openCreateModal = () => {
+    setSelectedRate(null);
+    setForm({
+      from: CURRENCIES.find((currency) => currency !== baseCurrency) ?? 'EUR',
+      to: baseCurrency,
+      rate: '',
+      effectiveDate: new Date(),
+    });
+    setDatePickerVisible(false);
+    setModalVisible(true);
+  };
+
+  const openEditModal = (rate: FxRate) => {
+    setSelectedRate(rate);
+    setForm({
+      from: rate.from,
+      to: rate.to,
+      rate: rate.rate.toString(),
+      effectiveDate: rate.effectiveDate,
+    });
+    setDatePickerVisible(false);
+    setModalVisible(true);
+  };
+
+  const handleSaveRate = async () => {
+    if (form.from === form.to) {
+      Alert.alert('Error', 'Please choose two different currencies');
+      return;
+    }
+
+    const rate = parseFloat(form.rate);
+    if (isNaN(rate) || rate <= 0) {
+      Alert.alert('Error', 'Please enter a valid rate');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const rateData = {
+        from: form.from,
+        to: form.to,
+        rate,
+        effectiveDate: form.effectiveDate,
+      };
+      if (selectedRate) {
+        await updateFxRate(selectedRate.id, rateData);
+      } else {
+        await createFxRate(rateData);
+      }
+      setModalVisible(false);
+      setSelectedRate(null);
+      await loadRates();
+    } catch (error) {
+      console.error('Error saving FX rate:', error);
+      Alert.alert('Error', 'Failed to save FX rate');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteRate = (rate: FxRate) => {
+    Alert.alert(
+      'Delete Rate',
+      `Delete the ${rate.from}/${rate.to} rate from ${formatDate(rate.effectiveDate)}?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteFxRate(rate.id);
+              await loadRates();
+            } catch (error) {
+              console.error('Error deleting FX rate:', error);
+              Alert.alert('Error', 'Failed to delete FX rate');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderCurrencyButtons = (
+    selected: string,
+    onSelect: (currency: string) => void
+  ) => (
+    <View style={styles.currencyButtons}>
+      {CURRENCIES.map((currency) => (
+        <TouchableOpacity
+          key={currency}
+          style={[
+            styles.currencyButton,
+            selected === currency && styles.currencyButtonActive,
+          ]}
+          onPress={() => onSelect(currency)}
+        >
+          <Text
+            style={[
+              styles.currencyButtonText,
+              selected === currency && styles.currencyButtonTextActive,
+            ]}
+          >
+            {currency}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
+  const renderHeader = () => (
+    <View style={styles.headerContainer}>
+      <TouchableOpacity
+        style={styles.backButton}
+        onPress={() => navigation.goBack()}
+      >
+        <MaterialIcons name="arrow-back" size={24} color="#007AFF" />
+      </TouchableOpacity>
+
+      <Text style={styles.title}>Currencies</Text>
+
+      <View style={styles.card}>
+        <Text style={styles.label}>Base currency</Text>
+        <Text style={styles.hint}>
+          Portfolio totals, charts and statistics are converted into this currency
+        </Text>
+        {renderCurrencyButtons(baseCurrency, handleBaseCurrencyChange)}
+      </View>
+
+      <View style={styles.sectionHeader}>
+        <Text style={styles.sectionTitle}>FX Rates</Text>
+        <TouchableOpacity style={styles.addButton} onPress={openCreateModal}>
+          <MaterialIcons name="add" size={24} color="#FFFFFF" />
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#007AFF" />
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <FlatList
+        data={rates}
+        keyExtractor={(item) => item.id}
+        renderItem={({ item }) => (
+          <TouchableOpacity
+            style={styles.rateRow}
+            onPress={() => openEditModal(item)}
+            onLongPress={() => handleDeleteRate(item)}
+            activeOpacity={0.7}
+          >
+            <View>
+              <Text style={styles.ratePair}>
+                1 {item.from} = {item.rate} {item.to}
+              </Text>
+              <Text style={styles.rateDate}>
+                Effective {formatDate(item.effectiveDate)}
+              </Text>
+            </View>
+            <MaterialIcons name="chevron-right" size={20} color={DARK_THEME_COLORS.textSecondary} />
+          </TouchableOpacity>
+        )}
+        ListHeaderComponent={renderHeader}
+        contentContainerStyle={styles.listContent}
+        showsVerticalScrollIndicator={false}
+        ListEmptyComponent={
+          <View style={styles.emptyContainer}>
+            <MaterialIcons name="currency-exchange" size={64} color="#E5E5EA" />
+            <Text style={styles.emptyText}>No FX rates yet</Text>
+            <Text style={styles.emptySubtext}>
+              Add a rate for each account currency that differs from the base currency
+            </Text>
+          </View>
+        }
+      />
+
+      <Modal
+        visible={modalVisible}
+        animationType="slide"
+        transparent={true}
+        onRequestClose={() => setModalVisible(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>
+                {selectedRate ? 'Edit Rate' : 'New Rate'}
+              </Text>
+              <TouchableOpacity onPress={() => setModalVisible(false)}>
+                <MaterialIcons name="close" size={24} color="#8E8E93" />
+              </TouchableOpacity>
+            </View>
+
+            <ScrollView showsVerticalScrollIndicator={false}>
+              <Text style={styles.label}>From</Text>
+              {renderCurrencyButtons(form.from, (from) => setForm({ ...form, from }))}
+
+              <Text style={styles.label}>To</Text>
+              {renderCurrencyButtons(form.to, (to) => setForm({ ...form, to }))}
+
+              <TextInput
+                style={styles.input}
+                placeholder={`Units of ${form.to} per 1 ${form.from}`}
+                value={form.rate}
+                onChangeText={(text) =>
+                  setForm({ ...form, rate: sanitizeNumericInput(text).replace('-', '') })
+                }
+              />
+
+              <TouchableOpacity
+                style={styles.dateField}
+                onPress={() => setDatePickerVisible(!datePickerVisible)}
+              >
+                <MaterialIcons name="event" size={18} color={DARK_THEME_COLORS.primary} />
+                <Text style={styles.dateText}>
+                  Effective from {formatDate(form.effectiveDate)}
+                </Text>
+              </TouchableOpacity>
+              {datePickerVisible && (
+                <DatePicker
+                  value={form.effectiveDate}
+                  onChange={(effectiveDate) => {
+                    setForm({ ...form, effectiveDate });
+                    setDatePickerVisible(false);
+                  }}
+                />
+              )}
+
+              <Button
+                title={selectedRate ? 'Update Rate' : 'Add Rate'}
+                onPress={handleSaveRate}
+                loading={saving}
+                style={styles.saveButton}
+              />
+            </ScrollView>
+          </View>
+        </View>
+      </Modal>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: DARK_THEME_COLORS.background,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: DARK_THEME_COLORS.background,
+  },
+  listContent: {
+    padding: 16,
+  },
+  headerContainer: {
+    marginBottom: 16,
+  },
+  backButton: {
+    marginBottom: 12,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: '700',
+    color: DARK_THEME_COLORS.text,
+    marginBottom: 16,
+  },
+  card: {
+    backgroundColor: DARK_THEME_COLORS.backgroundSecondary,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: DARK_THEME_COLORS.text,
+    marginBottom: 8,
+  },
+  hint: {
+    fontSize: 14,
+    color: DARK_THEME_COLORS.textSecondary,
+    marginBottom: 12,
+  },
+  currencyButtons: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 16,
+  },
+  currencyButton: {
+    flex: 1,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: DARK_THEME_COLORS.backgroundTertiary,
+    alignItems: 'center',
+  },
+  currencyButtonActive: {
+    backgroundColor: DARK_THEME_COLORS.primary,
+  },
+  currencyButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: DARK_THEME_COLORS.textSecondary,
+  },
+  currencyButtonTextActive: {
+    color: '#FFFFFF',
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  sectionTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: DARK_THEME_COLORS.text,
+  },
+  addButton: {
+    backgroundColor: DARK_THEME_COLORS.primary,
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  rateRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    backgroundColor: DARK_THEME_COLORS.backgroundSecondary,
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+  },
+  ratePair: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: DARK_THEME_COLORS.text,
+  },
+  rateDate: {
+    fontSize: 12,
+    color: DARK_THEME_COLORS.textSecondary,
+    marginTop: 2,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingVertical: 32,
+  },
+  emptyText: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: DARK_THEME_COLORS.textSecondary,
+    marginTop: 16,
+  },
+  emptySubtext: {
+    fontSize: 14,
+    color: DARK_THEME_COLORS.textSecondary,
+    textAlign: 'center',
+    marginTop: 8,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: DARK_THEME_COLORS.overlay,
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: DARK_THEME_COLORS.backgroundSecondary,
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 24,
+    maxHeight: '90%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 24,
+  },
+  modalTitle: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: DARK_THEME_COLORS.text,
+  },
+  input: {
+    backgroundColor: DARK_THEME_COLORS.backgroundTertiary,
+    borderRadius: 8,
+    padding: 16,
+    fontSize: 16,
+    marginBottom: 16,
+    color: DARK_THEME_COLORS.text,
+    borderWidth: 1,
+    borderColor: DARK_THEME_COLORS.border,
+  },
+  dateField: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginBottom: 16,
+  },
+  dateText: {
+    fontSize: 14,
+    color: DARK_THEME_COLORS.textSecondary,
+  },
+  saveButton: {
+    marginTop: 8,
+  },
+});
+
+export default FxRatesScreen;
@@ -0,0 +1,533 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+  ScrollView,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { MaterialIcons } from '@expo/vector-icons';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import Button from '../components/Button';
+import { TradingAccount, RootStackParamList } from '../types';
+import {
+  getAccountById,
+  readCsvImport,
+  guessCsvImportOptions,
+  previewCsvImport,
+  importCsvEntries,
+  CsvImportField,
+  CsvImportSource,
+  CsvImportOptions,
+  CsvImportPreview,
+  CsvImportRow,
+  CsvDuplicatePolicy,
+  ValidationError,
+} from '../api';
+import { pickTextFile } from '../utils/files';
+import { formatCurrency, formatDate } from '../utils/helpers';
+import { CASH_FLOW_LABELS } from '../constants';
+import { DARK_THEME_COLORS } from '../theme/darkTheme';
+
+type ImportScreenProps = NativeStackScreenProps<RootStackParamList, 'Import'>;
+
+const FIELD_LABELS: Record<CsvImportField, string> = {
+  date: 'Date',
+  profitLoss: 'P/L',
+  balance: 'Balance',
+  type: 'Type',
+  notes: 'Notes',
+};
+
+const IMPORT_FIELDS: CsvImportField[] = ['date', 'profitLoss', 'balance', 'type', 'notes'];
+
+const CSV_MIME_TYPES = ['text/csv', 'text/comma-separated-values', 'text/plain'];
+
+// Rows listed in the preview; the summary still counts every row
+const PREVIEW_ROW_LIMIT = 100;
+
+const ImportScreen: React.FC<ImportScreenProps> = ({ navigation, route }) => {
+  const { accountId } = route.params;
+  const [account, setAccount] = useState<TradingAccount | null>(null);
+  const [source, setSource] = useState<CsvImportSource | null>(null);
+  const [options, setOptions] = useState<CsvImportOptions | null>(null);
+  const [preview, setPreview] = useState<CsvImportPreview | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [onDuplicate, setOnDuplicate] = useState<CsvDuplicatePolicy>('skip');
+  const [previewing, setPreviewing] = useState(false);
+  const [importing, setImporting] = useState(false);
+
+  useEffect(() => {
+    getAccountById(accountId)
+      .then(setAccount)
+      .catch((error) => console.error('Error loading account:', error));
+  }, [accountId]);
+
+  useEffect(() => {
+    if (!source || !options) {
+      return;
+    }
+    let cancelled = false;
+    setPreviewing(true);
+    previewCsvImport(accountId, source, options)
+      .then((result) => {
+        if (!cancelled) {
+          setPreview(result);
+          setPreviewError(null);
+        }
+      })
+      .catch((error) => {
+        if (cancelled) {
+          return;
+        }
+        setPreview(null);
+        if (error instanceof ValidationError) {
+          setPreviewError(error.message);
+        } else {
+          console.error('Error previewing import:', error);
+          setPreviewError('Failed to read the file');
+        }
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setPreviewing(false);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [accountId, source, options]);
+
+  const handlePickFile = async () => {
+    try {
+      const file = await pickTextFile(CSV_MIME_TYPES);
+      if (!file) {
+        return;
+      }
+      const parsed = readCsvImport(file.fileName, file.content);
+      setSource(parsed);
+      setOptions(guessCsvImportOptions(parsed));
+    } catch (error) {
+      console.error('Error opening CSV file:', error);
+      Alert.alert('Error', error instanceof ValidationError ? error.message : 'Failed to open the file');
+    }
+  };
+
+  const setMapping = (field: CsvImportField, column: number | undefined) => {
+    if (!options) {
+      return;
+    }
+    const mapping = { ...options.mapping };
+    // A column feeds one field at most
+    (Object.keys(mapping) as CsvImportField[]).forEach((key) => {
+      if (mapping[key] === column) {
+        delete mapping[key];
+      }
+    });
+    if (column === undefined) {
+      delete mapping[field];
+    } else {
+      mapping[field] = column;
+    }
+    setOptions({ ...options, mapping });
+  };
+
+  const handleImport = async () => {
+    if (!preview) {
+      return;
+    }
+    try {
+      setImporting(true);
+      const result = await importCsvEntries(preview, onDuplicate);
+      const parts = [`${result.created} entries created`];
+      if (result.merged > 0) {
+        parts.push(`${result.merged} merged into existing days`);
+      }
+      if (result.skipped > 0) {
+        parts.push(`${result.skipped} rows skipped`);
+      }
+      Alert.alert('Import Complete', `${parts.join(', ')}.`);
+      navigation.goBack();
+    } catch (error) {
+      console.error('Error importing entries:', error);
+      Alert.alert('Error', error instanceof ValidationError ? error.message : 'Failed to import entries');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  /**
+   * Describe the state of a preview row
+   */
+  const renderRowStatus = (row: CsvImportRow) => {
+    if (row.status === 'invalid') {
+      return <Text style={[styles.rowStatus, styles.rowStatusInvalid]}>{row.error}</Text>;
+    }
+    if (row.status === 'duplicate') {
+      return (
+        <Text style={[styles.rowStatus, styles.rowStatusDuplicate]}>
+          {row.duplicateOf === 'entry' ? 'Day already has an entry' : 'Day repeated in the file'}
+          {row.unmergeable ? ` (${row.unmergeable}, always skipped)` : ''}
+        </Text>
+      );
+    }
+    return null;
+  };
+
+  const importCount = preview
+    ? preview.readyCount + (onDuplicate === 'merge' ? preview.mergeableCount : 0)
+    : 0;
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView contentContainerStyle={styles.scrollContent}>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <MaterialIcons name="arrow-back" size={24} color="#007AFF" />
+        </TouchableOpacity>
+
+        <Text style={styles.title}>Import from CSV</Text>
+        {account && <Text style={styles.subtitle}>Into {account.name}</Text>}
+
+        <View style={styles.card}>
+          <Text style={styles.bodyText}>
+            {source
+              ? `${source.fileName}: ${source.rows.length} rows`
+              : 'Pick a CSV file with one row per trading day. The first row must hold the column names.'}
+          </Text>
+          <Button
+            title={source ? 'Choose Another File' : 'Choose File'}
+            variant={source ? 'secondary' : 'primary'}
+            onPress={handlePickFile}
+            disabled={importing}
+          />
+        </View>
+
+        {source && options && (
+          <>
+            <View style={styles.card}>
+              <Text style={styles.label}>Columns</Text>
+              {IMPORT_FIELDS.map((field) => (
+                <View key={field} style={styles.mappingRow}>
+                  <Text style={styles.mappingLabel}>{FIELD_LABELS[field]}</Text>
+                  <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                    <View style={styles.chips}>
+                      <TouchableOpacity
+                        style={[
+                          styles.chip,
+                          options.mapping[field] === undefined && styles.chipActive,
+                        ]}
+                        onPress={() => setMapping(field, undefined)}
+                      >
+                        <Text
+                          style={[
+                            styles.chipText,
+                            options.mapping[field] === undefined && styles.chipTextActive,
+                          ]}
+                        >
+                          None
+                        </Text>
+                      </TouchableOpacity>
+                      {source.header.map((column, index) => (
+                        <TouchableOpacity
+                          key={index}
+                          style={[
+                            styles.chip,
+                            options.mapping[field] === index && styles.chipActive,
+                          ]}
+                          onPress={() => setMapping(field, index)}
+                        >
+                          <Text
+                            style={[
+                              styles.chipText,
+                              options.mapping[field] === index && styles.chipTextActive,
+                            ]}
+                          >
+                            {column || `Column ${index + 1}`}
+                          </Text>
+                        </TouchableOpacity>
+                      ))}
+                    </View>
+                  </ScrollView>
+                </View>
+              ))}
+              <Text style={styles.hint}>
+                Balances are always recalculated. A balance column is only used to work out
+                each day's P/L when there is no P/L column.
+              </Text>
+            </View>
+
+            <View style={styles.card}>
+              <Text style={styles.label}>Dates</Text>
+              <View style={styles.segments}>
+                {(['dmy', 'mdy'] as const).map((format) => (
+                  <TouchableOpacity
+                    key={format}
+                    style={[styles.segment, options.dateFormat === format && styles.chipActive]}
+                    onPress={() => setOptions({ ...options, dateFormat: format })}
+                  >
+                    <Text
+                      style={[
+                        styles.chipText,
+                        options.dateFormat === format && styles.chipTextActive,
+                      ]}
+                    >
+                      {format === 'dmy' ? 'Day first (31/12)' : 'Month first (12/31)'}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              <Text style={[styles.label, styles.labelSpaced]}>Decimals</Text>
+              <View style={styles.segments}>
+                {(['.', ','] as const).map((separator) => (
+                  <TouchableOpacity
+                    key={separator}
+                    style={[
+                      styles.segment,
+                      options.decimalSeparator === separator && styles.chipActive,
+                    ]}
+                    onPress={() => setOptions({ ...options, decimalSeparator: separator })}
+                  >
+                    <Text
+                      style={[
+                        styles.chipText,
+                        options.decimalSeparator === separator && styles.chipTextActive,
+                      ]}
+                    >
+                      {separator === '.' ? '1,234.56' : '1.234,56'}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+
+            {previewing && !preview ? (
+              <ActivityIndicator size="large" color="#007AFF" style={styles.loading} />
+            ) : previewError ? (
+              <Text style={styles.errorText}>{previewError}</Text>
+            ) : preview ? (
+              <>
+                <View style={styles.card}>
+                  <Text style={styles.bodyText}>
+                    {preview.readyCount} new entries, {preview.duplicateCount} duplicates,{' '}
+                    {preview.invalidCount} unreadable rows
+                  </Text>
+                  {preview.duplicateCount > 0 && (
+                    <>
+                      <Text style={[styles.label, styles.labelSpaced]}>Duplicate days</Text>
+                      <View style={styles.segments}>
+                        {(['skip', 'merge'] as const).map((policy) => (
+                          <TouchableOpacity
+                            key={policy}
+                            style={[styles.segment, onDuplicate === policy && styles.chipActive]}
+                            onPress={() => setOnDuplicate(policy)}
+                          >
+                            <Text
+                              style={[
+                                styles.chipText,
+                                onDuplicate === policy && styles.chipTextActive,
+                              ]}
+                            >
+                              {policy === 'skip' ? 'Skip' : 'Add to that day'}
+                            </Text>
+                          </TouchableOpacity>
+                        ))}
+                      </View>
+                    </>
+                  )}
+                  <Button
+                    title={`Import ${importCount} Rows`}
+                    onPress={handleImport}
+                    loading={importing}
+                    disabled={importing || previewing || importCount === 0}
+                  />
+                </View>
+
+                {preview.rows.slice(0, PREVIEW_ROW_LIMIT).map((row) => (
+                  <View key={row.line} style={styles.previewRow}>
+                    <View style={styles.previewHeader}>
+                      <Text style={styles.previewLine}>Line {row.line}</Text>
+                      {row.date && (
+                        <Text style={styles.previewDate}>
+                          {formatDate(row.date)}
+                          {row.type ? ` · ${CASH_FLOW_LABELS[row.type]}` : ''}
+                        </Text>
+                      )}
+                      {row.profitLoss !== undefined && (
+                        <Text
+                          style={[
+                            styles.previewAmount,
+                            {
+                              color:
+                                row.profitLoss >= 0
+                                  ? DARK_THEME_COLORS.profit
+                                  : DARK_THEME_COLORS.loss,
+                            },
+                          ]}
+                        >
+                          {formatCurrency(row.profitLoss, account?.currency)}
+                        </Text>
+                      )}
+                    </View>
+                    {row.notes && (
+                      <Text style={styles.previewNotes} numberOfLines={2}>
+                        {row.notes}
+                      </Text>
+                    )}
+                    {renderRowStatus(row)}
+                  </View>
+                ))}
+                {preview.rows.length > PREVIEW_ROW_LIMIT && (
+                  <Text style={styles.hint}>
+                    {preview.rows.length - PREVIEW_ROW_LIMIT} more rows not shown
+                  </Text>
+                )}
+              </>
+            ) : null}
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: DARK_THEME_COLORS.background,
+  },
+  scrollContent: {
+    padding: 16,
+  },
+  backButton: {
+    marginBottom: 12,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: '700',
+    color: DARK_THEME_COLORS.text,
+  },
+  subtitle: {
+    fontSize: 15,
+    color: DARK_THEME_COLORS.textSecondary,
+    marginTop: 4,
+  },
+  card: {
+    backgroundColor: DARK_THEME_COLORS.backgroundSecondary,
+    borderRadius: 12,
+    padding: 16,
+    marginTop: 16,
+    gap: 12,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: DARK_THEME_COLORS.text,
+  },
+  labelSpaced: {
+    marginTop: 4,
+  },
+  bodyText: {
+    fontSize: 14,
+    lineHeight: 20,
+    color: DARK_THEME_COLORS.textSecondary,
+  },
+  hint: {
+    fontSize: 13,
+    lineHeight: 18,
+    color: DARK_THEME_COLORS.textSecondary,
+    marginTop: 8,
+  },
+  mappingRow: {
+    gap: 6,
+  },
+  mappingLabel: {
+    fontSize: 14,
+    color: DARK_THEME_COLORS.textSecondary,
+  },
+  chips: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  chip: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    backgroundColor: DARK_THEME_COLORS.backgroundTertiary,
+  },
+  chipActive: {
+    backgroundColor: DARK_THEME_COLORS.primary,
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: DARK_THEME_COLORS.textSecondary,
+  },
+  chipTextActive: {
+    color: '#FFFFFF',
+  },
+  segments: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  segment: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 8,
+    backgroundColor: DARK_THEME_COLORS.backgroundTertiary,
+    alignItems: 'center',
+  },
+  loading: {
+    marginTop: 32,
+  },
+  errorText: {
+    fontSize: 14,
+    color: DARK_THEME_COLORS.loss,
+    marginTop: 16,
+  },
+  previewRow: {
+    backgroundColor: DARK_THEME_COLORS.backgroundSecondary,
+    borderRadius: 8,
+    padding: 12,
+    marginTop: 8,
+  },
+  previewHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  previewLine: {
+    fontSize: 13,
+    color: DARK_THEME_COLORS.textTertiary,
+  },
+  previewDate: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+    color: DARK_THEME_COLORS.text,
+  },
+  previewAmount: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  previewNotes: {
+    fontSize: 13,
+    color: DARK_THEME_COLORS.textSecondary,
+    marginTop: 4,
+  },
+  rowStatus: {
+    fontSize: 13,
+    fontWeight: '600',
+    marginTop: 4,
+  },
+  rowStatusInvalid: {
+    color: DARK_THEME_COLORS.loss,
+  },
+  rowStatusDuplicate: {
+    color: '#FF9500',
+  },
+});
+
+export default ImportScreen;
@@ -0,0 +1,162 @@
+import React, { useState } from 'react';
+import {
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { MaterialIcons } from '@expo/vector-icons';
+import Button from '../components/Button';
+import { unlockWithPasscode, resetPasscodeLock, getStorageBackend, InvalidPasscodeError } from '../api';
+import { DARK_THEME_COLORS } from '../theme/darkTheme';
+
+// Shown by App instead of the navigator while the journal is locked
+const LockScreen: React.FC = () => {
+  const [passcode, setPasscode] = useState('');
+  const [unlocking, setUnlocking] = useState(false);
+
+  const handleUnlock = async () => {
+    if (!passcode) {
+      return;
+    }
+    try {
+      setUnlocking(true);
+      await unlockWithPasscode(passcode);
+    } catch (error) {
+      setPasscode('');
+      setUnlocking(false);
+      if (error instanceof InvalidPasscodeError) {
+        Alert.alert('Incorrect Passcode', 'Please try again');
+        return;
+      }
+      console.error('Error unlocking journal:', error);
+      Alert.alert('Error', 'Failed to unlock');
+    }
+  };
+
+  const handleForgotPasscode = () => {
+    const synced = getStorageBackend() === 'synced';
+    Alert.alert(
+      'Forgot Passcode',
+      synced
+        ? 'The journal on this device is encrypted with your passcode. Resetting erases it and downloads it again from Firebase. Changes not yet synced are lost.'
+        : 'The journal on this device is encrypted with your passcode and cannot be recovered without it. Resetting permanently erases all accounts and entries.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Erase and Reset',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await resetPasscodeLock();
+            } catch (error) {
+              console.error('Error resetting passcode lock:', error);
+              Alert.alert('Error', 'Failed to reset the passcode');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <KeyboardAvoidingView
+        style={styles.content}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        <MaterialIcons
+          name="lock-outline"
+          size={48}
+          color={DARK_THEME_COLORS.primary}
+          style={styles.icon}
+        />
+        <Text style={styles.title}>Journal Locked</Text>
+        <Text style={styles.subtitle}>Enter your passcode to continue</Text>
+
+        <TextInput
+          style={styles.input}
+          placeholder="Passcode"
+          placeholderTextColor={DARK_THEME_COLORS.textTertiary}
+          value={passcode}
+          onChangeText={setPasscode}
+          onSubmitEditing={handleUnlock}
+          keyboardType="number-pad"
+          secureTextEntry
+          autoFocus
+          editable={!unlocking}
+        />
+
+        <Button
+          title="Unlock"
+          onPress={handleUnlock}
+          loading={unlocking}
+          disabled={unlocking || !passcode}
+        />
+
+        <TouchableOpacity
+          style={styles.forgot}
+          onPress={handleForgotPasscode}
+          disabled={unlocking}
+        >
+          <Text style={styles.forgotText}>Forgot passcode?</Text>
+        </TouchableOpacity>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: DARK_THEME_COLORS.background,
+  },
+  content: {
+    flex: 1,
+    justifyContent: 'center',
+    padding: 24,
+  },
+  icon: {
+    alignSelf: 'center',
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: '700',
+    color: DARK_THEME_COLORS.text,
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: DARK_THEME_COLORS.textSecondary,
+    textAlign: 'center',
+    marginBottom: 24,
+  },
+  input: {
+    backgroundColor: DARK_THEME_COLORS.backgroundTertiary,
+    borderRadius: 8,
+    padding: 16,
+    fontSize: 20,
+    letterSpacing: 8,
+    textAlign: 'center',
+    marginBottom: 16,
+    color: DARK_THEME_COLORS.text,
+    borderWidth: 1,
+    borderColor: DARK_THEME_COLORS.border,
+  },
+  forgot: {
+    marginTop: 20,
+    alignItems: 'center',
+  },
+  forgotText: {
+    fontSize: 15,
+    color: DARK_THEME_COLORS.textSecondary,
+  },
+});
+
+export default LockScreen;
@@ -0,0 +1,281 @@
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+  ScrollView,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { MaterialIcons } from '@expo/vector-icons';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { useFocusEffect } from '@react-navigation/native';
+import Button from '../components/Button';
+import { RootStackParamList } from '../types';
+import {
+  getLocalMigrationStatus,
+  migrateLocalData,
+  LocalMigrationStatus,
+  MigrationPhase,
+  MigrationProgress,
+  MigrationReport,
+} from '../api';
+import { DARK_THEME_COLORS } from '../theme/darkTheme';
+
+const PHASE_LABELS: Record<MigrationPhase, string> = {
+  accounts: 'Uploading accounts',
+  entries: 'Uploading entries',
+  trades: 'Uploading trades',
+  finalizing: 'Updating this device',
+};
+
+type MigrationScreenProps = NativeStackScreenProps<RootStackParamList, 'Migration'>;
+
+const MigrationScreen: React.FC<MigrationScreenProps> = ({ navigation }) => {
+  const [loading, setLoading] = useState(true);
+  const [status, setStatus] = useState<LocalMigrationStatus | null>(null);
+  const [progress, setProgress] = useState<MigrationProgress | null>(null);
+  const [report, setReport] = useState<MigrationReport | null>(null);
+  const [migrating, setMigrating] = useState(false);
+
+  const loadStatus = useCallback(async () => {
+    try {
+      setLoading(true);
+      setStatus(await getLocalMigrationStatus());
+    } catch (error) {
+      console.error('Error checking local data:', error);
+      Alert.alert('Error', 'Failed to check local data');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadStatus();
+    }, [loadStatus])
+  );
+
+  const handleMigrate = async () => {
+    try {
+      setMigrating(true);
+      setReport(await migrateLocalData(setProgress));
+    } catch (error) {
+      console.error('Error migrating local data:', error);
+      Alert.alert(
+        'Migration Interrupted',
+        'Not everything was uploaded. Check your connection and try again; the migration resumes where it stopped.'
+      );
+      await loadStatus();
+    } finally {
+      setMigrating(false);
+      setProgress(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#007AFF" />
+      </SafeAreaView>
+    );
+  }
+
+  const progressRatio = progress && progress.total > 0 ? progress.completed / progress.total : 0;
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView
+        contentContainerStyle={styles.scrollContent}
+        showsVerticalScrollIndicator={false}
+      >
+        <View style={styles.headerRow}>
+          <TouchableOpacity onPress={() => navigation.goBack()} disabled={migrating}>
+            <MaterialIcons name="arrow-back" size={24} color="#007AFF" />
+          </TouchableOpacity>
+        </View>
+
+        <Text style={styles.title}>Move Local Data</Text>
+
+        {report ? (
+          <View style={styles.card}>
+            <View style={styles.cardHeader}>
+              <MaterialIcons name="check-circle" size={24} color={DARK_THEME_COLORS.profit} />
+              <Text style={styles.cardTitle}>Migration complete</Text>
+            </View>
+            <Text style={styles.bodyText}>
+              Uploaded {report.accounts} accounts, {report.entries} entries and {report.trades}{' '}
+              trades to Firebase.
+            </Text>
+            {report.updated > 0 && (
+              <Text style={styles.bodyText}>
+                {report.updated} accounts were already in Firebase; only the changes made on
+                this device since then were uploaded.
+              </Text>
+            )}
+          </View>
+        ) : status?.pending ? (
+          <View style={styles.card}>
+            <View style={styles.cardHeader}>
+              <MaterialIcons name="cloud-upload" size={24} color={DARK_THEME_COLORS.primary} />
+              <Text style={styles.cardTitle}>
+                {status.inProgress ? 'Migration not finished' : 'Local data found'}
+              </Text>
+            </View>
+            <Text style={styles.bodyText}>
+              This device has {status.accounts} accounts and {status.entries} entries saved
+              before Firebase was set up. Upload them so they appear with the rest of your
+              journal. Settings and FX rates stay on this device.
+            </Text>
+
+            {progress && (
+              <View style={styles.progressSection}>
+                <Text style={styles.progressLabel}>
+                  {PHASE_LABELS[progress.phase]} ({progress.completed}/{progress.total})
+                </Text>
+                <View style={styles.progressTrack}>
+                  <View style={[styles.progressFill, { width: `${progressRatio * 100}%` }]} />
+                </View>
+              </View>
+            )}
+
+            <Button
+              title={status.inProgress ? 'Resume Migration' : 'Upload to Firebase'}
+              onPress={handleMigrate}
+              loading={migrating}
+              disabled={migrating}
+            />
+          </View>
+        ) : (
+          <View style={styles.emptyContainer}>
+            <MaterialIcons name="cloud-done" size={64} color="#E5E5EA" />
+            <Text style={styles.emptyText}>Nothing to migrate</Text>
+            <Text style={styles.emptySubtext}>
+              All journal data on this device is already in Firebase
+            </Text>
+          </View>
+        )}
+
+        {report && report.conflicts.length > 0 && (
+          <>
+            <Text style={styles.sectionTitle}>Conflicts</Text>
+            {report.conflicts.map((conflict) => (
+              <View key={conflict.localId} style={styles.row}>
+                <MaterialIcons name="warning" size={20} color="#FF9500" />
+                <Text style={styles.rowText}>{conflict.message}</Text>
+              </View>
+            ))}
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: DARK_THEME_COLORS.background,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: DARK_THEME_COLORS.background,
+  },
+  scrollContent: {
+    padding: 16,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: '700',
+    color: DARK_THEME_COLORS.text,
+    marginBottom: 16,
+  },
+  card: {
+    backgroundColor: DARK_THEME_COLORS.backgroundSecondary,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    gap: 12,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: DARK_THEME_COLORS.text,
+  },
+  bodyText: {
+    fontSize: 14,
+    lineHeight: 20,
+    color: DARK_THEME_COLORS.textSecondary,
+  },
+  progressSection: {
+    gap: 8,
+  },
+  progressLabel: {
+    fontSize: 14,
+    color: DARK_THEME_COLORS.text,
+  },
+  progressTrack: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: DARK_THEME_COLORS.backgroundTertiary,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    backgroundColor: DARK_THEME_COLORS.primary,
+  },
+  sectionTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: DARK_THEME_COLORS.text,
+    marginTop: 8,
+    marginBottom: 12,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: DARK_THEME_COLORS.backgroundSecondary,
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+  },
+  rowText: {
+    flex: 1,
+    fontSize: 14,
+    color: DARK_THEME_COLORS.text,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingVertical: 48,
+  },
+  emptyText: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: DARK_THEME_COLORS.text,
+    marginTop: 16,
+  },
+  emptySubtext: {
+    fontSize: 14,
+    color: DARK_THEME_COLORS.textSecondary,
+    marginTop: 8,
+    textAlign: 'center',
+  },
+});
+
+export default MigrationScreen;
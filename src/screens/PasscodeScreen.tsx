@@ -0,0 +1,299 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  Alert,
+  ScrollView,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { MaterialIcons } from '@expo/vector-icons';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import Button from '../components/Button';
+import { RootStackParamList } from '../types';
+import {
+  enablePasscodeLock,
+  changePasscode,
+  disablePasscodeLock,
+  setAutoLockMinutes,
+  InvalidPasscodeError,
+  ValidationError,
+} from '../api';
+import { usePasscodeLock } from '../hooks';
+import { AUTO_LOCK_OPTIONS } from '../constants';
+import { DARK_THEME_COLORS } from '../theme/darkTheme';
+
+type PasscodeScreenProps = NativeStackScreenProps<RootStackParamList, 'Passcode'>;
+
+type PasscodeAction = 'enable' | 'change' | 'disable';
+
+const ACTION_TITLES: Record<PasscodeAction, string> = {
+  enable: 'Set Passcode',
+  change: 'Change Passcode',
+  disable: 'Turn Off Passcode',
+};
+
+const PasscodeScreen: React.FC<PasscodeScreenProps> = ({ navigation }) => {
+  const { status, autoLockMinutes } = usePasscodeLock();
+  const [action, setAction] = useState<PasscodeAction | null>(null);
+  const [currentPasscode, setCurrentPasscode] = useState('');
+  const [newPasscode, setNewPasscode] = useState('');
+  const [confirmPasscode, setConfirmPasscode] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const enabled = status !== 'disabled';
+
+  const startAction = (nextAction: PasscodeAction | null) => {
+    setAction(nextAction);
+    setCurrentPasscode('');
+    setNewPasscode('');
+    setConfirmPasscode('');
+  };
+
+  const handleSubmit = async () => {
+    if (!action) {
+      return;
+    }
+    if (action !== 'disable' && newPasscode !== confirmPasscode) {
+      Alert.alert('Error', 'Passcodes do not match');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      // Encrypting or decrypting the whole journal can take a moment on large journals
+      if (action === 'enable') {
+        await enablePasscodeLock(newPasscode);
+      } else if (action === 'change') {
+        await changePasscode(currentPasscode, newPasscode);
+      } else {
+        await disablePasscodeLock(currentPasscode);
+      }
+      startAction(null);
+    } catch (error) {
+      if (error instanceof InvalidPasscodeError || error instanceof ValidationError) {
+        Alert.alert('Error', error.message);
+      } else {
+        console.error('Error updating passcode:', error);
+        Alert.alert('Error', 'Failed to update the passcode');
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAutoLockChange = async (minutes: number) => {
+    try {
+      await setAutoLockMinutes(minutes);
+    } catch (error) {
+      console.error('Error updating auto-lock:', error);
+      Alert.alert('Error', 'Failed to update auto-lock');
+    }
+  };
+
+  const renderInput = (placeholder: string, value: string, onChange: (text: string) => void) => (
+    <TextInput
+      style={styles.input}
+      placeholder={placeholder}
+      placeholderTextColor={DARK_THEME_COLORS.textTertiary}
+      value={value}
+      onChangeText={onChange}
+      keyboardType="number-pad"
+      secureTextEntry
+      editable={!saving}
+    />
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView contentContainerStyle={styles.scrollContent} keyboardShouldPersistTaps="handled">
+        <View style={styles.headerRow}>
+          <TouchableOpacity onPress={() => navigation.goBack()} disabled={saving}>
+            <MaterialIcons name="arrow-back" size={24} color="#007AFF" />
+          </TouchableOpacity>
+        </View>
+
+        <Text style={styles.title}>Passcode Lock</Text>
+
+        <View style={styles.card}>
+          <View style={styles.cardHeader}>
+            <MaterialIcons
+              name={enabled ? 'lock-outline' : 'lock-open'}
+              size={32}
+              color={enabled ? DARK_THEME_COLORS.profit : DARK_THEME_COLORS.textSecondary}
+            />
+            <Text style={styles.statusText}>{enabled ? 'Passcode is on' : 'Passcode is off'}</Text>
+          </View>
+          <Text style={styles.bodyText}>
+            With a passcode, the app asks for it on launch and after a period without use, and
+            accounts, entries and trades saved on this device are encrypted with it. There is no
+            way to recover the device copy of your journal without the passcode.
+          </Text>
+        </View>
+
+        {enabled && autoLockMinutes !== null && (
+          <View style={styles.card}>
+            <Text style={styles.label}>Lock after</Text>
+            <View style={styles.optionButtons}>
+              {AUTO_LOCK_OPTIONS.map((minutes) => (
+                <TouchableOpacity
+                  key={minutes}
+                  style={[
+                    styles.optionButton,
+                    autoLockMinutes === minutes && styles.optionButtonActive,
+                  ]}
+                  onPress={() => handleAutoLockChange(minutes)}
+                >
+                  <Text
+                    style={[
+                      styles.optionButtonText,
+                      autoLockMinutes === minutes && styles.optionButtonTextActive,
+                    ]}
+                  >
+                    {minutes} min
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+        )}
+
+        {action ? (
+          <View style={styles.card}>
+            <Text style={styles.label}>{ACTION_TITLES[action]}</Text>
+            {action !== 'enable' &&
+              renderInput('Current passcode', currentPasscode, setCurrentPasscode)}
+            {action !== 'disable' && (
+              <>
+                {renderInput('New passcode', newPasscode, setNewPasscode)}
+                {renderInput('Confirm new passcode', confirmPasscode, setConfirmPasscode)}
+              </>
+            )}
+            <View style={styles.formActions}>
+              <Button
+                title="Cancel"
+                variant="secondary"
+                onPress={() => startAction(null)}
+                disabled={saving}
+                style={styles.formButton}
+              />
+              <Button
+                title={action === 'disable' ? 'Turn Off' : 'Save'}
+                variant={action === 'disable' ? 'danger' : 'primary'}
+                onPress={handleSubmit}
+                loading={saving}
+                disabled={saving}
+                style={styles.formButton}
+              />
+            </View>
+          </View>
+        ) : enabled ? (
+          <View style={styles.actions}>
+            <Button title="Change Passcode" onPress={() => startAction('change')} />
+            <Button
+              title="Turn Off Passcode"
+              variant="danger"
+              onPress={() => startAction('disable')}
+            />
+          </View>
+        ) : (
+          <Button title="Set Passcode" onPress={() => startAction('enable')} />
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: DARK_THEME_COLORS.background,
+  },
+  scrollContent: {
+    padding: 16,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: '700',
+    color: DARK_THEME_COLORS.text,
+    marginBottom: 16,
+  },
+  card: {
+    backgroundColor: DARK_THEME_COLORS.backgroundSecondary,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    gap: 12,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  statusText: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: DARK_THEME_COLORS.text,
+  },
+  bodyText: {
+    fontSize: 14,
+    lineHeight: 20,
+    color: DARK_THEME_COLORS.textSecondary,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: DARK_THEME_COLORS.text,
+  },
+  optionButtons: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  optionButton: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 8,
+    backgroundColor: DARK_THEME_COLORS.backgroundTertiary,
+    alignItems: 'center',
+  },
+  optionButtonActive: {
+    backgroundColor: DARK_THEME_COLORS.primary,
+  },
+  optionButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: DARK_THEME_COLORS.textSecondary,
+  },
+  optionButtonTextActive: {
+    color: '#FFFFFF',
+  },
+  input: {
+    backgroundColor: DARK_THEME_COLORS.backgroundTertiary,
+    borderRadius: 8,
+    padding: 16,
+    fontSize: 16,
+    color: DARK_THEME_COLORS.text,
+    borderWidth: 1,
+    borderColor: DARK_THEME_COLORS.border,
+  },
+  formActions: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  formButton: {
+    flex: 1,
+  },
+  actions: {
+    gap: 12,
+  },
+});
+
+export default PasscodeScreen;
@@ -0,0 +1,149 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Alert } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { MaterialIcons } from '@expo/vector-icons';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import Button from '../components/Button';
+import { RootStackParamList } from '../types';
+import { signOut, syncNow, getUnsyncedChangeCount } from '../api';
+import { useAuth } from '../hooks';
+import { DARK_THEME_COLORS } from '../theme/darkTheme';
+
+type ProfileScreenProps = NativeStackScreenProps<RootStackParamList, 'Profile'>;
+
+const ProfileScreen: React.FC<ProfileScreenProps> = ({ navigation }) => {
+  const { user } = useAuth();
+  const [signingOut, setSigningOut] = useState(false);
+
+  // The navigator returns to the sign-in screen once the session has ended
+  const completeSignOut = async () => {
+    try {
+      setSigningOut(true);
+      await signOut();
+    } catch (error) {
+      console.error('Error signing out:', error);
+      Alert.alert('Error', 'Failed to sign out');
+      setSigningOut(false);
+    }
+  };
+
+  const handleSignOut = async () => {
+    setSigningOut(true);
+    // Give changes made on this device a last chance to reach Firebase
+    await syncNow();
+    let warning: string | null = null;
+    try {
+      const unsynced = await getUnsyncedChangeCount();
+      if (unsynced > 0) {
+        warning = `${unsynced} changes on this device have not reached Firebase yet. Signing out now discards them.`;
+      }
+    } catch (error) {
+      console.error('Error counting unsynced changes:', error);
+      warning =
+        'The changes waiting to reach Firebase could not be read. Signing out now discards any of them.';
+    }
+    setSigningOut(false);
+
+    if (!warning) {
+      await completeSignOut();
+      return;
+    }
+    Alert.alert(
+      'Unsynced Changes',
+      warning,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Sign Out', style: 'destructive', onPress: completeSignOut },
+      ]
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.content}>
+        <View style={styles.headerRow}>
+          <TouchableOpacity onPress={() => navigation.goBack()} disabled={signingOut}>
+            <MaterialIcons name="arrow-back" size={24} color="#007AFF" />
+          </TouchableOpacity>
+        </View>
+
+        <Text style={styles.title}>Profile</Text>
+
+        <View style={styles.card}>
+          <View style={styles.cardHeader}>
+            <MaterialIcons name="account-circle" size={40} color={DARK_THEME_COLORS.primary} />
+            <View style={styles.userInfo}>
+              <Text style={styles.label}>Signed in as</Text>
+              <Text style={styles.email}>{user?.email ?? 'Unknown user'}</Text>
+            </View>
+          </View>
+          <Text style={styles.bodyText}>
+            Accounts and entries you record are stored under this user and are only visible
+            after signing in with it.
+          </Text>
+        </View>
+
+        <Button
+          title="Sign Out"
+          variant="danger"
+          onPress={handleSignOut}
+          loading={signingOut}
+          disabled={signingOut}
+        />
+      </View>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: DARK_THEME_COLORS.background,
+  },
+  content: {
+    padding: 16,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: '700',
+    color: DARK_THEME_COLORS.text,
+    marginBottom: 16,
+  },
+  card: {
+    backgroundColor: DARK_THEME_COLORS.backgroundSecondary,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 24,
+    gap: 12,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  userInfo: {
+    flex: 1,
+  },
+  label: {
+    fontSize: 13,
+    color: DARK_THEME_COLORS.textSecondary,
+  },
+  email: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: DARK_THEME_COLORS.text,
+  },
+  bodyText: {
+    fontSize: 14,
+    lineHeight: 20,
+    color: DARK_THEME_COLORS.textSecondary,
+  },
+});
+
+export default ProfileScreen;
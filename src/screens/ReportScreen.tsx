@@ -0,0 +1,285 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+  ScrollView,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { MaterialIcons } from '@expo/vector-icons';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import Button from '../components/Button';
+import DatePicker from '../components/DatePicker';
+import { TradingAccount, RootStackParamList } from '../types';
+import {
+  getAllAccounts,
+  buildPerformanceReport,
+  exportPerformanceReport,
+  ValidationError,
+} from '../api';
+import { sharePdf, shareTextFile } from '../utils/files';
+import { formatDate } from '../utils/helpers';
+import { DARK_THEME_COLORS } from '../theme/darkTheme';
+
+type ReportScreenProps = NativeStackScreenProps<RootStackParamList, 'Report'>;
+
+type PeriodPreset = 'thisMonth' | 'lastMonth' | 'last3Months' | 'yearToDate' | 'custom';
+
+const PERIOD_PRESETS: { key: PeriodPreset; label: string }[] = [
+  { key: 'thisMonth', label: 'This Month' },
+  { key: 'lastMonth', label: 'Last Month' },
+  { key: 'last3Months', label: 'Last 3 Months' },
+  { key: 'yearToDate', label: 'Year to Date' },
+  { key: 'custom', label: 'Custom' },
+];
+
+/**
+ * First and last day of a preset period, counted from today
+ */
+const getPresetRange = (preset: Exclude<PeriodPreset, 'custom'>): { from: Date; to: Date } => {
+  const today = new Date();
+  const year = today.getFullYear();
+  const month = today.getMonth();
+  switch (preset) {
+    case 'thisMonth':
+      return { from: new Date(year, month, 1), to: today };
+    case 'lastMonth':
+      return { from: new Date(year, month - 1, 1), to: new Date(year, month, 0) };
+    case 'last3Months':
+      return { from: new Date(year, month - 2, 1), to: today };
+    case 'yearToDate':
+      return { from: new Date(year, 0, 1), to: today };
+  }
+};
+
+const ReportScreen: React.FC<ReportScreenProps> = ({ navigation, route }) => {
+  const [loading, setLoading] = useState(true);
+  const [generating, setGenerating] = useState<'pdf' | 'html' | null>(null);
+  const [accounts, setAccounts] = useState<TradingAccount[]>([]);
+  // Undefined reports every account
+  const [accountId, setAccountId] = useState<string | undefined>(route.params?.accountId);
+  const [preset, setPreset] = useState<PeriodPreset>('thisMonth');
+  const [customFrom, setCustomFrom] = useState(() => getPresetRange('thisMonth').from);
+  const [customTo, setCustomTo] = useState(() => new Date());
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const allAccounts = await getAllAccounts();
+        setAccounts(allAccounts.sort((a, b) => a.name.localeCompare(b.name)));
+      } catch (error) {
+        console.error('Error loading accounts for report:', error);
+        Alert.alert('Error', 'Failed to load accounts');
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, []);
+
+  const period =
+    preset === 'custom' ? { from: customFrom, to: customTo } : getPresetRange(preset);
+
+  const handleGenerate = async (format: 'pdf' | 'html') => {
+    try {
+      setGenerating(format);
+      const report = await buildPerformanceReport({ accountId, ...period });
+      const file = exportPerformanceReport(report);
+      await (format === 'pdf' ? sharePdf(file) : shareTextFile(file));
+    } catch (error) {
+      console.error('Error generating report:', error);
+      Alert.alert('Error', error instanceof ValidationError ? error.message : 'Failed to generate the report');
+    } finally {
+      setGenerating(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#007AFF" />
+      </View>
+    );
+  }
+
+  const scopes: { id: string | undefined; label: string }[] = [
+    { id: undefined, label: 'All accounts' },
+    ...accounts.map((account) => ({ id: account.id, label: account.name })),
+  ];
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView contentContainerStyle={styles.scrollContent}>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <MaterialIcons name="arrow-back" size={24} color="#007AFF" />
+        </TouchableOpacity>
+
+        <Text style={styles.title}>Performance Report</Text>
+
+        <View style={styles.card}>
+          <Text style={styles.label}>Account</Text>
+          {scopes.map((scope) => (
+            <TouchableOpacity
+              key={scope.id ?? 'all'}
+              style={styles.option}
+              onPress={() => setAccountId(scope.id)}
+            >
+              <MaterialIcons
+                name={accountId === scope.id ? 'radio-button-checked' : 'radio-button-unchecked'}
+                size={22}
+                color={DARK_THEME_COLORS.primary}
+              />
+              <Text style={styles.optionText}>{scope.label}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <View style={styles.card}>
+          <Text style={styles.label}>Period</Text>
+          <View style={styles.presets}>
+            {PERIOD_PRESETS.map((option) => (
+              <TouchableOpacity
+                key={option.key}
+                style={[styles.preset, preset === option.key && styles.presetActive]}
+                onPress={() => setPreset(option.key)}
+              >
+                <Text style={[styles.presetText, preset === option.key && styles.presetTextActive]}>
+                  {option.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          {preset === 'custom' && (
+            <>
+              <Text style={styles.dateLabel}>From</Text>
+              <DatePicker value={customFrom} onChange={setCustomFrom} maximumDate={new Date()} />
+              <Text style={styles.dateLabel}>To</Text>
+              <DatePicker value={customTo} onChange={setCustomTo} maximumDate={new Date()} />
+            </>
+          )}
+          <Text style={styles.periodText}>
+            {formatDate(period.from)} to {formatDate(period.to)}
+          </Text>
+        </View>
+
+        <Text style={styles.hint}>
+          The report has the balance curve, daily P/L, statistics, monthly returns and every
+          entry with its notes. All accounts are shown in the base currency, using your FX
+          rates.
+        </Text>
+
+        <View style={styles.actions}>
+          <Button
+            title={Platform.OS === 'web' ? 'Print or Save as PDF' : 'Share PDF'}
+            onPress={() => handleGenerate('pdf')}
+            loading={generating === 'pdf'}
+            disabled={generating !== null}
+          />
+          <Button
+            title="Share HTML"
+            variant="secondary"
+            onPress={() => handleGenerate('html')}
+            loading={generating === 'html'}
+            disabled={generating !== null}
+          />
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: DARK_THEME_COLORS.background,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: DARK_THEME_COLORS.background,
+  },
+  scrollContent: {
+    padding: 16,
+  },
+  backButton: {
+    marginBottom: 12,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: '700',
+    color: DARK_THEME_COLORS.text,
+    marginBottom: 16,
+  },
+  card: {
+    backgroundColor: DARK_THEME_COLORS.backgroundSecondary,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: DARK_THEME_COLORS.text,
+    marginBottom: 8,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 8,
+  },
+  optionText: {
+    fontSize: 15,
+    color: DARK_THEME_COLORS.text,
+  },
+  presets: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  preset: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    backgroundColor: DARK_THEME_COLORS.backgroundTertiary,
+  },
+  presetActive: {
+    backgroundColor: DARK_THEME_COLORS.primary,
+  },
+  presetText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: DARK_THEME_COLORS.textSecondary,
+  },
+  presetTextActive: {
+    color: '#FFFFFF',
+  },
+  dateLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: DARK_THEME_COLORS.textSecondary,
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  periodText: {
+    fontSize: 14,
+    color: DARK_THEME_COLORS.text,
+    marginTop: 12,
+  },
+  hint: {
+    fontSize: 13,
+    lineHeight: 18,
+    color: DARK_THEME_COLORS.textSecondary,
+    marginBottom: 16,
+  },
+  actions: {
+    gap: 12,
+  },
+});
+
+export default ReportScreen;
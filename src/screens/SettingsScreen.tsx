@@ -0,0 +1,155 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { MaterialIcons } from '@expo/vector-icons';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { CompositeScreenProps } from '@react-navigation/native';
+import { BottomTabScreenProps } from '@react-navigation/bottom-tabs';
+import { RootStackParamList, RootTabParamList } from '../types';
+import { isSignInRequired } from '../api';
+import { DARK_THEME_COLORS } from '../theme/darkTheme';
+
+type SettingsScreenProps = CompositeScreenProps<
+  BottomTabScreenProps<RootTabParamList, 'Settings'>,
+  NativeStackScreenProps<RootStackParamList>
+>;
+
+type SettingsRoute =
+  | 'Profile'
+  | 'Passcode'
+  | 'FxRates'
+  | 'Trash'
+  | 'Export'
+  | 'Report'
+  | 'Backup'
+  | 'Diagnostics';
+
+interface SettingsRow {
+  route: SettingsRoute;
+  icon: React.ComponentProps<typeof MaterialIcons>['name'];
+  title: string;
+  subtitle: string;
+}
+
+const SETTINGS_ROWS: SettingsRow[] = [
+  {
+    route: 'Profile',
+    icon: 'account-circle',
+    title: 'Profile',
+    subtitle: 'Signed-in user and sign out',
+  },
+  {
+    route: 'Passcode',
+    icon: 'lock-outline',
+    title: 'Passcode Lock',
+    subtitle: 'Lock the app and encrypt the journal on this device',
+  },
+  {
+    route: 'FxRates',
+    icon: 'currency-exchange',
+    title: 'Currencies',
+    subtitle: 'Base currency and FX rates',
+  },
+  {
+    route: 'Trash',
+    icon: 'delete-outline',
+    title: 'Trash',
+    subtitle: 'Restore or purge deleted accounts and entries',
+  },
+  {
+    route: 'Export',
+    icon: 'file-download',
+    title: 'Export to CSV',
+    subtitle: 'Entries of one or all accounts for spreadsheets',
+  },
+  {
+    route: 'Report',
+    icon: 'assessment',
+    title: 'Performance Report',
+    subtitle: 'A PDF summary of one or all accounts over a period',
+  },
+  {
+    route: 'Backup',
+    icon: 'settings-backup-restore',
+    title: 'Backup & Restore',
+    subtitle: 'Save the whole journal to a file or restore it',
+  },
+  {
+    route: 'Diagnostics',
+    icon: 'fact-check',
+    title: 'Data Check',
+    subtitle: 'Find and repair inconsistent balances and entries',
+  },
+];
+
+const SettingsScreen: React.FC<SettingsScreenProps> = ({ navigation }) => {
+  // Device-only storage has no signed-in user to show
+  const rows = SETTINGS_ROWS.filter((row) => row.route !== 'Profile' || isSignInRequired());
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView contentContainerStyle={styles.scrollContent}>
+        <Text style={styles.title}>Settings</Text>
+
+        {rows.map((row) => (
+          <TouchableOpacity
+            key={row.route}
+            style={styles.row}
+            onPress={() => navigation.navigate(row.route)}
+          >
+            <MaterialIcons name={row.icon} size={24} color={DARK_THEME_COLORS.primary} />
+            <View style={styles.rowInfo}>
+              <Text style={styles.rowTitle}>{row.title}</Text>
+              <Text style={styles.rowSubtitle}>{row.subtitle}</Text>
+            </View>
+            <MaterialIcons
+              name="chevron-right"
+              size={22}
+              color={DARK_THEME_COLORS.textSecondary}
+            />
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: DARK_THEME_COLORS.background,
+  },
+  scrollContent: {
+    padding: 16,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: '700',
+    color: DARK_THEME_COLORS.text,
+    marginBottom: 16,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: DARK_THEME_COLORS.backgroundSecondary,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 8,
+  },
+  rowInfo: {
+    flex: 1,
+  },
+  rowTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: DARK_THEME_COLORS.text,
+  },
+  rowSubtitle: {
+    fontSize: 13,
+    color: DARK_THEME_COLORS.textSecondary,
+    marginTop: 2,
+  },
+});
+
+export default SettingsScreen;
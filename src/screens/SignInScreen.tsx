@@ -0,0 +1,183 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { MaterialIcons } from '@expo/vector-icons';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import Button from '../components/Button';
+import { RootStackParamList } from '../types';
+import { signIn, signUp, AuthError } from '../api';
+import { DARK_THEME_COLORS } from '../theme/darkTheme';
+
+type SignInScreenProps = NativeStackScreenProps<RootStackParamList, 'SignIn'>;
+
+type AuthMode = 'signIn' | 'signUp';
+
+// The navigator swaps to the journal once Firebase reports the signed-in user
+const SignInScreen: React.FC<SignInScreenProps> = () => {
+  const [mode, setMode] = useState<AuthMode>('signIn');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const isSignUp = mode === 'signUp';
+
+  const toggleMode = () => {
+    setMode(isSignUp ? 'signIn' : 'signUp');
+    setPassword('');
+    setConfirmPassword('');
+  };
+
+  const handleSubmit = async () => {
+    if (!email.trim() || !password) {
+      Alert.alert('Error', 'Please enter your email and password');
+      return;
+    }
+    if (isSignUp && password !== confirmPassword) {
+      Alert.alert('Error', 'Passwords do not match');
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      if (isSignUp) {
+        await signUp(email, password);
+      } else {
+        await signIn(email, password);
+      }
+    } catch (error) {
+      console.error('Error signing in:', error);
+      Alert.alert(
+        isSignUp ? 'Sign Up Failed' : 'Sign In Failed',
+        error instanceof AuthError ? error.message : 'Please try again'
+      );
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <KeyboardAvoidingView
+        style={styles.content}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        <MaterialIcons
+          name="lock"
+          size={48}
+          color={DARK_THEME_COLORS.primary}
+          style={styles.icon}
+        />
+        <Text style={styles.title}>{isSignUp ? 'Create Account' : 'Sign In'}</Text>
+        <Text style={styles.subtitle}>
+          Your journal is private to your account and follows you across devices.
+        </Text>
+
+        <TextInput
+          style={styles.input}
+          placeholder="Email"
+          placeholderTextColor={DARK_THEME_COLORS.textTertiary}
+          value={email}
+          onChangeText={setEmail}
+          autoCapitalize="none"
+          autoCorrect={false}
+          keyboardType="email-address"
+          textContentType="emailAddress"
+        />
+
+        <TextInput
+          style={styles.input}
+          placeholder="Password"
+          placeholderTextColor={DARK_THEME_COLORS.textTertiary}
+          value={password}
+          onChangeText={setPassword}
+          secureTextEntry
+          textContentType={isSignUp ? 'newPassword' : 'password'}
+        />
+
+        {isSignUp && (
+          <TextInput
+            style={styles.input}
+            placeholder="Confirm password"
+            placeholderTextColor={DARK_THEME_COLORS.textTertiary}
+            value={confirmPassword}
+            onChangeText={setConfirmPassword}
+            secureTextEntry
+            textContentType="newPassword"
+          />
+        )}
+
+        <Button
+          title={isSignUp ? 'Create Account' : 'Sign In'}
+          onPress={handleSubmit}
+          loading={submitting}
+          disabled={submitting}
+        />
+
+        <TouchableOpacity style={styles.switchMode} onPress={toggleMode} disabled={submitting}>
+          <Text style={styles.switchModeText}>
+            {isSignUp ? 'Already have an account? Sign in' : 'New here? Create an account'}
+          </Text>
+        </TouchableOpacity>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: DARK_THEME_COLORS.background,
+  },
+  content: {
+    flex: 1,
+    justifyContent: 'center',
+    padding: 24,
+  },
+  icon: {
+    alignSelf: 'center',
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: '700',
+    color: DARK_THEME_COLORS.text,
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 14,
+    lineHeight: 20,
+    color: DARK_THEME_COLORS.textSecondary,
+    textAlign: 'center',
+    marginBottom: 24,
+  },
+  input: {
+    backgroundColor: DARK_THEME_COLORS.backgroundTertiary,
+    borderRadius: 8,
+    padding: 16,
+    fontSize: 16,
+    marginBottom: 16,
+    color: DARK_THEME_COLORS.text,
+    borderWidth: 1,
+    borderColor: DARK_THEME_COLORS.border,
+  },
+  switchMode: {
+    marginTop: 20,
+    alignItems: 'center',
+  },
+  switchModeText: {
+    fontSize: 15,
+    color: DARK_THEME_COLORS.primary,
+  },
+});
+
+export default SignInScreen;
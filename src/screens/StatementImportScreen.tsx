@@ -0,0 +1,485 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+  ScrollView,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { MaterialIcons } from '@expo/vector-icons';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import Button from '../components/Button';
+import { TradingAccount, RootStackParamList } from '../types';
+import {
+  getAccountById,
+  parseStatement,
+  previewStatementImport,
+  importStatement,
+  ParsedStatement,
+  StatementImportOptions,
+  StatementImportPreview,
+  StatementRowStatus,
+  ValidationError,
+} from '../api';
+import { pickBinaryFile } from '../utils/files';
+import { formatCurrency, formatDate } from '../utils/helpers';
+import { CASH_FLOW_LABELS } from '../constants';
+import { DARK_THEME_COLORS } from '../theme/darkTheme';
+
+type StatementImportScreenProps = NativeStackScreenProps<RootStackParamList, 'StatementImport'>;
+
+const STATEMENT_MIME_TYPES = [
+  'text/html',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+];
+
+const STATUS_LABELS: Record<Exclude<StatementRowStatus, 'new'>, string> = {
+  existing: 'Already in the journal',
+  future: 'Dated after today, skipped',
+};
+
+const DEFAULT_OPTIONS: StatementImportOptions = {
+  includeCashFlows: true,
+  onExistingDay: 'skip',
+};
+
+const StatementImportScreen: React.FC<StatementImportScreenProps> = ({ navigation, route }) => {
+  const { accountId } = route.params;
+  const [account, setAccount] = useState<TradingAccount | null>(null);
+  const [statement, setStatement] = useState<ParsedStatement | null>(null);
+  const [options, setOptions] = useState<StatementImportOptions>(DEFAULT_OPTIONS);
+  const [preview, setPreview] = useState<StatementImportPreview | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+  const [importing, setImporting] = useState(false);
+
+  useEffect(() => {
+    getAccountById(accountId)
+      .then(setAccount)
+      .catch((error) => console.error('Error loading account:', error));
+  }, [accountId]);
+
+  useEffect(() => {
+    if (!statement) {
+      return;
+    }
+    let cancelled = false;
+    setPreviewing(true);
+    previewStatementImport(accountId, statement, options)
+      .then((result) => {
+        if (!cancelled) {
+          setPreview(result);
+        }
+      })
+      .catch((error) => {
+        console.error('Error previewing statement import:', error);
+        Alert.alert('Error', 'Failed to compare the statement with the journal');
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setPreviewing(false);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [accountId, statement, options]);
+
+  const handlePickFile = async () => {
+    try {
+      const file = await pickBinaryFile(STATEMENT_MIME_TYPES);
+      if (!file) {
+        return;
+      }
+      setPreview(null);
+      setStatement(parseStatement(file.fileName, file.bytes));
+    } catch (error) {
+      console.error('Error opening statement:', error);
+      Alert.alert('Error', error instanceof ValidationError ? error.message : 'Failed to open the file');
+    }
+  };
+
+  const handleImport = async () => {
+    if (!preview) {
+      return;
+    }
+    try {
+      setImporting(true);
+      const result = await importStatement(preview);
+      const lines = [
+        `${result.daysCreated} days added and ${result.daysReplaced} replaced, with ${result.trades} trades.`,
+        `${result.cashFlows} deposits and withdrawals recorded.`,
+      ];
+      const { difference } = result.reconciliation;
+      if (difference !== undefined && difference !== 0 && account) {
+        lines.push(
+          `The journal differs from the statement's closing balance by ${formatCurrency(difference, account.currency)}.`
+        );
+      }
+      Alert.alert('Import Complete', lines.join('\n'));
+      navigation.goBack();
+    } catch (error) {
+      console.error('Error importing statement:', error);
+      Alert.alert('Error', 'Failed to import the statement');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const currency = account?.currency;
+  const existingDays = preview?.days.filter((day) => day.status === 'existing').length ?? 0;
+  const writeCount = preview
+    ? preview.days.filter(
+        (day) =>
+          day.status === 'new' ||
+          (day.status === 'existing' && options.onExistingDay === 'replace')
+      ).length +
+      (options.includeCashFlows
+        ? preview.cashFlows.filter((cashFlow) => cashFlow.status === 'new').length
+        : 0)
+    : 0;
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView contentContainerStyle={styles.scrollContent}>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <MaterialIcons name="arrow-back" size={24} color="#007AFF" />
+        </TouchableOpacity>
+
+        <Text style={styles.title}>Import Statement</Text>
+        {account && <Text style={styles.subtitle}>Into {account.name}</Text>}
+
+        <View style={styles.card}>
+          <Text style={styles.bodyText}>
+            {statement
+              ? `${statement.fileName}: ${statement.platform} statement${
+                  statement.accountNumber ? ` for account ${statement.accountNumber}` : ''
+                }`
+              : 'In MetaTrader, save the Detailed Statement (MT4) or the history report (MT5) as HTML or XLSX, then pick the file here.'}
+          </Text>
+          <Button
+            title={statement ? 'Choose Another File' : 'Choose File'}
+            variant={statement ? 'secondary' : 'primary'}
+            onPress={handlePickFile}
+            disabled={importing}
+          />
+        </View>
+
+        {statement && previewing && !preview && (
+          <ActivityIndicator size="large" color="#007AFF" style={styles.loading} />
+        )}
+
+        {preview && (
+          <>
+            {(preview.currencyMismatch || preview.unreadableRows > 0) && (
+              <View style={[styles.card, styles.warningCard]}>
+                {preview.currencyMismatch && (
+                  <Text style={styles.warningText}>
+                    The statement is in {preview.currencyMismatch.statement} but this account is
+                    in {preview.currencyMismatch.account}. Amounts are imported as they are.
+                  </Text>
+                )}
+                {preview.unreadableRows > 0 && (
+                  <Text style={styles.warningText}>
+                    {preview.unreadableRows} rows could not be read and are left out.
+                  </Text>
+                )}
+              </View>
+            )}
+
+            <View style={styles.card}>
+              <Text style={styles.label}>Deposits and withdrawals</Text>
+              <View style={styles.segments}>
+                {[true, false].map((include) => (
+                  <TouchableOpacity
+                    key={String(include)}
+                    style={[
+                      styles.segment,
+                      options.includeCashFlows === include && styles.segmentActive,
+                    ]}
+                    onPress={() => setOptions({ ...options, includeCashFlows: include })}
+                  >
+                    <Text
+                      style={[
+                        styles.segmentText,
+                        options.includeCashFlows === include && styles.segmentTextActive,
+                      ]}
+                    >
+                      {include ? 'Import' : 'Leave out'}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              {existingDays > 0 && (
+                <>
+                  <Text style={styles.label}>Days already in the journal</Text>
+                  <View style={styles.segments}>
+                    {(['skip', 'replace'] as const).map((policy) => (
+                      <TouchableOpacity
+                        key={policy}
+                        style={[
+                          styles.segment,
+                          options.onExistingDay === policy && styles.segmentActive,
+                        ]}
+                        onPress={() => setOptions({ ...options, onExistingDay: policy })}
+                      >
+                        <Text
+                          style={[
+                            styles.segmentText,
+                            options.onExistingDay === policy && styles.segmentTextActive,
+                          ]}
+                        >
+                          {policy === 'skip' ? 'Keep journal' : 'Use statement'}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                </>
+              )}
+            </View>
+
+            <View style={styles.card}>
+              <Text style={styles.label}>Reconciliation</Text>
+              <View style={styles.summaryRow}>
+                <Text style={styles.summaryLabel}>Statement closing balance</Text>
+                <Text style={styles.summaryValue}>
+                  {preview.reconciliation.statementBalance === undefined
+                    ? 'Not reported'
+                    : formatCurrency(preview.reconciliation.statementBalance, currency)}
+                </Text>
+              </View>
+              <View style={styles.summaryRow}>
+                <Text style={styles.summaryLabel}>Journal after import</Text>
+                <Text style={styles.summaryValue}>
+                  {formatCurrency(preview.reconciliation.journalBalance, currency)}
+                </Text>
+              </View>
+              {preview.reconciliation.difference !== undefined && (
+                <View style={styles.summaryRow}>
+                  <Text style={styles.summaryLabel}>Difference</Text>
+                  <Text
+                    style={[
+                      styles.summaryValue,
+                      {
+                        color:
+                          preview.reconciliation.difference === 0
+                            ? DARK_THEME_COLORS.profit
+                            : '#FF9500',
+                      },
+                    ]}
+                  >
+                    {formatCurrency(preview.reconciliation.difference, currency)}
+                  </Text>
+                </View>
+              )}
+              {preview.reconciliation.difference !== undefined &&
+                preview.reconciliation.difference !== 0 && (
+                  <Text style={styles.hint}>
+                    A difference usually means the statement does not cover the whole history of
+                    the account, or the initial balance already counts a deposit from the
+                    statement.
+                  </Text>
+                )}
+              {preview.reconciliation.dayDifferences.map((day) => (
+                <Text key={day.date.getTime()} style={styles.hint}>
+                  {formatDate(day.date)}: journal {formatCurrency(day.journalProfitLoss, currency)},
+                  statement {formatCurrency(day.statementProfitLoss, currency)}
+                </Text>
+              ))}
+            </View>
+
+            <Button
+              title={`Import ${writeCount} Entries`}
+              onPress={handleImport}
+              loading={importing}
+              disabled={importing || previewing || writeCount === 0}
+            />
+
+            {preview.days.length > 0 && <Text style={styles.sectionTitle}>Trading Days</Text>}
+            {preview.days.map((day) => (
+              <View key={day.dayKey} style={styles.row}>
+                <View style={styles.rowInfo}>
+                  <Text style={styles.rowTitle}>{formatDate(day.date)}</Text>
+                  <Text style={styles.rowSubtitle}>
+                    {day.trades.length} trades, commission{' '}
+                    {formatCurrency(day.commission, currency)}, swap{' '}
+                    {formatCurrency(day.swap, currency)}
+                  </Text>
+                  {day.status !== 'new' && (
+                    <Text style={styles.rowStatus}>{STATUS_LABELS[day.status]}</Text>
+                  )}
+                </View>
+                <Text
+                  style={[
+                    styles.rowAmount,
+                    {
+                      color:
+                        day.profitLoss >= 0 ? DARK_THEME_COLORS.profit : DARK_THEME_COLORS.loss,
+                    },
+                  ]}
+                >
+                  {formatCurrency(day.profitLoss, currency)}
+                </Text>
+              </View>
+            ))}
+
+            {preview.cashFlows.length > 0 && (
+              <Text style={styles.sectionTitle}>Balance Operations</Text>
+            )}
+            {preview.cashFlows.map(({ operation, status }) => (
+              <View key={`${operation.ticket}-${operation.time.getTime()}`} style={styles.row}>
+                <View style={styles.rowInfo}>
+                  <Text style={styles.rowTitle}>{CASH_FLOW_LABELS[operation.type]}</Text>
+                  <Text style={styles.rowSubtitle}>
+                    {formatDate(operation.time)}
+                    {operation.comment ? `, ${operation.comment}` : ''}
+                  </Text>
+                  {status !== 'new' && (
+                    <Text style={styles.rowStatus}>{STATUS_LABELS[status]}</Text>
+                  )}
+                </View>
+                <Text style={styles.rowAmount}>{formatCurrency(operation.amount, currency)}</Text>
+              </View>
+            ))}
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: DARK_THEME_COLORS.background,
+  },
+  scrollContent: {
+    padding: 16,
+  },
+  backButton: {
+    marginBottom: 12,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: '700',
+    color: DARK_THEME_COLORS.text,
+  },
+  subtitle: {
+    fontSize: 15,
+    color: DARK_THEME_COLORS.textSecondary,
+    marginTop: 4,
+  },
+  card: {
+    backgroundColor: DARK_THEME_COLORS.backgroundSecondary,
+    borderRadius: 12,
+    padding: 16,
+    marginTop: 16,
+    gap: 12,
+  },
+  warningCard: {
+    borderWidth: 1,
+    borderColor: '#FF9500',
+  },
+  warningText: {
+    fontSize: 14,
+    lineHeight: 20,
+    color: '#FF9500',
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: DARK_THEME_COLORS.text,
+  },
+  bodyText: {
+    fontSize: 14,
+    lineHeight: 20,
+    color: DARK_THEME_COLORS.textSecondary,
+  },
+  hint: {
+    fontSize: 13,
+    lineHeight: 18,
+    color: DARK_THEME_COLORS.textSecondary,
+  },
+  loading: {
+    marginTop: 32,
+  },
+  segments: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  segment: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 8,
+    backgroundColor: DARK_THEME_COLORS.backgroundTertiary,
+    alignItems: 'center',
+  },
+  segmentActive: {
+    backgroundColor: DARK_THEME_COLORS.primary,
+  },
+  segmentText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: DARK_THEME_COLORS.textSecondary,
+  },
+  segmentTextActive: {
+    color: '#FFFFFF',
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  summaryLabel: {
+    fontSize: 14,
+    color: DARK_THEME_COLORS.textSecondary,
+  },
+  summaryValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: DARK_THEME_COLORS.text,
+  },
+  sectionTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: DARK_THEME_COLORS.text,
+    marginTop: 24,
+    marginBottom: 4,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: DARK_THEME_COLORS.backgroundSecondary,
+    borderRadius: 8,
+    padding: 12,
+    marginTop: 8,
+    gap: 12,
+  },
+  rowInfo: {
+    flex: 1,
+  },
+  rowTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: DARK_THEME_COLORS.text,
+  },
+  rowSubtitle: {
+    fontSize: 13,
+    color: DARK_THEME_COLORS.textSecondary,
+    marginTop: 2,
+  },
+  rowStatus: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#FF9500',
+    marginTop: 4,
+  },
+  rowAmount: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: DARK_THEME_COLORS.text,
+  },
+});
+
+export default StatementImportScreen;
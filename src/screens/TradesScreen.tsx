@@ -0,0 +1,568 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  FlatList,
+  StyleSheet,
+  TextInput,
+  Modal,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+  ScrollView,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { MaterialIcons } from '@expo/vector-icons';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import TradeCard from '../components/TradeCard';
+import Button from '../components/Button';
+import { Trade, TradeDirection, RootStackParamList } from '../types';
+import { getTradesByEntry, createTrade, updateTrade, deleteTrade } from '../api';
+import {
+  formatCurrency,
+  formatDate,
+  calculateTradesProfitLoss,
+  sanitizeNumericInput,
+} from '../utils/helpers';
+import { DARK_THEME_COLORS } from '../theme/darkTheme';
+
+type TradesScreenProps = NativeStackScreenProps<RootStackParamList, 'Trades'>;
+
+interface TradeForm {
+  symbol: string;
+  direction: TradeDirection;
+  lotSize: string;
+  entryPrice: string;
+  exitPrice: string;
+  stopLoss: string;
+  takeProfit: string;
+  openTime: string;
+  closeTime: string;
+  profitLoss: string;
+}
+
+const EMPTY_FORM: TradeForm = {
+  symbol: '',
+  direction: 'buy',
+  lotSize: '',
+  entryPrice: '',
+  exitPrice: '',
+  stopLoss: '',
+  takeProfit: '',
+  openTime: '',
+  closeTime: '',
+  profitLoss: '',
+};
+
+const toTimeString = (date: Date): string => {
+  const hours = date.getHours().toString().padStart(2, '0');
+  const minutes = date.getMinutes().toString().padStart(2, '0');
+  return `${hours}:${minutes}`;
+};
+
+/**
+ * Combine the entry day with an HH:MM time, returning null for invalid times
+ */
+const combineDateAndTime = (day: Date, time: string): Date | null => {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time.trim());
+  if (!match) return null;
+  const hours = parseInt(match[1], 10);
+  const minutes = parseInt(match[2], 10);
+  if (hours > 23 || minutes > 59) return null;
+  const result = new Date(day);
+  result.setHours(hours, minutes, 0, 0);
+  return result;
+};
+
+const parseOptionalNumber = (value: string): number | undefined => {
+  if (!value) return undefined;
+  const parsed = parseFloat(value);
+  return isNaN(parsed) ? undefined : parsed;
+};
+
+const TradesScreen: React.FC<TradesScreenProps> = ({ navigation, route }) => {
+  const { account, entry } = route.params;
+  const [trades, setTrades] = useState<Trade[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [modalVisible, setModalVisible] = useState(false);
+  const [selectedTrade, setSelectedTrade] = useState<Trade | null>(null);
+  const [form, setForm] = useState<TradeForm>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+
+  const loadTrades = useCallback(async () => {
+    try {
+      setLoading(true);
+      const fetchedTrades = await getTradesByEntry(entry.id);
+      setTrades(fetchedTrades);
+    } catch (error) {
+      console.error('Error loading trades:', error);
+      Alert.alert('Error', 'Failed to load trades');
+    } finally {
+      setLoading(false);
+    }
+  }, [entry.id, account.id]);
+
+  useEffect(() => {
+    loadTrades();
+  }, [loadTrades]);
+
+  const updateNumericField = (field: keyof TradeForm) => (text: string) => {
+    setForm(prev => ({ ...prev, [field]: sanitizeNumericInput(text) }));
+  };
+
+  const openCreateModal = () => {
+    const now = toTimeString(new Date());
+    setSelectedTrade(null);
+    setForm({ ...EMPTY_FORM, openTime: now, closeTime: now });
+    setModalVisible(true);
+  };
+
+  const openEditModal = (trade: Trade) => {
+    setSelectedTrade(trade);
+    setForm({
+      symbol: trade.symbol,
+      direction: trade.direction,
+      lotSize: trade.lotSize.toString(),
+      entryPrice: trade.entryPrice.toString(),
+      exitPrice: trade.exitPrice.toString(),
+      stopLoss: trade.stopLoss?.toString() ?? '',
+      takeProfit: trade.takeProfit?.toString() ?? '',
+      openTime: toTimeString(trade.openTime),
+      closeTime: toTimeString(trade.closeTime),
+      profitLoss: trade.profitLoss.toString(),
+    });
+    setModalVisible(true);
+  };
+
+  const handleSaveTrade = async () => {
+    if (!form.symbol || !form.lotSize || !form.entryPrice || !form.exitPrice || !form.profitLoss) {
+      Alert.alert('Error', 'Please fill in symbol, lot size, prices and P/L');
+      return;
+    }
+
+    const lotSize = parseFloat(form.lotSize);
+    const entryPrice = parseFloat(form.entryPrice);
+    const exitPrice = parseFloat(form.exitPrice);
+    const profitLoss = parseFloat(form.profitLoss);
+    if ([lotSize, entryPrice, exitPrice, profitLoss].some(isNaN) || lotSize <= 0) {
+      Alert.alert('Error', 'Please enter valid numbers');
+      return;
+    }
+
+    const openTime = combineDateAndTime(entry.date, form.openTime);
+    const closeTime = combineDateAndTime(entry.date, form.closeTime);
+    if (!openTime || !closeTime) {
+      Alert.alert('Error', 'Please enter times as HH:MM');
+      return;
+    }
+    if (closeTime < openTime) {
+      Alert.alert('Error', 'Close time must be after open time');
+      return;
+    }
+
+    const tradeData = {
+      entryId: entry.id,
+      accountId: account.id,
+      symbol: form.symbol.trim().toUpperCase(),
+      direction: form.direction,
+      lotSize,
+      entryPrice,
+      exitPrice,
+      stopLoss: parseOptionalNumber(form.stopLoss),
+      takeProfit: parseOptionalNumber(form.takeProfit),
+      openTime,
+      closeTime,
+      profitLoss,
+    };
+
+    try {
+      setSaving(true);
+      if (selectedTrade) {
+        await updateTrade(selectedTrade.id, tradeData);
+      } else {
+        await createTrade(tradeData);
+      }
+      setModalVisible(false);
+      setSelectedTrade(null);
+      setForm(EMPTY_FORM);
+      await loadTrades();
+    } catch (error) {
+      console.error('Error saving trade:', error);
+      Alert.alert('Error', 'Failed to save trade');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteTrade = (trade: Trade) => {
+    Alert.alert(
+      'Delete Trade',
+      `Are you sure you want to delete this ${trade.symbol} trade?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteTrade(trade.id);
+              await loadTrades();
+            } catch (error) {
+              console.error('Error deleting trade:', error);
+              Alert.alert('Error', 'Failed to delete trade');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderHeader = () => {
+    const totalPL = calculateTradesProfitLoss(trades);
+    const isProfit = totalPL >= 0;
+
+    return (
+      <View style={styles.entryInfo}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => navigation.goBack()}
+        >
+          <MaterialIcons name="arrow-back" size={24} color="#007AFF" />
+        </TouchableOpacity>
+
+        <Text style={styles.title}>{formatDate(entry.date)}</Text>
+        <Text style={styles.subtitle}>{account.name}</Text>
+
+        <View style={styles.summaryCard}>
+          <Text style={styles.summaryLabel}>Day P/L from trades</Text>
+          <Text style={[styles.summaryValue, isProfit ? styles.profit : styles.loss]}>
+            {isProfit ? '+' : ''}
+            {formatCurrency(totalPL, account.currency)}
+          </Text>
+        </View>
+
+        <View style={styles.sectionHeader}>
+          <Text style={styles.sectionTitle}>Trades</Text>
+          <TouchableOpacity style={styles.addButton} onPress={openCreateModal}>
+            <MaterialIcons name="add" size={24} color="#FFFFFF" />
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#007AFF" />
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <FlatList
+        data={trades}
+        keyExtractor={(item) => item.id}
+        renderItem={({ item }) => (
+          <TradeCard
+            trade={item}
+            currency={account.currency}
+            onPress={() => openEditModal(item)}
+            onLongPress={() => handleDeleteTrade(item)}
+          />
+        )}
+        ListHeaderComponent={renderHeader}
+        contentContainerStyle={styles.listContent}
+        showsVerticalScrollIndicator={false}
+        ListEmptyComponent={
+          <View style={styles.emptyContainer}>
+            <MaterialIcons name="candlestick-chart" size={64} color="#E5E5EA" />
+            <Text style={styles.emptyText}>No trades yet</Text>
+            <Text style={styles.emptySubtext}>
+              Tap the + button to record the trades behind this day
+            </Text>
+          </View>
+        }
+      />
+
+      <Modal
+        visible={modalVisible}
+        animationType="slide"
+        transparent={true}
+        onRequestClose={() => setModalVisible(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>
+                {selectedTrade ? 'Edit Trade' : 'New Trade'}
+              </Text>
+              <TouchableOpacity onPress={() => setModalVisible(false)}>
+                <MaterialIcons name="close" size={24} color="#8E8E93" />
+              </TouchableOpacity>
+            </View>
+
+            <ScrollView showsVerticalScrollIndicator={false}>
+              <TextInput
+                style={styles.input}
+                placeholder="Symbol (e.g., EURUSD)"
+                value={form.symbol}
+                onChangeText={(text) => setForm({ ...form, symbol: text })}
+                autoCapitalize="characters"
+              />
+
+              <View style={styles.directionButtons}>
+                {(['buy', 'sell'] as TradeDirection[]).map((direction) => (
+                  <TouchableOpacity
+                    key={direction}
+                    style={[
+                      styles.directionButton,
+                      form.direction === direction &&
+                        (direction === 'buy' ? styles.buyActive : styles.sellActive),
+                    ]}
+                    onPress={() => setForm({ ...form, direction })}
+                  >
+                    <Text
+                      style={[
+                        styles.directionButtonText,
+                        form.direction === direction && styles.directionButtonTextActive,
+                      ]}
+                    >
+                      {direction.toUpperCase()}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              <TextInput
+                style={styles.input}
+                placeholder="Lot size"
+                value={form.lotSize}
+                onChangeText={updateNumericField('lotSize')}
+              />
+
+              <View style={styles.inputRow}>
+                <TextInput
+                  style={[styles.input, styles.halfInput]}
+                  placeholder="Entry price"
+                  value={form.entryPrice}
+                  onChangeText={updateNumericField('entryPrice')}
+                />
+                <TextInput
+                  style={[styles.input, styles.halfInput]}
+                  placeholder="Exit price"
+                  value={form.exitPrice}
+                  onChangeText={updateNumericField('exitPrice')}
+                />
+              </View>
+
+              <View style={styles.inputRow}>
+                <TextInput
+                  style={[styles.input, styles.halfInput]}
+                  placeholder="Stop loss (optional)"
+                  value={form.stopLoss}
+                  onChangeText={updateNumericField('stopLoss')}
+                />
+                <TextInput
+                  style={[styles.input, styles.halfInput]}
+                  placeholder="Take profit (optional)"
+                  value={form.takeProfit}
+                  onChangeText={updateNumericField('takeProfit')}
+                />
+              </View>
+
+              <View style={styles.inputRow}>
+                <TextInput
+                  style={[styles.input, styles.halfInput]}
+                  placeholder="Open (HH:MM)"
+                  value={form.openTime}
+                  onChangeText={(text) => setForm({ ...form, openTime: text })}
+                />
+                <TextInput
+                  style={[styles.input, styles.halfInput]}
+                  placeholder="Close (HH:MM)"
+                  value={form.closeTime}
+                  onChangeText={(text) => setForm({ ...form, closeTime: text })}
+                />
+              </View>
+
+              <TextInput
+                style={styles.input}
+                placeholder="Profit/Loss (e.g., 100 or -50)"
+                value={form.profitLoss}
+                onChangeText={updateNumericField('profitLoss')}
+              />
+
+              <Button
+                title={selectedTrade ? 'Update Trade' : 'Add Trade'}
+                onPress={handleSaveTrade}
+                loading={saving}
+                style={styles.saveButton}
+              />
+            </ScrollView>
+          </View>
+        </View>
+      </Modal>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: DARK_THEME_COLORS.background,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: DARK_THEME_COLORS.background,
+  },
+  listContent: {
+    padding: 16,
+  },
+  entryInfo: {
+    marginBottom: 16,
+  },
+  backButton: {
+    marginBottom: 12,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: '700',
+    color: DARK_THEME_COLORS.text,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: DARK_THEME_COLORS.textSecondary,
+    marginBottom: 16,
+  },
+  summaryCard: {
+    backgroundColor: DARK_THEME_COLORS.backgroundSecondary,
+    borderRadius: 12,
+    padding: 20,
+    marginBottom: 16,
+  },
+  summaryLabel: {
+    fontSize: 14,
+    color: DARK_THEME_COLORS.textSecondary,
+    marginBottom: 8,
+  },
+  summaryValue: {
+    fontSize: 28,
+    fontWeight: '700',
+  },
+  profit: {
+    color: DARK_THEME_COLORS.profit,
+  },
+  loss: {
+    color: DARK_THEME_COLORS.loss,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  sectionTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: DARK_THEME_COLORS.text,
+  },
+  addButton: {
+    backgroundColor: DARK_THEME_COLORS.primary,
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingVertical: 32,
+  },
+  emptyText: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: DARK_THEME_COLORS.textSecondary,
+    marginTop: 16,
+  },
+  emptySubtext: {
+    fontSize: 14,
+    color: DARK_THEME_COLORS.textSecondary,
+    textAlign: 'center',
+    marginTop: 8,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: DARK_THEME_COLORS.overlay,
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: DARK_THEME_COLORS.backgroundSecondary,
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 24,
+    maxHeight: '90%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 24,
+  },
+  modalTitle: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: DARK_THEME_COLORS.text,
+  },
+  input: {
+    backgroundColor: DARK_THEME_COLORS.backgroundTertiary,
+    borderRadius: 8,
+    padding: 16,
+    fontSize: 16,
+    marginBottom: 16,
+    color: DARK_THEME_COLORS.text,
+    borderWidth: 1,
+    borderColor: DARK_THEME_COLORS.border,
+  },
+  inputRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  halfInput: {
+    flex: 1,
+  },
+  directionButtons: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 16,
+  },
+  directionButton: {
+    flex: 1,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: DARK_THEME_COLORS.backgroundTertiary,
+    alignItems: 'center',
+  },
+  buyActive: {
+    backgroundColor: DARK_THEME_COLORS.profit,
+  },
+  sellActive: {
+    backgroundColor: DARK_THEME_COLORS.loss,
+  },
+  directionButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: DARK_THEME_COLORS.textSecondary,
+  },
+  directionButtonTextActive: {
+    color: '#FFFFFF',
+  },
+  saveButton: {
+    marginTop: 8,
+  },
+});
+
+export default TradesScreen;
@@ -0,0 +1,429 @@
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+  ScrollView,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { MaterialIcons } from '@expo/vector-icons';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { useFocusEffect } from '@react-navigation/native';
+import { TradingAccount, DailyEntry, CashFlowType, RootStackParamList } from '../types';
+import {
+  getTrash,
+  emptyTrash,
+  purgeExpiredTrash,
+  getAllAccounts,
+  getSettings,
+  updateSettings,
+  restoreAccount,
+  purgeAccount,
+  restoreEntry,
+  purgeEntry,
+  DuplicateEntryError,
+} from '../api';
+import { formatCurrency, formatDate, isCashFlowEntry } from '../utils/helpers';
+import { CASH_FLOW_LABELS, DEFAULTS, TRASH_RETENTION_OPTIONS } from '../constants';
+import { DARK_THEME_COLORS } from '../theme/darkTheme';
+
+type TrashScreenProps = NativeStackScreenProps<RootStackParamList, 'Trash'>;
+
+const TrashScreen: React.FC<TrashScreenProps> = ({ navigation }) => {
+  const [loading, setLoading] = useState(true);
+  const [trashedAccounts, setTrashedAccounts] = useState<TradingAccount[]>([]);
+  const [trashedEntries, setTrashedEntries] = useState<DailyEntry[]>([]);
+  const [accountsById, setAccountsById] = useState<Record<string, TradingAccount>>({});
+  const [retentionDays, setRetentionDays] = useState<number>(DEFAULTS.TRASH_RETENTION_DAYS);
+
+  const loadTrash = useCallback(async () => {
+    try {
+      setLoading(true);
+      const [trash, accounts, settings] = await Promise.all([
+        getTrash(),
+        getAllAccounts(),
+        getSettings(),
+      ]);
+      setTrashedAccounts(trash.accounts);
+      setTrashedEntries(trash.entries);
+      setAccountsById(Object.fromEntries(accounts.map((account) => [account.id, account])));
+      setRetentionDays(settings.trashRetentionDays);
+    } catch (error) {
+      console.error('Error loading trash:', error);
+      Alert.alert('Error', 'Failed to load trash');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadTrash();
+    }, [loadTrash])
+  );
+
+  const handleRetentionChange = async (days: number) => {
+    try {
+      setRetentionDays(days);
+      await updateSettings({ trashRetentionDays: days });
+      await purgeExpiredTrash();
+      await loadTrash();
+    } catch (error) {
+      console.error('Error updating trash retention:', error);
+      Alert.alert('Error', 'Failed to update trash retention');
+    }
+  };
+
+  const handleRestoreAccount = async (account: TradingAccount) => {
+    try {
+      await restoreAccount(account.id);
+      await loadTrash();
+    } catch (error) {
+      console.error('Error restoring account:', error);
+      Alert.alert('Error', 'Failed to restore account');
+    }
+  };
+
+  const handlePurgeAccount = (account: TradingAccount) => {
+    Alert.alert(
+      'Delete Forever',
+      `Permanently delete "${account.name}" and all of its entries? This cannot be undone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await purgeAccount(account.id);
+              await loadTrash();
+            } catch (error) {
+              console.error('Error purging account:', error);
+              Alert.alert('Error', 'Failed to delete account');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleRestoreEntry = async (entry: DailyEntry) => {
+    try {
+      await restoreEntry(entry.id);
+      await loadTrash();
+    } catch (error) {
+      console.error('Error restoring entry:', error);
+      if (error instanceof DuplicateEntryError) {
+        Alert.alert(
+          'Entry Not Restored',
+          `There is already an entry for ${formatDate(error.existingEntry.date)}. Delete or edit it first.`
+        );
+        return;
+      }
+      Alert.alert('Error', 'Failed to restore entry');
+    }
+  };
+
+  const handlePurgeEntry = (entry: DailyEntry) => {
+    Alert.alert(
+      'Delete Forever',
+      'Permanently delete this entry and its trades? This cannot be undone.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await purgeEntry(entry.id);
+              await loadTrash();
+            } catch (error) {
+              console.error('Error purging entry:', error);
+              Alert.alert('Error', 'Failed to delete entry');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleEmptyTrash = () => {
+    Alert.alert(
+      'Empty Trash',
+      'Permanently delete everything in the trash? This cannot be undone.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Empty',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await emptyTrash();
+              await loadTrash();
+            } catch (error) {
+              console.error('Error emptying trash:', error);
+              Alert.alert('Error', 'Failed to empty trash');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderActions = (onRestore: () => void, onPurge: () => void) => (
+    <View style={styles.rowActions}>
+      <TouchableOpacity style={styles.rowAction} onPress={onRestore}>
+        <MaterialIcons name="restore" size={22} color={DARK_THEME_COLORS.primary} />
+      </TouchableOpacity>
+      <TouchableOpacity style={styles.rowAction} onPress={onPurge}>
+        <MaterialIcons name="delete-forever" size={22} color={DARK_THEME_COLORS.loss} />
+      </TouchableOpacity>
+    </View>
+  );
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#007AFF" />
+      </SafeAreaView>
+    );
+  }
+
+  const isEmpty = trashedAccounts.length === 0 && trashedEntries.length === 0;
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView
+        contentContainerStyle={styles.scrollContent}
+        showsVerticalScrollIndicator={false}
+      >
+        <View style={styles.headerRow}>
+          <TouchableOpacity onPress={() => navigation.goBack()}>
+            <MaterialIcons name="arrow-back" size={24} color="#007AFF" />
+          </TouchableOpacity>
+          {!isEmpty && (
+            <TouchableOpacity onPress={handleEmptyTrash}>
+              <Text style={styles.emptyTrashText}>Empty Trash</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+
+        <Text style={styles.title}>Trash</Text>
+
+        <View style={styles.card}>
+          <Text style={styles.label}>Keep deleted items for</Text>
+          <View style={styles.retentionButtons}>
+            {TRASH_RETENTION_OPTIONS.map((days) => (
+              <TouchableOpacity
+                key={days}
+                style={[
+                  styles.retentionButton,
+                  retentionDays === days && styles.retentionButtonActive,
+                ]}
+                onPress={() => handleRetentionChange(days)}
+              >
+                <Text
+                  style={[
+                    styles.retentionButtonText,
+                    retentionDays === days && styles.retentionButtonTextActive,
+                  ]}
+                >
+                  {days === 0 ? 'Forever' : `${days} days`}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+
+        {isEmpty && (
+          <View style={styles.emptyContainer}>
+            <MaterialIcons name="delete-outline" size={64} color="#E5E5EA" />
+            <Text style={styles.emptyText}>Trash is empty</Text>
+            <Text style={styles.emptySubtext}>
+              Deleted accounts and entries appear here until they are purged
+            </Text>
+          </View>
+        )}
+
+        {trashedAccounts.length > 0 && (
+          <>
+            <Text style={styles.sectionTitle}>Accounts</Text>
+            {trashedAccounts.map((account) => (
+              <View key={account.id} style={styles.row}>
+                <View style={styles.rowInfo}>
+                  <Text style={styles.rowTitle}>{account.name}</Text>
+                  <Text style={styles.rowSubtitle}>
+                    {formatCurrency(account.currentBalance, account.currency)} · Deleted{' '}
+                    {account.deletedAt ? formatDate(account.deletedAt) : ''}
+                  </Text>
+                </View>
+                {renderActions(
+                  () => handleRestoreAccount(account),
+                  () => handlePurgeAccount(account)
+                )}
+              </View>
+            ))}
+          </>
+        )}
+
+        {trashedEntries.length > 0 && (
+          <>
+            <Text style={styles.sectionTitle}>Entries</Text>
+            {trashedEntries.map((entry) => {
+              const account = accountsById[entry.accountId];
+              const label = isCashFlowEntry(entry)
+                ? CASH_FLOW_LABELS[entry.type as CashFlowType]
+                : 'Trading day';
+              return (
+                <View key={entry.id} style={styles.row}>
+                  <View style={styles.rowInfo}>
+                    <Text style={styles.rowTitle}>
+                      {formatDate(entry.date)} · {label}
+                    </Text>
+                    <Text style={styles.rowSubtitle}>
+                      {account?.name ?? 'Unknown account'} ·{' '}
+                      {formatCurrency(entry.profitLoss, account?.currency)}
+                    </Text>
+                    {entry.deletedAt && (
+                      <Text style={styles.rowSubtitle}>
+                        Deleted {formatDate(entry.deletedAt)}
+                      </Text>
+                    )}
+                  </View>
+                  {renderActions(
+                    () => handleRestoreEntry(entry),
+                    () => handlePurgeEntry(entry)
+                  )}
+                </View>
+              );
+            })}
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: DARK_THEME_COLORS.background,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: DARK_THEME_COLORS.background,
+  },
+  scrollContent: {
+    padding: 16,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  emptyTrashText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: DARK_THEME_COLORS.loss,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: '700',
+    color: DARK_THEME_COLORS.text,
+    marginBottom: 16,
+  },
+  card: {
+    backgroundColor: DARK_THEME_COLORS.backgroundSecondary,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: DARK_THEME_COLORS.text,
+    marginBottom: 12,
+  },
+  retentionButtons: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  retentionButton: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 8,
+    backgroundColor: DARK_THEME_COLORS.backgroundTertiary,
+    alignItems: 'center',
+  },
+  retentionButtonActive: {
+    backgroundColor: DARK_THEME_COLORS.primary,
+  },
+  retentionButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: DARK_THEME_COLORS.textSecondary,
+  },
+  retentionButtonTextActive: {
+    color: '#FFFFFF',
+  },
+  sectionTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: DARK_THEME_COLORS.text,
+    marginTop: 8,
+    marginBottom: 12,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: DARK_THEME_COLORS.backgroundSecondary,
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+  },
+  rowInfo: {
+    flex: 1,
+  },
+  rowTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: DARK_THEME_COLORS.text,
+  },
+  rowSubtitle: {
+    fontSize: 12,
+    color: DARK_THEME_COLORS.textSecondary,
+    marginTop: 2,
+  },
+  rowActions: {
+    flexDirection: 'row',
+    gap: 4,
+  },
+  rowAction: {
+    padding: 6,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingVertical: 48,
+    paddingHorizontal: 32,
+  },
+  emptyText: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#8E8E93',
+    marginTop: 16,
+  },
+  emptySubtext: {
+    fontSize: 14,
+    color: '#8E8E93',
+    textAlign: 'center',
+    marginTop: 8,
+  },
+});
+
+export default TrashScreen;
@@ -0,0 +1,191 @@
+/**
+ * Prop-firm challenge rules evaluator.
+ * Runs over an account's DailyEntry history; cash-flow transactions are ignored
+ * so deposits and payouts never count as profit or drawdown.
+ */
+
+import { TradingAccount, DailyEntry, ChallengeRules } from '../models';
+import { getTradingEntries, getTradingDayKey } from './helpers';
+
+export type ChallengeStatus = 'passed' | 'failed' | 'in_progress';
+
+export type ChallengeRuleKey =
+  | 'profitTarget'
+  | 'maxDailyLoss'
+  | 'maxDrawdown'
+  | 'minTradingDays'
+  | 'consistency';
+
+export interface ChallengeRuleResult {
+  rule: ChallengeRuleKey;
+  label: string;
+  status: ChallengeStatus;
+  // Current value and limit, in account currency (days for minTradingDays, % for consistency)
+  current: number;
+  limit: number;
+  // Room left before the limit is breached, or still needed to reach a target
+  remaining: number;
+}
+
+export interface ChallengeEvaluation {
+  status: ChallengeStatus;
+  rules: ChallengeRuleResult[];
+}
+
+const percentOf = (base: number, percent: number): number => (base * percent) / 100;
+
+const evaluateProfitTarget = (
+  initialBalance: number,
+  percent: number,
+  totalProfit: number
+): ChallengeRuleResult => {
+  const limit = percentOf(initialBalance, percent);
+  return {
+    rule: 'profitTarget',
+    label: 'Profit Target',
+    status: totalProfit >= limit ? 'passed' : 'in_progress',
+    current: totalProfit,
+    limit,
+    remaining: Math.max(limit - totalProfit, 0),
+  };
+};
+
+const evaluateMaxDailyLoss = (
+  initialBalance: number,
+  percent: number,
+  entries: DailyEntry[]
+): ChallengeRuleResult => {
+  const limit = percentOf(initialBalance, percent);
+  const breached = entries.some((entry) => -entry.profitLoss >= limit);
+  const todayKey = getTradingDayKey(new Date());
+  const today = entries.find((entry) => getTradingDayKey(entry.date) === todayKey);
+  const todayLoss = today ? Math.max(-today.profitLoss, 0) : 0;
+
+  return {
+    rule: 'maxDailyLoss',
+    label: 'Max Daily Loss',
+    status: breached ? 'failed' : 'in_progress',
+    current: todayLoss,
+    limit,
+    remaining: breached ? 0 : limit - todayLoss,
+  };
+};
+
+const evaluateMaxDrawdown = (
+  initialBalance: number,
+  rules: ChallengeRules,
+  entries: DailyEntry[]
+): ChallengeRuleResult => {
+  const limit = percentOf(initialBalance, rules.maxDrawdownPercent ?? 0);
+  let equity = initialBalance;
+  let peak = initialBalance;
+  let floor = initialBalance - limit;
+  let breached = false;
+
+  entries.forEach((entry) => {
+    equity += entry.profitLoss;
+    if (equity <= floor) {
+      breached = true;
+    }
+    if (rules.drawdownType === 'trailing' && equity > peak) {
+      peak = equity;
+      floor = peak - limit;
+    }
+  });
+
+  const drawdown = (rules.drawdownType === 'trailing' ? peak : initialBalance) - equity;
+
+  return {
+    rule: 'maxDrawdown',
+    label: rules.drawdownType === 'trailing' ? 'Max Trailing Drawdown' : 'Max Drawdown',
+    status: breached ? 'failed' : 'in_progress',
+    current: Math.max(drawdown, 0),
+    limit,
+    remaining: breached ? 0 : equity - floor,
+  };
+};
+
+const evaluateMinTradingDays = (
+  minDays: number,
+  entries: DailyEntry[]
+): ChallengeRuleResult => {
+  const tradedDays = new Set(entries.map((entry) => getTradingDayKey(entry.date))).size;
+  return {
+    rule: 'minTradingDays',
+    label: 'Minimum Trading Days',
+    status: tradedDays >= minDays ? 'passed' : 'in_progress',
+    current: tradedDays,
+    limit: minDays,
+    remaining: Math.max(minDays - tradedDays, 0),
+  };
+};
+
+const evaluateConsistency = (
+  percent: number,
+  entries: DailyEntry[],
+  totalProfit: number
+): ChallengeRuleResult => {
+  const bestDay = entries.reduce((max, entry) => Math.max(max, entry.profitLoss), 0);
+  const share = totalProfit > 0 ? (bestDay / totalProfit) * 100 : 0;
+  const met = totalProfit > 0 && share <= percent;
+
+  return {
+    rule: 'consistency',
+    label: 'Consistency',
+    status: met ? 'passed' : 'in_progress',
+    current: share,
+    limit: percent,
+    // Profit still needed so the best day falls within the allowed share
+    remaining: met ? 0 : Math.max((bestDay * 100) / percent - totalProfit, 0),
+  };
+};
+
+/**
+ * Evaluate every configured challenge rule against the account history
+ */
+export const evaluateChallenge = (
+  account: TradingAccount,
+  entries: DailyEntry[]
+): ChallengeEvaluation | null => {
+  const rules = account.challenge;
+  if (!rules) {
+    return null;
+  }
+
+  const tradingEntries = getTradingEntries(entries).sort(
+    (a, b) => a.date.getTime() - b.date.getTime()
+  );
+  const totalProfit = tradingEntries.reduce((sum, entry) => sum + entry.profitLoss, 0);
+  const results: ChallengeRuleResult[] = [];
+
+  if (rules.profitTargetPercent) {
+    results.push(evaluateProfitTarget(account.initialBalance, rules.profitTargetPercent, totalProfit));
+  }
+  if (rules.maxDailyLossPercent) {
+    results.push(evaluateMaxDailyLoss(account.initialBalance, rules.maxDailyLossPercent, tradingEntries));
+  }
+  if (rules.maxDrawdownPercent) {
+    results.push(evaluateMaxDrawdown(account.initialBalance, rules, tradingEntries));
+  }
+  if (rules.minTradingDays) {
+    results.push(evaluateMinTradingDays(rules.minTradingDays, tradingEntries));
+  }
+  if (rules.consistencyPercent) {
+    results.push(evaluateConsistency(rules.consistencyPercent, tradingEntries, totalProfit));
+  }
+
+  // Loss limits fail the challenge; it passes once every target-style rule is met
+  let status: ChallengeStatus = 'in_progress';
+  if (results.some((result) => result.status === 'failed')) {
+    status = 'failed';
+  } else if (
+    rules.profitTargetPercent &&
+    results
+      .filter((result) => result.rule !== 'maxDailyLoss' && result.rule !== 'maxDrawdown')
+      .every((result) => result.status === 'passed')
+  ) {
+    status = 'passed';
+  }
+
+  return { status, rules: results };
+};
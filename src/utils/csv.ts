@@ -0,0 +1,101 @@
+/**
+ * CSV reading and writing following RFC 4180: comma separated, CRLF line breaks,
+ * and fields quoted when they hold a comma, a quote or a line break.
+ * Reading also accepts the semicolon separator spreadsheets use in comma-decimal locales.
+ */
+
+// Lets Excel detect UTF-8, so accented notes and currency symbols survive
+const UTF8_BOM = '\uFEFF';
+
+// Spreadsheets run cells starting with these as formulas
+const FORMULA_PREFIXES = ['=', '+', '-', '@'];
+
+/**
+ * Quote a field when needed, doubling the quotes it contains
+ */
+export const escapeCsvField = (value: string): string =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * Keep free text from being run as a spreadsheet formula by prefixing an apostrophe
+ */
+export const toCsvText = (value: string): string =>
+  FORMULA_PREFIXES.some((prefix) => value.startsWith(prefix)) ? `'${value}` : value;
+
+/**
+ * Undo toCsvText, dropping the apostrophe it put in front of formula-like text
+ */
+export const fromCsvText = (value: string): string =>
+  value.startsWith("'") && FORMULA_PREFIXES.some((prefix) => value[1] === prefix)
+    ? value.slice(1)
+    : value;
+
+/**
+ * Build a CSV document from a header row and data rows
+ */
+export const toCsv = (header: string[], rows: string[][]): string =>
+  UTF8_BOM +
+  [header, ...rows].map((row) => row.map(escapeCsvField).join(',')).join('\r\n') +
+  '\r\n';
+
+/**
+ * Guess the field separator from the first line: semicolon when it splits the line
+ * more often than the comma does
+ */
+const detectDelimiter = (text: string): string => {
+  const firstLine = text.split(/\r?\n/, 1)[0];
+  const count = (separator: string) => firstLine.split(separator).length;
+  return count(';') > count(',') ? ';' : ',';
+};
+
+/**
+ * Parse a CSV document into rows of fields.
+ * Quoted fields may hold separators, doubled quotes and line breaks; blank lines are dropped.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const source = text.startsWith(UTF8_BOM) ? text.slice(1) : text;
+  const delimiter = detectDelimiter(source);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.some((value) => value.trim() !== '')) {
+      rows.push(row);
+    }
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') {
+        i++;
+      }
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    endRow();
+  }
+  return rows;
+};
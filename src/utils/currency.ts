@@ -0,0 +1,125 @@
+/**
+ * Currency conversion over the user's dated FX rate table
+ */
+
+import { FxRate, DailyEntry, TradingAccount } from '../models';
+
+/**
+ * Rate effective on a date for a currency pair: the latest rate dated on or before it,
+ * or the earliest known rate when the table does not go back that far
+ */
+const findDirectRate = (
+  rates: FxRate[],
+  from: string,
+  to: string,
+  date: Date
+): number | null => {
+  const candidates = rates
+    .filter((rate) => rate.from === from && rate.to === to)
+    .sort((a, b) => a.effectiveDate.getTime() - b.effectiveDate.getTime());
+  if (candidates.length === 0) {
+    return null;
+  }
+  const effective = candidates.filter((rate) => rate.effectiveDate.getTime() <= date.getTime());
+  return (effective.length > 0 ? effective[effective.length - 1] : candidates[0]).rate;
+};
+
+/**
+ * Rate for a pair using the direct quote or its inverse
+ */
+const findPairRate = (
+  rates: FxRate[],
+  from: string,
+  to: string,
+  date: Date
+): number | null => {
+  const direct = findDirectRate(rates, from, to, date);
+  if (direct !== null) {
+    return direct;
+  }
+  const inverse = findDirectRate(rates, to, from, date);
+  return inverse ? 1 / inverse : null;
+};
+
+/**
+ * Conversion rate from one currency to another on a date.
+ * Falls back to crossing through a third currency present in the table.
+ */
+export const getConversionRate = (
+  rates: FxRate[],
+  from: string,
+  to: string,
+  date: Date = new Date()
+): number | null => {
+  if (from === to) {
+    return 1;
+  }
+  const pairRate = findPairRate(rates, from, to, date);
+  if (pairRate !== null) {
+    return pairRate;
+  }
+
+  const intermediates = new Set(rates.flatMap((rate) => [rate.from, rate.to]));
+  for (const via of intermediates) {
+    if (via === from || via === to) continue;
+    const first = findPairRate(rates, from, via, date);
+    const second = first !== null ? findPairRate(rates, via, to, date) : null;
+    if (first !== null && second !== null) {
+      return first * second;
+    }
+  }
+  return null;
+};
+
+/**
+ * Convert an amount, returning null when no rate is known for the pair
+ */
+export const convertAmount = (
+  amount: number,
+  rates: FxRate[],
+  from: string,
+  to: string,
+  date: Date = new Date()
+): number | null => {
+  const rate = getConversionRate(rates, from, to, date);
+  return rate === null ? null : amount * rate;
+};
+
+/**
+ * Convert an account's entries into the base currency using each entry's own date,
+ * so historical figures do not move when newer rates are added
+ */
+export const convertEntries = (
+  entries: DailyEntry[],
+  rates: FxRate[],
+  from: string,
+  to: string
+): DailyEntry[] | null => {
+  const converted: DailyEntry[] = [];
+  for (const entry of entries) {
+    const rate = getConversionRate(rates, from, to, entry.date);
+    if (rate === null) {
+      return null;
+    }
+    converted.push({
+      ...entry,
+      profitLoss: entry.profitLoss * rate,
+      balance: entry.balance * rate,
+    });
+  }
+  return converted;
+};
+
+/**
+ * Currencies of the given accounts that cannot be converted into the base currency
+ */
+export const findUnconvertibleCurrencies = (
+  accounts: TradingAccount[],
+  rates: FxRate[],
+  baseCurrency: string
+): string[] => {
+  const currencies = new Set(accounts.map((account) => account.currency));
+  return [...currencies].filter(
+    (currency) => getConversionRate(rates, currency, baseCurrency) === null
+  );
+};
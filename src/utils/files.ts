@@ -0,0 +1,169 @@
+/**
+ * Move files between the app and the user: the share sheet or document picker on mobile,
+ * a download or file input on the web
+ */
+
+import { Platform } from 'react-native';
+import { File, Paths } from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import * as Print from 'expo-print';
+import * as DocumentPicker from 'expo-document-picker';
+
+export interface ShareableFile {
+  fileName: string;
+  content: string;
+  mimeType: string;
+  // Uniform Type Identifier, used by the iOS share sheet
+  uti?: string;
+}
+
+export interface PickedTextFile {
+  fileName: string;
+  content: string;
+}
+
+export interface PickedBinaryFile {
+  fileName: string;
+  bytes: Uint8Array;
+}
+
+// How long a download's object URL is kept before it is released, in milliseconds
+const DOWNLOAD_URL_LIFETIME = 10000;
+
+/**
+ * Start a browser download of a text file
+ */
+const downloadOnWeb = ({ fileName, content, mimeType }: ShareableFile): void => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  // Revoking straight after the click can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), DOWNLOAD_URL_LIFETIME);
+};
+
+/**
+ * Write a text file to the cache directory and open the share sheet for it.
+ * Throws when the device offers no way to share files.
+ */
+export const shareTextFile = async (file: ShareableFile): Promise<void> => {
+  if (Platform.OS === 'web') {
+    downloadOnWeb(file);
+    return;
+  }
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing files is not available on this device');
+  }
+
+  const cached = new File(Paths.cache, file.fileName);
+  cached.create({ overwrite: true });
+  cached.write(file.content);
+  await Sharing.shareAsync(cached.uri, {
+    mimeType: file.mimeType,
+    UTI: file.uti,
+    dialogTitle: file.fileName,
+  });
+};
+
+/**
+ * Open the browser's print dialog for an HTML document, from which it can be saved as a PDF.
+ * The document goes in a hidden frame so the app page itself is not printed.
+ */
+const printOnWeb = (html: string): void => {
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  document.body.appendChild(frame);
+  const printWindow = frame.contentWindow;
+  if (!printWindow) {
+    document.body.removeChild(frame);
+    throw new Error('Printing is not available in this browser');
+  }
+  printWindow.document.open();
+  printWindow.document.write(html);
+  printWindow.document.close();
+  printWindow.addEventListener('afterprint', () => document.body.removeChild(frame));
+  printWindow.focus();
+  printWindow.print();
+};
+
+/**
+ * Render an HTML file to a PDF named after it and open the share sheet for the PDF.
+ * On the web the browser's print dialog opens instead.
+ */
+export const sharePdf = async (file: ShareableFile): Promise<void> => {
+  if (Platform.OS === 'web') {
+    printOnWeb(file.content);
+    return;
+  }
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing files is not available on this device');
+  }
+
+  const { uri } = await Print.printToFileAsync({ html: file.content });
+  // The printed file has a generated name; give it the report's name before sharing
+  const pdf = new File(Paths.cache, file.fileName.replace(/\.html?$/i, '') + '.pdf');
+  if (pdf.exists) {
+    pdf.delete();
+  }
+  new File(uri).move(pdf);
+  await Sharing.shareAsync(pdf.uri, {
+    mimeType: 'application/pdf',
+    UTI: 'com.adobe.pdf',
+    dialogTitle: pdf.name,
+  });
+};
+
+/**
+ * Open the document picker for one file; null when it is dismissed
+ */
+const pickDocument = async (
+  mimeTypes: string[]
+): Promise<DocumentPicker.DocumentPickerAsset | null> => {
+  const result = await DocumentPicker.getDocumentAsync({
+    type: mimeTypes,
+    copyToCacheDirectory: true,
+  });
+  return result.canceled || result.assets.length === 0 ? null : result.assets[0];
+};
+
+/**
+ * Let the user pick a text file and read it; null when the picker is dismissed
+ */
+export const pickTextFile = async (mimeTypes: string[]): Promise<PickedTextFile | null> => {
+  const asset = await pickDocument(mimeTypes);
+  if (!asset) {
+    return null;
+  }
+  // The web picker hands over a browser File; native pickers a copy in the cache directory
+  const content = asset.file ? await asset.file.text() : await new File(asset.uri).text();
+  return { fileName: asset.name, content };
+};
+
+/**
+ * Let the user pick a file and read its raw bytes; null when the picker is dismissed
+ */
+export const pickBinaryFile = async (mimeTypes: string[]): Promise<PickedBinaryFile | null> => {
+  const asset = await pickDocument(mimeTypes);
+  if (!asset) {
+    return null;
+  }
+  const bytes = asset.file
+    ? new Uint8Array(await asset.file.arrayBuffer())
+    : await new File(asset.uri).bytes();
+  return { fileName: asset.name, bytes };
+};
+
+/**
+ * Turn a name into something safe to use in a file name
+ */
+export const toFileNamePart = (name: string): string =>
+  name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '') || 'export';
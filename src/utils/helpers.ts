@@ -1,4 +1,24 @@
-import { DailyEntry } from '../types';
+import { DailyEntry, Trade, TradingAccount } from '../types';
+
+/**
+ * Cash-flow transactions move money in or out of an account without being trading results
+ */
+export const isCashFlowEntry = (entry: DailyEntry): boolean => {
+  return entry.type !== undefined && entry.type !== 'trading';
+};
+
+/**
+ * Keep only trading days, excluding deposits, withdrawals and other cash flows
+ */
+export const getTradingEntries = (entries: DailyEntry[]): DailyEntry[] => {
+  return entries.filter((entry) => !isCashFlowEntry(entry));
+};
+
+export const calculateNetCashFlow = (entries: DailyEntry[]): number => {
+  return entries
+    .filter(isCashFlowEntry)
+    .reduce((acc, entry) => acc + entry.profitLoss, 0);
+};
 
 export const calculateBalance = (
   initialBalance: number,
@@ -36,19 +56,103 @@ export const formatDateTime = (date: Date): string => {
 };
 
 export const calculateTotalProfitLoss = (entries: DailyEntry[]): number => {
-  return entries.reduce((acc, entry) => acc + entry.profitLoss, 0);
+  return getTradingEntries(entries).reduce((acc, entry) => acc + entry.profitLoss, 0);
+};
+
+/**
+ * Derive a day's profit/loss from the trades recorded for it
+ */
+export const calculateTradesProfitLoss = (trades: Trade[]): number => {
+  return trades.reduce((acc, trade) => acc + trade.profitLoss, 0);
 };
 
 export const calculateWinRate = (entries: DailyEntry[]): number => {
-  if (entries.length === 0) return 0;
-  const wins = entries.filter((entry) => entry.profitLoss > 0).length;
-  return (wins / entries.length) * 100;
+  const tradingEntries = getTradingEntries(entries);
+  if (tradingEntries.length === 0) return 0;
+  const wins = tradingEntries.filter((entry) => entry.profitLoss > 0).length;
+  return (wins / tradingEntries.length) * 100;
+};
+
+export interface TradingStatistics {
+  totalProfit: number;
+  totalLoss: number;
+  winDays: number;
+  lossDays: number;
+  averageDailyPnL: number;
+  winRate: number;
+}
+
+/**
+ * Profit, loss and win/loss day figures shown in the Statistics panel and the report
+ */
+export const calculateStatistics = (entries: DailyEntry[]): TradingStatistics => {
+  // Deposits, withdrawals and other cash flows are not trading results
+  const tradingEntries = getTradingEntries(entries);
+
+  if (tradingEntries.length === 0) {
+    return {
+      totalProfit: 0,
+      totalLoss: 0,
+      winDays: 0,
+      lossDays: 0,
+      averageDailyPnL: 0,
+      winRate: 0,
+    };
+  }
+
+  let totalProfit = 0;
+  let totalLoss = 0;
+  let winDays = 0;
+  let lossDays = 0;
+
+  tradingEntries.forEach((entry) => {
+    if (entry.profitLoss > 0) {
+      totalProfit += entry.profitLoss;
+      winDays++;
+    } else if (entry.profitLoss < 0) {
+      totalLoss += entry.profitLoss;
+      lossDays++;
+    }
+  });
+
+  const totalPnL = tradingEntries.reduce((sum, entry) => sum + entry.profitLoss, 0);
+
+  return {
+    totalProfit,
+    totalLoss,
+    winDays,
+    lossDays,
+    averageDailyPnL: totalPnL / tradingEntries.length,
+    winRate: (winDays / tradingEntries.length) * 100,
+  };
+};
+
+/**
+ * Trading P/L of an account, excluding money deposited or withdrawn
+ */
+export const calculateAccountProfitLoss = (account: TradingAccount): number => {
+  return account.currentBalance - account.initialBalance - (account.netCashFlow ?? 0);
 };
 
 export const getDateString = (date: Date): string => {
   return date.toISOString().split('T')[0];
 };
 
+/**
+ * Calendar day (YYYY-MM-DD) of a date in the device's local time zone.
+ * Entries are journaled per local trading day, not per UTC day.
+ */
+export const getTradingDayKey = (date: Date): string => {
+  const year = date.getFullYear();
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+  const day = date.getDate().toString().padStart(2, '0');
+  return `${year}-${month}-${day}`;
+};
+
+export const isSameTradingDay = (a: Date, b: Date): boolean => {
+  return getTradingDayKey(a) === getTradingDayKey(b);
+};
+
 /**
  * Sanitize numeric input to allow only valid decimal numbers (including negative)
  * Allows: -123.45, 123, -123, 123.45
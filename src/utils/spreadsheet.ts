@@ -0,0 +1,151 @@
+/**
+ * Read report files as grids of cell text: HTML tables and the first sheet of an XLSX workbook.
+ * Spanned and merged cells keep their value in their first column, so both formats line up
+ * with the column positions of the report.
+ */
+
+import { unzipSync, strFromU8 } from 'fflate';
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+/**
+ * Replace named and numeric character references
+ */
+const decodeEntities = (text: string): string =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, name: string) => {
+    if (name[0] === '#') {
+      const hex = name[1].toLowerCase() === 'x';
+      return String.fromCodePoint(hex ? parseInt(name.slice(2), 16) : Number(name.slice(1)));
+    }
+    return XML_ENTITIES[name.toLowerCase()] ?? match;
+  });
+
+/**
+ * Turn the markup of a cell into its visible text
+ */
+const toCellText = (markup: string): string =>
+  decodeEntities(markup.replace(/<br\s*\/?>/gi, ' ').replace(/<[^>]*>/g, ''))
+    .replace(/\s+/g, ' ')
+    .trim();
+
+/**
+ * Decode a text file, honouring a UTF-16 or UTF-8 byte order mark.
+ * Files that are not valid UTF-8 are read as Latin-1.
+ */
+export const decodeTextFile = (bytes: Uint8Array): string => {
+  const utf16 = (littleEndian: boolean, start: number) => {
+    let text = '';
+    for (let i = start; i + 1 < bytes.length; i += 2) {
+      text += String.fromCharCode(
+        littleEndian ? bytes[i] | (bytes[i + 1] << 8) : (bytes[i] << 8) | bytes[i + 1]
+      );
+    }
+    return text;
+  };
+
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+    return utf16(true, 2);
+  }
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return utf16(false, 2);
+  }
+  const start = bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf ? 3 : 0;
+  const text = strFromU8(bytes.subarray(start));
+  return text.includes('\uFFFD') ? strFromU8(bytes.subarray(start), true) : text;
+};
+
+/**
+ * Whether the bytes are a ZIP archive, which is what an XLSX workbook is
+ */
+export const isZipFile = (bytes: Uint8Array): boolean =>
+  bytes[0] === 0x50 && bytes[1] === 0x4b && bytes[2] === 0x03 && bytes[3] === 0x04;
+
+/**
+ * Read every table row of an HTML document in document order
+ */
+export const readHtmlTableRows = (html: string): string[][] => {
+  const rows: string[][] = [];
+  const rowPattern = /<tr\b[^>]*>([\s\S]*?)(?=<tr\b|<\/table>|$)/gi;
+  const cellPattern = /<t([dh])\b([^>]*)>([\s\S]*?)(?=<t[dh]\b|<\/tr>|$)/gi;
+
+  for (const [, rowMarkup] of html.matchAll(rowPattern)) {
+    const cells: string[] = [];
+    for (const [, , attributes, cellMarkup] of rowMarkup.matchAll(cellPattern)) {
+      cells.push(toCellText(cellMarkup));
+      const span = Number(/colspan\s*=\s*["']?(\d+)/i.exec(attributes)?.[1] ?? 1);
+      for (let i = 1; i < span; i++) {
+        cells.push('');
+      }
+    }
+    if (cells.length > 0) {
+      rows.push(cells);
+    }
+  }
+  return rows;
+};
+
+/**
+ * Column index of a cell reference such as "AB12"
+ */
+const toColumnIndex = (reference: string): number => {
+  const letters = /^[A-Z]+/.exec(reference)?.[0] ?? 'A';
+  return [...letters].reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+};
+
+/**
+ * Read the rows of the first worksheet of an XLSX workbook
+ */
+export const readXlsxRows = (bytes: Uint8Array): string[][] => {
+  const files = unzipSync(bytes);
+  const sheetName = Object.keys(files)
+    .filter((name) => /^xl\/worksheets\/sheet\d+\.xml$/.test(name))
+    .sort((a, b) => Number(/\d+/.exec(a)?.[0]) - Number(/\d+/.exec(b)?.[0]))[0];
+  if (!sheetName) {
+    throw new Error('The workbook has no worksheets');
+  }
+
+  const sharedXml = files['xl/sharedStrings.xml'] ? strFromU8(files['xl/sharedStrings.xml']) : '';
+  // Rich text splits a string into runs, each with its own <t>
+  const sharedStrings = [...sharedXml.matchAll(/<si>([\s\S]*?)<\/si>/g)].map(([, item]) =>
+    decodeEntities([...item.matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g)].map(([, t]) => t).join(''))
+  );
+
+  const rows: string[][] = [];
+  const sheetXml = strFromU8(files[sheetName]);
+  for (const [, rowXml] of sheetXml.matchAll(/<row\b[^>]*>([\s\S]*?)<\/row>/g)) {
+    const cells: string[] = [];
+    for (const [, attributes, content = ''] of rowXml.matchAll(
+      /<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g
+    )) {
+      const reference = /\br="([A-Z]+\d+)"/.exec(attributes)?.[1];
+      const type = /\bt="(\w+)"/.exec(attributes)?.[1];
+      const value = /<v>([\s\S]*?)<\/v>/.exec(content)?.[1] ?? '';
+
+      let text = '';
+      if (type === 's') {
+        text = sharedStrings[Number(value)] ?? '';
+      } else if (type === 'inlineStr') {
+        text = [...content.matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g)].map(([, t]) => t).join('');
+      } else {
+        text = value;
+      }
+
+      const column = reference ? toColumnIndex(reference) : cells.length;
+      while (cells.length < column) {
+        cells.push('');
+      }
+      cells[column] = decodeEntities(text).replace(/\s+/g, ' ').trim();
+    }
+    if (cells.some((cell) => cell !== '')) {
+      rows.push(cells);
+    }
+  }
+  return rows;
+};
@@ -0,0 +1,173 @@
+/**
+ * Static SVG charts rendered as markup, for documents built outside React Native
+ * such as the printable report. Nothing is loaded from outside the markup.
+ */
+
+export interface ChartPoint {
+  label: string;
+  value: number;
+}
+
+export interface ChartOptions {
+  width: number;
+  height: number;
+  formatValue: (value: number) => string;
+}
+
+interface PlotArea {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  min: number;
+  max: number;
+}
+
+const AXIS_COLOR = '#C7C7CC';
+const LABEL_COLOR = '#8E8E93';
+const LINE_COLOR = '#007AFF';
+const PROFIT_COLOR = '#34C759';
+const LOSS_COLOR = '#FF3B30';
+const GRID_LINES = 4;
+const MARGIN = { left: 72, right: 12, top: 12, bottom: 28 };
+
+/**
+ * Escape text for use in HTML or SVG markup, inside elements or attribute values
+ */
+export const escapeMarkup = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+/**
+ * Round a coordinate so the markup stays short
+ */
+const round = (value: number): string => (Math.round(value * 10) / 10).toString();
+
+/**
+ * Lay out the plot area for a value range, widened a little so lines do not touch the edges
+ */
+const getPlotArea = (values: number[], options: ChartOptions, includeZero: boolean): PlotArea => {
+  let min = Math.min(...values, ...(includeZero ? [0] : []));
+  let max = Math.max(...values, ...(includeZero ? [0] : []));
+  if (min === max) {
+    const pad = Math.abs(min) * 0.1 || 1;
+    min -= pad;
+    max += pad;
+  } else if (!includeZero) {
+    const pad = (max - min) * 0.05;
+    min -= pad;
+    max += pad;
+  }
+  return {
+    left: MARGIN.left,
+    top: MARGIN.top,
+    width: options.width - MARGIN.left - MARGIN.right,
+    height: options.height - MARGIN.top - MARGIN.bottom,
+    min,
+    max,
+  };
+};
+
+/**
+ * Vertical position of a value in the plot area
+ */
+const toY = (area: PlotArea, value: number): number =>
+  area.top + area.height - ((value - area.min) / (area.max - area.min)) * area.height;
+
+/**
+ * Horizontal grid lines with their value labels
+ */
+const renderGrid = (area: PlotArea, options: ChartOptions): string => {
+  const lines: string[] = [];
+  for (let i = 0; i <= GRID_LINES; i++) {
+    const value = area.min + ((area.max - area.min) * i) / GRID_LINES;
+    const y = round(toY(area, value));
+    lines.push(
+      `<line x1="${area.left}" y1="${y}" x2="${area.left + area.width}" y2="${y}" stroke="${AXIS_COLOR}" stroke-width="0.5"/>`,
+      `<text x="${area.left - 6}" y="${y}" font-size="10" fill="${LABEL_COLOR}" text-anchor="end" dominant-baseline="middle">${escapeMarkup(options.formatValue(value))}</text>`
+    );
+  }
+  return lines.join('');
+};
+
+/**
+ * Labels under the first, middle and last points, so long series stay readable
+ */
+const renderXLabels = (
+  area: PlotArea,
+  points: ChartPoint[],
+  toX: (index: number) => number
+): string => {
+  const indexes = [...new Set([0, Math.floor((points.length - 1) / 2), points.length - 1])];
+  return indexes
+    .map((index) => {
+      const anchor = index === 0 ? 'start' : index === points.length - 1 ? 'end' : 'middle';
+      return `<text x="${round(toX(index))}" y="${area.top + area.height + 18}" font-size="10" fill="${LABEL_COLOR}" text-anchor="${anchor}">${escapeMarkup(points[index].label)}</text>`;
+    })
+    .join('');
+};
+
+/**
+ * Wrap chart content in an svg element of the chart's size
+ */
+const wrapSvg = (options: ChartOptions, content: string): string =>
+  `<svg xmlns="http://www.w3.org/2000/svg" width="${options.width}" height="${options.height}" viewBox="0 0 ${options.width} ${options.height}">${content}</svg>`;
+
+/**
+ * Line chart of a series, such as a balance curve
+ */
+export const renderLineChart = (points: ChartPoint[], options: ChartOptions): string => {
+  if (points.length === 0) {
+    return wrapSvg(options, '');
+  }
+  const area = getPlotArea(
+    points.map((point) => point.value),
+    options,
+    false
+  );
+  const toX = (index: number) =>
+    points.length === 1
+      ? area.left + area.width / 2
+      : area.left + (index / (points.length - 1)) * area.width;
+  const coordinates = points.map(
+    (point, index) => `${round(toX(index))},${round(toY(area, point.value))}`
+  );
+  const line =
+    points.length === 1
+      ? `<circle cx="${round(toX(0))}" cy="${round(toY(area, points[0].value))}" r="3" fill="${LINE_COLOR}"/>`
+      : `<polyline points="${coordinates.join(' ')}" fill="none" stroke="${LINE_COLOR}" stroke-width="2" stroke-linejoin="round"/>`;
+  return wrapSvg(options, renderGrid(area, options) + line + renderXLabels(area, points, toX));
+};
+
+/**
+ * Bar chart around a zero line, green above it and red below, such as daily P/L
+ */
+export const renderBarChart = (points: ChartPoint[], options: ChartOptions): string => {
+  if (points.length === 0) {
+    return wrapSvg(options, '');
+  }
+  const area = getPlotArea(
+    points.map((point) => point.value),
+    options,
+    true
+  );
+  const slot = area.width / points.length;
+  const barWidth = Math.max(slot * 0.7, 1);
+  const toX = (index: number) => area.left + slot * index + slot / 2;
+  const zero = toY(area, 0);
+  const bars = points
+    .map((point, index) => {
+      const y = toY(area, point.value);
+      return `<rect x="${round(toX(index) - barWidth / 2)}" y="${round(Math.min(y, zero))}" width="${round(barWidth)}" height="${round(Math.abs(zero - y))}" fill="${point.value >= 0 ? PROFIT_COLOR : LOSS_COLOR}"/>`;
+    })
+    .join('');
+  const baseline = `<line x1="${area.left}" y1="${round(zero)}" x2="${area.left + area.width}" y2="${round(zero)}" stroke="${LABEL_COLOR}" stroke-width="1"/>`;
+  return wrapSvg(
+    options,
+    renderGrid(area, options) + bars + baseline + renderXLabels(area, points, toX)
+  );
+};